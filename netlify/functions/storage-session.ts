@@ -0,0 +1,29 @@
+import { json } from '../lib/clinicStore';
+import { authenticate, getSigningSecret, signIn } from '../lib/storageAuth';
+
+// Checks a user's credentials against the saved user list and issues the token
+// the storage function expects, so no shared key has to ship in the app bundle.
+// The app also posts here to confirm a password or unlock PIN mid-session.
+export default async (request: Request) => {
+  const secret = getSigningSecret();
+  if (!secret) {
+    return json({ error: 'Storage server is not configured' }, 503);
+  }
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const { username, password, pin } = await request.json();
+  if (typeof username !== 'string' || (typeof password !== 'string' && typeof pin !== 'string')) {
+    return json({ error: 'Missing username or password' }, 400);
+  }
+
+  const result = typeof pin === 'string'
+    ? await signIn(username, pin, 'pin', await authenticate(request, secret), secret)
+    : await signIn(username, password, 'password', null, secret);
+  return 'token' in result ? json({ token: result.token }) : json({ error: result.error }, result.status);
+};
+
+export const config = {
+  path: '/api/storage',
+};
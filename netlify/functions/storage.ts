@@ -0,0 +1,63 @@
+import type { User } from '../../src/types';
+import { STORAGE_KEYS } from '../../src/utils/storageKeys';
+import { handleAuditLog } from '../lib/auditLog';
+import { json, readValue, saveValue } from '../lib/clinicStore';
+import { canAccess, getPermissions, mergeUsers, readableUsers } from '../lib/storageAccess';
+import { authenticate, getSigningSecret } from '../lib/storageAuth';
+
+// Server side of the HTTP storage adapter (src/utils/storageAdapters.ts).
+// Every request carries the token issued by storage-session.ts when the user
+// signed in, and each key is checked against that user's role permissions.
+export default async (request: Request, context: { params: Record<string, string> }) => {
+  const secret = getSigningSecret();
+  if (!secret) {
+    return json({ error: 'Storage server is not configured' }, 503);
+  }
+  const user = await authenticate(request, secret);
+  if (!user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const key = context.params.key;
+  if (!key) {
+    return json({ error: 'Missing key' }, 400);
+  }
+
+  const permissions = await getPermissions(user);
+  if (key === STORAGE_KEYS.AUDIT_LOG) {
+    return handleAuditLog(request, user, permissions);
+  }
+
+  switch (request.method) {
+    case 'GET': {
+      if (!canAccess(user, permissions, key, 'read')) {
+        return json({ error: 'Forbidden' }, 403);
+      }
+      const value = await readValue(key);
+      if (value === null) {
+        return json({ error: 'Not found' }, 404);
+      }
+      return json({ value: key === STORAGE_KEYS.USERS ? readableUsers(value as User[], permissions) : value });
+    }
+    case 'PUT': {
+      if (!canAccess(user, permissions, key, 'write')) {
+        return json({ error: 'Forbidden' }, 403);
+      }
+      const body = await request.json();
+      if (key === STORAGE_KEYS.USERS) {
+        const saved = await readValue<User[]>(key);
+        await saveValue(key, saved ? mergeUsers(saved, body.value, user, permissions) : body.value);
+      } else {
+        await saveValue(key, body.value);
+      }
+      return json({ ok: true });
+    }
+    // Stores are replaced as a whole by PUT and never removed
+    default:
+      return json({ error: 'Method not allowed' }, 405);
+  }
+};
+
+export const config = {
+  path: '/api/storage/:key',
+};
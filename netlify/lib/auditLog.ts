@@ -0,0 +1,57 @@
+import type { AuditAction, AuditEntry, AuditLogQuery, Permission, User } from '../../src/types';
+import { STORAGE_KEYS } from '../../src/utils/storageKeys';
+import { appendAuditEntries, json, readAuditEntries } from './clinicStore';
+import { canAccess } from './storageAccess';
+
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
+
+const readQuery = (params: URLSearchParams): AuditLogQuery => {
+  const count = (name: string, fallback: number) => {
+    const value = parseInt(params.get(name) || '');
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    userId: params.get('userId') || undefined,
+    entity: params.get('entity') || undefined,
+    action: (params.get('action') || undefined) as AuditAction | undefined,
+    fromDate: params.get('fromDate') || undefined,
+    toDate: params.get('toDate') || undefined,
+    offset: count('offset', 0),
+    limit: Math.min(Math.max(count('limit', DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE),
+  };
+};
+
+// The audit log key of the storage function. Entries are added by POST and read
+// in pages; there is no PUT or DELETE, so the log cannot be rewritten or cleared.
+export const handleAuditLog = async (request: Request, user: User, permissions: Permission[]) => {
+  switch (request.method) {
+    case 'GET': {
+      if (!canAccess(user, permissions, STORAGE_KEYS.AUDIT_LOG, 'read')) {
+        return json({ error: 'Forbidden' }, 403);
+      }
+      return json(await readAuditEntries(readQuery(new URL(request.url).searchParams)));
+    }
+    case 'POST': {
+      if (!canAccess(user, permissions, STORAGE_KEYS.AUDIT_LOG, 'write')) {
+        return json({ error: 'Forbidden' }, 403);
+      }
+      const body = await request.json();
+      if (!Array.isArray(body.entries)) {
+        return json({ error: 'Missing entries' }, 400);
+      }
+      // Who made the change and when are taken from the token and the server clock
+      const timestamp = new Date().toISOString();
+      const entries: AuditEntry[] = body.entries.map((entry: AuditEntry) => ({
+        ...entry,
+        timestamp,
+        userId: user.id,
+        userName: user.name,
+      }));
+      if (entries.length > 0) await appendAuditEntries(entries);
+      return json({ ok: true });
+    }
+    default:
+      return json({ error: 'Method not allowed' }, 405);
+  }
+};
@@ -0,0 +1,98 @@
+import { neon } from '@netlify/neon';
+import type { AuditEntry, AuditLogPage, AuditLogQuery } from '../../src/types';
+import { AUDIT_RETENTION_DAYS } from '../../src/utils/audit';
+import { STORAGE_KEYS } from '../../src/utils/storageKeys';
+
+// Shared by the storage functions. Each storage key is one row; the value is kept as JSONB.
+// The audit log has a table of its own with one row per entry, so it can only be added to.
+const sql = neon();
+
+let tableReady: Promise<unknown> | null = null;
+let auditTableReady: Promise<unknown> | null = null;
+
+const ensureTable = () => {
+  if (!tableReady) {
+    tableReady = sql`
+      CREATE TABLE IF NOT EXISTS clinic_store (
+        key TEXT PRIMARY KEY,
+        value JSONB NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `;
+  }
+  return tableReady;
+};
+
+export const readValue = async <T>(key: string): Promise<T | null> => {
+  await ensureTable();
+  const rows = await sql`SELECT value FROM clinic_store WHERE key = ${key}`;
+  return rows.length > 0 ? rows[0].value as T : null;
+};
+
+export const saveValue = async <T>(key: string, value: T): Promise<void> => {
+  await ensureTable();
+  await sql`
+    INSERT INTO clinic_store (key, value, updated_at)
+    VALUES (${key}, ${JSON.stringify(value)}::jsonb, NOW())
+    ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()
+  `;
+};
+
+// A log saved as an ordinary key before it had its own table is moved across in one statement
+const ensureAuditTable = () => {
+  if (!auditTableReady) {
+    auditTableReady = (async () => {
+      await ensureTable();
+      await sql`
+        CREATE TABLE IF NOT EXISTS clinic_audit_log (
+          seq BIGSERIAL PRIMARY KEY,
+          entry JSONB NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `;
+      await sql`
+        WITH moved AS (DELETE FROM clinic_store WHERE key = ${STORAGE_KEYS.AUDIT_LOG} RETURNING value)
+        INSERT INTO clinic_audit_log (entry, created_at)
+        SELECT entry, COALESCE((entry->>'timestamp')::timestamptz, NOW())
+        FROM moved, jsonb_array_elements(moved.value) AS entry
+      `;
+    })();
+  }
+  return auditTableReady;
+};
+
+// Entries past the retention period are dropped as new ones arrive
+export const appendAuditEntries = async (entries: AuditEntry[]): Promise<void> => {
+  await ensureAuditTable();
+  await sql`
+    INSERT INTO clinic_audit_log (entry)
+    SELECT entry FROM jsonb_array_elements(${JSON.stringify(entries)}::jsonb) AS entry
+  `;
+  await sql`DELETE FROM clinic_audit_log WHERE created_at < NOW() - make_interval(days => ${AUDIT_RETENTION_DAYS})`;
+};
+
+// Newest first. Filters left out match every entry; dates compare on the day part of the timestamp.
+export const readAuditEntries = async (query: AuditLogQuery): Promise<AuditLogPage> => {
+  await ensureAuditTable();
+  const { userId = null, entity = null, action = null, fromDate = null, toDate = null } = query;
+  const rows = await sql`
+    SELECT entry FROM clinic_audit_log
+    WHERE (${userId}::text IS NULL OR entry->>'userId' = ${userId})
+      AND (${entity}::text IS NULL OR entry->>'entity' = ${entity})
+      AND (${action}::text IS NULL OR entry->>'action' = ${action})
+      AND (${fromDate}::text IS NULL OR LEFT(entry->>'timestamp', 10) >= ${fromDate})
+      AND (${toDate}::text IS NULL OR LEFT(entry->>'timestamp', 10) <= ${toDate})
+    ORDER BY seq DESC
+    LIMIT ${query.limit + 1} OFFSET ${query.offset}
+  `;
+  return {
+    entries: rows.slice(0, query.limit).map(row => row.entry as AuditEntry),
+    hasMore: rows.length > query.limit,
+  };
+};
+
+export const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
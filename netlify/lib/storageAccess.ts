@@ -0,0 +1,102 @@
+import type { Permission, RolePermissions, User } from '../../src/types';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS } from '../../src/utils/permissions';
+import { MIGRATION_KEY, STORAGE_KEYS } from '../../src/utils/storageKeys';
+import { readValue } from './clinicStore';
+
+// 'signedIn' lets any signed-in user through; otherwise the role needs one of the listed permissions
+type Access = 'signedIn' | Permission[];
+
+// Who may read and write each key. Writes follow the screens that save the
+// store (a sale also updates stock, patients and visits); reads stay open where
+// the app loads the store for every user. Nobody may replace a store they
+// cannot read, since the app treats an unreadable store as empty. Keys not
+// listed are for administrators only.
+const STORE_ACCESS: Record<string, { read: Access; write: Access }> = {
+  [STORAGE_KEYS.MEDICINES]: { read: 'signedIn', write: ['view_medicines', 'view_purchases', 'view_suppliers', 'view_sales', 'restore_backup'] },
+  [STORAGE_KEYS.CUSTOMERS]: { read: 'signedIn', write: ['view_patients', 'view_appointments', 'view_token_queue', 'view_sales', 'restore_backup'] },
+  [STORAGE_KEYS.VISITS]: { read: 'signedIn', write: ['view_patients', 'record_visits', 'view_appointments', 'view_sales', 'restore_backup'] },
+  [STORAGE_KEYS.PRESCRIPTIONS]: { read: 'signedIn', write: ['view_patients', 'record_visits', 'view_sales', 'restore_backup'] },
+  [STORAGE_KEYS.APPOINTMENTS]: { read: 'signedIn', write: ['view_appointments', 'restore_backup'] },
+  [STORAGE_KEYS.TOKENS]: { read: 'signedIn', write: ['view_token_queue', 'restore_backup'] },
+  [STORAGE_KEYS.REMINDERS]: { read: 'signedIn', write: ['view_reminders', 'restore_backup'] },
+  [STORAGE_KEYS.SALES]: { read: 'signedIn', write: ['view_sales', 'restore_backup'] },
+  [STORAGE_KEYS.SALE_RETURNS]: { read: 'signedIn', write: ['view_sales', 'restore_backup'] },
+  [STORAGE_KEYS.PURCHASES]: { read: 'signedIn', write: ['view_purchases', 'restore_backup'] },
+  [STORAGE_KEYS.SUPPLIERS]: { read: 'signedIn', write: ['view_suppliers', 'view_purchases', 'restore_backup'] },
+  [STORAGE_KEYS.SUPPLIER_PAYMENTS]: { read: 'signedIn', write: ['view_suppliers', 'restore_backup'] },
+  // Stock alerts are refreshed by whoever is signed in when stock changes
+  [STORAGE_KEYS.NOTIFICATIONS]: { read: 'signedIn', write: 'signedIn' },
+  [STORAGE_KEYS.SETTINGS]: { read: 'signedIn', write: ['manage_settings', 'restore_backup'] },
+  // The gateway keys go only to the screens that send messages
+  [STORAGE_KEYS.SMS_CONFIG]: { read: ['manage_settings', 'view_sales', 'view_reminders'], write: ['manage_settings'] },
+  [STORAGE_KEYS.SMS_LOG]: { read: 'signedIn', write: 'signedIn' },
+  // Password material is removed or protected by readableUsers and mergeUsers below
+  [STORAGE_KEYS.USERS]: { read: 'signedIn', write: 'signedIn' },
+  [STORAGE_KEYS.SESSION_LOG]: { read: 'signedIn', write: 'signedIn' },
+  [STORAGE_KEYS.ROLE_PERMISSIONS]: { read: 'signedIn', write: ['manage_users'] },
+  // Writing here means appending entries (see auditLog.ts); the log is never replaced
+  [STORAGE_KEYS.AUDIT_LOG]: { read: ['view_audit_log'], write: 'signedIn' },
+  [MIGRATION_KEY]: { read: 'signedIn', write: 'signedIn' },
+};
+
+// Fields a user without manage_users may change on their own record
+const SELF_SERVICE_FIELDS: (keyof User)[] = [
+  'passwordHash', 'mustChangePassword', 'passwordChangedAt', 'pinHash',
+  'failedLoginAttempts', 'lockedUntil', 'lastLogin',
+];
+
+const PASSWORD_FIELDS: (keyof User)[] = ['password', 'passwordHash', 'pinHash'];
+
+// The same matrix the app checks (authService.hasPermission): the saved role
+// permissions over the defaults, with administrators holding every permission
+export const getPermissions = async (user: User): Promise<Permission[]> => {
+  if (user.role === 'admin') return PERMISSIONS.map(p => p.id);
+  const saved = await readValue<Partial<RolePermissions>>(STORAGE_KEYS.ROLE_PERMISSIONS);
+  return { ...DEFAULT_ROLE_PERMISSIONS, ...saved }[user.role] || [];
+};
+
+export const canAccess = (user: User, permissions: Permission[], key: string, mode: 'read' | 'write'): boolean => {
+  if (user.role === 'admin') return true;
+  const access = STORE_ACCESS[key]?.[mode];
+  if (!access) return false;
+  return access === 'signedIn' || access.some(permission => permissions.includes(permission));
+};
+
+const withoutPasswords = (user: User): User => {
+  const copy = { ...user };
+  PASSWORD_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+};
+
+// Only user managers see password hashes; everyone else gets the list without them
+export const readableUsers = (users: User[], permissions: Permission[]): User[] =>
+  permissions.includes('manage_users') ? users : users.map(withoutPasswords);
+
+// User managers may change any record, but a list read without hashes must not
+// wipe them, so hashes missing from a record are kept from the saved one. Anyone
+// else can only update the self-service fields of their own record.
+export const mergeUsers = (saved: User[], incoming: User[], user: User, permissions: Permission[]): User[] => {
+  if (permissions.includes('manage_users')) {
+    return incoming.map(record => {
+      const existing = saved.find(u => u.id === record.id);
+      if (!existing || record.passwordHash || record.password) return record;
+      return { ...record, passwordHash: existing.passwordHash, password: existing.password, pinHash: record.pinHash ?? existing.pinHash };
+    });
+  }
+
+  const own = incoming.find(record => record.id === user.id);
+  return saved.map(record => {
+    if (record.id !== user.id || !own) return record;
+    const updated: User = { ...record };
+    SELF_SERVICE_FIELDS.forEach(field => {
+      if (own[field] === undefined) delete updated[field];
+      else Object.assign(updated, { [field]: own[field] });
+    });
+    // The record was read without hashes, so a missing one means unchanged
+    if (!own.passwordHash) updated.passwordHash = record.passwordHash;
+    if (!own.pinHash) updated.pinHash = record.pinHash;
+    // A new password hash replaces any plaintext password left from before hashing
+    if (own.passwordHash && own.passwordHash !== record.passwordHash) delete updated.password;
+    return updated;
+  });
+};
@@ -0,0 +1,128 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { SettingsData, User } from '../../src/types';
+import { DEFAULT_SECURITY_SETTINGS, hashPassword, needsRehash, verifyPassword } from '../../src/utils/passwords';
+import { STORAGE_KEYS } from '../../src/utils/storageKeys';
+import { readValue, saveValue } from './clinicStore';
+
+const USERS_KEY = STORAGE_KEYS.USERS;
+const SETTINGS_KEY = STORAGE_KEYS.SETTINGS;
+
+// Until the app has saved its user list, only the default administrator seeded
+// by src/utils/auth.ts can sign in, and is then made to change the password
+const BOOTSTRAP_ADMIN: User = {
+  id: 'admin-001',
+  username: 'admin',
+  password: 'admin123',
+  role: 'admin',
+  name: 'System Administrator',
+  isActive: true,
+  createdAt: '',
+};
+
+interface TokenPayload {
+  sub: string;
+  exp: number;
+}
+
+export type SignInResult = { token: string } | { error: string; status: number };
+
+// STORAGE_API_KEY stays on the server; it only signs the tokens handed out at sign-in
+export const getSigningSecret = (): string | null => process.env.STORAGE_API_KEY || null;
+
+const sign = (data: string, secret: string) => createHmac('sha256', secret).update(data).digest('base64url');
+
+const createToken = (payload: TokenPayload, secret: string): string => {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data, secret)}`;
+};
+
+const readToken = (token: string, secret: string): TokenPayload | null => {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as TokenPayload;
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+const getSecurity = async () => {
+  const settings = await readValue<SettingsData>(SETTINGS_KEY);
+  return { ...DEFAULT_SECURITY_SETTINGS, ...settings?.security };
+};
+
+const checkPassword = (user: User, password: string): Promise<boolean> => {
+  if (user.passwordHash) return verifyPassword(password, user.passwordHash);
+  return Promise.resolve(user.password === password);
+};
+
+// Failed attempts and lockouts are counted here, since with a storage server
+// the app leaves checking the password to the server
+const recordFailedAttempt = async (users: User[], user: User): Promise<SignInResult> => {
+  const policy = await getSecurity();
+  const failedLoginAttempts = (user.failedLoginAttempts || 0) + 1;
+  const locked = failedLoginAttempts >= policy.maxFailedAttempts;
+  const update: Partial<User> = locked
+    ? { failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + policy.lockoutMinutes * 60 * 1000).toISOString() }
+    : { failedLoginAttempts };
+  await saveValue(USERS_KEY, users.map(u => u.id === user.id ? { ...u, ...update } : u));
+
+  return locked
+    ? { error: `Too many failed attempts. The account is locked for ${policy.lockoutMinutes} minutes.`, status: 401 }
+    : { error: 'Invalid username or password', status: 401 };
+};
+
+// A PIN is only accepted from the user who already holds a valid token, to
+// unlock an idle screen; it never starts a session on its own. Wrong PINs are
+// counted by the app, which ends the session after too many.
+export const signIn = async (
+  username: string,
+  secret: string,
+  kind: 'password' | 'pin',
+  currentUser: User | null,
+  signingSecret: string,
+): Promise<SignInResult> => {
+  const users = await readValue<User[]>(USERS_KEY);
+  const user = (users || [BOOTSTRAP_ADMIN]).find(u => u.username === username && u.isActive);
+  if (!user) {
+    return { error: 'Invalid username or password', status: 401 };
+  }
+  if (user.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+    return { error: `Account locked after too many failed attempts. Try again after ${new Date(user.lockedUntil).toLocaleTimeString()}.`, status: 401 };
+  }
+
+  if (kind === 'pin') {
+    const pinMatches = currentUser?.id === user.id && !!user.pinHash && await verifyPassword(secret, user.pinHash);
+    if (!pinMatches) return { error: 'Incorrect PIN', status: 401 };
+  } else if (!await checkPassword(user, secret)) {
+    return users ? recordFailedAttempt(users, user) : { error: 'Invalid username or password', status: 401 };
+  }
+
+  // Older accounts still hold a plaintext password; hash it now that we have it
+  if (users && kind === 'password' && (!user.passwordHash || needsRehash(user.passwordHash))) {
+    const updated: User = { ...user, passwordHash: await hashPassword(secret) };
+    delete updated.password;
+    await saveValue(USERS_KEY, users.map(u => u.id === user.id ? updated : u));
+  }
+
+  const policy = await getSecurity();
+  return { token: createToken({ sub: user.id, exp: Date.now() + policy.sessionTimeoutHours * 60 * 60 * 1000 }, signingSecret) };
+};
+
+// The user behind a bearer token, while the token is valid and the account still active
+export const authenticate = async (request: Request, secret: string): Promise<User | null> => {
+  const [scheme, token] = (request.headers.get('Authorization') || '').split(' ');
+  if (scheme !== 'Bearer' || !token) return null;
+
+  const payload = readToken(token, secret);
+  if (!payload) return null;
+
+  const users = await readValue<User[]>(USERS_KEY);
+  return (users || [BOOTSTRAP_ADMIN]).find(u => u.id === payload.sub && u.isActive) || null;
+};
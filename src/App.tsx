@@ -1,71 +1,82 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Login } from './components/Login';
 import { UserManagement } from './components/UserManagement';
 import { Layout } from './components/Layout';
 import { Dashboard } from './components/Dashboard';
+import { LockScreen, SetPinModal } from './components/LockScreen';
 import { MedicineManagement } from './components/MedicineManagement';
 import { CustomerManagement } from './components/CustomerManagement';
 import { SalesManagement } from './components/SalesManagement';
+import { PurchaseManagement } from './components/PurchaseManagement';
+import { SupplierManagement } from './components/SupplierManagement';
 import { NotificationCenter } from './components/NotificationCenter';
 import Reports from './components/Reports';
 import { Settings } from './components/Settings';
-import { Medicine, Customer, Sale, Notification, User } from './types';
+import { VisitInput } from './components/PatientVisits';
+import { AuditLog } from './components/AuditLog';
+import { Appointments } from './components/Appointments';
+import { TokenQueue } from './components/TokenQueue';
+import { Reminders } from './components/Reminders';
+import { Medicine, Customer, Visit, Appointment, QueueToken, ReminderLog, Prescription, PrescriptionItem, Sale, SaleItem, SaleReturn, Notification, User, Purchase, Supplier, SupplierPayment, SettingsData } from './types';
 import { storage } from './utils/storage';
+import { applyBatches, applySaleToStock, getMedicineBatches, restoreBatches } from './utils/batches';
+import { PurchaseInvoiceInput, postPurchaseInvoice } from './utils/purchases';
+import { SUPPLIER_PAYMENT_PREFIX, findSupplierByName } from './utils/suppliers';
 import { updateNotifications } from './utils/notifications';
 import { generatePatientId } from './utils/patientId';
 import { authService } from './utils/auth';
-import { neon } from '@netlify/neon';
-
-
-interface SettingsData {
-  doctorConsultationCharge: number;
-  clinicName: string;
-  doctorName: string;
-  clinicAddress: string;
-  clinicPhone: string;
-  clinicEmail: string;
-  licenseNumber: string;
-  specialization?: string;
-  experience?: string;
-  registrationNumber?: string;
-  website?: string;
-  categories: string[];
-  taxRate: number;
-  currency: string;
-  businessHours: {
-    openTime: string;
-    closeTime: string;
-    workingDays: string[];
-  };
-  notifications: {
-    lowStockAlert: boolean;
-    expiryAlert: boolean;
-    emailNotifications: boolean;
-  };
-  backup: {
-    autoBackup: boolean;
-    backupFrequency: string;
-  };
-}
+import { smsService } from './utils/sms';
+import { backupScheduler } from './utils/backupScheduler';
+import { DEFAULT_SECURITY_SETTINGS } from './utils/passwords';
+import { DEFAULT_PRINT_SETTINGS } from './utils/pdf';
+import { DEFAULT_APPOINTMENT_SETTINGS, toDateKey } from './utils/appointments';
+import { DEFAULT_REMINDER_SETTINGS } from './utils/reminders';
+import { callNextToken, issueToken, recallToken, tokenSync } from './utils/tokens';
+import { SECTION_PERMISSIONS } from './utils/permissions';
+import { setAuditActor } from './utils/audit';
+import { recordDispensing, removeDispensing } from './utils/prescriptions';
 
 
 function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [dataLoaded, setDataLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [showSetPin, setShowSetPin] = useState(false);
+  const lastActivity = useRef(Date.now());
   const [activeSection, setActiveSection] = useState('dashboard');
   const [medicines, setMedicines] = useState<Medicine[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [visits, setVisits] = useState<Visit[]>([]);
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [billingVisit, setBillingVisit] = useState<Visit | null>(null);
+  const [consultingVisit, setConsultingVisit] = useState<Visit | null>(null);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [tokens, setTokens] = useState<QueueToken[]>([]);
+  const [reminderLogs, setReminderLogs] = useState<ReminderLog[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
+  const [saleReturns, setSaleReturns] = useState<SaleReturn[]>([]);
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierPayments, setSupplierPayments] = useState<SupplierPayment[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [settings, setSettings] = useState<SettingsData>({
     doctorConsultationCharge: 200,
+    consultationServices: [
+      { id: '1', name: 'General Consultation', amount: 200, isDefault: true },
+      { id: '2', name: 'Follow-up Consultation', amount: 150, isDefault: false },
+      { id: '3', name: 'Emergency Consultation', amount: 500, isDefault: false }
+    ],
     clinicName: 'GN Clinic',
     doctorName: 'Dr. Naveen Kumar',
     clinicAddress: '123 Medical Street, Health City',
     clinicPhone: '+91 944855105',
     clinicEmail: 'info@clinicpro.com',
     licenseNumber: 'MED123456789',
+    gstin: '',
+    state: 'Tamil Nadu',
     specialization: 'General Medicine',
     experience: '10',
     registrationNumber: 'REG123456',
@@ -89,69 +100,189 @@ function App() {
     },
     backup: {
       autoBackup: true,
-      backupFrequency: 'daily'
-    }
+      backupFrequency: 'daily',
+      retentionCount: 7
+    },
+    security: DEFAULT_SECURITY_SETTINGS,
+    printing: DEFAULT_PRINT_SETTINGS,
+    appointments: DEFAULT_APPOINTMENT_SETTINGS,
+    reminders: DEFAULT_REMINDER_SETTINGS
   });
 
   // Initialize authentication and load data
   useEffect(() => {
-    // Initialize users and check auth state
-    authService.initializeUsers();
-    const authState = authService.getAuthState();
-    
-    if (authState.isAuthenticated && authState.user) {
-      setCurrentUser(authState.user);
-      setIsAuthenticated(true);
-      loadAppData();
-    }
-    
-    setLoading(false);
+    const initialize = async () => {
+      // Initialize users and check auth state
+      await authService.initializeUsers().catch(error => console.error('Error initializing users:', error));
+      const authState = authService.getAuthState();
+
+      if (authState.isAuthenticated && authState.user) {
+        setCurrentUser(authState.user);
+        setIsAuthenticated(true);
+        setIsLocked(!!authState.locked);
+        await loadAppData();
+      } else if (authState.expired) {
+        alert('Your session has expired. Please sign in again.');
+      }
+
+      setLoading(false);
+    };
+
+    initialize();
   }, []);
 
-  const loadAppData = () => {
-    setMedicines(storage.getMedicines());
-    setCustomers(storage.getCustomers());
-    setSales(storage.getSales());
-    setNotifications(storage.getNotifications());
+  // Editable views wait for this, so nothing is saved over data that has not arrived.
+  // A failed load is shown instead of empty lists that the next save would write back.
+  const loadAppData = async () => {
+    try {
+      const [
+        savedMedicines,
+        savedCustomers,
+        savedVisits,
+        savedPrescriptions,
+        savedAppointments,
+        savedTokens,
+        savedReminderLogs,
+        savedSales,
+        savedSaleReturns,
+        savedPurchases,
+        savedSuppliers,
+        savedSupplierPayments,
+        savedNotifications,
+        savedSettings,
+      ] = await Promise.all([
+        storage.getMedicines(),
+        storage.getCustomers(),
+        storage.getVisits(),
+        storage.getPrescriptions(),
+        storage.getAppointments(),
+        storage.getTokens(),
+        storage.getReminders(),
+        storage.getSales(),
+        storage.getSaleReturns(),
+        storage.getPurchases(),
+        storage.getSuppliers(),
+        storage.getSupplierPayments(),
+        storage.getNotifications(),
+        storage.getSettings(),
+        smsService.loadConfig(),
+        authService.loadRolePermissions(),
+      ]);
+
+      setMedicines(savedMedicines);
+      setCustomers(savedCustomers);
+      setVisits(savedVisits);
+      setPrescriptions(savedPrescriptions);
+      setAppointments(savedAppointments);
+      setTokens(savedTokens);
+      setReminderLogs(savedReminderLogs);
+      setSales(savedSales);
+      setSaleReturns(savedSaleReturns);
+      setPurchases(savedPurchases);
+      setSuppliers(savedSuppliers);
+      setSupplierPayments(savedSupplierPayments);
+      setNotifications(savedNotifications);
     
-    // Load settings
-    const savedSettings = localStorage.getItem('clinic_settings');
-    if (savedSettings) {
-      const parsedSettings = JSON.parse(savedSettings);
-      // Ensure categories exist, use defaults if not
-      if (!parsedSettings.categories) {
-        parsedSettings.categories = [
-          'Antibiotics', 'Analgesics', 'Antacids', 'Antihistamines', 'Antiseptics',
-          'Cardiovascular', 'Dermatology', 'Diabetes', 'Gastroenterology', 'Neurology',
-          'Ophthalmology', 'Orthopedics', 'Pediatrics', 'Respiratory', 'Vitamins & Supplements', 'Others'
-        ];
+      // Load settings, keeping defaults for fields older saves do not have
+      if (savedSettings) {
+        setSettings(prev => ({ ...prev, ...savedSettings }));
       }
-      setSettings(parsedSettings);
+      setLoadError(null);
+      setDataLoaded(true);
+    } catch (error) {
+      console.error('Error loading clinic data:', error);
+      setLoadError('The clinic data could not be loaded. Please check the storage connection and try again.');
     }
   };
 
+  // Automatic backups run only once the saved backup settings are known
+  useEffect(() => {
+    if (!isAuthenticated || !dataLoaded) return;
+    return backupScheduler.start(settings.backup);
+  }, [isAuthenticated, dataLoaded, settings.backup]);
+
+  // Audit entries are attributed to whoever is signed in when a change is saved
+  useEffect(() => {
+    setAuditActor(currentUser);
+  }, [currentUser]);
+
+  // Tokens called or issued in another tab on this machine
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return tokenSync.subscribe(() => {
+      storage.getTokens().then(setTokens);
+    });
+  }, [isAuthenticated]);
+
   // Update notifications when medicines change
   useEffect(() => {
     if (isAuthenticated) {
-      const updatedNotifications = updateNotifications();
-      setNotifications(updatedNotifications);
+      updateNotifications(medicines).then(setNotifications);
     }
   }, [medicines]);
 
   // Authentication handlers
-  const handleLogin = (user: User) => {
+  const handleLogin = async (user: User) => {
     setCurrentUser(user);
     setIsAuthenticated(true);
-    loadAppData();
+    await loadAppData();
   };
 
   const handleLogout = () => {
     authService.logout();
     setCurrentUser(null);
     setIsAuthenticated(false);
+    setIsLocked(false);
+    setDataLoaded(false);
+    setLoadError(null);
     setActiveSection('dashboard');
   };
 
+  const handleLock = () => {
+    authService.lockSession();
+    setIsLocked(true);
+  };
+
+  // Unlocking may hand the session to a different cashier
+  const handleUnlock = (user: User) => {
+    setCurrentUser(user);
+    setIsLocked(false);
+    lastActivity.current = Date.now();
+  };
+
+  // Track activity for the idle lock and end sessions past their absolute timeout
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const markActive = () => {
+      lastActivity.current = Date.now();
+    };
+    const activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+    activityEvents.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const timer = window.setInterval(() => {
+      authService.touchSession(new Date(lastActivity.current));
+      const authState = authService.getAuthState();
+      if (!authState.isAuthenticated) {
+        setCurrentUser(null);
+        setIsAuthenticated(false);
+        setIsLocked(false);
+        setDataLoaded(false);
+        setLoadError(null);
+        setActiveSection('dashboard');
+        alert('Your session has expired. Please sign in again.');
+      } else if (authState.locked) {
+        authService.lockSession();
+        setIsLocked(true);
+      }
+    }, 15000);
+
+    return () => {
+      activityEvents.forEach(event => window.removeEventListener(event, markActive));
+      window.clearInterval(timer);
+    };
+  }, [isAuthenticated]);
+
   // Medicine management
   const handleAddMedicine = (medicineData: Omit<Medicine, 'id' | 'createdAt'>) => {
     const newMedicine: Medicine = {
@@ -162,6 +293,15 @@ function App() {
     const updatedMedicines = [...medicines, newMedicine];
     setMedicines(updatedMedicines);
     storage.saveMedicines(updatedMedicines);
+    return newMedicine;
+  };
+
+  const handleUpdateMedicines = (changed: Medicine[]) => {
+    const updatedMedicines = medicines.map(medicine =>
+      changed.find(update => update.id === medicine.id) || medicine
+    );
+    setMedicines(updatedMedicines);
+    storage.saveMedicines(updatedMedicines);
   };
 
   const handleEditMedicine = (id: string, medicineData: Omit<Medicine, 'id' | 'createdAt'>) => {
@@ -178,12 +318,90 @@ function App() {
     storage.saveMedicines(updatedMedicines);
   };
 
-  const handleUpdateMedicineStock = (medicineId: string, newQuantity: number) => {
-    const updatedMedicines = medicines.map(medicine =>
-      medicine.id === medicineId ? { ...medicine, quantity: newQuantity } : medicine
+  // Purchase management
+  const handlePostPurchase = (invoice: PurchaseInvoiceInput) => {
+    // Suppliers typed in on the invoice are added to the supplier master
+    let supplier = findSupplierByName(suppliers, invoice.supplier);
+    if (!supplier) {
+      supplier = {
+        id: Date.now().toString(),
+        name: invoice.supplier,
+        phone: '',
+        creditDays: 30,
+        createdAt: new Date().toISOString(),
+      };
+      const updatedSuppliers = [...suppliers, supplier];
+      setSuppliers(updatedSuppliers);
+      storage.saveSuppliers(updatedSuppliers);
+    }
+
+    const result = postPurchaseInvoice({ ...invoice, supplierId: supplier.id }, medicines, purchases);
+    setMedicines(result.medicines);
+    storage.saveMedicines(result.medicines);
+    setPurchases(result.purchases);
+    storage.savePurchases(result.purchases);
+  };
+
+  // Supplier management
+  const handleAddSupplier = (supplierData: Omit<Supplier, 'id' | 'createdAt'>) => {
+    const newSupplier: Supplier = {
+      ...supplierData,
+      id: Date.now().toString(),
+      createdAt: new Date().toISOString(),
+    };
+    const updatedSuppliers = [...suppliers, newSupplier];
+    setSuppliers(updatedSuppliers);
+    storage.saveSuppliers(updatedSuppliers);
+  };
+
+  const handleEditSupplier = (id: string, supplierData: Omit<Supplier, 'id' | 'createdAt'>) => {
+    const updatedSuppliers = suppliers.map(supplier =>
+      supplier.id === id ? { ...supplier, ...supplierData } : supplier
     );
-    setMedicines(updatedMedicines);
-    storage.saveMedicines(updatedMedicines);
+    setSuppliers(updatedSuppliers);
+    storage.saveSuppliers(updatedSuppliers);
+  };
+
+  const handleDeleteSupplier = (id: string) => {
+    const updatedSuppliers = suppliers.filter(supplier => supplier.id !== id);
+    setSuppliers(updatedSuppliers);
+    storage.saveSuppliers(updatedSuppliers);
+  };
+
+  const handleRecordSupplierPayment = (paymentData: Omit<SupplierPayment, 'id' | 'createdAt'>) => {
+    const newPayment: SupplierPayment = {
+      ...paymentData,
+      id: `${SUPPLIER_PAYMENT_PREFIX}${Date.now()}`,
+      createdAt: new Date().toISOString(),
+    };
+    const updatedPayments = [...supplierPayments, newPayment];
+    setSupplierPayments(updatedPayments);
+    storage.saveSupplierPayments(updatedPayments);
+
+    // Amounts allocated to older per-medicine credit purchases are also
+    // written to the medicine so the inventory payments tab stays in step
+    const medicineAllocations = newPayment.allocations.filter(allocation => allocation.invoiceId.startsWith('medicine:'));
+    if (medicineAllocations.length > 0) {
+      const updatedMedicines = medicines.map(medicine => {
+        const allocation = medicineAllocations.find(a => a.invoiceId === `medicine:${medicine.id}`);
+        if (!allocation) return medicine;
+        const inventoryMedicine = medicine as Medicine & { paidAmount?: number; paymentRecords?: object[] };
+        return {
+          ...medicine,
+          paidAmount: (inventoryMedicine.paidAmount || 0) + allocation.amount,
+          paymentRecords: [...(inventoryMedicine.paymentRecords || []), {
+            id: `${newPayment.id}-${medicine.id}`,
+            medicineId: medicine.id,
+            paidAmount: allocation.amount,
+            paidDate: newPayment.paidDate,
+            paymentMethod: newPayment.paymentMethod,
+            notes: newPayment.reference || newPayment.notes,
+          }],
+        };
+      });
+      setMedicines(updatedMedicines);
+      storage.saveMedicines(updatedMedicines);
+    }
   };
 
   // Customer management
@@ -196,6 +414,7 @@ function App() {
     const updatedCustomers = [...customers, newCustomer];
     setCustomers(updatedCustomers);
     storage.saveCustomers(updatedCustomers);
+    return newCustomer;
   };
 
   const handleEditCustomer = (id: string, customerData: Omit<Customer, 'id' | 'createdAt'>) => {
@@ -212,27 +431,262 @@ function App() {
     storage.saveCustomers(updatedCustomers);
   };
 
+  // Patient visits
+  const handleAddVisit = (visitData: VisitInput, prescriptionItems: PrescriptionItem[], goToBilling: boolean) => {
+    const newVisit: Visit = {
+      ...visitData,
+      id: Date.now().toString(),
+      createdBy: currentUser?.name || '',
+      createdAt: new Date().toISOString(),
+    };
+    const updatedVisits = [...visits, newVisit];
+    setVisits(updatedVisits);
+    storage.saveVisits(updatedVisits);
+    handleSavePrescription(newVisit, prescriptionItems);
+    if (goToBilling) handleBillVisit(newVisit);
+  };
+
+  const handleEditVisit = (id: string, visitData: VisitInput, prescriptionItems: PrescriptionItem[], goToBilling: boolean) => {
+    const updatedVisits = visits.map(visit =>
+      visit.id === id ? { ...visit, ...visitData } : visit
+    );
+    setVisits(updatedVisits);
+    storage.saveVisits(updatedVisits);
+    const updatedVisit = updatedVisits.find(visit => visit.id === id);
+    if (updatedVisit) handleSavePrescription(updatedVisit, prescriptionItems);
+    if (goToBilling && updatedVisit) handleBillVisit(updatedVisit);
+  };
+
+  // A visit has at most one prescription. Editing it keeps what was already dispensed.
+  const handleSavePrescription = (visit: Visit, items: PrescriptionItem[]) => {
+    const existing = prescriptions.find(prescription => prescription.visitId === visit.id);
+    if (!existing && items.length === 0) return;
+
+    let updatedPrescriptions: Prescription[];
+    if (!existing) {
+      updatedPrescriptions = [...prescriptions, {
+        id: `RX${Date.now()}`,
+        visitId: visit.id,
+        customerId: visit.customerId,
+        patientId: visit.patientId,
+        doctorName: visit.doctorName,
+        items,
+        dispensings: [],
+        createdAt: new Date().toISOString(),
+      }];
+    } else if (items.length === 0 && existing.dispensings.length === 0) {
+      updatedPrescriptions = prescriptions.filter(prescription => prescription.id !== existing.id);
+    } else {
+      updatedPrescriptions = prescriptions.map(prescription =>
+        prescription.id === existing.id ? { ...prescription, doctorName: visit.doctorName, items } : prescription
+      );
+    }
+    setPrescriptions(updatedPrescriptions);
+    storage.savePrescriptions(updatedPrescriptions);
+  };
+
+  // Opens billing for the patient with the visit's consultation already on the bill
+  const handleBillVisit = (visit: Visit) => {
+    setBillingVisit(visit);
+    setActiveSection('sales');
+  };
+
+  // Appointments
+  const handleAddAppointment = (appointmentData: Omit<Appointment, 'id' | 'createdBy' | 'createdAt'>) => {
+    const newAppointment: Appointment = {
+      ...appointmentData,
+      id: Date.now().toString(),
+      createdBy: currentUser?.name || '',
+      createdAt: new Date().toISOString(),
+    };
+    const updatedAppointments = [...appointments, newAppointment];
+    setAppointments(updatedAppointments);
+    storage.saveAppointments(updatedAppointments);
+  };
+
+  const handleUpdateAppointment = (id: string, changes: Partial<Appointment>) => {
+    const updatedAppointments = appointments.map(appointment =>
+      appointment.id === id ? { ...appointment, ...changes } : appointment
+    );
+    setAppointments(updatedAppointments);
+    storage.saveAppointments(updatedAppointments);
+  };
+
+  // Checking a patient in opens a visit for the day, which the doctor then fills in
+  const handlePatientArrived = (appointment: Appointment) => {
+    const newVisit: Visit = {
+      id: Date.now().toString(),
+      customerId: appointment.customerId,
+      patientId: appointment.patientId,
+      visitDate: appointment.date,
+      doctorName: settings.doctorName,
+      chiefComplaint: appointment.reason || '',
+      vitals: {},
+      diagnosis: '',
+      createdBy: currentUser?.name || '',
+      createdAt: new Date().toISOString(),
+    };
+    const updatedVisits = [...visits, newVisit];
+    setVisits(updatedVisits);
+    storage.saveVisits(updatedVisits);
+    handleUpdateAppointment(appointment.id, { status: 'arrived', visitId: newVisit.id });
+
+    if (authService.hasPermission(currentUser, 'record_visits')) {
+      setConsultingVisit(newVisit);
+      setActiveSection('customers');
+    }
+  };
+
+  // Walk-in token queue. Other tabs and the waiting room display reload once the change is saved.
+  const saveTokens = (updatedTokens: QueueToken[]) => {
+    setTokens(updatedTokens);
+    storage.saveTokens(updatedTokens).then(tokenSync.notify);
+  };
+
+  const handleIssueToken = (customer: Customer) => {
+    const newToken = issueToken(tokens, customer, toDateKey(new Date()), currentUser?.name || '');
+    saveTokens([...tokens, newToken]);
+    return newToken;
+  };
+
+  const handleCallNextToken = (skipCurrent: boolean) => {
+    saveTokens(callNextToken(tokens, toDateKey(new Date()), skipCurrent ? 'skipped' : 'done'));
+  };
+
+  const handleRecallToken = (tokenId: string) => {
+    saveTokens(recallToken(tokens, tokenId));
+  };
+
+  // Follow-up and refill reminders
+  const handleAddReminderLogs = (logs: Omit<ReminderLog, 'id' | 'sentBy'>[]) => {
+    const now = Date.now();
+    const updatedReminderLogs = [...reminderLogs, ...logs.map((log, index) => ({
+      ...log,
+      id: `${now}-${index}`,
+      sentBy: currentUser?.name || '',
+    }))];
+    setReminderLogs(updatedReminderLogs);
+    storage.saveReminders(updatedReminderLogs);
+  };
+
   // Sales management
-  const handleAddSale = (saleData: Omit<Sale, 'id' | 'createdAt'>) => {
-    // Update medicine stock before creating the sale
-    saleData.items.forEach(item => {
-      if (item.medicineId !== 'consultation') {
-        const medicine = medicines.find(m => m.id === item.medicineId);
-        if (medicine) {
-          const newQuantity = medicine.quantity - item.quantity;
-          handleUpdateMedicineStock(medicine.id, newQuantity);
-        }
-      }
+  // Sale lines are applied to the latest medicines in one update, so lines of the same
+  // bill and sales saved in quick succession do not overwrite each other's stock
+  const applySaleStock = (items: SaleItem[], direction: 1 | -1) => {
+    setMedicines(current => {
+      const updatedMedicines = applySaleToStock(current, items, direction);
+      storage.saveMedicines(updatedMedicines);
+      return updatedMedicines;
     });
+  };
 
+  const handleAddSale = (saleData: Omit<Sale, 'createdAt'>) => {
+    // Update medicine stock before creating the sale
+    applySaleStock(saleData.items, -1);
+
+    // The bill number printed on the receipt is the sale id, so returns can look it up
     const newSale: Sale = {
       ...saleData,
-      id: Date.now().toString(),
       createdAt: new Date().toISOString(),
     };
     const updatedSales = [...sales, newSale];
     setSales(updatedSales);
     storage.saveSales(updatedSales);
+
+    if (saleData.visitId) {
+      const updatedVisits = visits.map(visit =>
+        visit.id === saleData.visitId ? { ...visit, saleId: newSale.id } : visit
+      );
+      setVisits(updatedVisits);
+      storage.saveVisits(updatedVisits);
+    }
+
+    if (saleData.prescriptionId) {
+      const updatedPrescriptions = prescriptions.map(prescription =>
+        prescription.id === saleData.prescriptionId
+          ? recordDispensing(prescription, newSale.id, saleData.items)
+          : prescription
+      );
+      setPrescriptions(updatedPrescriptions);
+      storage.savePrescriptions(updatedPrescriptions);
+    }
+
+    if (saleData.creditApplied && saleData.creditApplied > 0) {
+      const updatedCustomers = customers.map(customer =>
+        customer.id === saleData.customerId
+          ? { ...customer, creditBalance: Math.max(0, (customer.creditBalance || 0) - (saleData.creditApplied || 0)) }
+          : customer
+      );
+      setCustomers(updatedCustomers);
+      storage.saveCustomers(updatedCustomers);
+    }
+  };
+
+  // Stock is put back by SalesManagement before the bill is removed
+  const handleDeleteSale = (saleId: string) => {
+    const sale = sales.find(s => s.id === saleId);
+    if (sale) {
+      applySaleStock(sale.items, 1);
+    }
+    const updatedSales = sales.filter(s => s.id !== saleId);
+    setSales(updatedSales);
+    storage.saveSales(updatedSales);
+
+    // The visit can be billed again once its bill is gone
+    if (sale?.visitId) {
+      const updatedVisits = visits.map(visit =>
+        visit.id === sale.visitId ? { ...visit, saleId: undefined } : visit
+      );
+      setVisits(updatedVisits);
+      storage.saveVisits(updatedVisits);
+    }
+
+    if (sale?.prescriptionId) {
+      const updatedPrescriptions = prescriptions.map(prescription =>
+        prescription.id === sale.prescriptionId ? removeDispensing(prescription, saleId) : prescription
+      );
+      setPrescriptions(updatedPrescriptions);
+      storage.savePrescriptions(updatedPrescriptions);
+    }
+
+    if (sale?.creditApplied && sale.creditApplied > 0) {
+      const updatedCustomers = customers.map(customer =>
+        customer.id === sale.customerId
+          ? { ...customer, creditBalance: (customer.creditBalance || 0) + (sale.creditApplied || 0) }
+          : customer
+      );
+      setCustomers(updatedCustomers);
+      storage.saveCustomers(updatedCustomers);
+    }
+  };
+
+  const handleAddSaleReturn = (saleReturn: SaleReturn) => {
+    // Put the returned quantity back on the batches it was dispensed from
+    const updatedMedicines = medicines.map(medicine => {
+      const returnedItems = saleReturn.items.filter(item => item.medicineId === medicine.id);
+      return returnedItems.reduce((current, item) =>
+        item.batches && item.batches.length > 0
+          ? applyBatches(current, restoreBatches(getMedicineBatches(current), item.batches))
+          : { ...current, quantity: current.quantity + item.quantity },
+        medicine
+      );
+    });
+    setMedicines(updatedMedicines);
+    storage.saveMedicines(updatedMedicines);
+
+    if (saleReturn.refundMethod === 'credit') {
+      const updatedCustomers = customers.map(customer =>
+        customer.id === saleReturn.customerId
+          ? { ...customer, creditBalance: (customer.creditBalance || 0) + saleReturn.refundAmount }
+          : customer
+      );
+      setCustomers(updatedCustomers);
+      storage.saveCustomers(updatedCustomers);
+    }
+
+    const updatedReturns = [...saleReturns, saleReturn];
+    setSaleReturns(updatedReturns);
+    storage.saveSaleReturns(updatedReturns);
   };
 
   // Notification management
@@ -284,7 +738,39 @@ function App() {
 
   const unreadNotificationCount = notifications.filter(n => !n.isRead).length;
 
+  const renderLoadState = () => {
+    if (!loadError) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900">Data Not Loaded</h3>
+        <p className="text-gray-500">{loadError}</p>
+        <button
+          onClick={handleRefresh}
+          className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  };
+
   const renderActiveSection = () => {
+    const requiredPermission = SECTION_PERMISSIONS[activeSection];
+    if (requiredPermission && !authService.hasPermission(currentUser, requiredPermission)) {
+      return (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">Access Denied</h3>
+          <p className="text-gray-500">You don't have permission to access this section.</p>
+        </div>
+      );
+    }
+
     switch (activeSection) {
       case 'dashboard':
         return (
@@ -292,26 +778,45 @@ function App() {
             medicines={medicines}
             customers={customers}
             sales={sales}
+            purchases={purchases}
             notifications={notifications}
+            settings={settings}
+            currentUser={currentUser}
             onSectionChange={setActiveSection}
           />
         );
       case 'medicines':
-        // Check permission for medicine management
-        if (!authService.hasPermission(currentUser, 'salesman')) {
-          return (
-            <div className="text-center py-12">
-              <h3 className="text-lg font-medium text-gray-900">Access Denied</h3>
-              <p className="text-gray-500">You don't have permission to access this section.</p>
-            </div>
-          );
-        }
         return (
           <MedicineManagement
             medicines={medicines}
             onAddMedicine={handleAddMedicine}
             onEditMedicine={handleEditMedicine}
             onDeleteMedicine={handleDeleteMedicine}
+            onUpdateMedicines={handleUpdateMedicines}
+            currentUser={currentUser}
+          />
+        );
+      case 'purchases':
+        return (
+          <PurchaseManagement
+            medicines={medicines}
+            purchases={purchases}
+            suppliers={suppliers}
+            onPostPurchase={handlePostPurchase}
+            onAddMedicine={handleAddMedicine}
+          />
+        );
+      case 'suppliers':
+        return (
+          <SupplierManagement
+            suppliers={suppliers}
+            purchases={purchases}
+            supplierPayments={supplierPayments}
+            medicines={medicines}
+            onAddSupplier={handleAddSupplier}
+            onEditSupplier={handleEditSupplier}
+            onDeleteSupplier={handleDeleteSupplier}
+            onRecordPayment={handleRecordSupplierPayment}
           />
         );
       case 'customers':
@@ -321,6 +826,51 @@ function App() {
             onAddCustomer={handleAddCustomer}
             onEditCustomer={handleEditCustomer}
             onDeleteCustomer={handleDeleteCustomer}
+            visits={visits}
+            prescriptions={prescriptions}
+            medicines={medicines}
+            settings={settings}
+            currentUser={currentUser}
+            onAddVisit={handleAddVisit}
+            onEditVisit={handleEditVisit}
+            onBillVisit={handleBillVisit}
+            consultingVisit={consultingVisit}
+            onConsultingVisitOpened={() => setConsultingVisit(null)}
+          />
+        );
+      case 'appointments':
+        return (
+          <Appointments
+            appointments={appointments}
+            customers={customers}
+            settings={settings}
+            onAddAppointment={handleAddAppointment}
+            onUpdateAppointment={handleUpdateAppointment}
+            onAddCustomer={handleAddCustomer}
+            onPatientArrived={handlePatientArrived}
+          />
+        );
+      case 'tokens':
+        return (
+          <TokenQueue
+            tokens={tokens}
+            customers={customers}
+            currentUser={currentUser}
+            onIssueToken={handleIssueToken}
+            onCallNextToken={handleCallNextToken}
+            onRecallToken={handleRecallToken}
+            onAddCustomer={handleAddCustomer}
+          />
+        );
+      case 'reminders':
+        return (
+          <Reminders
+            customers={customers}
+            visits={visits}
+            prescriptions={prescriptions}
+            reminderLogs={reminderLogs}
+            settings={settings}
+            onAddReminderLogs={handleAddReminderLogs}
           />
         );
       case 'sales':
@@ -329,21 +879,18 @@ function App() {
             medicines={medicines}
             customers={customers}
             sales={sales}
+            saleReturns={saleReturns}
             settings={settings}
             onAddSale={handleAddSale}
-            onUpdateMedicineStock={handleUpdateMedicineStock}
+            onAddSaleReturn={handleAddSaleReturn}
+            onDeleteSale={handleDeleteSale}
+            currentUser={currentUser}
+            prescriptions={prescriptions}
+            billingVisit={billingVisit}
+            onBillingVisitOpened={() => setBillingVisit(null)}
           />
         );
       case 'notifications':
-        // Admin only
-        if (!authService.hasPermission(currentUser, 'admin')) {
-          return (
-            <div className="text-center py-12">
-              <h3 className="text-lg font-medium text-gray-900">Access Denied</h3>
-              <p className="text-gray-500">You don't have permission to access this section.</p>
-            </div>
-          );
-        }
         return (
           <NotificationCenter
             notifications={notifications}
@@ -354,55 +901,35 @@ function App() {
           />
         );
       case 'reports':
-        // Admin only
-        if (!authService.hasPermission(currentUser, 'admin')) {
-          return (
-            <div className="text-center py-12">
-              <h3 className="text-lg font-medium text-gray-900">Access Denied</h3>
-              <p className="text-gray-500">You don't have permission to access this section.</p>
-            </div>
-          );
-        }
         return (
           <Reports
             medicines={medicines}
-            customers={customers}
             sales={sales}
+            saleReturns={saleReturns}
+            purchases={purchases}
+            suppliers={suppliers}
+            settings={settings}
+            currentUser={currentUser}
             onRefresh={handleRefresh}
           />
         );
       case 'users':
-        // Admin only
-        if (!authService.hasPermission(currentUser, 'admin')) {
-          return (
-            <div className="text-center py-12">
-              <h3 className="text-lg font-medium text-gray-900">Access Denied</h3>
-              <p className="text-gray-500">You don't have permission to access this section.</p>
-            </div>
-          );
-        }
         return <UserManagement 
           currentUser={currentUser} 
           onRefresh={handleRefresh}
         />;
+      case 'audit':
+        return <AuditLog />;
       case 'settings':
-        // Admin only
-        if (!authService.hasPermission(currentUser, 'admin')) {
-          return (
-            <div className="text-center py-12">
-              <h3 className="text-lg font-medium text-gray-900">Access Denied</h3>
-              <p className="text-gray-500">You don't have permission to access this section.</p>
-            </div>
-          );
-        }
         return (
           <Settings
+            currentUser={currentUser}
             onSettingsChange={handleSettingsChange}
             onRefresh={handleRefresh}
           />
         );
       default:
-        return <Dashboard medicines={medicines} customers={customers} sales={sales} notifications={notifications} onSectionChange={setActiveSection} />;
+        return <Dashboard medicines={medicines} customers={customers} sales={sales} purchases={purchases} notifications={notifications} settings={settings} currentUser={currentUser} onSectionChange={setActiveSection} />;
     }
   };
 
@@ -413,8 +940,12 @@ function App() {
       notificationCount={unreadNotificationCount}
       currentUser={currentUser}
       onLogout={handleLogout}
+      onLock={handleLock}
+      onSetPin={() => setShowSetPin(true)}
     >
-      {renderActiveSection()}
+      {dataLoaded && !loadError ? renderActiveSection() : renderLoadState()}
+      {showSetPin && <SetPinModal currentUser={currentUser} onClose={() => setShowSetPin(false)} />}
+      {isLocked && <LockScreen currentUser={currentUser} onUnlock={handleUnlock} onLogout={handleLogout} />}
     </Layout>
   );
 }
@@ -0,0 +1,550 @@
+import React, { useState } from 'react';
+import { Plus, X, ChevronLeft, ChevronRight, CalendarDays, CalendarOff, UserCheck, UserX, Ban, CreditCard as Edit } from 'lucide-react';
+import { Appointment, AppointmentStatus, Customer, SettingsData } from '../types';
+import {
+  APPOINTMENT_STATUSES,
+  DEFAULT_APPOINTMENT_SETTINGS,
+  addDays,
+  formatTime,
+  getAppointmentsForDate,
+  getBookingError,
+  getClosure,
+  getDaySlots,
+  getWeekDates,
+  getWeekday,
+  isActiveAppointment,
+  isWorkingDay,
+  parseDateKey,
+  toDateKey,
+} from '../utils/appointments';
+import { generatePatientId } from '../utils/patientId';
+
+interface AppointmentsProps {
+  appointments: Appointment[];
+  customers: Customer[];
+  settings: SettingsData;
+  onAddAppointment: (appointment: Omit<Appointment, 'id' | 'createdBy' | 'createdAt'>) => void;
+  onUpdateAppointment: (id: string, changes: Partial<Appointment>) => void;
+  onAddCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Customer;
+  onPatientArrived: (appointment: Appointment) => void;
+}
+
+const STATUS_COLORS: Record<AppointmentStatus, string> = {
+  booked: 'bg-blue-100 text-blue-800',
+  arrived: 'bg-green-100 text-green-800',
+  no_show: 'bg-orange-100 text-orange-800',
+  cancelled: 'bg-gray-100 text-gray-500 line-through',
+};
+
+const createEmptyBooking = (date: string, time: string) => ({
+  customerId: '',
+  isNewPatient: false,
+  newPatientName: '',
+  newPatientPhone: '',
+  date,
+  time,
+  reason: '',
+});
+
+export const Appointments: React.FC<AppointmentsProps> = ({
+  appointments,
+  customers,
+  settings,
+  onAddAppointment,
+  onUpdateAppointment,
+  onAddCustomer,
+  onPatientArrived,
+}) => {
+  const today = toDateKey(new Date());
+  const [view, setView] = useState<'day' | 'week'>('day');
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [showForm, setShowForm] = useState(false);
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<Appointment | null>(null);
+  const [booking, setBooking] = useState(createEmptyBooking(today, ''));
+  const [patientSearch, setPatientSearch] = useState('');
+
+  const slotMinutes = settings.appointments?.slotMinutes || DEFAULT_APPOINTMENT_SETTINGS.slotMinutes;
+  const closures = settings.appointments?.closures || [];
+  const slots = getDaySlots(settings);
+  const weekDates = getWeekDates(selectedDate);
+
+  const getClosedReason = (dateKey: string): string | null => {
+    if (!isWorkingDay(dateKey, settings)) return `Closed on ${getWeekday(dateKey)}s`;
+    const closure = getClosure(dateKey, closures);
+    if (closure) return closure.reason || (closure.type === 'leave' ? 'Doctor on leave' : 'Holiday');
+    return null;
+  };
+
+  // Appointments that start within the slot
+  const getSlotAppointments = (dateKey: string, slot: string): Appointment[] => {
+    const slotIndex = slots.indexOf(slot);
+    const nextSlot = slots[slotIndex + 1] || '24:00';
+    return getAppointmentsForDate(appointments, dateKey).filter(appointment => appointment.time >= slot && appointment.time < nextSlot);
+  };
+
+  const openBookingForm = (date: string, time: string) => {
+    setBooking(createEmptyBooking(date, time));
+    setReschedulingAppointment(null);
+    setPatientSearch('');
+    setShowForm(true);
+  };
+
+  const openRescheduleForm = (appointment: Appointment) => {
+    setBooking({ ...createEmptyBooking(appointment.date, appointment.time), customerId: appointment.customerId, reason: appointment.reason || '' });
+    setReschedulingAppointment(appointment);
+    setShowForm(true);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setReschedulingAppointment(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!booking.time) {
+      alert('Please choose a time slot.');
+      return;
+    }
+
+    const bookingError = getBookingError(
+      { id: reschedulingAppointment?.id, date: booking.date, time: booking.time, durationMinutes: slotMinutes },
+      appointments,
+      settings
+    );
+    if (bookingError) {
+      alert(bookingError);
+      return;
+    }
+
+    if (reschedulingAppointment) {
+      onUpdateAppointment(reschedulingAppointment.id, {
+        date: booking.date,
+        time: booking.time,
+        durationMinutes: slotMinutes,
+        reason: booking.reason.trim() || undefined,
+      });
+      resetForm();
+      return;
+    }
+
+    let customer = customers.find(c => c.id === booking.customerId);
+    if (booking.isNewPatient) {
+      if (!booking.newPatientName.trim()) {
+        alert('Please enter the patient name.');
+        return;
+      }
+      if (!/^\d{10}$/.test(booking.newPatientPhone)) {
+        alert('Please enter a valid 10-digit phone number.');
+        return;
+      }
+      customer = onAddCustomer({
+        patientId: generatePatientId(customers),
+        name: booking.newPatientName.trim(),
+        phone: booking.newPatientPhone,
+        address: '',
+      });
+    }
+    if (!customer) {
+      alert('Please select a patient.');
+      return;
+    }
+
+    onAddAppointment({
+      customerId: customer.id,
+      patientId: customer.patientId,
+      customerName: customer.name,
+      date: booking.date,
+      time: booking.time,
+      durationMinutes: slotMinutes,
+      reason: booking.reason.trim() || undefined,
+      status: 'booked',
+    });
+    setSelectedDate(booking.date);
+    resetForm();
+  };
+
+  const handleStatusChange = (appointment: Appointment, status: AppointmentStatus) => {
+    if (status === 'cancelled' && !window.confirm(`Cancel the appointment for ${appointment.customerName}?`)) {
+      return;
+    }
+    onUpdateAppointment(appointment.id, { status });
+  };
+
+  const moveDate = (direction: number) => {
+    setSelectedDate(addDays(selectedDate, direction * (view === 'week' ? 7 : 1)));
+  };
+
+  const filteredCustomers = customers.filter(customer =>
+    customer.name.toLowerCase().includes(patientSearch.toLowerCase()) ||
+    customer.phone.includes(patientSearch) ||
+    customer.patientId.includes(patientSearch)
+  );
+
+  const dayAppointments = getAppointmentsForDate(appointments, selectedDate);
+  const closedReason = getClosedReason(selectedDate);
+  const formClosedReason = booking.date ? getClosedReason(booking.date) : null;
+
+  const renderAppointment = (appointment: Appointment) => (
+    <div key={appointment.id} className="flex justify-between items-center bg-white border border-gray-200 rounded-lg px-3 py-2">
+      <div>
+        <div className="flex items-center space-x-2">
+          <span className="font-medium text-gray-900">{appointment.customerName}</span>
+          <span className="text-xs text-gray-500">#{appointment.patientId}</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[appointment.status]}`}>
+            {APPOINTMENT_STATUSES.find(s => s.id === appointment.status)?.label}
+          </span>
+        </div>
+        <p className="text-xs text-gray-500">
+          {formatTime(appointment.time)}
+          {appointment.reason && ` • ${appointment.reason}`}
+        </p>
+      </div>
+      {appointment.status === 'booked' && (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onPatientArrived(appointment)}
+            disabled={appointment.date !== today}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-green-700 bg-green-50 rounded hover:bg-green-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            title={appointment.date !== today ? 'Patients can only be checked in on the day of the appointment' : 'Check in and start the visit'}
+          >
+            <UserCheck className="h-4 w-4" />
+            <span>Arrived</span>
+          </button>
+          <button
+            onClick={() => handleStatusChange(appointment, 'no_show')}
+            disabled={appointment.date > today}
+            className="text-orange-600 hover:text-orange-800 disabled:opacity-40"
+            title="No-show"
+          >
+            <UserX className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => openRescheduleForm(appointment)}
+            className="text-blue-600 hover:text-blue-800"
+            title="Reschedule"
+          >
+            <Edit className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleStatusChange(appointment, 'cancelled')}
+            className="text-red-600 hover:text-red-800"
+            title="Cancel"
+          >
+            <Ban className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => moveDate(-1)}
+            className="p-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <input
+            type="date"
+            value={selectedDate}
+            onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => moveDate(1)}
+            className="p-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setSelectedDate(today)}
+            className="px-3 py-2 text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100"
+          >
+            Today
+          </button>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            {(['day', 'week'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-2 text-sm ${view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option === 'day' ? 'Day' : 'Week'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={() => openBookingForm(selectedDate, '')}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Book Appointment</span>
+        </button>
+      </div>
+
+      {view === 'day' ? (
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <CalendarDays className="h-5 w-5 mr-2 text-blue-600" />
+              {parseDateKey(selectedDate).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+            </h3>
+            <div className="flex space-x-3 text-sm">
+              {APPOINTMENT_STATUSES.map(status => (
+                <span key={status.id} className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[status.id]}`}>
+                  {status.label}: {dayAppointments.filter(a => a.status === status.id).length}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {closedReason ? (
+            <div className="p-12 text-center text-gray-500">
+              <CalendarOff className="h-12 w-12 mx-auto mb-3 text-gray-400" />
+              <p className="font-medium">No appointments on this day</p>
+              <p className="text-sm">{closedReason}</p>
+              {dayAppointments.length > 0 && (
+                <div className="mt-6 space-y-2 text-left max-w-xl mx-auto">
+                  {dayAppointments.map(renderAppointment)}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {slots.map(slot => {
+                const slotAppointments = getSlotAppointments(selectedDate, slot);
+                const isFree = !slotAppointments.some(isActiveAppointment);
+                return (
+                  <div key={slot} className="flex items-start px-6 py-2">
+                    <div className="w-24 pt-2 text-sm font-medium text-gray-500">{formatTime(slot)}</div>
+                    <div className="flex-1 space-y-2">
+                      {slotAppointments.map(renderAppointment)}
+                      {isFree && (
+                        <button
+                          onClick={() => openBookingForm(selectedDate, slot)}
+                          className="w-full text-left px-3 py-2 text-sm text-gray-400 border border-dashed border-gray-200 rounded-lg hover:border-blue-300 hover:text-blue-600"
+                        >
+                          + Book this slot
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {slots.length === 0 && (
+                <p className="p-6 text-sm text-gray-500">Set opening and closing times in Settings to see appointment slots.</p>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 w-20"></th>
+                {weekDates.map(dateKey => (
+                  <th
+                    key={dateKey}
+                    onClick={() => {
+                      setSelectedDate(dateKey);
+                      setView('day');
+                    }}
+                    className={`px-3 py-2 text-left font-medium cursor-pointer hover:bg-blue-50 ${dateKey === today ? 'text-blue-600' : 'text-gray-600'}`}
+                  >
+                    <div>{getWeekday(dateKey).slice(0, 3)}</div>
+                    <div className="text-xs font-normal">{parseDateKey(dateKey).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}</div>
+                    {getClosedReason(dateKey) && (
+                      <div className="text-xs font-normal text-red-500 truncate">{getClosedReason(dateKey)}</div>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {slots.map(slot => (
+                <tr key={slot}>
+                  <td className="px-3 py-1 text-xs text-gray-500 whitespace-nowrap">{formatTime(slot)}</td>
+                  {weekDates.map(dateKey => {
+                    const closed = !!getClosedReason(dateKey);
+                    const slotAppointments = getSlotAppointments(dateKey, slot).filter(isActiveAppointment);
+                    return (
+                      <td
+                        key={dateKey}
+                        onClick={() => !closed && slotAppointments.length === 0 && openBookingForm(dateKey, slot)}
+                        className={`px-2 py-1 align-top border-l border-gray-100 ${
+                          closed ? 'bg-gray-100' : slotAppointments.length === 0 ? 'cursor-pointer hover:bg-blue-50' : ''
+                        }`}
+                      >
+                        {slotAppointments.map(appointment => (
+                          <div
+                            key={appointment.id}
+                            className={`px-2 py-0.5 rounded text-xs truncate ${STATUS_COLORS[appointment.status]}`}
+                            title={`${appointment.customerName}${appointment.reason ? ` - ${appointment.reason}` : ''}`}
+                          >
+                            {appointment.customerName}
+                          </div>
+                        ))}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Booking Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">
+                {reschedulingAppointment ? `Reschedule ${reschedulingAppointment.customerName}` : 'Book Appointment'}
+              </h3>
+              <button
+                onClick={resetForm}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {!reschedulingAppointment && (
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <label className="block text-sm font-medium text-gray-700">Patient *</label>
+                    <button
+                      type="button"
+                      onClick={() => setBooking({ ...booking, isNewPatient: !booking.isNewPatient })}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      {booking.isNewPatient ? 'Choose existing patient' : '+ New patient'}
+                    </button>
+                  </div>
+                  {booking.isNewPatient ? (
+                    <div className="grid grid-cols-2 gap-3">
+                      <input
+                        type="text"
+                        placeholder="Full name"
+                        value={booking.newPatientName}
+                        onChange={(e) => setBooking({ ...booking, newPatientName: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="tel"
+                        placeholder="10-digit phone"
+                        value={booking.newPatientPhone}
+                        onChange={(e) => setBooking({ ...booking, newPatientPhone: e.target.value.replace(/\D/g, '').slice(0, 10) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="col-span-2 text-xs text-gray-500">
+                        Registered as patient #{generatePatientId(customers)}. Other details can be added from Patients.
+                      </p>
+                    </div>
+                  ) : (
+                    <>
+                      <input
+                        type="text"
+                        placeholder="Search by name, phone or patient ID..."
+                        value={patientSearch}
+                        onChange={(e) => setPatientSearch(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 mb-2"
+                      />
+                      <select
+                        value={booking.customerId}
+                        onChange={(e) => setBooking({ ...booking, customerId: e.target.value })}
+                        size={5}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        {filteredCustomers.map(customer => (
+                          <option key={customer.id} value={customer.id}>
+                            {customer.name} (#{customer.patientId}) - {customer.phone}
+                          </option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                  <input
+                    type="date"
+                    required
+                    value={booking.date}
+                    onChange={(e) => setBooking({ ...booking, date: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Time *</label>
+                  <select
+                    value={booking.time}
+                    onChange={(e) => setBooking({ ...booking, time: e.target.value })}
+                    disabled={!!formClosedReason}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                  >
+                    <option value="">Select slot</option>
+                    {slots.map(slot => {
+                      const taken = getSlotAppointments(booking.date, slot)
+                        .some(appointment => isActiveAppointment(appointment) && appointment.id !== reschedulingAppointment?.id);
+                      return (
+                        <option key={slot} value={slot} disabled={taken}>
+                          {formatTime(slot)}{taken ? ' (booked)' : ''}
+                        </option>
+                      );
+                    })}
+                  </select>
+                </div>
+              </div>
+              {formClosedReason && (
+                <p className="text-sm text-red-600">
+                  No appointments on this day: {formClosedReason}.
+                </p>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={booking.reason}
+                  onChange={(e) => setBooking({ ...booking, reason: e.target.value })}
+                  placeholder="e.g. Fever, follow-up, BP check"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!!formClosedReason}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {reschedulingAppointment ? 'Reschedule' : 'Book'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Download, RefreshCw, ChevronDown, ChevronRight, History } from 'lucide-react';
+import { AuditAction, AuditEntry, AuditLogQuery } from '../types';
+import { storage } from '../utils/storage';
+import { authService } from '../utils/auth';
+import { AUDIT_RETENTION_DAYS, AUDITED_STORES, formatAuditValue } from '../utils/audit';
+import { exportAuditLog } from '../utils/excelExport';
+
+const PAGE_SIZE = 200;
+
+interface AuditFilters {
+  userId: string;
+  entity: string;
+  action: string;
+  fromDate: string;
+  toDate: string;
+}
+
+// Empty filters are left out so they match every entry
+const toQueryFilters = (filters: AuditFilters): Omit<AuditLogQuery, 'offset' | 'limit'> => ({
+  userId: filters.userId || undefined,
+  entity: filters.entity || undefined,
+  action: (filters.action || undefined) as AuditAction | undefined,
+  fromDate: filters.fromDate || undefined,
+  toDate: filters.toDate || undefined,
+});
+
+const ENTITIES = Array.from(new Set(Object.values(AUDITED_STORES))).sort();
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+export const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [knownUsers, setKnownUsers] = useState<[string, string][]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>({
+    userId: '',
+    entity: '',
+    action: '',
+    fromDate: '',
+    toDate: '',
+  });
+
+  // The log is filtered and paged by the storage backend; later pages are added to the ones shown
+  const loadEntries = useCallback(async (offset: number) => {
+    try {
+      const page = await storage.getAuditLog({ ...toQueryFilters(filters), offset, limit: PAGE_SIZE });
+      setEntries(current => offset === 0 ? page.entries : [...current, ...page.entries]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      alert('The audit log could not be loaded. Please try again.');
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadEntries(0);
+  }, [loadEntries]);
+
+  useEffect(() => {
+    authService.getUsers()
+      .then(users => setKnownUsers([['system', 'System'], ...users.map(user => [user.id, user.name] as [string, string])]))
+      .catch(error => console.error('Error loading users:', error));
+  }, []);
+
+  // Deleted users still appear on their entries
+  const users = Array.from(new Map([...knownUsers, ...entries.map(entry => [entry.userId, entry.userName] as [string, string])]).entries());
+
+  const updateFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters({ ...filters, [field]: value });
+  };
+
+  const handleExport = async () => {
+    try {
+      const matching = await storage.getAllAuditEntries(toQueryFilters(filters));
+      if (matching.length === 0) {
+        alert('There are no audit entries to export.');
+        return;
+      }
+      exportAuditLog(matching);
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      alert('The audit log could not be exported. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Audit Log</h2>
+          <p className="text-sm text-gray-500">Every change to patients, stock, bills, purchases, suppliers, users and settings in the last {AUDIT_RETENTION_DAYS} days.</p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => loadEntries(0)}
+            className="flex items-center space-x-2 px-3 py-2 text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={handleExport}
+            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center space-x-2"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export to Excel</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">User</label>
+          <select
+            value={filters.userId}
+            onChange={(e) => updateFilter('userId', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All users</option>
+            {users.map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+          <select
+            value={filters.entity}
+            onChange={(e) => updateFilter('entity', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All entities</option>
+            {ENTITIES.map(entity => (
+              <option key={entity} value={entity}>{entity}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All actions</option>
+            <option value="create">Create</option>
+            <option value="update">Update</option>
+            <option value="delete">Delete</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.fromDate}
+            onChange={(e) => updateFilter('fromDate', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.toDate}
+            onChange={(e) => updateFilter('toDate', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entity</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fields</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(entry => (
+                <React.Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="flex items-center">
+                        {expandedId === entry.id
+                          ? <ChevronDown className="h-4 w-4 mr-2 text-gray-400" />
+                          : <ChevronRight className="h-4 w-4 mr-2 text-gray-400" />}
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.userName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.entity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.entityLabel}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${ACTION_STYLES[entry.action]}`}>
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {entry.changes.map(change => change.field).join(', ')}
+                    </td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={6} className="px-6 py-4">
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-500 uppercase">
+                              <th className="py-1 pr-4">Field</th>
+                              <th className="py-1 pr-4">Before</th>
+                              <th className="py-1">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {entry.changes.map(change => (
+                              <tr key={change.field} className="align-top">
+                                <td className="py-1 pr-4 font-medium text-gray-700">{change.field}</td>
+                                <td className="py-1 pr-4 text-red-700 break-all">{formatAuditValue(change.before)}</td>
+                                <td className="py-1 text-green-700 break-all">{formatAuditValue(change.after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {entries.length === 0 && (
+          <div className="text-center py-8 text-gray-500">
+            <History className="mx-auto h-10 w-10 text-gray-300 mb-2" />
+            No audit entries found
+          </div>
+        )}
+        {hasMore && (
+          <div className="text-center py-4 border-t border-gray-200">
+            <button
+              onClick={() => loadEntries(entries.length)}
+              className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+            >
+              Show more
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
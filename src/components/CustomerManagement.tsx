@@ -1,13 +1,28 @@
-import React, { useState } from 'react';
-import { Plus, Search, CreditCard as Edit2, Trash2, User, Phone, MapPin, Calendar, Car as IdCard, RefreshCw, X } from 'lucide-react';
-import { Customer } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Search, CreditCard as Edit2, Trash2, User, Phone, MapPin, Calendar, Car as IdCard, RefreshCw, X, Stethoscope } from 'lucide-react';
+import { Customer, Medicine, Prescription, PrescriptionItem, SettingsData, User as UserType, Visit } from '../types';
 import { generatePatientId } from '../utils/patientId';
+import { INDIAN_STATES } from '../utils/gst';
+import { isValidGstin } from '../utils/suppliers';
+import { authService } from '../utils/auth';
+import { getVisitsForPatient } from '../utils/visits';
+import { VisitForm, VisitInput, VisitTimeline } from './PatientVisits';
 
 interface CustomerManagementProps {
   customers: Customer[];
   onAddCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => void;
   onEditCustomer: (id: string, customer: Omit<Customer, 'id' | 'createdAt'>) => void;
   onDeleteCustomer: (id: string) => void;
+  visits: Visit[];
+  prescriptions: Prescription[];
+  medicines: Medicine[];
+  settings: SettingsData;
+  currentUser: UserType;
+  onAddVisit: (visit: VisitInput, prescriptionItems: PrescriptionItem[], goToBilling: boolean) => void;
+  onEditVisit: (id: string, visit: VisitInput, prescriptionItems: PrescriptionItem[], goToBilling: boolean) => void;
+  onBillVisit: (visit: Visit) => void;
+  consultingVisit?: Visit | null;
+  onConsultingVisitOpened?: () => void;
   onRefresh?: () => void;
 }
 
@@ -16,9 +31,22 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
   onAddCustomer,
   onEditCustomer,
   onDeleteCustomer,
+  visits,
+  prescriptions,
+  medicines,
+  settings,
+  currentUser,
+  onAddVisit,
+  onEditVisit,
+  onBillVisit,
+  consultingVisit,
+  onConsultingVisitOpened,
   onRefresh,
 }) => {
   const [showForm, setShowForm] = useState(false);
+  const [timelineCustomer, setTimelineCustomer] = useState<Customer | null>(null);
+  const [visitCustomer, setVisitCustomer] = useState<Customer | null>(null);
+  const [editingVisit, setEditingVisit] = useState<Visit | null>(null);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [phoneError, setPhoneError] = useState(false);
@@ -30,6 +58,8 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
     address: '',
     village: '',
     area: '',
+    state: '',
+    gstin: '',
     dateOfBirth: '',
     medicalHistory: '',
   });
@@ -73,6 +103,8 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
       address: '',
       village: '',
       area: '',
+      state: '',
+      gstin: '',
       dateOfBirth: '',
       medicalHistory: '',
     });
@@ -100,6 +132,11 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
       return; // Prevent submission
     }
 
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      alert('Please enter a valid 15-character GSTIN or leave it blank');
+      return;
+    }
+
     if (editingCustomer) {
       onEditCustomer(editingCustomer.id, formData);
     } else {
@@ -117,6 +154,8 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
       address: customer.address,
       village: customer.village || '',
       area: customer.area || '',
+      state: customer.state || '',
+      gstin: customer.gstin || '',
       dateOfBirth: customer.dateOfBirth || '',
       medicalHistory: customer.medicalHistory || '',
     });
@@ -124,6 +163,46 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
     setShowForm(true);
   };
 
+  const canRecordVisits = authService.hasPermission(currentUser, 'record_visits');
+
+  const openVisitForm = (customer: Customer, visit: Visit | null = null) => {
+    setVisitCustomer(customer);
+    setEditingVisit(visit);
+  };
+
+  const closeVisitForm = () => {
+    setVisitCustomer(null);
+    setEditingVisit(null);
+  };
+
+  // A patient checked in from the appointment book goes straight to their visit.
+  // The ref keeps the effect on the current patient list and callback.
+  const openConsultingVisitRef = useRef<(visit: Visit) => void>(() => {});
+  openConsultingVisitRef.current = (visit: Visit) => {
+    const customer = customers.find(c => c.id === visit.customerId);
+    if (customer) {
+      openVisitForm(customer, visit);
+    }
+    if (onConsultingVisitOpened) {
+      onConsultingVisitOpened();
+    }
+  };
+
+  useEffect(() => {
+    if (consultingVisit) {
+      openConsultingVisitRef.current(consultingVisit);
+    }
+  }, [consultingVisit]);
+
+  const handleSaveVisit = (visit: VisitInput, prescriptionItems: PrescriptionItem[], goToBilling: boolean) => {
+    if (editingVisit) {
+      onEditVisit(editingVisit.id, visit, prescriptionItems, goToBilling);
+    } else {
+      onAddVisit(visit, prescriptionItems, goToBilling);
+    }
+    closeVisitForm();
+  };
+
   const handleRefresh = () => {
     if (onRefresh) {
       onRefresh();
@@ -272,6 +351,33 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    State
+                  </label>
+                  <select
+                    value={formData.state}
+                    onChange={(e) => setFormData({ ...formData, state: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Same as clinic</option>
+                    {INDIAN_STATES.map(state => (
+                      <option key={state.code} value={state.name}>{state.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    GSTIN (for business bills)
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.gstin}
+                    onChange={(e) => setFormData({ ...formData, gstin: e.target.value.toUpperCase() })}
+                    maxLength={15}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
                 {/* Age Display Box - Separate from Date of Birth */}
                 {formData.dateOfBirth && (
                   <div>
@@ -331,6 +437,34 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
         </div>
       )}
 
+      {/* Visit Timeline */}
+      {timelineCustomer && (
+        <VisitTimeline
+          customer={timelineCustomer}
+          visits={getVisitsForPatient(visits, timelineCustomer.id)}
+          prescriptions={prescriptions}
+          settings={settings}
+          canRecordVisits={canRecordVisits}
+          onNewVisit={() => openVisitForm(timelineCustomer)}
+          onEditVisit={(visit) => openVisitForm(timelineCustomer, visit)}
+          onBillVisit={onBillVisit}
+          onClose={() => setTimelineCustomer(null)}
+        />
+      )}
+
+      {/* Visit Form */}
+      {visitCustomer && (
+        <VisitForm
+          customer={visitCustomer}
+          settings={settings}
+          medicines={medicines}
+          visit={editingVisit}
+          prescription={editingVisit ? prescriptions.find(p => p.visitId === editingVisit.id) : null}
+          onSave={handleSaveVisit}
+          onClose={closeVisitForm}
+        />
+      )}
+
       {/* Patients List */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredCustomers.map((customer) => (
@@ -413,9 +547,28 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({
                 </p>
               )}
               
-              <p className="text-xs text-gray-500 mt-3 pt-2 border-t border-gray-100">
-                Added: {new Date(customer.createdAt).toLocaleDateString()}
-              </p>
+              <div className="flex items-center justify-between mt-3 pt-2 border-t border-gray-100">
+                <p className="text-xs text-gray-500">
+                  Added: {new Date(customer.createdAt).toLocaleDateString()}
+                </p>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setTimelineCustomer(customer)}
+                    className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    Visits ({getVisitsForPatient(visits, customer.id).length})
+                  </button>
+                  {canRecordVisits && (
+                    <button
+                      onClick={() => openVisitForm(customer)}
+                      className="inline-flex items-center px-2 py-1 rounded-lg text-xs font-medium text-white bg-blue-600 hover:bg-blue-700"
+                    >
+                      <Stethoscope className="h-3 w-3 mr-1" />
+                      New Visit
+                    </button>
+                  )}
+                </div>
+              </div>
             </div>
           </div>
         ))}
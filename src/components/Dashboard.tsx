@@ -10,7 +10,10 @@ import {
   Truck,
   Archive
 } from 'lucide-react';
-import { Medicine, Customer, Sale, Notification, Purchase } from '../types';
+import { Medicine, Customer, Sale, Notification, Purchase, User } from '../types';
+import { authService } from '../utils/auth';
+import { groupPurchasesByGrn } from '../utils/purchases';
+import { backupScheduler, isBackupStale } from '../utils/backupScheduler';
 
 interface DashboardProps {
   medicines: Medicine[];
@@ -19,10 +22,15 @@ interface DashboardProps {
   purchases: Purchase[];
   notifications: Notification[];
   settings?: any;
+  currentUser: User;
   onSectionChange: (section: string) => void;
   onRefresh?: () => void;
 }
 
+// Stock exports dump whole medicine records, so purchase costs are dropped for users who may not see profit
+const withoutCostFields = (medicine: Medicine): Medicine =>
+  Object.fromEntries(Object.entries(medicine).filter(([field]) => !/cost/i.test(field))) as Medicine;
+
 const downloadLowStockReport = (medicines: Medicine[]) => {
   const lowStockMedicines = medicines.filter(m => m.quantity <= m.minStockLevel);
   exportToExcel(lowStockMedicines, 'low-stock-report', 'Low Stock Report');
@@ -119,7 +127,7 @@ const downloadPurchaseReport = (purchases: Purchase[], medicines: Medicine[]) =>
   console.log('Generating purchase report with data:', purchases.length, 'purchases');
 
   if (purchases.length === 0) {
-    alert('No purchase data available for export. Add medicines to generate purchase records.');
+    alert('No purchase data available for export. Post supplier invoices in the Purchases section to generate purchase records.');
     return;
   }
 
@@ -127,26 +135,27 @@ const downloadPurchaseReport = (purchases: Purchase[], medicines: Medicine[]) =>
   let serialNumber = 1;
 
   purchases.forEach(purchase => {
-    purchase.items.forEach(item => {
-      const medicine = medicines.find(m => m.id === item.medicineId);
+    const medicine = medicines.find(m => m.id === purchase.medicineId);
 
-      purchaseReportData.push({
-        'Sl No': serialNumber++,
-        'Purchase ID': purchase.id.substring(0, 8),
-        'Purchase Date': new Date(purchase.purchaseDate).toLocaleDateString('en-IN'),
-        'Supplier Name': purchase.supplierName || 'N/A',
-        'Supplier Invoice': purchase.invoiceNumber || 'Auto-Generated',
-        'Medicine Name': item.medicineName,
-        'Brand': medicine?.brand || 'N/A',
-        'Batch Number': item.batchNumber || medicine?.batchNumber || 'N/A',
-        'Expiry Date': item.expiryDate ? new Date(item.expiryDate).toLocaleDateString('en-IN') : 'N/A',
-        'Quantity': item.quantity,
-        'Purchase Rate': `₹${item.purchaseRate?.toFixed(2) || '0.00'}`,
-        'MRP': `₹${item.mrp?.toFixed(2) || '0.00'}`,
-        'Total Amount': `₹${(item.quantity * (item.purchaseRate || 0)).toFixed(2)}`,
-        'GST': item.gst ? `${item.gst}%` : 'N/A',
-        'Payment Method': medicine?.paymentMethod || 'Cash'
-      });
+    purchaseReportData.push({
+      'Sl No': serialNumber++,
+      'GRN No': purchase.grnNumber || purchase.id.substring(0, 8),
+      'Purchase Date': new Date(purchase.purchaseDate).toLocaleDateString('en-IN'),
+      'Supplier Name': purchase.supplier || 'N/A',
+      'Supplier Invoice': purchase.invoiceNumber || 'N/A',
+      'Medicine Name': purchase.medicineName,
+      'Brand': purchase.brand || medicine?.brand || 'N/A',
+      'Batch Number': purchase.batchNumber || 'N/A',
+      'Expiry Date': purchase.expiryDate ? new Date(purchase.expiryDate).toLocaleDateString('en-IN') : 'N/A',
+      'Quantity': purchase.quantity,
+      'Free Qty': purchase.freeQuantity || 0,
+      'Purchase Rate': `₹${purchase.costPrice.toFixed(2)}`,
+      'Scheme Disc': `${purchase.schemeDiscount || 0}%`,
+      'MRP': `₹${(purchase.mrp || 0).toFixed(2)}`,
+      'Taxable Amount': `₹${(purchase.taxableAmount || 0).toFixed(2)}`,
+      'GST': `${purchase.gstRate || 0}%`,
+      'GST Amount': `₹${(purchase.gstAmount || 0).toFixed(2)}`,
+      'Total Amount': `₹${purchase.totalCost.toFixed(2)}`
     });
   });
 
@@ -197,10 +206,19 @@ export const Dashboard: React.FC<DashboardProps> = ({
   purchases = [],
   notifications,
   settings: propSettings,
+  currentUser,
   onSectionChange,
   onRefresh
 }) => {
   const [settings, setSettings] = useState<any>(propSettings || {});
+  // undefined until the last backup time has been read
+  const [lastBackupAt, setLastBackupAt] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    backupScheduler.getLastBackupAt()
+      .then(setLastBackupAt)
+      .catch(error => console.error('Error loading last backup time:', error));
+  }, []);
 
   useEffect(() => {
     const loadSettings = () => {
@@ -285,6 +303,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
       console.error('Error refreshing settings:', error);
     }
 
+    backupScheduler.getLastBackupAt().then(setLastBackupAt).catch(() => undefined);
+
     if (onRefresh) {
       onRefresh();
     }
@@ -324,12 +344,15 @@ export const Dashboard: React.FC<DashboardProps> = ({
     }
   }).length;
 
+  const canViewProfit = authService.hasPermission(currentUser, 'view_profit');
+  const exportableMedicines = canViewProfit ? medicines : medicines.map(withoutCostFields);
+
   const handleLowStockClick = () => {
-    downloadLowStockReport(medicines);
+    downloadLowStockReport(exportableMedicines);
   };
 
   const handleExpiringClick = () => {
-    downloadExpiringReport(medicines);
+    downloadExpiringReport(exportableMedicines);
   };
 
   const handleNotificationsClick = () => {
@@ -351,7 +374,9 @@ export const Dashboard: React.FC<DashboardProps> = ({
     downloadPatientReport(sales, customers, medicines, reportSettings);
   };
 
+  // Purchase rates and invoice totals are cost data
   const handlePurchaseReportClick = () => {
+    if (!canViewProfit) return;
     console.log('Purchase report clicked. Purchases available:', purchases.length);
     downloadPurchaseReport(purchases, medicines);
   };
@@ -411,7 +436,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
       icon: AlertTriangle,
       color: 'text-red-700',
       bgColor: 'bg-red-100',
-      onClick: () => downloadExpiringReport(medicines),
+      onClick: () => downloadExpiringReport(exportableMedicines),
     },
     {
       title: 'Unread Notifications',
@@ -452,7 +477,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
       textColor: 'text-purple-600',
       bgColor: 'bg-purple-50',
       action: 'Generate Stock Report',
-      onClick: () => downloadCombinedStockReport(medicines),
+      onClick: () => downloadCombinedStockReport(exportableMedicines),
     },
   ];
 
@@ -460,14 +485,15 @@ export const Dashboard: React.FC<DashboardProps> = ({
     .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
     .slice(0, 5);
 
-  const recentPurchases = [...purchases]
-    .sort((a, b) => new Date(b.purchaseDate).getTime() - new Date(a.purchaseDate).getTime())
-    .slice(0, 5);
+  const recentPurchases = groupPurchasesByGrn(purchases).slice(0, 5);
 
   const lowStockMedicines = medicines
     .filter(m => m.quantity <= m.minStockLevel)
     .slice(0, 5);
 
+  const backupFrequency = propSettings?.backup?.backupFrequency || 'daily';
+  const backupIsStale = lastBackupAt !== undefined && isBackupStale(lastBackupAt, backupFrequency);
+
   return (
     <div className="space-y-6 p-4">
       <div className="flex justify-between items-center">
@@ -484,13 +510,33 @@ export const Dashboard: React.FC<DashboardProps> = ({
         </button>
       </div>
 
+      {backupIsStale && (
+        <div
+          className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 cursor-pointer"
+          onClick={() => onSectionChange('settings')}
+        >
+          <div className="flex items-center">
+            <AlertTriangle className="h-5 w-5 text-yellow-600 mr-2" />
+            <div>
+              <h4 className="text-sm font-medium text-yellow-800">Backup Overdue</h4>
+              <p className="text-sm text-yellow-700">
+                {lastBackupAt
+                  ? `The last backup was taken on ${new Date(lastBackupAt).toLocaleString()}, which is older than the ${backupFrequency} schedule.`
+                  : 'No backup has been taken yet.'}
+                {' '}Open Settings → Backup to create one.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {purchases.length === 0 && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <div className="flex items-center">
             <AlertTriangle className="h-5 w-5 text-blue-600 mr-2" />
             <div>
               <h4 className="text-sm font-medium text-blue-800">No Purchase Data Available</h4>
-              <p className="text-sm text-blue-700">Add medicines in the Medicine Management section to automatically generate purchase records.</p>
+              <p className="text-sm text-blue-700">Post supplier invoices in the Purchases section to generate purchase records.</p>
             </div>
           </div>
         </div>
@@ -618,19 +664,21 @@ export const Dashboard: React.FC<DashboardProps> = ({
           <div className="p-6">
             {recentPurchases.length > 0 ? (
               recentPurchases.map((purchase) => (
-                <div key={purchase.id} className="flex justify-between items-center py-3 border-b border-gray-100 last:border-b-0">
+                <div key={purchase.grnNumber} className="flex justify-between items-center py-3 border-b border-gray-100 last:border-b-0">
                   <div>
-                    <p className="font-medium text-gray-900">{purchase.supplierName || 'Auto-Generated'}</p>
+                    <p className="font-medium text-gray-900">{purchase.supplier || 'N/A'}</p>
                     <p className="text-sm text-gray-600">
-                      {new Date(purchase.purchaseDate).toLocaleDateString()}
+                      {new Date(purchase.purchaseDate).toLocaleDateString()} · {purchase.invoiceNumber}
                     </p>
                   </div>
                   <div className="text-right">
-                    <p className="font-semibold text-blue-600">
-                      ₹{(purchase.totalAmount || 0).toFixed(2)}
-                    </p>
+                    {canViewProfit && (
+                      <p className="font-semibold text-blue-600">
+                        ₹{purchase.totalAmount.toFixed(2)}
+                      </p>
+                    )}
                     <p className="text-xs text-gray-500">
-                      {purchase.items.length} items
+                      {purchase.lines.length} items
                     </p>
                   </div>
                 </div>
@@ -697,15 +745,17 @@ export const Dashboard: React.FC<DashboardProps> = ({
               <Users className="h-5 w-5 mr-2" />
               Patient Report ({sales.length})
             </button>
-            <button
-              onClick={handlePurchaseReportClick}
-              className="flex items-center justify-center px-4 py-3 bg-sky-500 text-white rounded-lg hover:bg-sky-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={purchases.length === 0}
-              title={purchases.length === 0 ? 'No purchase data available. Add medicines to create purchase records.' : `Generate report for ${purchases.length} purchases`}
-            >
-              <Truck className="h-5 w-5 mr-2" />
-              Purchase Report ({purchases.length})
-            </button>
+            {canViewProfit && (
+              <button
+                onClick={handlePurchaseReportClick}
+                className="flex items-center justify-center px-4 py-3 bg-sky-500 text-white rounded-lg hover:bg-sky-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={purchases.length === 0}
+                title={purchases.length === 0 ? 'No purchase data available. Post supplier invoices to create purchase records.' : `Generate report for ${purchases.length} purchases`}
+              >
+                <Truck className="h-5 w-5 mr-2" />
+                Purchase Report ({purchases.length})
+              </button>
+            )}
             <button
               onClick={handleRemainingStockReportClick}
               className="flex items-center justify-center px-4 py-3 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
@@ -724,7 +774,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
               Low Stock Report ({lowStockCount})
             </button>
             <button
-              onClick={() => downloadCombinedStockReport(medicines)}
+              onClick={() => downloadCombinedStockReport(exportableMedicines)}
               className="flex items-center justify-center px-4 py-3 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               disabled={medicines.length === 0}
             >
@@ -10,9 +10,19 @@ import {
   Settings,
   LogOut,
   Shield,
+  Truck,
+  Building2,
+  Lock,
+  KeyRound,
+  History,
+  CalendarDays,
+  Ticket,
+  BellRing,
   User as UserIcon
 } from 'lucide-react';
 import { User } from '../types';
+import { authService } from '../utils/auth';
+import { SECTION_PERMISSIONS, getRoleLabel } from '../utils/permissions';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -21,6 +31,8 @@ interface LayoutProps {
   notificationCount: number;
   currentUser: User;
   onLogout: () => void;
+  onLock: () => void;
+  onSetPin: () => void;
 }
 
 export const Layout: React.FC<LayoutProps> = ({ 
@@ -29,33 +41,27 @@ export const Layout: React.FC<LayoutProps> = ({
   onSectionChange, 
   notificationCount,
   currentUser,
-  onLogout
+  onLogout,
+  onLock,
+  onSetPin
 }) => {
-  // Base menu items available to all users
-  const baseMenuItems = [
+  // Each section shows only for users whose role holds its permission
+  const menuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'customers', label: 'Patients', icon: Users },
+    { id: 'appointments', label: 'Appointments', icon: CalendarDays },
+    { id: 'tokens', label: 'Token Queue', icon: Ticket },
+    { id: 'reminders', label: 'Reminders', icon: BellRing },
     { id: 'sales', label: 'Sales', icon: ShoppingCart },
-  ];
-  
-  // Admin-only menu items
-  const adminMenuItems = [
     { id: 'medicines', label: 'Medicines', icon: Package },
+    { id: 'purchases', label: 'Purchases', icon: Truck },
+    { id: 'suppliers', label: 'Suppliers', icon: Building2 },
     { id: 'notifications', label: 'Notifications', icon: Bell },
+    { id: 'reports', label: 'Reports', icon: BarChart3 },
     { id: 'users', label: 'User Management', icon: Shield },
+    { id: 'audit', label: 'Audit Log', icon: History },
     { id: 'settings', label: 'Settings', icon: Settings },
-  ];
-  
-  // Salesman additional items
-  const salesmanMenuItems = [
-    { id: 'medicines', label: 'Medicines', icon: Package },
-  ];
-  
-  // Combine menu items based on user role
-  const menuItems = [
-    ...baseMenuItems,
-    ...(currentUser.role === 'admin' ? adminMenuItems : salesmanMenuItems)
-  ];
+  ].filter(item => authService.hasPermission(currentUser, SECTION_PERMISSIONS[item.id]));
 
   return (
     <div className="min-h-screen bg-gray-50 flex">
@@ -84,7 +90,7 @@ export const Layout: React.FC<LayoutProps> = ({
               </div>
               <div>
                 <p className="text-sm font-medium text-blue-900">{currentUser.name}</p>
-                <p className="text-xs text-blue-700 capitalize">{currentUser.role}</p>
+                <p className="text-xs text-blue-700">{getRoleLabel(currentUser.role)}</p>
               </div>
             </div>
           </div>
@@ -145,8 +151,23 @@ export const Layout: React.FC<LayoutProps> = ({
                   : 'bg-green-100 text-green-800'
               }`}>
                 {currentUser.role === 'admin' ? <Shield className="h-3 w-3 mr-1" /> : <UserIcon className="h-3 w-3 mr-1" />}
-                {currentUser.role.charAt(0).toUpperCase() + currentUser.role.slice(1)}
+                {getRoleLabel(currentUser.role)}
               </span>
+              <button
+                onClick={onSetPin}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Set unlock PIN"
+              >
+                <KeyRound className="h-4 w-4" />
+              </button>
+              <button
+                onClick={onLock}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                title="Lock the screen or switch cashier"
+              >
+                <Lock className="h-4 w-4" />
+                <span>Lock</span>
+              </button>
             </div>
           </div>
         </header>
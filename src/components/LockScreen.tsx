@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { Lock, User as UserIcon, AlertCircle, LogOut, Users, X } from 'lucide-react';
+import { User } from '../types';
+import { authService } from '../utils/auth';
+
+interface LockScreenProps {
+  currentUser: User;
+  onUnlock: (user: User) => void;
+  onLogout: () => void;
+}
+
+// Covers the app instead of replacing it, so open screens such as the billing cart keep their state
+export const LockScreen: React.FC<LockScreenProps> = ({ currentUser, onUnlock, onLogout }) => {
+  const [mode, setMode] = useState<'unlock' | 'switch'>('unlock');
+  const [secret, setSecret] = useState('');
+  const [switchForm, setSwitchForm] = useState({ username: '', password: '' });
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      const { user, error: unlockError } = await authService.unlockSession(secret);
+      if (user) {
+        onUnlock(user);
+        return;
+      }
+      if (!authService.getAuthState().isAuthenticated) {
+        alert(unlockError);
+        onLogout();
+        return;
+      }
+      setError(unlockError || 'Incorrect PIN or password');
+      setSecret('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSwitch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      const { user, error: switchError } = await authService.switchUser(switchForm.username, switchForm.password);
+      if (user) {
+        onUnlock(user);
+      } else {
+        setError(switchError || 'Invalid username or password');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeMode = (nextMode: 'unlock' | 'switch') => {
+    setMode(nextMode);
+    setError('');
+    setSecret('');
+    setSwitchForm({ username: '', password: '' });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-90 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-sm">
+        <div className="text-center mb-6">
+          <div className="bg-blue-600 p-4 rounded-full w-16 h-16 mx-auto mb-4 flex items-center justify-center">
+            <Lock className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900">Screen Locked</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {mode === 'unlock' ? `Signed in as ${currentUser.name}` : 'Sign in as another cashier'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center">
+            <AlertCircle className="h-4 w-4 text-red-600 mr-2" />
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {mode === 'unlock' ? (
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+              <input
+                type="password"
+                required
+                autoFocus
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="PIN or password"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Checking...' : 'Unlock'}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSwitch} className="space-y-4">
+            <div className="relative">
+              <UserIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+              <input
+                type="text"
+                required
+                autoFocus
+                value={switchForm.username}
+                onChange={(e) => setSwitchForm({ ...switchForm, username: e.target.value })}
+                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Username"
+              />
+            </div>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+              <input
+                type="password"
+                required
+                value={switchForm.password}
+                onChange={(e) => setSwitchForm({ ...switchForm, password: e.target.value })}
+                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Password"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Signing in...' : 'Switch Cashier'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 flex justify-between text-sm">
+          <button
+            onClick={() => changeMode(mode === 'unlock' ? 'switch' : 'unlock')}
+            className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+          >
+            <Users className="h-4 w-4" />
+            <span>{mode === 'unlock' ? 'Switch cashier' : `Back to ${currentUser.name}`}</span>
+          </button>
+          <button
+            onClick={onLogout}
+            className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+          >
+            <LogOut className="h-4 w-4" />
+            <span>Sign out</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface SetPinModalProps {
+  currentUser: User;
+  onClose: () => void;
+}
+
+export const SetPinModal: React.FC<SetPinModalProps> = ({ currentUser, onClose }) => {
+  const [formData, setFormData] = useState({ currentPassword: '', pin: '', confirmPin: '' });
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.pin !== formData.confirmPin) {
+      setError('The PINs do not match');
+      return;
+    }
+
+    const pinError = await authService.setPin(currentUser.id, formData.currentPassword, formData.pin);
+    if (pinError) {
+      setError(pinError);
+      return;
+    }
+
+    alert('Your unlock PIN has been saved.');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Set Unlock PIN</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            A 4 to 6 digit PIN unlocks the screen after it locks for inactivity. Your password still works too.
+          </p>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Current Password *</label>
+            <input
+              type="password"
+              required
+              value={formData.currentPassword}
+              onChange={(e) => setFormData({ ...formData, currentPassword: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">New PIN *</label>
+              <input
+                type="password"
+                inputMode="numeric"
+                required
+                maxLength={6}
+                value={formData.pin}
+                onChange={(e) => setFormData({ ...formData, pin: e.target.value.replace(/\D/g, '') })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confirm PIN *</label>
+              <input
+                type="password"
+                inputMode="numeric"
+                required
+                maxLength={6}
+                value={formData.confirmPin}
+                onChange={(e) => setFormData({ ...formData, confirmPin: e.target.value.replace(/\D/g, '') })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+              Save PIN
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
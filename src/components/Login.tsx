@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { User, Lock, Eye, EyeOff, Stethoscope, AlertCircle } from 'lucide-react';
 import { authService } from '../utils/auth';
+import { describePasswordPolicy } from '../utils/passwords';
 import { User as UserType } from '../types';
 
 interface LoginProps {
@@ -15,6 +16,10 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Set when the account must choose a new password before continuing
+  const [pendingUser, setPendingUser] = useState<UserType | null>(null);
+  const [passwordForm, setPasswordForm] = useState({ newPassword: '', confirmPassword: '' });
+  const [policyHint, setPolicyHint] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,12 +27,15 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
     setError('');
 
     try {
-      const user = authService.login(formData.username, formData.password);
-      
-      if (user) {
+      const { user, error: loginError } = await authService.login(formData.username, formData.password);
+
+      if (user?.mustChangePassword) {
+        setPendingUser(user);
+        setPolicyHint(describePasswordPolicy(await authService.getSecuritySettings()));
+      } else if (user) {
         onLogin(user);
       } else {
-        setError('Invalid username or password');
+        setError(loginError || 'Invalid username or password');
       }
     } catch (err) {
       setError('Login failed. Please try again.');
@@ -36,6 +44,35 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
     }
   };
 
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingUser) return;
+
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setError('The new passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const { user, error: changeError } = await authService.changePassword(
+        pendingUser.id,
+        formData.password,
+        passwordForm.newPassword
+      );
+      if (user) {
+        onLogin(user);
+      } else {
+        setError(changeError || 'Could not change the password');
+      }
+    } catch {
+      setError('Password change failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     if (error) setError(''); // Clear error when user starts typing
@@ -70,6 +107,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
             <div className="text-sm text-blue-800 space-y-1">
               <p><strong>Admin:</strong> admin / admin123</p>
               <p><strong>Salesman:</strong> salesman / sales123</p>
+              <p className="text-xs">You will be asked to choose a new password on first sign-in.</p>
             </div>
           </div>
 
@@ -80,6 +118,79 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
             </div>
           )}
 
+          {pendingUser ? (
+            <form onSubmit={handleChangePassword} className="space-y-6">
+              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <p className="text-sm text-yellow-800">
+                  Welcome, {pendingUser.name}. Please choose a new password before continuing.
+                </p>
+                {policyHint && <p className="text-xs text-yellow-700 mt-1">{policyHint}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  New Password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    value={passwordForm.newPassword}
+                    onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
+                    className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                    placeholder="Enter a new password"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  >
+                    {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirm New Password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    value={passwordForm.confirmPassword}
+                    onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                    placeholder="Re-enter the new password"
+                  />
+                </div>
+              </div>
+
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setPendingUser(null);
+                    setPasswordForm({ newPassword: '', confirmPassword: '' });
+                    setFormData(prev => ({ ...prev, password: '' }));
+                    setError('');
+                  }}
+                  className="flex-1 py-3 px-4 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Saving...' : 'Change Password'}
+                </button>
+              </div>
+            </form>
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Username Field */}
             <div>
@@ -140,6 +251,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
               )}
             </button>
           </form>
+          )}
 
           {/* Footer */}
           <div className="mt-8 text-center">
@@ -1,6 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, CreditCard as Edit, Trash2, Search, AlertTriangle, ChevronDown, X, RefreshCw, Calculator, FileText, DollarSign, Clock, CheckCircle, XCircle, Download } from 'lucide-react';
+import { Plus, CreditCard as Edit, Trash2, Search, AlertTriangle, ChevronDown, X, RefreshCw, Calculator, FileText, DollarSign, Clock, CheckCircle, XCircle, Download, Layers, Tag } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import { MedicineBatch, User } from '../types';
+import { applyBatches, createBatchId, getMedicineBatches, sortBatchesFefo } from '../utils/batches';
+import { calculateMedicineTotalPurchase } from '../utils/suppliers';
+import { UNIT_TYPES } from '../utils/bills';
+import { createInternalBarcodes, findBarcodeOwner, normalizeBarcode, parseBarcodes } from '../utils/barcodes';
+import { LABEL_LAYOUTS, LabelItem, LabelSymbology, printLabels } from '../utils/labels';
+import { storage } from '../utils/storage';
+import { authService } from '../utils/auth';
 
 export type PaymentMethod = 'cash' | 'credit' | 'upi' | 'card' | 'bank_transfer';
 export type PaymentStatus = 'paid' | 'unpaid' | 'partial';
@@ -49,6 +57,9 @@ export interface Medicine {
   capsules?: number;
   purchaseRatePerCapsule?: number;
   sellingPricePerCapsule?: number;
+  barcodes?: string[];
+  rack?: string;
+  batches?: MedicineBatch[];
 }
 
 interface MedicineManagementProps {
@@ -56,6 +67,8 @@ interface MedicineManagementProps {
   onAddMedicine: (medicine: Omit<Medicine, 'id' | 'createdAt'>) => void;
   onEditMedicine: (id: string, medicine: Omit<Medicine, 'id' | 'createdAt'>) => void;
   onDeleteMedicine: (id: string) => void;
+  onUpdateMedicines: (medicines: Medicine[]) => void;
+  currentUser: User;
   onRefresh?: () => void;
 }
 
@@ -86,25 +99,6 @@ const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
   { value: 'bank_transfer', label: 'Bank Transfer' },
 ];
 
-const UNIT_TYPES = [
-  { value: 'tablets', label: 'Tablets' },
-  { value: 'strips', label: 'Strips' },
-  { value: 'capsules', label: 'Capsules' },
-  { value: 'bottles', label: 'Bottles' },
-  { value: 'tubes', label: 'Tubes' },
-  { value: 'Pieces', label: 'Pieces' },
-  { value: 'vials', label: 'Vials' },
-  { value: 'ampoules', label: 'Ampoules' },
-  { value: 'sachets', label: 'Sachets' },
-  { value: 'syrups', label: 'Syrups' },
-  { value: 'drops', label: 'Drops' },
-  { value: 'inhalers', label: 'Inhalers' },
-  { value: 'creams', label: 'Creams' },
-  { value: 'ointments', label: 'Ointments' },
-  { value: 'powders', label: 'Powders' },
-  { value: 'other', label: 'Other' }
-];
-
 const COMMON_HSN_CODES = [
   '30049099',
   '30041000',
@@ -143,24 +137,6 @@ const generateInvoiceNumber = (medicines: Medicine[]): string => {
   return `${prefix}${newNumber}`;
 };
 
-const calculateMedicineTotalPurchase = (medicine: Medicine): number => {
-  let baseAmount = 0;
-
-  if (medicine.unitType === 'tablets' || medicine.unitType === 'capsules') {
-    const ratePerUnit = medicine.unitType === 'tablets'
-      ? medicine.purchaseRatePerTablet
-      : (medicine.purchaseRatePerCapsule || 0);
-    baseAmount = medicine.quantity * ratePerUnit;
-  } else if (medicine.unitType === 'strips') {
-    baseAmount = medicine.quantity * medicine.purchaseRatePerTablet;
-  } else {
-    baseAmount = medicine.quantity * medicine.costPrice;
-  }
-
-  const gstAmount = (baseAmount * medicine.costPriceGst) / 100;
-  return baseAmount + gstAmount;
-};
-
 const getPaymentStatus = (medicine: Medicine): PaymentStatus => {
   if (medicine.paymentMethod !== 'credit') {
     return 'paid';
@@ -183,11 +159,16 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
   onAddMedicine,
   onEditMedicine,
   onDeleteMedicine,
+  onUpdateMedicines,
+  currentUser,
   onRefresh,
 }) => {
   const [activeTab, setActiveTab] = useState<'inventory' | 'payments'>('inventory');
   const [showForm, setShowForm] = useState(false);
   const [editingMedicine, setEditingMedicine] = useState<Medicine | null>(null);
+  // New medicines need a price, so the lock only applies when editing
+  const pricesLocked = !!editingMedicine && !authService.hasPermission(currentUser, 'edit_medicine_price');
+  const canViewProfit = authService.hasPermission(currentUser, 'view_profit');
   const [searchTerm, setSearchTerm] = useState('');
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
   const [categorySearchTerm, setCategorySearchTerm] = useState('');
@@ -201,7 +182,25 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
   const [paymentAmount, setPaymentAmount] = useState<number>(0);
   const [paymentDate, setPaymentDate] = useState<string>(new Date().toISOString().split('T')[0]);
   const [paymentNotes, setPaymentNotes] = useState<string>('');
+  const [batchMedicine, setBatchMedicine] = useState<Medicine | null>(null);
+  const [batchForm, setBatchForm] = useState({
+    batchNumber: '',
+    expiryDate: '',
+    quantity: 0,
+    costPrice: 0,
+    supplier: '',
+    purchaseDate: new Date().toISOString().split('T')[0],
+    invoiceNumber: '',
+    barcode: '',
+  });
 
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [selectedMedicineIds, setSelectedMedicineIds] = useState<string[]>([]);
+  const [showLabelModal, setShowLabelModal] = useState(false);
+  const [labelMode, setLabelMode] = useState<'medicine' | 'batch'>('medicine');
+  const [labelLayoutId, setLabelLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [labelSymbology, setLabelSymbology] = useState<LabelSymbology>('code128');
+  const [labelCopies, setLabelCopies] = useState<Record<string, number>>({});
   const [formData, setFormData] = useState<MedicineFormInput>({
     name: '',
     brand: '',
@@ -235,6 +234,8 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
     capsules: 0,
     purchaseRatePerCapsule: 0,
     sellingPricePerCapsule: 0,
+    barcodes: [],
+    rack: '',
   });
 
   useEffect(() => {
@@ -366,17 +367,13 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
   ]);
 
   useEffect(() => {
-    const savedSettings = localStorage.getItem('clinic_settings');
-    if (savedSettings) {
-      const settings = JSON.parse(savedSettings);
-      if (settings.categories) {
+    storage.getSettings().then(settings => {
+      if (settings?.categories) {
         setAvailableCategories(settings.categories);
       } else {
         setAvailableCategories(Object.keys(COMMON_MEDICINES));
       }
-    } else {
-      setAvailableCategories(Object.keys(COMMON_MEDICINES));
-    }
+    });
   }, []);
 
   useEffect(() => {
@@ -398,6 +395,7 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
     medicine.brand.toLowerCase().includes(searchTerm.toLowerCase()) ||
     medicine.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
     medicine.hsnCode.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    !!medicine.barcodes?.some(code => code.includes(normalizeBarcode(searchTerm))) ||
     (medicine.invoiceNumber && medicine.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
@@ -503,7 +501,10 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
       capsules: 0,
       purchaseRatePerCapsule: 0,
       sellingPricePerCapsule: 0,
+      barcodes: [],
+      rack: '',
     });
+    setBarcodeInput('');
     setEditingMedicine(null);
     setShowForm(false);
     setCategorySearchTerm('');
@@ -513,16 +514,114 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
     setShowHsnSuggestions(false);
   };
 
+  // The form always describes one batch: a new medicine starts its ledger with it,
+  // and editing updates the batch with the same number (or adds it as a new one)
+  const buildBatchesFromForm = (): MedicineBatch[] => {
+    const existingBatches = editingMedicine ? getMedicineBatches(editingMedicine) : [];
+    const matchingBatch = existingBatches.find(batch => batch.batchNumber === formData.batchNumber);
+    const otherBatchesStock = existingBatches
+      .filter(batch => batch !== matchingBatch)
+      .reduce((sum, batch) => sum + batch.quantity, 0);
+
+    const formBatch: MedicineBatch = {
+      id: matchingBatch ? matchingBatch.id : createBatchId(),
+      batchNumber: formData.batchNumber,
+      expiryDate: formData.expiryDate,
+      quantity: Math.max(0, formData.quantity - otherBatchesStock),
+      costPrice: formData.costPrice,
+      supplier: formData.supplier,
+      purchaseDate: formData.purchaseDate,
+      invoiceNumber: formData.invoiceNumber,
+      createdAt: matchingBatch ? matchingBatch.createdAt : new Date().toISOString(),
+    };
+
+    return matchingBatch
+      ? existingBatches.map(batch => batch === matchingBatch ? formBatch : batch)
+      : [...existingBatches, formBatch];
+  };
+
+  const addBarcodes = (text: string) => {
+    const codes = parseBarcodes(text).filter(code => !formData.barcodes?.includes(code));
+    if (codes.length === 0) return;
+
+    const owner = findBarcodeOwner(medicines, codes, editingMedicine?.id);
+    if (owner) {
+      alert(`Barcode ${owner.barcode} is already used by ${owner.medicine.name}`);
+      return;
+    }
+
+    setFormData({ ...formData, barcodes: [...(formData.barcodes || []), ...codes] });
+    setBarcodeInput('');
+  };
+
+  const removeBarcode = (code: string) => {
+    setFormData({ ...formData, barcodes: (formData.barcodes || []).filter(existing => existing !== code) });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const medicineData = applyBatches(formData as MedicineFormInput, buildBatchesFromForm());
     if (editingMedicine) {
-      onEditMedicine(editingMedicine.id, formData as MedicineFormInput);
+      onEditMedicine(editingMedicine.id, medicineData);
     } else {
-      onAddMedicine(formData as MedicineFormInput);
+      onAddMedicine(medicineData);
     }
     resetForm();
   };
 
+  const openBatchLedger = (medicine: Medicine) => {
+    setBatchMedicine(medicine);
+    setBatchForm({
+      batchNumber: '',
+      expiryDate: '',
+      quantity: 0,
+      costPrice: medicine.costPrice || 0,
+      supplier: medicine.supplier || '',
+      purchaseDate: new Date().toISOString().split('T')[0],
+      invoiceNumber: '',
+      barcode: '',
+    });
+  };
+
+  const handleAddBatch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!batchMedicine || batchForm.quantity <= 0) return;
+
+    if (getMedicineBatches(batchMedicine).some(batch => batch.batchNumber === batchForm.batchNumber)) {
+      alert('A batch with this number already exists for this medicine');
+      return;
+    }
+
+    const barcode = normalizeBarcode(batchForm.barcode);
+    const barcodeOwner = barcode ? findBarcodeOwner(medicines, [barcode]) : null;
+    if (barcodeOwner) {
+      alert(`Barcode ${barcode} is already used by ${barcodeOwner.medicine.name}`);
+      return;
+    }
+
+    const newBatch: MedicineBatch = {
+      ...batchForm,
+      barcode: barcode || undefined,
+      id: createBatchId(),
+      createdAt: new Date().toISOString(),
+    };
+    const { id, createdAt, ...medicineData } = applyBatches(batchMedicine, [...getMedicineBatches(batchMedicine), newBatch]);
+
+    onEditMedicine(id, medicineData);
+    openBatchLedger({ ...medicineData, id, createdAt });
+  };
+
+  const handleDeleteBatch = (batchId: string) => {
+    if (!batchMedicine) return;
+    if (!window.confirm('Remove this batch and its remaining stock?')) return;
+
+    const remainingBatches = getMedicineBatches(batchMedicine).filter(batch => batch.id !== batchId);
+    const { id, createdAt, ...medicineData } = applyBatches(batchMedicine, remainingBatches);
+
+    onEditMedicine(id, medicineData);
+    setBatchMedicine({ ...medicineData, id, createdAt });
+  };
+
   const handleEdit = (medicine: Medicine) => {
     setFormData({
       name: medicine.name,
@@ -557,6 +656,8 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
       capsules: medicine.capsules || 0,
       purchaseRatePerCapsule: medicine.purchaseRatePerCapsule || 0,
       sellingPricePerCapsule: medicine.sellingPricePerCapsule || 0,
+      barcodes: medicine.barcodes || [],
+      rack: medicine.rack || '',
     });
     setCategorySearchTerm(medicine.category);
     setBrandSearchTerm(medicine.brand);
@@ -629,6 +730,88 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
     setSelectedMedicineForPayment(null);
   };
 
+  const toggleMedicineSelection = (id: string) => {
+    setSelectedMedicineIds(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+  };
+
+  const toggleSelectAll = () => {
+    const visibleIds = filteredMedicines.map(medicine => medicine.id);
+    const allSelected = visibleIds.every(id => selectedMedicineIds.includes(id));
+    setSelectedMedicineIds(allSelected
+      ? selectedMedicineIds.filter(id => !visibleIds.includes(id))
+      : Array.from(new Set([...selectedMedicineIds, ...visibleIds])));
+  };
+
+  // One row per selected medicine, or per batch in stock when labelling packs
+  const labelRows = medicines
+    .filter(medicine => selectedMedicineIds.includes(medicine.id))
+    .flatMap(medicine => {
+      if (labelMode === 'medicine') {
+        return [{ key: medicine.id, medicine, batch: undefined as MedicineBatch | undefined }];
+      }
+      const batches = sortBatchesFefo(getMedicineBatches(medicine));
+      const inStock = batches.filter(batch => batch.quantity > 0);
+      return (inStock.length > 0 ? inStock : batches).map(batch => ({ key: `${medicine.id}:${batch.id}`, medicine, batch }));
+    });
+
+  const getLabelPrice = (medicine: Medicine) => {
+    if (medicine.unitType === 'tablets' || medicine.unitType === 'strips' || medicine.unitType === 'capsules') {
+      return { mrp: medicine.sellingPricePerStrip, mrpUnit: 'strip' };
+    }
+    return { mrp: medicine.totalSellingPrice || medicine.sellingPrice, mrpUnit: undefined };
+  };
+
+  const handlePrintLabels = () => {
+    const rows = labelRows.filter(row => (labelCopies[row.key] ?? 1) > 0);
+    if (rows.length === 0) {
+      alert('Please set at least one label to print.');
+      return;
+    }
+
+    // Items without a code of their own get an internal one, saved so it scans at the counter
+    const missing = rows.filter(row => (row.batch ? !row.batch.barcode : !row.medicine.barcodes?.length));
+    const newCodes = createInternalBarcodes(medicines, missing.length);
+    const changed = new Map<string, Medicine>();
+    missing.forEach((row, index) => {
+      const medicine = changed.get(row.medicine.id) || row.medicine;
+      if (row.batch) {
+        const batchId = row.batch.id;
+        const batches = getMedicineBatches(medicine).map(batch =>
+          batch.id === batchId ? { ...batch, barcode: newCodes[index] } : batch
+        );
+        changed.set(medicine.id, applyBatches(medicine, batches));
+      } else {
+        changed.set(medicine.id, { ...medicine, barcodes: [newCodes[index]] });
+      }
+    });
+
+    const items: LabelItem[] = rows.map(row => {
+      const medicine = changed.get(row.medicine.id) || row.medicine;
+      const batch = row.batch && getMedicineBatches(medicine).find(b => b.id === row.batch?.id);
+      return {
+        code: batch?.barcode || medicine.barcodes?.[0] || '',
+        name: medicine.name,
+        batchNumber: batch?.batchNumber,
+        expiryDate: batch?.expiryDate,
+        rack: medicine.rack,
+        copies: labelCopies[row.key] ?? 1,
+        ...getLabelPrice(medicine),
+      };
+    });
+
+    try {
+      printLabels(items, LABEL_LAYOUTS.find(layout => layout.id === labelLayoutId) || LABEL_LAYOUTS[0], labelSymbology);
+    } catch (error) {
+      console.error('Error printing labels:', error);
+      alert(`Could not print labels: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    if (changed.size > 0) {
+      onUpdateMedicines(Array.from(changed.values()));
+    }
+  };
+
   const isExpired = (expiryDate: string) => new Date(expiryDate) < new Date();
   const isExpiringSoon = (expiryDate: string) => {
     const expiry = new Date(expiryDate);
@@ -812,6 +995,14 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                 <RefreshCw className="h-4 w-4" />
                 <span>Refresh</span>
               </button>
+              <button
+                onClick={() => setShowLabelModal(true)}
+                disabled={selectedMedicineIds.length === 0}
+                className="flex items-center space-x-2 px-3 py-2 text-purple-600 bg-purple-50 rounded-lg hover:bg-purple-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Tag className="h-4 w-4" />
+                <span>Print Labels{selectedMedicineIds.length > 0 ? ` (${selectedMedicineIds.length})` : ''}</span>
+              </button>
             </div>
             <button
               onClick={handleFormOpen}
@@ -1037,6 +1228,67 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                       </p>
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Barcodes
+                      </label>
+                      <div className="flex space-x-2">
+                        <input
+                          type="text"
+                          value={barcodeInput}
+                          onChange={(e) => setBarcodeInput(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              addBarcodes(barcodeInput);
+                            }
+                          }}
+                          placeholder="Scan or type EAN / barcode..."
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => addBarcodes(barcodeInput)}
+                          className="px-3 py-2 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100"
+                          title="Add barcode"
+                        >
+                          <Plus className="h-4 w-4" />
+                        </button>
+                      </div>
+                      {formData.barcodes && formData.barcodes.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {formData.barcodes.map(code => (
+                            <span key={code} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-mono bg-gray-100 text-gray-800">
+                              {code}
+                              <button
+                                type="button"
+                                onClick={() => removeBarcode(code)}
+                                className="ml-1 text-gray-500 hover:text-red-600"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        A medicine can have several codes, e.g. one per pack size or manufacturer
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Rack / Shelf
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.rack || ''}
+                        onChange={(e) => setFormData({ ...formData, rack: e.target.value })}
+                        placeholder="e.g. A3"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
                         Payment Method *
@@ -1284,6 +1536,12 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                       <h4 className="text-lg font-medium text-gray-900">Pricing Information</h4>
                     </div>
 
+                    {pricesLocked && (
+                      <p className="mb-4 text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+                        You do not have permission to change prices. Other details can still be edited.
+                      </p>
+                    )}
+                    <fieldset disabled={pricesLocked} className="disabled:opacity-60">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       <div className="bg-gray-50 p-4 rounded-lg space-y-4">
                         <h5 className="font-medium text-gray-900">Purchase Price Details</h5>
@@ -1463,8 +1721,9 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                         </div>
                       </div>
                     </div>
+                    </fieldset>
 
-                    {formData.totalSellingPrice > 0 && formData.totalCostPrice > 0 && (
+                    {canViewProfit && formData.totalSellingPrice > 0 && formData.totalCostPrice > 0 && (
                       <div className="mt-4 p-4 bg-purple-50 border border-purple-200 rounded-lg">
                         <div className="flex items-center justify-between">
                           <span className="text-purple-700 font-medium">
@@ -1590,6 +1849,7 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                           </div>
                         </div>
 
+                        {canViewProfit && (
                         <div className="col-span-full bg-gradient-to-br from-amber-50 to-amber-100 p-6 rounded-lg border-2 border-amber-300 shadow-md">
                           <div className="flex items-center justify-between">
                             <div>
@@ -1612,6 +1872,7 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                             </div>
                           </div>
                         </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -1640,6 +1901,14 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={filteredMedicines.length > 0 && filteredMedicines.every(medicine => selectedMedicineIds.includes(medicine.id))}
+                      onChange={toggleSelectAll}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  </th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Invoice No.</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Name</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Brand</th>
@@ -1673,6 +1942,14 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                             : ''
                         }`}
                       >
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedMedicineIds.includes(medicine.id)}
+                            onChange={() => toggleMedicineSelection(medicine.id)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        </td>
                         <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 font-mono">
                           {medicine.invoiceNumber || '-'}
                         </td>
@@ -1699,6 +1976,11 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
                           {medicine.expiryDate}
+                          {getMedicineBatches(medicine).length > 1 && (
+                            <span className="ml-2 text-xs text-purple-600">
+                              +{getMedicineBatches(medicine).length - 1} batches
+                            </span>
+                          )}
                           {isExpired(medicine.expiryDate) && (
                             <span className="ml-2 text-xs text-red-600 flex items-center">
                               <AlertTriangle className="h-3 w-3 mr-1" />
@@ -1747,6 +2029,13 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                           )}
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap text-right space-x-2">
+                          <button
+                            onClick={() => openBatchLedger(medicine)}
+                            className="text-purple-600 hover:text-purple-800"
+                            title={`Batches (${getMedicineBatches(medicine).length})`}
+                          >
+                            <Layers className="h-4 w-4" />
+                          </button>
                           <button
                             onClick={() => handleEdit(medicine)}
                             className="text-blue-600 hover:text-blue-800"
@@ -1766,7 +2055,7 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
                 ) : (
                   <tr>
                     <td
-                      colSpan={13}
+                      colSpan={14}
                       className="px-4 py-6 text-center text-gray-500 text-sm"
                     >
                       No medicines found
@@ -1887,6 +2176,287 @@ export const MedicineManagement: React.FC<MedicineManagementProps> = ({
         </div>
       )}
 
+      {showLabelModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">Print Labels</h3>
+              <button
+                onClick={() => setShowLabelModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Label For</label>
+                <select
+                  value={labelMode}
+                  onChange={(e) => setLabelMode(e.target.value as 'medicine' | 'batch')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="medicine">Each medicine (shelf)</option>
+                  <option value="batch">Each batch (packs)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code Type</label>
+                <select
+                  value={labelSymbology}
+                  onChange={(e) => setLabelSymbology(e.target.value as LabelSymbology)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="code128">Code 128 barcode</option>
+                  <option value="qr">QR code</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Label Size</label>
+                <select
+                  value={labelLayoutId}
+                  onChange={(e) => setLabelLayoutId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  {LABEL_LAYOUTS.map(layout => (
+                    <option key={layout.id} value={layout.id}>{layout.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg mb-2">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Medicine</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Batch</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Code</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Copies</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {labelRows.map(row => {
+                    const code = row.batch ? row.batch.barcode : row.medicine.barcodes?.[0];
+                    return (
+                      <tr key={row.key}>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {row.medicine.name}
+                          {row.medicine.rack && <span className="ml-2 text-xs text-gray-500">Rack {row.medicine.rack}</span>}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-700">
+                          {row.batch ? `${row.batch.batchNumber || '-'} (exp ${row.batch.expiryDate || '-'})` : '-'}
+                        </td>
+                        <td className="px-4 py-2 text-sm font-mono">
+                          {code || <span className="text-purple-600 font-sans text-xs">New internal code</span>}
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            value={labelCopies[row.key] ?? 1}
+                            onChange={(e) => setLabelCopies({ ...labelCopies, [row.key]: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              Items without a barcode get an internal code, saved to the medicine so it can be scanned at billing.
+            </p>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setShowLabelModal(false)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handlePrintLabels}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+              >
+                <Tag className="h-4 w-4" />
+                <span>Print {labelRows.reduce((sum, row) => sum + (labelCopies[row.key] ?? 1), 0)} Labels</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {batchMedicine && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-semibold">Batches - {batchMedicine.name}</h3>
+                <p className="text-sm text-gray-500">
+                  {batchMedicine.brand} • Total stock: {batchMedicine.quantity}
+                </p>
+              </div>
+              <button
+                onClick={() => setBatchMedicine(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="text-xs text-gray-500 mb-2">
+              Listed in dispensing order: the earliest-expiring batch is sold first.
+            </p>
+            <div className="overflow-x-auto border border-gray-200 rounded-lg mb-6">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Batch No.</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Expiry</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Quantity</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Cost (₹)</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Supplier</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Invoice</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-gray-500">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {sortBatchesFefo(getMedicineBatches(batchMedicine)).map(batch => (
+                    <tr
+                      key={batch.id}
+                      className={isExpired(batch.expiryDate) ? 'bg-red-50' : isExpiringSoon(batch.expiryDate) ? 'bg-yellow-50' : ''}
+                    >
+                      <td className="px-4 py-2 text-sm font-mono">{batch.batchNumber || '-'}</td>
+                      <td className="px-4 py-2 text-sm">{batch.expiryDate || '-'}</td>
+                      <td className={`px-4 py-2 text-sm ${batch.quantity === 0 ? 'text-gray-400' : 'text-gray-900'}`}>{batch.quantity}</td>
+                      <td className="px-4 py-2 text-sm">₹{(batch.costPrice || 0).toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm">{batch.supplier || '-'}</td>
+                      <td className="px-4 py-2 text-sm font-mono">{batch.invoiceNumber || '-'}</td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          onClick={() => handleDeleteBatch(batch.id)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {getMedicineBatches(batchMedicine).length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-4 text-center text-sm text-gray-500">No batches recorded</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <form onSubmit={handleAddBatch} className="border-t pt-4">
+              <h4 className="font-medium text-gray-900 mb-3">Add Batch (Restock)</h4>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Batch Number *</label>
+                  <input
+                    type="text"
+                    required
+                    value={batchForm.batchNumber}
+                    onChange={(e) => setBatchForm({ ...batchForm, batchNumber: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Expiry Date *</label>
+                  <input
+                    type="date"
+                    required
+                    value={batchForm.expiryDate}
+                    onChange={(e) => setBatchForm({ ...batchForm, expiryDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Quantity ({batchMedicine.unitType === 'strips' ? 'tablets' : batchMedicine.unitType}) *
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min="1"
+                    value={batchForm.quantity || ''}
+                    onChange={(e) => setBatchForm({ ...batchForm, quantity: parseInt(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cost Price (₹)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={batchForm.costPrice || ''}
+                    onChange={(e) => setBatchForm({ ...batchForm, costPrice: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+                  <input
+                    type="text"
+                    value={batchForm.supplier}
+                    onChange={(e) => setBatchForm({ ...batchForm, supplier: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Purchase Date</label>
+                  <input
+                    type="date"
+                    value={batchForm.purchaseDate}
+                    onChange={(e) => setBatchForm({ ...batchForm, purchaseDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Number</label>
+                  <input
+                    type="text"
+                    value={batchForm.invoiceNumber}
+                    onChange={(e) => setBatchForm({ ...batchForm, invoiceNumber: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Batch Barcode</label>
+                  <input
+                    type="text"
+                    value={batchForm.barcode}
+                    onChange={(e) => setBatchForm({ ...batchForm, barcode: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.preventDefault();
+                    }}
+                    placeholder="Optional"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                  />
+                </div>
+                <div className="flex items-end">
+                  <button
+                    type="submit"
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center justify-center space-x-2"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Add Batch</span>
+                  </button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {showPaymentModal && selectedMedicineForPayment && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg p-6 w-full max-w-md">
@@ -0,0 +1,603 @@
+import React, { useState } from 'react';
+import { X, Stethoscope, Plus, Receipt, CreditCard as Edit2, Activity, Trash2, Pill, Printer, Download, CalendarClock } from 'lucide-react';
+import { Customer, Medicine, Prescription, PrescriptionItem, SettingsData, Visit, Vitals } from '../types';
+import { VITAL_FIELDS, formatVitals } from '../utils/visits';
+import {
+  FREQUENCIES,
+  ROUTES,
+  calculatePrescribedQuantity,
+  formatStripQuantity,
+  getDispensedQuantity,
+  getPrescriptionStatus,
+  isTabletUnit,
+} from '../utils/prescriptions';
+import { downloadPrescription, printPrescription } from '../utils/prescriptionPdf';
+
+export type VisitInput = Omit<Visit, 'id' | 'createdAt' | 'createdBy'>;
+
+interface VisitFormProps {
+  customer: Customer;
+  settings: SettingsData;
+  medicines: Medicine[];
+  visit?: Visit | null;
+  prescription?: Prescription | null;
+  onSave: (visit: VisitInput, prescriptionItems: PrescriptionItem[], goToBilling: boolean) => void;
+  onClose: () => void;
+}
+
+const PRESCRIPTION_STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  partial: 'bg-orange-100 text-orange-800',
+  dispensed: 'bg-green-100 text-green-800',
+};
+
+const toVitalInputs = (vitals: Vitals = {}): Record<keyof Vitals, string> => ({
+  bloodPressure: vitals.bloodPressure || '',
+  pulse: vitals.pulse?.toString() || '',
+  temperature: vitals.temperature?.toString() || '',
+  weight: vitals.weight?.toString() || '',
+  spo2: vitals.spo2?.toString() || '',
+  bloodSugar: vitals.bloodSugar?.toString() || '',
+});
+
+// Blank readings are left out rather than saved as zero
+const toVitals = (inputs: Record<keyof Vitals, string>): Vitals => {
+  const vitals: Vitals = {};
+  if (inputs.bloodPressure.trim()) vitals.bloodPressure = inputs.bloodPressure.trim();
+  (['pulse', 'temperature', 'weight', 'spo2', 'bloodSugar'] as const).forEach(key => {
+    const value = parseFloat(inputs[key]);
+    if (!isNaN(value)) vitals[key] = value;
+  });
+  return vitals;
+};
+
+export const VisitForm: React.FC<VisitFormProps> = ({ customer, settings, medicines, visit, prescription, onSave, onClose }) => {
+  const defaultService = settings.consultationServices?.find(service => service.isDefault);
+  const [formData, setFormData] = useState({
+    visitDate: visit?.visitDate || new Date().toISOString().split('T')[0],
+    doctorName: visit?.doctorName || settings.doctorName,
+    chiefComplaint: visit?.chiefComplaint || '',
+    examinationNotes: visit?.examinationNotes || '',
+    diagnosis: visit?.diagnosis || '',
+    advice: visit?.advice || '',
+    followUpDate: visit?.followUpDate || '',
+    consultationServiceId: visit?.consultationServiceId || defaultService?.id || '',
+  });
+  const [vitalInputs, setVitalInputs] = useState(toVitalInputs(visit?.vitals));
+  const [prescriptionItems, setPrescriptionItems] = useState<PrescriptionItem[]>(prescription?.items || []);
+
+  const addPrescriptionItem = () => {
+    setPrescriptionItems([...prescriptionItems, {
+      id: Date.now().toString(),
+      medicineId: '',
+      medicineName: '',
+      dose: 1,
+      frequency: '1-0-1',
+      durationDays: 5,
+      route: 'Oral',
+      instructions: '',
+      quantity: 0,
+    }]);
+  };
+
+  // Quantity follows dose, frequency and duration for tablets until it is typed over
+  const updatePrescriptionItem = (id: string, changes: Partial<PrescriptionItem>) => {
+    setPrescriptionItems(prescriptionItems.map(item => {
+      if (item.id !== id) return item;
+      const updated = { ...item, ...changes };
+      if (changes.medicineName !== undefined) {
+        updated.medicineId = medicines.find(m => m.name.toLowerCase() === changes.medicineName?.trim().toLowerCase())?.id || '';
+      }
+      const medicine = medicines.find(m => m.id === updated.medicineId);
+      const recalculate = ['medicineName', 'dose', 'frequency', 'durationDays'].some(field => field in changes);
+      if (recalculate && medicine && isTabletUnit(medicine.unitType)) {
+        updated.quantity = calculatePrescribedQuantity(updated.dose, updated.frequency, updated.durationDays);
+      }
+      return updated;
+    }));
+  };
+
+  const removePrescriptionItem = (id: string) => {
+    if (prescription && getDispensedQuantity(prescription, id) > 0) {
+      alert('This medicine has already been dispensed and cannot be removed from the prescription.');
+      return;
+    }
+    setPrescriptionItems(prescriptionItems.filter(item => item.id !== id));
+  };
+
+  const handleSave = (goToBilling: boolean) => {
+    if (!formData.chiefComplaint.trim() || !formData.diagnosis.trim()) {
+      alert('Please enter the chief complaint and diagnosis');
+      return;
+    }
+
+    const items = prescriptionItems.filter(item => item.medicineName.trim());
+    if (items.some(item => item.medicineId && item.quantity <= 0)) {
+      alert('Please enter the quantity to dispense for each prescribed medicine');
+      return;
+    }
+
+    onSave({
+      ...formData,
+      customerId: customer.id,
+      patientId: customer.patientId,
+      vitals: toVitals(vitalInputs),
+      followUpDate: formData.followUpDate || undefined,
+      ...(visit?.saleId ? { saleId: visit.saleId } : {}),
+    }, items, goToBilling);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleSave(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">{visit ? 'Edit Visit' : 'New Visit'}</h3>
+            <p className="text-sm text-gray-600">{customer.name} ({customer.patientId})</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Visit Date *</label>
+              <input
+                type="date"
+                required
+                value={formData.visitDate}
+                onChange={(e) => setFormData({ ...formData, visitDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Doctor</label>
+              <input
+                type="text"
+                value={formData.doctorName}
+                onChange={(e) => setFormData({ ...formData, doctorName: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Chief Complaint *</label>
+            <textarea
+              rows={2}
+              required
+              value={formData.chiefComplaint}
+              onChange={(e) => setFormData({ ...formData, chiefComplaint: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g. Fever and cough for 3 days"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Vitals</label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {VITAL_FIELDS.map(({ key, label, unit }) => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-600 mb-1">{label} ({unit})</label>
+                  <input
+                    type={key === 'bloodPressure' ? 'text' : 'number'}
+                    step="any"
+                    value={vitalInputs[key]}
+                    onChange={(e) => setVitalInputs({ ...vitalInputs, [key]: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    placeholder={key === 'bloodPressure' ? '120/80' : ''}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Examination Notes</label>
+            <textarea
+              rows={3}
+              value={formData.examinationNotes}
+              onChange={(e) => setFormData({ ...formData, examinationNotes: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Diagnosis *</label>
+            <input
+              type="text"
+              required
+              value={formData.diagnosis}
+              onChange={(e) => setFormData({ ...formData, diagnosis: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Advice</label>
+            <textarea
+              rows={2}
+              value={formData.advice}
+              onChange={(e) => setFormData({ ...formData, advice: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              placeholder="Diet, rest, tests to be done..."
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Follow-up Date</label>
+            <input
+              type="date"
+              min={formData.visitDate}
+              value={formData.followUpDate}
+              onChange={(e) => setFormData({ ...formData, followUpDate: e.target.value })}
+              className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium text-gray-700">Prescription (Rx)</label>
+              <button
+                type="button"
+                onClick={addPrescriptionItem}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Medicine</span>
+              </button>
+            </div>
+            <datalist id="rx-medicines">
+              {medicines.map(medicine => (
+                <option key={medicine.id} value={medicine.name} />
+              ))}
+            </datalist>
+            <datalist id="rx-frequencies">
+              {FREQUENCIES.map(frequency => (
+                <option key={frequency} value={frequency} />
+              ))}
+            </datalist>
+            {prescriptionItems.length === 0 ? (
+              <p className="text-sm text-gray-500">No medicines prescribed.</p>
+            ) : (
+              <div className="space-y-3">
+                {prescriptionItems.map(item => {
+                  const medicine = medicines.find(m => m.id === item.medicineId);
+                  return (
+                    <div key={item.id} className="p-3 border border-gray-200 rounded-lg bg-gray-50">
+                      <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                        <div className="col-span-2">
+                          <label className="block text-xs text-gray-600 mb-1">Medicine</label>
+                          <input
+                            type="text"
+                            list="rx-medicines"
+                            value={item.medicineName}
+                            onChange={(e) => updatePrescriptionItem(item.id, { medicineName: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Dose</label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={item.dose}
+                            onChange={(e) => updatePrescriptionItem(item.id, { dose: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Frequency</label>
+                          <input
+                            type="text"
+                            list="rx-frequencies"
+                            value={item.frequency}
+                            onChange={(e) => updatePrescriptionItem(item.id, { frequency: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Days</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={item.durationDays}
+                            onChange={(e) => updatePrescriptionItem(item.id, { durationDays: parseInt(e.target.value) || 0 })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Route</label>
+                          <select
+                            value={item.route}
+                            onChange={(e) => updatePrescriptionItem(item.id, { route: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                          >
+                            {ROUTES.map(route => (
+                              <option key={route} value={route}>{route}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="col-span-2 md:col-span-4">
+                          <label className="block text-xs text-gray-600 mb-1">Instructions</label>
+                          <input
+                            type="text"
+                            value={item.instructions || ''}
+                            onChange={(e) => updatePrescriptionItem(item.id, { instructions: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                            placeholder="e.g. After food"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">Qty to dispense</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={item.quantity}
+                            onChange={(e) => updatePrescriptionItem(item.id, { quantity: parseInt(e.target.value) || 0 })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                          />
+                        </div>
+                        <div className="flex items-end justify-end">
+                          <button
+                            type="button"
+                            onClick={() => removePrescriptionItem(item.id)}
+                            className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                      <div className="flex justify-between items-center mt-1">
+                        <p className="text-xs text-gray-500">
+                          {!item.medicineName.trim()
+                            ? ''
+                            : !medicine
+                              ? 'Not stocked in the pharmacy. It will be printed but not dispensed.'
+                              : isTabletUnit(medicine.unitType)
+                                ? `= ${formatStripQuantity(item.quantity, medicine.tabletsPerStrip)}`
+                                : `${item.quantity} ${medicine.unitType || 'units'}`}
+                        </p>
+                        {medicine && (
+                          <label className="flex items-center space-x-1 text-xs text-gray-600" title="Send refill reminders before this medicine runs out">
+                            <input
+                              type="checkbox"
+                              checked={!!item.chronic}
+                              onChange={(e) => updatePrescriptionItem(item.id, { chronic: e.target.checked })}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span>Long-term (refill reminders)</span>
+                          </label>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+          {settings.consultationServices && settings.consultationServices.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Consultation Service</label>
+              <select
+                value={formData.consultationServiceId}
+                onChange={(e) => setFormData({ ...formData, consultationServiceId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No consultation charge</option>
+                {settings.consultationServices.map(service => (
+                  <option key={service.id} value={service.id}>
+                    {service.name} (₹{service.amount})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100"
+            >
+              Save Visit
+            </button>
+            {!visit?.saleId && (
+              <button
+                type="button"
+                onClick={() => handleSave(true)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+              >
+                <Receipt className="h-4 w-4" />
+                <span>Save & Go to Billing</span>
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+interface VisitTimelineProps {
+  customer: Customer;
+  visits: Visit[];
+  prescriptions: Prescription[];
+  settings: SettingsData;
+  canRecordVisits: boolean;
+  onNewVisit: () => void;
+  onEditVisit: (visit: Visit) => void;
+  onBillVisit: (visit: Visit) => void;
+  onClose: () => void;
+}
+
+export const VisitTimeline: React.FC<VisitTimelineProps> = ({
+  customer,
+  visits,
+  prescriptions,
+  settings,
+  canRecordVisits,
+  onNewVisit,
+  onEditVisit,
+  onBillVisit,
+  onClose,
+}) => {
+  const getServiceName = (serviceId?: string) => {
+    return settings.consultationServices?.find(service => service.id === serviceId)?.name;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Visit History</h3>
+            <p className="text-sm text-gray-600">{customer.name} ({customer.patientId})</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            {canRecordVisits && (
+              <button
+                onClick={onNewVisit}
+                className="bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2 text-sm"
+              >
+                <Plus className="h-4 w-4" />
+                <span>New Visit</span>
+              </button>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        {customer.medicalHistory && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-900">
+            <span className="font-medium">Medical History:</span> {customer.medicalHistory}
+          </div>
+        )}
+
+        {visits.length === 0 ? (
+          <div className="text-center py-12">
+            <Stethoscope className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No visits recorded</h3>
+          </div>
+        ) : (
+          <ol className="relative border-l-2 border-blue-200 ml-3 space-y-6">
+            {visits.map(visit => {
+              const prescription = prescriptions.find(p => p.visitId === visit.id);
+              return (
+                <li key={visit.id} className="ml-6">
+                  <span className="absolute -left-[9px] mt-1.5 h-4 w-4 rounded-full bg-blue-600 border-2 border-white" />
+                  <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <p className="font-semibold text-gray-900">{new Date(visit.visitDate).toLocaleDateString()}</p>
+                        <p className="text-xs text-gray-500">
+                          {visit.doctorName}
+                          {getServiceName(visit.consultationServiceId) && ` • ${getServiceName(visit.consultationServiceId)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {visit.saleId ? (
+                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Billed #{visit.saleId}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => onBillVisit(visit)}
+                            className="inline-flex items-center px-2 py-1 rounded-lg text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100"
+                          >
+                            <Receipt className="h-3 w-3 mr-1" />
+                            Bill
+                          </button>
+                        )}
+                        <button
+                          onClick={() => printPrescription({ settings, customer, visit, prescription })}
+                          className="text-gray-600 hover:text-gray-800 p-1 rounded hover:bg-gray-100"
+                          title="Print prescription"
+                        >
+                          <Printer className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => downloadPrescription({ settings, customer, visit, prescription })}
+                          className="text-gray-600 hover:text-gray-800 p-1 rounded hover:bg-gray-100"
+                          title="Download prescription PDF"
+                        >
+                          <Download className="h-4 w-4" />
+                        </button>
+                        {canRecordVisits && (
+                          <button
+                            onClick={() => onEditVisit(visit)}
+                            className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-1 text-sm text-gray-700">
+                      <p><span className="font-medium">Complaint:</span> {visit.chiefComplaint}</p>
+                      {formatVitals(visit.vitals).length > 0 && (
+                        <div className="flex flex-wrap gap-2 py-1">
+                          <Activity className="h-4 w-4 text-red-500" />
+                          {formatVitals(visit.vitals).map(vital => (
+                            <span key={vital} className="px-2 py-0.5 rounded-full text-xs bg-red-50 text-red-800 border border-red-100">
+                              {vital}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {visit.examinationNotes && <p><span className="font-medium">Examination:</span> {visit.examinationNotes}</p>}
+                      <p><span className="font-medium">Diagnosis:</span> {visit.diagnosis}</p>
+                      {visit.advice && <p><span className="font-medium">Advice:</span> {visit.advice}</p>}
+                      {visit.followUpDate && (
+                        <p className="flex items-center text-blue-700">
+                          <CalendarClock className="h-4 w-4 mr-1" />
+                          Follow-up on {new Date(visit.followUpDate).toLocaleDateString()}
+                        </p>
+                      )}
+                    </div>
+                    {prescription && prescription.items.length > 0 && (
+                      <div className="mt-3 pt-3 border-t border-gray-200">
+                        <div className="flex items-center justify-between mb-1">
+                          <p className="flex items-center text-sm font-medium text-gray-900">
+                            <Pill className="h-4 w-4 mr-1 text-blue-600" />
+                            Rx
+                          </p>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${PRESCRIPTION_STATUS_STYLES[getPrescriptionStatus(prescription)]}`}>
+                            {getPrescriptionStatus(prescription)}
+                          </span>
+                        </div>
+                        <ul className="text-sm text-gray-700 space-y-1">
+                          {prescription.items.map(item => (
+                            <li key={item.id} className="flex justify-between">
+                              <span>
+                                {item.medicineName} — {item.dose} × {item.frequency} × {item.durationDays} days, {item.route}
+                                {item.instructions && <span className="text-gray-500"> ({item.instructions})</span>}
+                                {item.chronic && <span className="ml-2 px-1.5 py-0.5 text-xs bg-purple-100 text-purple-800 rounded">Long-term</span>}
+                              </span>
+                              {item.medicineId && (
+                                <span className="text-xs text-gray-500 whitespace-nowrap ml-2">
+                                  {getDispensedQuantity(prescription, item.id)}/{item.quantity} dispensed
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
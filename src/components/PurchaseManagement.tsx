@@ -0,0 +1,789 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Search, Trash2, Eye, X, Truck, Download, ScanLine, CheckCircle, AlertCircle } from 'lucide-react';
+import { Medicine, MedicineBatch, Purchase, Supplier } from '../types';
+import { exportPurchaseReport } from '../utils/excelExport';
+import { createScanListener, findByBarcode, normalizeBarcode } from '../utils/barcodes';
+import { UNIT_TYPES, isTabletType } from '../utils/bills';
+import {
+  PurchaseInvoiceInput,
+  PurchaseLineInput,
+  GoodsReceipt,
+  calculatePurchaseLine,
+  groupPurchasesByGrn,
+  isDuplicateSupplierInvoice,
+} from '../utils/purchases';
+
+interface PurchaseManagementProps {
+  medicines: Medicine[];
+  purchases: Purchase[];
+  suppliers: Supplier[];
+  onPostPurchase: (invoice: PurchaseInvoiceInput) => void;
+  onAddMedicine: (medicine: Omit<Medicine, 'id' | 'createdAt'>) => Medicine;
+}
+
+// A scanned code that is not in the inventory yet is added as a new item
+interface ScannedItemInput {
+  barcode: string;
+  name: string;
+  brand: string;
+  category: string;
+  unitType: string;
+  tabletsPerStrip: number;
+  hsnCode: string;
+  gstRate: number;
+}
+
+const GST_RATES = [0, 5, 12, 18, 28];
+
+const createEmptyLine = (): PurchaseLineInput => ({
+  medicineId: '',
+  batchNumber: '',
+  expiryDate: '',
+  quantity: 0,
+  freeQuantity: 0,
+  rate: 0,
+  schemeDiscount: 0,
+  gstRate: 12,
+  mrp: 0,
+});
+
+const createScannedItem = (barcode: string): ScannedItemInput => ({
+  barcode,
+  name: '',
+  brand: '',
+  category: '',
+  unitType: 'tablets',
+  tabletsPerStrip: 10,
+  hsnCode: '30049099',
+  gstRate: 12,
+});
+
+const createEmptyInvoice = (): PurchaseInvoiceInput => ({
+  supplier: '',
+  invoiceNumber: '',
+  invoiceDate: new Date().toISOString().split('T')[0],
+  lines: [createEmptyLine()],
+});
+
+export const PurchaseManagement: React.FC<PurchaseManagementProps> = ({
+  medicines,
+  purchases,
+  suppliers,
+  onPostPurchase,
+  onAddMedicine,
+}) => {
+  const [showForm, setShowForm] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [invoice, setInvoice] = useState<PurchaseInvoiceInput>(createEmptyInvoice());
+  const [viewingReceipt, setViewingReceipt] = useState<GoodsReceipt | null>(null);
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [scannedItem, setScannedItem] = useState<ScannedItemInput | null>(null);
+  const [scanMessage, setScanMessage] = useState<{ success: boolean; message: string } | null>(null);
+
+  // The listener lives as long as the entry form; the ref keeps it calling the current handler
+  const barcodeScanRef = useRef<(code: string) => void>(() => {});
+  useEffect(() => {
+    if (!showForm) return;
+    const listener = createScanListener(code => barcodeScanRef.current(code));
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, [showForm]);
+
+  const receipts = groupPurchasesByGrn(purchases);
+  const filteredReceipts = receipts.filter(receipt =>
+    receipt.grnNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    receipt.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    receipt.supplier.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    receipt.lines.some(line => line.medicineName.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const knownSuppliers = suppliers.map(supplier => supplier.name);
+
+  const invoiceTotals = invoice.lines.reduce((totals, line) => {
+    const lineTotals = calculatePurchaseLine(line);
+    return {
+      discountAmount: totals.discountAmount + lineTotals.discountAmount,
+      taxableAmount: totals.taxableAmount + lineTotals.taxableAmount,
+      gstAmount: totals.gstAmount + lineTotals.gstAmount,
+      totalAmount: totals.totalAmount + lineTotals.totalAmount,
+    };
+  }, { discountAmount: 0, taxableAmount: 0, gstAmount: 0, totalAmount: 0 });
+
+  const resetForm = () => {
+    setInvoice(createEmptyInvoice());
+    setBarcodeInput('');
+    setScannedItem(null);
+    setShowForm(false);
+  };
+
+  const updateLine = (index: number, changes: Partial<PurchaseLineInput>) => {
+    setInvoice(prev => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    }));
+  };
+
+  const handleMedicineSelect = (index: number, medicineId: string) => {
+    const medicine = medicines.find(m => m.id === medicineId);
+    updateLine(index, {
+      medicineId,
+      gstRate: medicine?.costPriceGst ?? invoice.lines[index].gstRate,
+      mrp: medicine?.totalSellingPrice || medicine?.sellingPrice || 0,
+    });
+  };
+
+  // Another scan of the same item adds one to its line; a scanned batch code
+  // also fills in the batch number and expiry
+  const addScannedLine = (medicine: Medicine, batch?: MedicineBatch) => {
+    const existingIndex = invoice.lines.findIndex(line =>
+      line.medicineId === medicine.id && (!batch || line.batchNumber === batch.batchNumber)
+    );
+    if (existingIndex >= 0) {
+      updateLine(existingIndex, { quantity: invoice.lines[existingIndex].quantity + 1 });
+    } else {
+      const scannedLine: PurchaseLineInput = {
+        ...createEmptyLine(),
+        medicineId: medicine.id,
+        batchNumber: batch?.batchNumber || '',
+        expiryDate: batch?.expiryDate || '',
+        quantity: 1,
+        gstRate: medicine.costPriceGst ?? 12,
+        mrp: medicine.totalSellingPrice || medicine.sellingPrice || 0,
+      };
+      setInvoice(prev => {
+        const emptyIndex = prev.lines.findIndex(line => !line.medicineId);
+        return {
+          ...prev,
+          lines: emptyIndex >= 0
+            ? prev.lines.map((line, i) => (i === emptyIndex ? scannedLine : line))
+            : [...prev.lines, scannedLine],
+        };
+      });
+    }
+    showScanMessage(true, `Added ${medicine.name}${batch ? ` (batch ${batch.batchNumber})` : ''}`);
+  };
+
+  const handleBarcodeScan = (code: string) => {
+    const barcode = normalizeBarcode(code);
+    if (!barcode) return;
+    setBarcodeInput('');
+
+    const match = findByBarcode(medicines, barcode);
+    if (!match) {
+      setScannedItem(createScannedItem(barcode));
+      showScanMessage(false, `Barcode ${barcode} is not in the inventory. Add it as a new item below.`);
+      return;
+    }
+    addScannedLine(match.medicine, match.batch);
+  };
+
+  const showScanMessage = (success: boolean, message: string) => {
+    setScanMessage({ success, message });
+    setTimeout(() => setScanMessage(null), 3000);
+  };
+  barcodeScanRef.current = handleBarcodeScan;
+
+  const handleCreateScannedItem = () => {
+    if (!scannedItem) return;
+    if (!scannedItem.name.trim()) {
+      alert('Please enter the medicine name.');
+      return;
+    }
+
+    const tabletType = isTabletType({ unitType: scannedItem.unitType } as Medicine);
+    const medicine = onAddMedicine({
+      name: scannedItem.name.trim(),
+      brand: scannedItem.brand.trim(),
+      category: scannedItem.category.trim(),
+      quantity: 0,
+      minStockLevel: 10,
+      sellingPrice: 0,
+      sellingPriceGst: scannedItem.gstRate,
+      unitType: scannedItem.unitType,
+      tabletsPerStrip: tabletType ? scannedItem.tabletsPerStrip : undefined,
+      hsnCode: scannedItem.hsnCode.trim(),
+      costPriceGst: scannedItem.gstRate,
+      barcodes: [scannedItem.barcode],
+      batches: [],
+    });
+    setScannedItem(null);
+    addScannedLine(medicine);
+  };
+
+  const addLine = () => {
+    setInvoice(prev => ({ ...prev, lines: [...prev.lines, createEmptyLine()] }));
+  };
+
+  const removeLine = (index: number) => {
+    setInvoice(prev => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lines = invoice.lines.filter(line => line.medicineId);
+    if (lines.length === 0) {
+      alert('Please add at least one medicine to the invoice.');
+      return;
+    }
+
+    const invalidLine = lines.find(line => !line.batchNumber.trim() || !line.expiryDate || line.quantity + line.freeQuantity <= 0);
+    if (invalidLine) {
+      const medicine = medicines.find(m => m.id === invalidLine.medicineId);
+      alert(`Please enter batch number, expiry date and quantity for ${medicine?.name || 'every line'}.`);
+      return;
+    }
+
+    if (isDuplicateSupplierInvoice(purchases, invoice.supplier, invoice.invoiceNumber)) {
+      alert(`Invoice ${invoice.invoiceNumber} from ${invoice.supplier} has already been posted.`);
+      return;
+    }
+
+    if (!window.confirm(`Post invoice ${invoice.invoiceNumber} for ₹${invoiceTotals.totalAmount.toFixed(2)}? Stock will be added to inventory.`)) {
+      return;
+    }
+
+    onPostPurchase({
+      ...invoice,
+      supplier: invoice.supplier.trim(),
+      invoiceNumber: invoice.invoiceNumber.trim(),
+      lines: lines.map(line => ({ ...line, batchNumber: line.batchNumber.trim() })),
+    });
+    resetForm();
+  };
+
+  const handleExport = () => {
+    if (purchases.length === 0) {
+      alert('No purchase data available for export.');
+      return;
+    }
+    exportPurchaseReport(purchases);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <input
+              type="text"
+              placeholder="Search by GRN, invoice, supplier or medicine..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent w-80"
+            />
+          </div>
+          <button
+            onClick={handleExport}
+            className="flex items-center space-x-2 px-3 py-2 text-green-600 bg-green-50 rounded-lg hover:bg-green-100 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            <span>Purchase Report</span>
+          </button>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+        >
+          <Plus className="h-4 w-4" />
+          <span>New Purchase</span>
+        </button>
+      </div>
+
+      {/* Purchase Entry Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-6xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">New Purchase (Goods Received)</h3>
+              <button
+                onClick={resetForm}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Supplier *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    list="purchase-suppliers"
+                    value={invoice.supplier}
+                    onChange={(e) => setInvoice({ ...invoice, supplier: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  <datalist id="purchase-suppliers">
+                    {knownSuppliers.map(supplier => (
+                      <option key={supplier} value={supplier} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Supplier Invoice No *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={invoice.invoiceNumber}
+                    onChange={(e) => setInvoice({ ...invoice, invoiceNumber: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Invoice Date *
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={invoice.invoiceDate}
+                    onChange={(e) => setInvoice({ ...invoice, invoiceDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="relative w-96">
+                  <ScanLine className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                  <input
+                    type="text"
+                    placeholder="Scan or type a barcode and press Enter..."
+                    value={barcodeInput}
+                    onChange={(e) => setBarcodeInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        // Handled here, so the page-wide scan listener must not see it too
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleBarcodeScan(barcodeInput);
+                      }
+                    }}
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                {scanMessage && (
+                  <div className={`mt-2 px-3 py-2 rounded-lg text-sm flex items-center space-x-2 ${
+                    scanMessage.success ? 'bg-green-50 text-green-800 border border-green-200' : 'bg-red-50 text-red-800 border border-red-200'
+                  }`}>
+                    {scanMessage.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+                    <span>{scanMessage.message}</span>
+                  </div>
+                )}
+              </div>
+
+              {scannedItem && (
+                <div
+                  className="border border-blue-200 bg-blue-50 rounded-lg p-4"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleCreateScannedItem();
+                    }
+                  }}
+                >
+                  <div className="flex justify-between items-center mb-3">
+                    <h4 className="font-medium text-blue-900">New Item for Barcode {scannedItem.barcode}</h4>
+                    <button
+                      type="button"
+                      onClick={() => setScannedItem(null)}
+                      className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      <X className="h-5 w-5" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Name *</label>
+                      <input
+                        type="text"
+                        autoFocus
+                        value={scannedItem.name}
+                        onChange={(e) => setScannedItem({ ...scannedItem, name: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Brand</label>
+                      <input
+                        type="text"
+                        value={scannedItem.brand}
+                        onChange={(e) => setScannedItem({ ...scannedItem, brand: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Category</label>
+                      <input
+                        type="text"
+                        value={scannedItem.category}
+                        onChange={(e) => setScannedItem({ ...scannedItem, category: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Unit Type</label>
+                      <select
+                        value={scannedItem.unitType}
+                        onChange={(e) => setScannedItem({ ...scannedItem, unitType: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                      >
+                        {UNIT_TYPES.map(type => (
+                          <option key={type.value} value={type.value}>{type.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {isTabletType({ unitType: scannedItem.unitType } as Medicine) && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Tablets per Strip</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={scannedItem.tabletsPerStrip}
+                          onChange={(e) => setScannedItem({ ...scannedItem, tabletsPerStrip: parseInt(e.target.value) || 1 })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">HSN Code</label>
+                      <input
+                        type="text"
+                        value={scannedItem.hsnCode}
+                        onChange={(e) => setScannedItem({ ...scannedItem, hsnCode: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">GST %</label>
+                      <select
+                        value={scannedItem.gstRate}
+                        onChange={(e) => setScannedItem({ ...scannedItem, gstRate: parseFloat(e.target.value) })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                      >
+                        {GST_RATES.map(rate => (
+                          <option key={rate} value={rate}>{rate}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-end">
+                      <button
+                        type="button"
+                        onClick={handleCreateScannedItem}
+                        className="w-full flex items-center justify-center space-x-2 px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700"
+                      >
+                        <Plus className="h-4 w-4" />
+                        <span>Add Item</span>
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-blue-800 mt-2">
+                    Selling price can be set later from Medicine Management.
+                  </p>
+                </div>
+              )}
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">Medicine</th>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">Batch</th>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">Expiry</th>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">Qty</th>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">Free</th>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">Rate (₹)</th>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">Disc %</th>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">GST %</th>
+                      <th className="px-2 py-2 text-left font-medium text-gray-500">MRP (₹)</th>
+                      <th className="px-2 py-2 text-right font-medium text-gray-500">Amount (₹)</th>
+                      <th className="px-2 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {invoice.lines.map((line, index) => {
+                      const lineTotals = calculatePurchaseLine(line);
+                      const medicine = medicines.find(m => m.id === line.medicineId);
+                      return (
+                        <tr key={index}>
+                          <td className="px-2 py-2">
+                            <select
+                              value={line.medicineId}
+                              onChange={(e) => handleMedicineSelect(index, e.target.value)}
+                              className="w-48 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">Select medicine</option>
+                              {medicines.map(m => (
+                                <option key={m.id} value={m.id}>{m.name} ({m.brand})</option>
+                              ))}
+                            </select>
+                            {medicine && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                In stock: {medicine.quantity} {medicine.unitType || 'units'}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="text"
+                              value={line.batchNumber}
+                              onChange={(e) => updateLine(index, { batchNumber: e.target.value })}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="date"
+                              value={line.expiryDate}
+                              onChange={(e) => updateLine(index, { expiryDate: e.target.value })}
+                              className="w-36 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              value={line.quantity}
+                              onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 0 })}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              value={line.freeQuantity}
+                              onChange={(e) => updateLine(index, { freeQuantity: parseInt(e.target.value) || 0 })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={line.rate}
+                              onChange={(e) => updateLine(index, { rate: parseFloat(e.target.value) || 0 })}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="0.01"
+                              value={line.schemeDiscount}
+                              onChange={(e) => updateLine(index, { schemeDiscount: parseFloat(e.target.value) || 0 })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <select
+                              value={line.gstRate}
+                              onChange={(e) => updateLine(index, { gstRate: parseFloat(e.target.value) })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            >
+                              {GST_RATES.map(rate => (
+                                <option key={rate} value={rate}>{rate}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={line.mrp}
+                              onChange={(e) => updateLine(index, { mrp: parseFloat(e.target.value) || 0 })}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-2 py-2 text-right font-medium text-gray-900">
+                            {lineTotals.totalAmount.toFixed(2)}
+                          </td>
+                          <td className="px-2 py-2">
+                            <button
+                              type="button"
+                              onClick={() => removeLine(index)}
+                              disabled={invoice.lines.length === 1}
+                              className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 disabled:opacity-40"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-between items-start">
+                <button
+                  type="button"
+                  onClick={addLine}
+                  className="flex items-center space-x-2 px-3 py-2 text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Line</span>
+                </button>
+                <div className="w-72 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Scheme Discount:</span>
+                    <span>₹{invoiceTotals.discountAmount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Taxable Value:</span>
+                    <span>₹{invoiceTotals.taxableAmount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">GST:</span>
+                    <span>₹{invoiceTotals.gstAmount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-base border-t border-gray-200 pt-1">
+                    <span>Invoice Total:</span>
+                    <span>₹{invoiceTotals.totalAmount.toFixed(2)}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Post Invoice
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Receipt Detail Modal */}
+      {viewingReceipt && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-semibold">{viewingReceipt.grnNumber}</h3>
+                <p className="text-sm text-gray-600">
+                  {viewingReceipt.supplier} · Invoice {viewingReceipt.invoiceNumber} · {new Date(viewingReceipt.purchaseDate).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => setViewingReceipt(null)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Medicine</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Batch</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Expiry</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Qty + Free</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Rate</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Disc %</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Taxable</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">GST</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {viewingReceipt.lines.map(line => (
+                  <tr key={line.id}>
+                    <td className="px-4 py-3 text-sm text-gray-900">{line.medicineName}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{line.batchNumber}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{line.expiryDate ? new Date(line.expiryDate).toLocaleDateString() : '-'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{line.quantity} + {line.freeQuantity || 0}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">₹{line.costPrice.toFixed(2)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{line.schemeDiscount || 0}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">₹{(line.taxableAmount || 0).toFixed(2)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">₹{(line.gstAmount || 0).toFixed(2)} ({line.gstRate || 0}%)</td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">₹{line.totalCost.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex justify-end mt-4 text-sm space-x-6">
+              <span>Taxable: <strong>₹{viewingReceipt.taxableAmount.toFixed(2)}</strong></span>
+              <span>GST: <strong>₹{viewingReceipt.gstAmount.toFixed(2)}</strong></span>
+              <span>Total: <strong>₹{viewingReceipt.totalAmount.toFixed(2)}</strong></span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Goods Receipts List */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">GRN No</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Supplier</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Invoice No</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Date</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Items</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Taxable</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">GST</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Total</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {filteredReceipts.map(receipt => (
+              <tr key={receipt.grnNumber} className="hover:bg-gray-50">
+                <td className="px-4 py-3 text-sm font-medium text-blue-700">{receipt.grnNumber}</td>
+                <td className="px-4 py-3 text-sm text-gray-900">{receipt.supplier}</td>
+                <td className="px-4 py-3 text-sm text-gray-600">{receipt.invoiceNumber}</td>
+                <td className="px-4 py-3 text-sm text-gray-600">{new Date(receipt.purchaseDate).toLocaleDateString()}</td>
+                <td className="px-4 py-3 text-sm text-gray-600">{receipt.lines.length}</td>
+                <td className="px-4 py-3 text-sm text-gray-600">₹{receipt.taxableAmount.toFixed(2)}</td>
+                <td className="px-4 py-3 text-sm text-gray-600">₹{receipt.gstAmount.toFixed(2)}</td>
+                <td className="px-4 py-3 text-sm font-medium text-gray-900">₹{receipt.totalAmount.toFixed(2)}</td>
+                <td className="px-4 py-3 text-sm">
+                  <button
+                    onClick={() => setViewingReceipt(receipt)}
+                    className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50"
+                    title="View lines"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {filteredReceipts.length === 0 && (
+          <div className="text-center py-12">
+            <Truck className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No purchases found</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm ? 'Try adjusting your search terms.' : 'Post a supplier invoice to receive stock.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import { Send, BellRing, CalendarClock, Pill, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { Customer, Prescription, ReminderLog, ReminderType, SettingsData, Visit } from '../types';
+import { toDateKey, parseDateKey } from '../utils/appointments';
+import { DEFAULT_REMINDER_SETTINGS, ReminderQueueItem, buildReminderQueue, formatReminderMessage } from '../utils/reminders';
+import { SmsLogEntry, smsService } from '../utils/sms';
+
+interface RemindersProps {
+  customers: Customer[];
+  visits: Visit[];
+  prescriptions: Prescription[];
+  reminderLogs: ReminderLog[];
+  settings: SettingsData;
+  onAddReminderLogs: (logs: Omit<ReminderLog, 'id' | 'sentBy'>[]) => void;
+}
+
+const TYPE_LABELS: Record<ReminderType, string> = {
+  follow_up: 'Follow-up',
+  refill: 'Refill',
+};
+
+export const Reminders: React.FC<RemindersProps> = ({
+  customers,
+  visits,
+  prescriptions,
+  reminderLogs,
+  settings,
+  onAddReminderLogs,
+}) => {
+  const [selectedDate, setSelectedDate] = useState(toDateKey(new Date()));
+  const [typeFilter, setTypeFilter] = useState<'all' | ReminderType>('all');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [sending, setSending] = useState<{ done: number; total: number } | null>(null);
+  const [smsLog, setSmsLog] = useState<SmsLogEntry[]>([]);
+
+  useEffect(() => {
+    smsService.getDeliveryLog().then(setSmsLog);
+  }, []);
+
+  const reminderSettings = settings.reminders || DEFAULT_REMINDER_SETTINGS;
+  const queue = buildReminderQueue(selectedDate, customers, visits, prescriptions, reminderLogs, reminderSettings);
+  const filteredQueue = queue.filter(item => typeFilter === 'all' || item.type === typeFilter);
+  const selectedItems = filteredQueue.filter(item => selectedKeys.includes(item.key));
+
+  // A message retried from the SMS delivery log reports its latest outcome there
+  const getLastStatus = (item: ReminderQueueItem): { status: 'sent' | 'failed'; error?: string; sentAt: string } | undefined => {
+    const last = item.lastReminder;
+    if (!last) return undefined;
+    const delivery = last.smsLogId ? smsLog.find(entry => entry.id === last.smsLogId) : undefined;
+    return delivery ? { status: delivery.status, error: delivery.error, sentAt: delivery.lastAttemptAt } : last;
+  };
+
+  const pendingCount = queue.filter(item => !item.lastReminder).length;
+  const failedCount = queue.filter(item => getLastStatus(item)?.status === 'failed').length;
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys(selectedKeys.includes(key) ? selectedKeys.filter(k => k !== key) : [...selectedKeys, key]);
+  };
+
+  // Selects everything not yet sent, including failures to retry
+  const selectUnsent = () => {
+    setSelectedKeys(filteredQueue.filter(item => getLastStatus(item)?.status !== 'sent').map(item => item.key));
+  };
+
+  const handleSend = async () => {
+    if (selectedItems.length === 0) {
+      alert('Please select the patients to remind.');
+      return;
+    }
+    if (!smsService.getConfig().enabled) {
+      alert('SMS is turned off. Enable it under Settings > SMS Settings to send reminders.');
+      return;
+    }
+    const alreadySent = selectedItems.filter(item => getLastStatus(item)?.status === 'sent').length;
+    if (alreadySent > 0 && !window.confirm(`${alreadySent} of the selected patients were already reminded. Send to them again?`)) {
+      return;
+    }
+
+    // Sent one at a time so a slow provider is not flooded
+    const logs: Omit<ReminderLog, 'id' | 'sentBy'>[] = [];
+    setSending({ done: 0, total: selectedItems.length });
+    for (const item of selectedItems) {
+      const message = formatReminderMessage(item, settings);
+      const result = await smsService.send({ type: item.type, to: item.customer.phone, recipientName: item.customer.name, message });
+      logs.push({
+        key: item.key,
+        type: item.type,
+        customerId: item.customer.id,
+        customerName: item.customer.name,
+        phone: item.customer.phone,
+        dueDate: item.dueDate,
+        message,
+        status: result.success ? 'sent' : 'failed',
+        error: result.success ? undefined : result.message,
+        smsLogId: result.logId,
+        sentAt: new Date().toISOString(),
+      });
+      setSending({ done: logs.length, total: selectedItems.length });
+    }
+    onAddReminderLogs(logs);
+    smsService.getDeliveryLog().then(setSmsLog);
+    setSending(null);
+    setSelectedKeys([]);
+
+    const failed = logs.filter(log => log.status === 'failed').length;
+    alert(failed > 0 ? `${logs.length - failed} reminders sent, ${failed} failed.` : `${logs.length} reminders sent.`);
+  };
+
+  const renderStatus = (item: ReminderQueueItem) => {
+    const last = getLastStatus(item);
+    if (!last) {
+      return (
+        <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+          <Clock className="h-3 w-3" />
+          <span>Pending</span>
+        </span>
+      );
+    }
+    return last.status === 'sent' ? (
+      <span
+        className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800"
+        title={`Sent ${new Date(last.sentAt).toLocaleString()} by ${item.lastReminder?.sentBy}`}
+      >
+        <CheckCircle className="h-3 w-3" />
+        <span>Sent</span>
+      </span>
+    ) : (
+      <span
+        className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800"
+        title={`${last.error || 'Failed'} (${new Date(last.sentAt).toLocaleString()})`}
+      >
+        <XCircle className="h-3 w-3" />
+        <span>Failed</span>
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <input
+            type="date"
+            value={selectedDate}
+            onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as 'all' | ReminderType)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All reminders</option>
+            <option value="follow_up">Follow-ups</option>
+            <option value="refill">Refills</option>
+          </select>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={selectUnsent}
+            disabled={!!sending}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            Select Unsent
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={!!sending || selectedItems.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <Send className="h-4 w-4" />
+            <span>{sending ? `Sending ${sending.done}/${sending.total}...` : `Send SMS (${selectedItems.length})`}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Follow-ups Due</p>
+              <p className="text-2xl font-bold text-gray-900">{queue.filter(item => item.type === 'follow_up').length}</p>
+            </div>
+            <CalendarClock className="h-8 w-8 text-blue-500" />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Within {reminderSettings.followUpDaysBefore} day(s)</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Refills Due</p>
+              <p className="text-2xl font-bold text-gray-900">{queue.filter(item => item.type === 'refill').length}</p>
+            </div>
+            <Pill className="h-8 w-8 text-purple-500" />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Within {reminderSettings.refillDaysBefore} day(s)</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Not Yet Sent</p>
+              <p className="text-2xl font-bold text-yellow-600">{pendingCount}</p>
+            </div>
+            <BellRing className="h-8 w-8 text-yellow-500" />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Failed</p>
+              <p className="text-2xl font-bold text-red-600">{failedCount}</p>
+            </div>
+            <XCircle className="h-8 w-8 text-red-500" />
+          </div>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 w-10">
+                <input
+                  type="checkbox"
+                  checked={filteredQueue.length > 0 && selectedItems.length === filteredQueue.length}
+                  onChange={(e) => setSelectedKeys(e.target.checked ? filteredQueue.map(item => item.key) : [])}
+                  disabled={!!sending}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reminder</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Message</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredQueue.map(item => (
+              <tr key={item.key} className="hover:bg-gray-50">
+                <td className="px-4 py-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.includes(item.key)}
+                    onChange={() => toggleSelected(item.key)}
+                    disabled={!!sending}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <div className="text-sm font-medium text-gray-900">{item.customer.name}</div>
+                  <div className="text-xs text-gray-500">#{item.customer.patientId} • {item.customer.phone}</div>
+                </td>
+                <td className="px-6 py-4">
+                  <div className="text-sm text-gray-900">{TYPE_LABELS[item.type]}</div>
+                  <div className="text-xs text-gray-500">{item.details}</div>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                  {parseDateKey(item.dueDate).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 text-xs text-gray-600 max-w-md">
+                  {formatReminderMessage(item, settings)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {renderStatus(item)}
+                  {getLastStatus(item)?.status === 'failed' && (
+                    <div className="text-xs text-red-600 mt-1">{getLastStatus(item)?.error}</div>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {filteredQueue.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-gray-500">No reminders due for this day</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
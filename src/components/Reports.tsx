@@ -1,93 +1,92 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
-import { Calendar, Download, RefreshCw, TrendingUp, DollarSign, Package, Users } from 'lucide-react';
+import { Calendar, Download, RefreshCw, TrendingUp, IndianRupee, Package, Users, FileSpreadsheet } from 'lucide-react';
+import { Purchase, Sale, SaleReturn, SettingsData, Supplier, User } from '../types';
+import {
+  CostSource,
+  MARGIN_MIN_REVENUE,
+  ReportGranularity,
+  buildReport,
+  getDateRange,
+  getTopProductsByMargin,
+  getTopProductsByQuantity,
+} from '../utils/reports';
+import { TaxSource, buildGstReturn } from '../utils/gst';
+import { exportGstReturn } from '../utils/excelExport';
+import { authService } from '../utils/auth';
 
 interface ReportsProps {
+  medicines: (CostSource & TaxSource)[];
+  sales: Sale[];
+  saleReturns: SaleReturn[];
+  purchases: Purchase[];
+  suppliers: Supplier[];
+  settings: SettingsData;
+  currentUser: User;
   onRefresh: () => void;
 }
 
-interface SalesData {
-  date: string;
-  sales: number;
-  profit: number;
-}
+const PRODUCT_COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#00C49F'];
 
-interface ProductData {
-  name: string;
-  sales: number;
-  color: string;
-}
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
 
-const Reports: React.FC<ReportsProps> = ({ onRefresh }) => {
+const Reports: React.FC<ReportsProps> = ({ medicines, sales, saleReturns, purchases, suppliers, settings, currentUser, onRefresh }) => {
+  const canViewProfit = authService.hasPermission(currentUser, 'view_profit');
   const [dateRange, setDateRange] = useState('7days');
-  const [salesData, setSalesData] = useState<SalesData[]>([]);
-  const [productData, setProductData] = useState<ProductData[]>([]);
-  const [totalSales, setTotalSales] = useState(0);
-  const [totalProfit, setTotalProfit] = useState(0);
-  const [totalOrders, setTotalOrders] = useState(0);
-  const [totalCustomers, setTotalCustomers] = useState(0);
+  const [granularity, setGranularity] = useState<ReportGranularity>('daily');
+  const [customFrom, setCustomFrom] = useState(() => new Date().toISOString().split('T')[0]);
+  const [customTo, setCustomTo] = useState(() => new Date().toISOString().split('T')[0]);
+  const [gstMonth, setGstMonth] = useState(() => {
+    const lastMonth = new Date();
+    lastMonth.setDate(1);
+    lastMonth.setMonth(lastMonth.getMonth() - 1);
+    return `${lastMonth.getFullYear()}-${(lastMonth.getMonth() + 1).toString().padStart(2, '0')}`;
+  });
 
-  useEffect(() => {
-    generateReportData();
-  }, [dateRange]);
+  const report = useMemo(() => {
+    const { from, to } = getDateRange(dateRange, customFrom, customTo);
+    return buildReport(sales, saleReturns, medicines, purchases, from, to, granularity);
+  }, [sales, saleReturns, medicines, purchases, dateRange, customFrom, customTo, granularity]);
 
-  const generateReportData = () => {
-    // Generate sample sales data
-    const days = dateRange === '7days' ? 7 : dateRange === '30days' ? 30 : 90;
-    const data: SalesData[] = [];
-    let totalSalesSum = 0;
-    let totalProfitSum = 0;
-
-    for (let i = days - 1; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const sales = Math.floor(Math.random() * 5000) + 1000;
-      const profit = Math.floor(sales * 0.3);
-      
-      data.push({
-        date: date.toLocaleDateString(),
-        sales,
-        profit
-      });
-      
-      totalSalesSum += sales;
-      totalProfitSum += profit;
-    }
-
-    setSalesData(data);
-    setTotalSales(totalSalesSum);
-    setTotalProfit(totalProfitSum);
-    setTotalOrders(Math.floor(Math.random() * 500) + 100);
-    setTotalCustomers(Math.floor(Math.random() * 200) + 50);
-
-    // Generate product data
-    const products = [
-      { name: 'Paracetamol', color: '#8884d8' },
-      { name: 'Ibuprofen', color: '#82ca9d' },
-      { name: 'Amoxicillin', color: '#ffc658' },
-      { name: 'Aspirin', color: '#ff7300' },
-      { name: 'Vitamins', color: '#00ff00' }
-    ];
-
-    const productSales = products.map(product => ({
-      ...product,
-      sales: Math.floor(Math.random() * 1000) + 100
-    }));
-
-    setProductData(productSales);
-  };
+  const salesData = report.periods.map(period => ({
+    date: period.label,
+    sales: period.revenue,
+    profit: period.profit,
+  }));
+  const topByQuantity = getTopProductsByQuantity(report.products);
+  const topByMargin = getTopProductsByMargin(report.products);
+  const productData = topByQuantity.map((product, index) => ({
+    name: product.name,
+    sales: product.quantity,
+    color: PRODUCT_COLORS[index % PRODUCT_COLORS.length],
+  }));
 
   const handleRefresh = () => {
-    generateReportData();
     onRefresh();
   };
 
+  const exportGst = () => {
+    if (!settings.gstin && !window.confirm('Clinic GSTIN is not set in Settings. Export the GST return without it?')) {
+      return;
+    }
+    exportGstReturn(buildGstReturn(gstMonth, sales, saleReturns, medicines, purchases, suppliers, {
+      gstin: settings.gstin,
+      state: settings.state,
+    }));
+  };
+
   const exportReport = () => {
     // Simple CSV export
-    const csvContent = [
-      ['Date', 'Sales', 'Profit'],
-      ...salesData.map(item => [item.date, item.sales, item.profit])
-    ].map(row => row.join(',')).join('\n');
+    const rows = canViewProfit
+      ? [
+          ['Period', 'Revenue', 'Cost', 'Gross Profit', 'Orders'],
+          ...report.periods.map(item => [item.label, item.revenue.toFixed(2), item.cost.toFixed(2), item.profit.toFixed(2), item.orders])
+        ]
+      : [
+          ['Period', 'Revenue', 'Orders'],
+          ...report.periods.map(item => [item.label, item.revenue.toFixed(2), item.orders])
+        ];
+    const csvContent = rows.map(row => row.join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -111,6 +110,34 @@ const Reports: React.FC<ReportsProps> = ({ onRefresh }) => {
             <option value="7days">Last 7 Days</option>
             <option value="30days">Last 30 Days</option>
             <option value="90days">Last 90 Days</option>
+            <option value="custom">Custom Range</option>
+          </select>
+          {dateRange === 'custom' && (
+            <div className="flex items-center space-x-2">
+              <Calendar className="w-4 h-4 text-gray-500" />
+              <input
+                type="date"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as ReportGranularity)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
           </select>
           <button
             onClick={handleRefresh}
@@ -129,33 +156,67 @@ const Reports: React.FC<ReportsProps> = ({ onRefresh }) => {
         </div>
       </div>
 
+      <div className="bg-white p-4 rounded-lg shadow-md flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">GST Return (GSTR-1 / GSTR-3B)</h2>
+          <p className="text-sm text-gray-500">
+            B2B, B2C, HSN and rate-wise summaries with input tax credit. Downloads an Excel workbook and the GSTR-1 JSON for the offline tool.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="month"
+            value={gstMonth}
+            onChange={(e) => setGstMonth(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={exportGst}
+            disabled={!gstMonth}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Export GST Return
+          </button>
+        </div>
+      </div>
+
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white p-6 rounded-lg shadow-md">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Total Sales</p>
-              <p className="text-2xl font-bold text-gray-900">${totalSales.toLocaleString()}</p>
+              <p className="text-sm font-medium text-gray-600">Net Revenue</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(report.revenue)}</p>
+              {report.returnsCount > 0 && (
+                <p className="text-xs text-gray-500">After {report.returnsCount} returns ({formatCurrency(report.returnsAmount)})</p>
+              )}
             </div>
-            <DollarSign className="w-8 h-8 text-green-600" />
+            <IndianRupee className="w-8 h-8 text-green-600" />
           </div>
         </div>
 
+        {canViewProfit && (
         <div className="bg-white p-6 rounded-lg shadow-md">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Total Profit</p>
-              <p className="text-2xl font-bold text-gray-900">${totalProfit.toLocaleString()}</p>
+              <p className="text-sm font-medium text-gray-600">Gross Profit</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(report.profit)}</p>
+              <p className="text-xs text-gray-500">
+                {report.revenue > 0 ? ((report.profit / report.revenue) * 100).toFixed(1) : '0.0'}% margin
+              </p>
             </div>
             <TrendingUp className="w-8 h-8 text-blue-600" />
           </div>
         </div>
+        )}
 
         <div className="bg-white p-6 rounded-lg shadow-md">
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Total Orders</p>
-              <p className="text-2xl font-bold text-gray-900">{totalOrders}</p>
+              <p className="text-2xl font-bold text-gray-900">{report.orders}</p>
+              <p className="text-xs text-gray-500">Purchases: {formatCurrency(report.purchasesAmount)}</p>
             </div>
             <Package className="w-8 h-8 text-purple-600" />
           </div>
@@ -164,8 +225,8 @@ const Reports: React.FC<ReportsProps> = ({ onRefresh }) => {
         <div className="bg-white p-6 rounded-lg shadow-md">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Total Customers</p>
-              <p className="text-2xl font-bold text-gray-900">{totalCustomers}</p>
+              <p className="text-sm font-medium text-gray-600">Unique Patients</p>
+              <p className="text-2xl font-bold text-gray-900">{report.uniquePatients}</p>
             </div>
             <Users className="w-8 h-8 text-orange-600" />
           </div>
@@ -185,14 +246,17 @@ const Reports: React.FC<ReportsProps> = ({ onRefresh }) => {
               <Tooltip />
               <Legend />
               <Line type="monotone" dataKey="sales" stroke="#8884d8" strokeWidth={2} />
-              <Line type="monotone" dataKey="profit" stroke="#82ca9d" strokeWidth={2} />
+              {canViewProfit && <Line type="monotone" dataKey="profit" stroke="#82ca9d" strokeWidth={2} />}
             </LineChart>
           </ResponsiveContainer>
         </div>
 
         {/* Product Sales Chart */}
         <div className="bg-white p-6 rounded-lg shadow-md">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Top Products</h2>
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Top Products by Quantity</h2>
+          {productData.length === 0 && (
+            <p className="text-sm text-gray-500">No medicines sold in this period.</p>
+          )}
           <ResponsiveContainer width="100%" height={300}>
             <PieChart>
               <Pie
@@ -217,7 +281,7 @@ const Reports: React.FC<ReportsProps> = ({ onRefresh }) => {
 
       {/* Sales by Period Bar Chart */}
       <div className="bg-white p-6 rounded-lg shadow-md">
-        <h2 className="text-xl font-semibold text-gray-900 mb-4">Sales & Profit Analysis</h2>
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">{canViewProfit ? 'Sales & Profit Analysis' : 'Sales Analysis'}</h2>
         <ResponsiveContainer width="100%" height={400}>
           <BarChart data={salesData}>
             <CartesianGrid strokeDasharray="3 3" />
@@ -226,49 +290,103 @@ const Reports: React.FC<ReportsProps> = ({ onRefresh }) => {
             <Tooltip />
             <Legend />
             <Bar dataKey="sales" fill="#8884d8" />
-            <Bar dataKey="profit" fill="#82ca9d" />
+            {canViewProfit && <Bar dataKey="profit" fill="#82ca9d" />}
           </BarChart>
         </ResponsiveContainer>
       </div>
 
+      {/* Top Products by Margin */}
+      {canViewProfit && (
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Top Products by Margin</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Qty Sold</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Gross Profit</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Margin</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {topByMargin.map((product) => (
+                <tr key={product.medicineId} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{product.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{product.quantity}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(product.revenue)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(product.cost)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(product.profit)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{product.margin.toFixed(1)}%</td>
+                </tr>
+              ))}
+              {topByMargin.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">No medicines with {formatCurrency(MARGIN_MIN_REVENUE)} or more in sales in this period.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      )}
+
       {/* Summary Table */}
       <div className="bg-white rounded-lg shadow-md overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Daily Sales Summary</h2>
+          <h2 className="text-xl font-semibold text-gray-900">Sales Summary</h2>
         </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
+                  Period
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Sales
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Profit
+                  Orders
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Profit Margin
+                  Sales
                 </th>
+                {canViewProfit && (
+                  <>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Profit
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Profit Margin
+                    </th>
+                  </>
+                )}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {salesData.map((item, index) => (
-                <tr key={index} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {item.date}
-                  </td>
+              {report.periods.map((item) => (
+                <tr key={item.key} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    ${item.sales.toLocaleString()}
+                    {item.label}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    ${item.profit.toLocaleString()}
+                    {item.orders}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {((item.profit / item.sales) * 100).toFixed(1)}%
+                    {formatCurrency(item.revenue)}
                   </td>
+                  {canViewProfit && (
+                    <>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatCurrency(item.profit)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {item.revenue > 0 ? ((item.profit / item.revenue) * 100).toFixed(1) : '0.0'}%
+                      </td>
+                    </>
+                  )}
                 </tr>
               ))}
             </tbody>
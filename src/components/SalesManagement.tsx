@@ -1,7 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Search, Receipt, Trash2, ShoppingCart, Printer, Download, Stethoscope, CreditCard as Edit2, User as IdCard, Phone, X, Minus, MessageSquare, CheckCircle, AlertCircle, Settings, Package } from 'lucide-react';
-import { Medicine, Customer, Sale, SaleItem, SettingsData, ConsultationService } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Search, Receipt, Trash2, ShoppingCart, Printer, Download, Stethoscope, CreditCard as Edit2, User as IdCard, Phone, X, Minus, MessageSquare, CheckCircle, AlertCircle, Settings, Package, RotateCcw, FileSpreadsheet, Pill, Share2, ScanLine } from 'lucide-react';
+import { Medicine, Customer, Sale, SaleItem, SettingsData, ConsultationService, SaleReturn, User, Visit, Prescription } from '../types';
 import { smsService, BillSMSData } from '../utils/sms';
+import { allocateFefo, formatBatchAllocations, getMedicineBatches, getSellableStock } from '../utils/batches';
+import { exportSalesReport } from '../utils/excelExport';
+import { HEALTHCARE_SAC, getStateFromGstin } from '../utils/gst';
+import { getReturnsForSale } from '../utils/returns';
+import { authService } from '../utils/auth';
+import { DISCOUNT_LIMIT_PERCENT } from '../utils/permissions';
+import { getDisplayItem, getDisplayUnit, isTabletType } from '../utils/bills';
+import { createScanListener, findByBarcode, normalizeBarcode } from '../utils/barcodes';
+import { downloadBillPdf, printBillPdf, shareBillPdf } from '../utils/billPdf';
+import { DEFAULT_PRINT_SETTINGS } from '../utils/pdf';
+import { buildBillReceipt } from '../utils/receipt';
+import { thermalPrinter } from '../utils/thermalPrinter';
+import { getOpenPrescriptions, getPrescriptionStatus, getRemainingQuantity } from '../utils/prescriptions';
+import { SalesReturns } from './SalesReturns';
 
 interface SelectedService {
   service: ConsultationService;
@@ -18,6 +32,7 @@ interface CartItem extends SaleItem {
   isTabletType: boolean;
   displayUnit: string;
   originalUnitType: string;
+  preferredBatchId?: string;
 }
 
 interface SalesManagementProps {
@@ -26,8 +41,13 @@ interface SalesManagementProps {
   sales: Sale[];
   settings: SettingsData;
   onAddSale: (sale: Omit<Sale, 'createdAt'>, billNumber: string) => void;
-  onUpdateMedicineStock: (medicineId: string, newQuantity: number) => void;
   onDeleteSale: (saleId: string) => void;
+  saleReturns: SaleReturn[];
+  onAddSaleReturn: (saleReturn: SaleReturn) => void;
+  currentUser: User;
+  prescriptions: Prescription[];
+  billingVisit?: Visit | null;
+  onBillingVisitOpened?: () => void;
   onRefresh?: () => void;
 }
 
@@ -37,8 +57,13 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
   sales,
   settings,
   onAddSale,
-  onUpdateMedicineStock,
   onDeleteSale,
+  currentUser,
+  saleReturns,
+  onAddSaleReturn,
+  prescriptions,
+  billingVisit,
+  onBillingVisitOpened,
   onRefresh,
 }) => {
   const [showForm, setShowForm] = useState(false);
@@ -69,49 +94,33 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [saleToDelete, setSaleToDelete] = useState<Sale | null>(null);
 
-  const isTabletType = (medicine: Medicine): boolean => {
-    const unitType = medicine.unitType?.toLowerCase() || '';
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [returnSale, setReturnSale] = useState<Sale | null>(null);
+  const [applyCredit, setApplyCredit] = useState(false);
+  const [visitId, setVisitId] = useState<string | null>(null);
+  const [prescriptionId, setPrescriptionId] = useState<string | null>(null);
+  const [scanMessage, setScanMessage] = useState<{ success: boolean; message: string } | null>(null);
 
-    return unitType === 'tablets' || unitType === 'capsules' || unitType === 'strips';
-  };
-
-  const getDisplayUnit = (medicine: Medicine): string => {
-    const unitType = medicine.unitType?.toLowerCase() || '';
-
-    if (isTabletType(medicine)) {
-      return 'strip';
-    }
+  // The listener lives as long as the billing form; the ref keeps it calling the current handler
+  const barcodeScanRef = useRef<(code: string) => void>(() => {});
+  useEffect(() => {
+    if (!showForm) return;
+    const listener = createScanListener(code => barcodeScanRef.current(code));
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, [showForm]);
 
-    switch(unitType) {
-      case 'bottles': return 'bottle';
-      case 'tubes': return 'tube';
-      case 'vials': return 'vial';
-      case 'ampoules': return 'ampoule';
-      case 'sachets': return 'sachet';
-      case 'syrups': return 'bottle';
-      case 'drops': return 'bottle';
-      case 'inhalers': return 'inhaler';
-      case 'creams': return 'tube';
-      case 'ointments': return 'tube';
-      case 'powders': return 'packet';
-      case 'pieces': return 'piece';
-      default: return unitType.replace(/s$/, '') || 'unit';
-    }
+  const calculatePriceWithGST = (basePrice: number, gstPercent: number): number => {
+    return basePrice * (1 + gstPercent / 100);
   };
 
-  const getDisplayItem = (medicine: Medicine): string => {
-    const unitType = medicine.unitType?.toLowerCase() || '';
-
-    if (isTabletType(medicine)) {
-      if (unitType === 'capsules') return 'capsule';
-      return 'tablet';
-    }
-
-    return getDisplayUnit(medicine);
+  // Batches can expire after the stock figure was last saved, so it is worked out from the ledger
+  const getSellableQuantity = (medicine: Medicine): number => {
+    return getSellableStock(getMedicineBatches(medicine));
   };
 
-  const calculatePriceWithGST = (basePrice: number, gstPercent: number): number => {
-    return basePrice * (1 + gstPercent / 100);
+  const hasOnlyExpiredStock = (medicine: Medicine): boolean => {
+    return getSellableQuantity(medicine) === 0 && getMedicineBatches(medicine).some(batch => batch.quantity > 0);
   };
 
   const getAvailableQuantity = (medicineId: string): number => {
@@ -121,7 +130,7 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
     const cartItem = cartItems.find(item => item.medicineId === medicineId);
     const reservedQuantity = cartItem ? cartItem.totalItems : 0;
 
-    return Math.max(0, medicine.quantity - reservedQuantity);
+    return Math.max(0, getSellableQuantity(medicine) - reservedQuantity);
   };
 
   const getAvailableStrips = (medicineId: string): number => {
@@ -170,7 +179,8 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
   const filteredMedicines = medicines.filter(medicine =>
     medicine.name.toLowerCase().includes(medicineSearchTerm.toLowerCase()) ||
     medicine.brand.toLowerCase().includes(medicineSearchTerm.toLowerCase()) ||
-    medicine.category.toLowerCase().includes(medicineSearchTerm.toLowerCase())
+    medicine.category.toLowerCase().includes(medicineSearchTerm.toLowerCase()) ||
+    !!medicine.barcodes?.some(code => code.includes(normalizeBarcode(medicineSearchTerm)))
   );
 
   const filteredPatients = customers.filter(customer =>
@@ -222,6 +232,35 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
     }
   }, [settings.consultationServices]);
 
+  // A visit sent from the patient timeline opens a new bill for that patient
+  // with only the visit's consultation selected. It runs through a ref so the
+  // latest patients, prescriptions and cart are used, not those of an earlier render.
+  const openBillingVisitRef = useRef<(visit: Visit) => void>(() => {});
+  openBillingVisitRef.current = (visit: Visit) => {
+    const customer = customers.find(c => c.id === visit.customerId);
+    if (customer) {
+      const service = settings.consultationServices?.find(s => s.id === visit.consultationServiceId);
+      setSelectedCustomer(customer);
+      setSelectedServices(service ? [{ service, quantity: 1, customPrice: service.amount }] : []);
+      setVisitId(visit.id);
+      setShowForm(true);
+
+      const prescription = prescriptions.find(p => p.visitId === visit.id);
+      if (prescription && getPrescriptionStatus(prescription) !== 'dispensed') {
+        loadPrescription(prescription);
+      }
+    }
+    if (onBillingVisitOpened) {
+      onBillingVisitOpened();
+    }
+  };
+
+  useEffect(() => {
+    if (billingVisit) {
+      openBillingVisitRef.current(billingVisit);
+    }
+  }, [billingVisit]);
+
   const toggleService = (service: ConsultationService) => {
     const existingIndex = selectedServices.findIndex(s => s.service.id === service.id);
 
@@ -265,18 +304,11 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
     return selectedServices.find(s => s.service.id === serviceId);
   };
 
-  const addToCart = (medicine: Medicine, strips: number, tablets: number, quantity: number) => {
-    const isTablet = isTabletType(medicine);
+  // Price of one tablet for tablet-type stock, otherwise of one unit
+  const getUnitPrice = (medicine: Medicine): number => {
     const tabletsPerStrip = medicine.tabletsPerStrip || 1;
-    const totalItems = isTablet ? (strips * tabletsPerStrip) + tablets : quantity;
-    const availableQty = getAvailableQuantity(medicine.id);
-
-    if (totalItems <= 0 || totalItems > availableQty) return;
-
-    const existingItem = cartItems.find(item => item.medicineId === medicine.id);
-
     let unitPricePerItem = 0;
-    if (isTablet) {
+    if (isTabletType(medicine)) {
       if (medicine.unitType === 'tablets' || medicine.unitType === 'capsules') {
         const basePrice = medicine.sellingPricePerTablet || (medicine.totalSellingPrice / tabletsPerStrip);
         const gst = medicine.sellingPriceGst || 0;
@@ -292,13 +324,30 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
       const gst = medicine.sellingPriceGst || 0;
       unitPricePerItem = gst > 0 ? calculatePriceWithGST(basePrice, gst) : basePrice;
     }
+    return unitPricePerItem;
+  };
+
+  const addToCart = (medicine: Medicine, strips: number, tablets: number, quantity: number, preferredBatchId?: string): boolean => {
+    const isTablet = isTabletType(medicine);
+    const tabletsPerStrip = medicine.tabletsPerStrip || 1;
+    const totalItems = isTablet ? (strips * tabletsPerStrip) + tablets : quantity;
+    const availableQty = getAvailableQuantity(medicine.id);
+
+    if (totalItems <= 0 || totalItems > availableQty) return false;
+
+    const existingItem = cartItems.find(item => item.medicineId === medicine.id);
+    const unitPricePerItem = getUnitPrice(medicine);
 
     const displayUnit = getDisplayUnit(medicine);
     const originalUnitType = medicine.unitType || 'units';
 
     if (existingItem) {
       const newTotalItems = existingItem.totalItems + totalItems;
-      if (newTotalItems > medicine.quantity) return;
+      if (newTotalItems > getSellableQuantity(medicine)) return false;
+
+      const preferred = preferredBatchId || existingItem.preferredBatchId;
+      const batchAllocations = allocateFefo(getMedicineBatches(medicine), newTotalItems, preferred);
+      if (!batchAllocations) return false;
 
       if (isTablet) {
         const newStrips = (existingItem.strips || 0) + strips;
@@ -315,7 +364,9 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
                 tablets: adjustedTablets,
                 totalItems: newTotalItems,
                 quantity: newTotalItems,
-                totalPrice: newTotalItems * unitPricePerItem
+                totalPrice: newTotalItems * unitPricePerItem,
+                batches: batchAllocations,
+                preferredBatchId: preferred
               }
             : item
         ));
@@ -327,12 +378,17 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
                 bottles: (item.bottles || 0) + quantity,
                 totalItems: newTotalItems,
                 quantity: newTotalItems,
-                totalPrice: newTotalItems * unitPricePerItem
+                totalPrice: newTotalItems * unitPricePerItem,
+                batches: batchAllocations,
+                preferredBatchId: preferred
               }
             : item
         ));
       }
     } else {
+      const batchAllocations = allocateFefo(getMedicineBatches(medicine), totalItems, preferredBatchId);
+      if (!batchAllocations) return false;
+
       setCartItems([...cartItems, {
         medicineId: medicine.id,
         medicineName: medicine.name,
@@ -344,9 +400,13 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
         totalItems: totalItems,
         unitPrice: unitPricePerItem,
         totalPrice: totalItems * unitPricePerItem,
+        hsnCode: medicine.hsnCode,
+        gstRate: medicine.sellingPriceGst,
         isTabletType: isTablet,
         displayUnit: displayUnit,
         originalUnitType: originalUnitType,
+        batches: batchAllocations,
+        preferredBatchId,
       }]);
     }
 
@@ -354,6 +414,93 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
       ...prev,
       [medicine.id]: { strips: '', tablets: '', quantity: '' }
     }));
+    return true;
+  };
+
+  // Each scan adds one pack: a strip of tablet-type stock, otherwise one unit.
+  // Scanning the same code again increments the line already in the cart.
+  const handleBarcodeScan = (code: string) => {
+    const match = findByBarcode(medicines, code);
+    setMedicineSearchTerm('');
+    if (!match) {
+      showScanMessage(false, `No medicine found for barcode ${code}`);
+      return;
+    }
+
+    const { medicine, batch } = match;
+    const isTablet = isTabletType(medicine);
+    const added = isTablet
+      ? addToCart(medicine, 1, 0, 0, batch?.id)
+      : addToCart(medicine, 0, 0, 1, batch?.id);
+
+    if (added) {
+      showScanMessage(true, `Added ${medicine.name}${batch ? ` (batch ${batch.batchNumber})` : ''}`);
+    } else if (hasOnlyExpiredStock(medicine)) {
+      showScanMessage(false, `Only expired stock of ${medicine.name} is left`);
+    } else {
+      showScanMessage(false, `Not enough stock of ${medicine.name}`);
+    }
+  };
+
+  const showScanMessage = (success: boolean, message: string) => {
+    setScanMessage({ success, message });
+    setTimeout(() => setScanMessage(null), 3000);
+  };
+  barcodeScanRef.current = handleBarcodeScan;
+
+  // Puts what is still owed on the prescription into the cart, limited to the stock on hand,
+  // and replaces any lines already in the cart for the same medicines
+  const loadPrescription = (prescription: Prescription) => {
+    const loadedItems: CartItem[] = [];
+    const shortages: string[] = [];
+
+    prescription.items.forEach(item => {
+      const remaining = getRemainingQuantity(prescription, item);
+      if (!item.medicineId || remaining <= 0) return;
+
+      const medicine = medicines.find(m => m.id === item.medicineId);
+      const quantity = medicine ? Math.min(remaining, getSellableQuantity(medicine)) : 0;
+      const batchAllocations = medicine && quantity > 0 ? allocateFefo(getMedicineBatches(medicine), quantity) : null;
+      if (!medicine || !batchAllocations) {
+        shortages.push(`${item.medicineName}: ${medicine && hasOnlyExpiredStock(medicine) ? 'only expired stock left' : 'out of stock'}`);
+        return;
+      }
+      if (quantity < remaining) {
+        shortages.push(`${item.medicineName}: only ${quantity} of ${remaining} in stock`);
+      }
+
+      const isTablet = isTabletType(medicine);
+      const tabletsPerStrip = medicine.tabletsPerStrip || 1;
+      const unitPrice = getUnitPrice(medicine);
+      loadedItems.push({
+        medicineId: medicine.id,
+        medicineName: medicine.name,
+        quantity,
+        strips: isTablet ? Math.floor(quantity / tabletsPerStrip) : undefined,
+        tablets: isTablet ? quantity % tabletsPerStrip : undefined,
+        bottles: isTablet ? undefined : quantity,
+        itemsPerStrip: isTablet ? tabletsPerStrip : undefined,
+        totalItems: quantity,
+        unitPrice,
+        totalPrice: quantity * unitPrice,
+        hsnCode: medicine.hsnCode,
+        gstRate: medicine.sellingPriceGst,
+        isTabletType: isTablet,
+        displayUnit: getDisplayUnit(medicine),
+        originalUnitType: medicine.unitType || 'units',
+        batches: batchAllocations,
+      });
+    });
+
+    setCartItems(current => [
+      ...current.filter(cartItem => !loadedItems.some(item => item.medicineId === cartItem.medicineId)),
+      ...loadedItems,
+    ]);
+    setPrescriptionId(prescription.id);
+
+    if (shortages.length > 0) {
+      alert(`Some prescribed medicines could not be loaded in full:\n${shortages.join('\n')}\n\nThe rest stays on the prescription for the patient to collect later.`);
+    }
   };
 
   const removeFromCart = (medicineId: string) => {
@@ -367,7 +514,11 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
     }
 
     const medicine = medicines.find(m => m.id === medicineId);
-    if (!medicine || totalItems > medicine.quantity) return;
+    if (!medicine || totalItems > getSellableQuantity(medicine)) return;
+
+    const preferredBatchId = cartItems.find(item => item.medicineId === medicineId)?.preferredBatchId;
+    const batchAllocations = allocateFefo(getMedicineBatches(medicine), totalItems, preferredBatchId);
+    if (!batchAllocations) return;
 
     const isTablet = isTabletType(medicine);
     const tabletsPerStrip = medicine.tabletsPerStrip || 1;
@@ -381,7 +532,8 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
             bottles: isTablet ? undefined : totalItems,
             quantity: totalItems,
             totalItems: totalItems,
-            totalPrice: totalItems * item.unitPrice
+            totalPrice: totalItems * item.unitPrice,
+            batches: batchAllocations
           }
         : item
     ));
@@ -404,12 +556,24 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
     sum + ((selectedService.customPrice || selectedService.service.amount) * selectedService.quantity), 0
   );
   const subtotal = medicinesTotal + servicesTotal;
-  const finalAmount = Math.max(0, subtotal - (discount || 0));
+  const availableCredit = selectedCustomer?.creditBalance || 0;
+  const creditApplied = applyCredit ? Math.min(availableCredit, Math.max(0, subtotal - (discount || 0))) : 0;
+  const amountBeforeRounding = Math.max(0, subtotal - (discount || 0) - creditApplied);
+  const finalAmount = Math.round(amountBeforeRounding);
+  const roundOff = Math.round((finalAmount - amountBeforeRounding) * 100) / 100;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedCustomer || (cartItems.length === 0 && selectedServices.length === 0)) return;
 
+    if (
+      (discount || 0) > (subtotal * DISCOUNT_LIMIT_PERCENT) / 100 &&
+      !authService.hasPermission(currentUser, 'give_high_discount')
+    ) {
+      alert(`You can give a discount of up to ${DISCOUNT_LIMIT_PERCENT}% of the bill. Ask a user with discount permission to approve a larger one.`);
+      return;
+    }
+
     const billNumber = generateBillNumber();
 
     const saleItems: SaleItem[] = [...cartItems];
@@ -421,6 +585,8 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
         quantity: selectedService.quantity,
         unitPrice: selectedService.customPrice || selectedService.service.amount,
         totalPrice: (selectedService.customPrice || selectedService.service.amount) * selectedService.quantity,
+        hsnCode: HEALTHCARE_SAC,
+        gstRate: 0,
       });
     });
 
@@ -434,17 +600,16 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
       discount: discount || 0,
       finalAmount,
       paymentMethod,
+      ...(creditApplied > 0 ? { creditApplied } : {}),
+      ...(roundOff !== 0 ? { roundOff } : {}),
+      ...(selectedCustomer.gstin ? { customerGstin: selectedCustomer.gstin } : {}),
+      placeOfSupply: selectedCustomer.state || getStateFromGstin(selectedCustomer.gstin) || settings.state,
+      ...(visitId ? { visitId } : {}),
+      ...(prescriptionId ? { prescriptionId } : {}),
     };
 
     onAddSale(newSale, billNumber);
 
-    cartItems.forEach(item => {
-      const currentMedicine = medicines.find(m => m.id === item.medicineId);
-      if (currentMedicine) {
-        onUpdateMedicineStock(item.medicineId, currentMedicine.quantity - item.totalItems);
-      }
-    });
-
     const completedSale: Sale = {
       ...newSale,
       createdAt: new Date().toISOString(),
@@ -498,6 +663,9 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
     setCartItems([]);
     setSelectedServices([]);
     setDiscount(0);
+    setApplyCredit(false);
+    setVisitId(null);
+    setPrescriptionId(null);
     setPaymentMethod('cash');
     setMedicineSearchTerm('');
     setPatientSearchTerm('');
@@ -534,6 +702,10 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
   };
 
   const handleDeleteSale = (sale: Sale) => {
+    if (getReturnsForSale(saleReturns, sale.id).length > 0) {
+      alert('This bill has credit notes against it and cannot be deleted.');
+      return;
+    }
     setSaleToDelete(sale);
     setShowDeleteConfirm(true);
   };
@@ -541,17 +713,7 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
   const confirmDelete = () => {
     if (!saleToDelete) return;
 
-    saleToDelete.items.forEach(item => {
-      if (!item.medicineId.startsWith('service-') && item.medicineId !== 'consultation') {
-        const currentMedicine = medicines.find(m => m.id === item.medicineId);
-        if (currentMedicine) {
-          const cartItem = item as CartItem;
-          const quantityToRestore = cartItem.totalItems || item.quantity;
-          onUpdateMedicineStock(item.medicineId, currentMedicine.quantity + quantityToRestore);
-        }
-      }
-    });
-
+    // Stock goes back to the batches it was taken from as part of the deletion
     onDeleteSale(saleToDelete.id);
 
     setShowDeleteConfirm(false);
@@ -567,130 +729,47 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
     setSaleToDelete(null);
   };
 
+  const getBillDocument = (sale: Sale) => ({
+    sale,
+    settings,
+    medicines,
+    customer: customers.find(c => c.id === sale.customerId),
+  });
+
   const printBill = () => {
     if (!currentBill) return;
-
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) return;
-
-    const billContent = generatePrintableBillContent(currentBill);
-
-    printWindow.document.write(`
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Bill ${currentBill.id}</title>
-          <style>
-            body {
-              font-family: 'Arial', sans-serif;
-              margin: 0;
-              padding: 20px;
-              font-size: 12px;
-              line-height: 1.4;
-            }
-            .bill-container {
-              max-width: 80mm;
-              margin: 0 auto;
-            }
-            .header {
-              text-align: center;
-              border-bottom: 2px solid #000;
-              padding-bottom: 10px;
-              margin-bottom: 10px;
-            }
-            .clinic-name {
-              font-size: 16px;
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .clinic-details {
-              font-size: 10px;
-              margin-bottom: 5px;
-            }
-            .bill-info {
-              display: flex;
-              justify-content: space-between;
-              margin-bottom: 10px;
-            }
-            .patient-info {
-              margin-bottom: 10px;
-            }
-            .items-table {
-              width: 100%;
-              border-collapse: collapse;
-              margin-bottom: 10px;
-            }
-            .items-table th,
-            .items-table td {
-              border: 1px solid #000;
-              padding: 4px;
-              text-align: left;
-            }
-            .items-table th {
-              background-color: #f0f0f0;
-              font-weight: bold;
-            }
-            .summary {
-              border-top: 2px solid #000;
-              padding-top: 10px;
-              margin-top: 10px;
-            }
-            .summary-row {
-              display: flex;
-              justify-content: space-between;
-              margin-bottom: 3px;
-            }
-            .total-row {
-              font-weight: bold;
-              border-top: 1px solid #000;
-              padding-top: 5px;
-              margin-top: 5px;
-            }
-            .footer {
-              text-align: center;
-              margin-top: 15px;
-              font-size: 10px;
-              border-top: 1px solid #000;
-              padding-top: 10px;
-            }
-            @media print {
-              body { margin: 0; }
-              .bill-container { max-width: 100%; }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="bill-container">
-            ${billContent}
-          </div>
-          <script>
-            window.onload = function() {
-              window.print();
-              setTimeout(function() {
-                window.close();
-              }, 100);
-            }
-          </script>
-        </body>
-      </html>
-    `);
-
-    printWindow.document.close();
+    printBillPdf(getBillDocument(currentBill));
   };
 
   const downloadBill = () => {
     if (!currentBill) return;
+    downloadBillPdf(getBillDocument(currentBill));
+  };
 
-    const billContent = generateBillContent(currentBill);
-    const blob = new Blob([billContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `Bill_${currentBill.id}_${currentBill.patientId}_${new Date(currentBill.createdAt).toLocaleDateString().replace(/\//g, '-')}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const shareBill = async () => {
+    if (!currentBill) return;
+    try {
+      const shared = await shareBillPdf(getBillDocument(currentBill));
+      if (!shared) {
+        alert('Sharing is not supported in this browser. The bill PDF has been downloaded so you can attach it instead.');
+      }
+    } catch (error) {
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Error sharing bill:', error);
+        alert('Failed to share the bill. Please download it instead.');
+      }
+    }
+  };
+
+  const printReceipt = async () => {
+    if (!currentBill) return;
+    try {
+      const lines = buildBillReceipt(currentBill, settings, medicines, customers.find(c => c.id === currentBill.customerId));
+      await thermalPrinter.printReceipt(lines, settings.printing || DEFAULT_PRINT_SETTINGS);
+    } catch (error) {
+      console.error('Error printing receipt:', error);
+      alert(`Failed to print the receipt. ${error instanceof Error ? error.message : ''}`);
+    }
   };
 
   const handleEditBill = (sale: Sale) => {
@@ -699,219 +778,6 @@ export const SalesManagement: React.FC<SalesManagementProps> = ({
     setEditMode(true);
   };
 
-  const generatePrintableBillContent = (sale: Sale): string => {
-    const customer = customers.find(c => c.id === sale.customerId);
-    const medicineItems = sale.items.filter(item => !item.medicineId.startsWith('service-') && item.medicineId !== 'consultation') as CartItem[];
-    const serviceItems = sale.items.filter(item => item.medicineId.startsWith('service-') || item.medicineId === 'consultation');
-
-    return `
-      <div class="header">
-        <div class="clinic-name">${settings.clinicName}</div>
-        <div class="clinic-details">${settings.doctorName}</div>
-        <div class="clinic-details">${settings.clinicAddress}</div>
-        <div class="clinic-details">Phone: ${settings.clinicPhone}</div>
-      </div>
-
-      <div class="bill-info">
-        <div>
-          <strong>Bill No:</strong> ${sale.id}<br>
-          <strong>Patient ID:</strong> ${sale.patientId}
-        </div>
-        <div>
-          <strong>Date:</strong> ${new Date(sale.createdAt).toLocaleDateString()}<br>
-          <strong>Time:</strong> ${new Date(sale.createdAt).toLocaleTimeString()}
-        </div>
-      </div>
-
-      <div class="patient-info">
-        <strong>Patient:</strong> ${sale.customerName}<br>
-        <strong>Phone:</strong> ${customer?.phone || 'N/A'}
-      </div>
-
-      <table class="items-table">
-        <thead>
-          <tr>
-            <th>Item</th>
-            <th>Qty</th>
-            <th>Rate</th>
-            <th>Amount</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${serviceItems.map(item => `
-            <tr>
-              <td>${item.medicineName}</td>
-              <td>${item.quantity}</td>
-              <td>₹${item.unitPrice.toFixed(2)}</td>
-              <td>₹${item.totalPrice.toFixed(2)}</td>
-            </tr>
-          `).join('')}
-          ${medicineItems.map(item => {
-            const medicine = medicines.find(m => m.id === item.medicineId);
-            const isTablet = item.isTabletType !== undefined ? item.isTabletType : (medicine ? isTabletType(medicine) : false);
-            const displayItem = medicine ? getDisplayItem(medicine) : 'unit';
-            const displayUnit = item.displayUnit || (medicine ? getDisplayUnit(medicine) : 'unit');
-
-            let quantityDisplay = '';
-
-            if (isTablet) {
-              const strips = item.strips || 0;
-              const tablets = item.tablets || 0;
-              if (strips > 0 && tablets > 0) {
-                quantityDisplay = `${strips} strips + ${tablets} ${displayItem}s`;
-              } else if (strips > 0) {
-                quantityDisplay = `${strips} strips`;
-              } else {
-                quantityDisplay = `${tablets} ${displayItem}s`;
-              }
-            } else {
-              const bottles = item.bottles || item.quantity;
-              quantityDisplay = `${bottles} ${displayUnit}${bottles !== 1 ? 's' : ''}`;
-            }
-
-            return `
-            <tr>
-              <td>${item.medicineName}</td>
-              <td>${quantityDisplay}</td>
-              <td>₹${item.unitPrice.toFixed(2)}/${isTablet ? displayItem : displayUnit}</td>
-              <td>₹${item.totalPrice.toFixed(2)}</td>
-            </tr>
-          `}).join('')}
-        </tbody>
-      </table>
-
-      <div class="summary">
-        <div class="summary-row">
-          <span>Subtotal:</span>
-          <span>₹${sale.totalAmount.toFixed(2)}</span>
-        </div>
-        <div class="summary-row">
-          <span>Discount:</span>
-          <span>₹${sale.discount.toFixed(2)}</span>
-        </div>
-        <div class="summary-row total-row">
-          <span>Total Amount:</span>
-          <span>₹${sale.finalAmount.toFixed(2)}</span>
-        </div>
-        <div class="summary-row">
-          <span>Payment Method:</span>
-          <span>${sale.paymentMethod.toUpperCase()}</span>
-        </div>
-      </div>
-
-      <div class="footer">
-        Thank you for visiting ${settings.clinicName}!<br>
-        Get well soon!
-      </div>
-    `;
-  };
-
-  const generateBillContent = (sale: Sale): string => {
-    const customer = customers.find(c => c.id === sale.customerId);
-    const medicineItems = sale.items.filter(item => !item.medicineId.startsWith('service-') && item.medicineId !== 'consultation') as CartItem[];
-    const serviceItems = sale.items.filter(item => item.medicineId.startsWith('service-') || item.medicineId === 'consultation');
-
-    return `
-=====================================
-        ${settings.clinicName}
-        ${settings.doctorName}
-=====================================
-
-${settings.clinicAddress}
-Phone: ${settings.clinicPhone}
-Email: ${settings.clinicEmail}
-License: ${settings.licenseNumber}
-
-=====================================
-           MEDICAL BILL
-=====================================
-
-Bill No: ${sale.id}
-Patient ID: ${sale.patientId}
-Date: ${new Date(sale.createdAt).toLocaleDateString()}
-Time: ${new Date(sale.createdAt).toLocaleTimeString()}
-
-Patient Details:
-Name: ${sale.customerName}
-Phone: ${customer?.phone || 'N/A'}
-Address: ${customer?.address || 'N/A'}
-
-=====================================
-CONSULTATION SERVICES:
-=====================================
-
-${serviceItems.length > 0 ? serviceItems.map((item, index) =>
-  `${index + 1}. ${item.medicineName}
-   Qty: ${item.quantity} x ₹${item.unitPrice.toFixed(2)} = ₹${item.totalPrice.toFixed(2)}`
-).join('\n\n') : 'No consultation services'}
-
-${medicineItems.length > 0 ? `
-=====================================
-MEDICINES:
-=====================================
-
-${medicineItems.map((item, index) =>
-  {
-    const medicine = medicines.find(m => m.id === item.medicineId);
-    const isTablet = item.isTabletType !== undefined ? item.isTabletType : (medicine ? isTabletType(medicine) : false);
-    const displayItem = medicine ? getDisplayItem(medicine) : 'unit';
-    const displayUnit = item.displayUnit || (medicine ? getDisplayUnit(medicine) : 'unit');
-
-    let itemDetails = `${index + 1}. ${item.medicineName}`;
-
-    if (isTablet) {
-      const strips = item.strips || 0;
-      const tablets = item.tablets || 0;
-      const tabletsPerStrip = item.itemsPerStrip || medicine?.tabletsPerStrip || 1;
-
-      if (strips > 0 && tablets > 0) {
-        itemDetails += `
-   ${strips} strips × ${tabletsPerStrip} ${displayItem}s = ${strips * tabletsPerStrip} ${displayItem}s
-   + ${tablets} extra ${displayItem}s
-   Total: ${item.totalItems} ${displayItem}s`;
-      } else if (strips > 0) {
-        itemDetails += `
-   ${strips} strips × ${tabletsPerStrip} ${displayItem}s = ${item.totalItems} ${displayItem}s`;
-      } else {
-        itemDetails += `
-   ${tablets} ${displayItem}s`;
-      }
-
-      itemDetails += `
-   Rate: ₹${item.unitPrice.toFixed(2)} per ${displayItem} (incl. GST)`;
-    } else {
-      const bottles = item.bottles || item.quantity;
-      itemDetails += `
-   ${bottles} ${displayUnit}${bottles !== 1 ? 's' : ''}
-   Rate: ₹${item.unitPrice.toFixed(2)} per ${displayUnit} (incl. GST)`;
-    }
-
-    itemDetails += `
-   Total: ₹${item.totalPrice.toFixed(2)}`;
-
-    return itemDetails;
-  }
-).join('\n\n')}` : ''}
-
-=====================================
-BILLING SUMMARY:
-=====================================
-
-${servicesTotal > 0 ? `Services Total:   ₹${servicesTotal.toFixed(2)}` : ''}
-${medicinesTotal > 0 ? `Medicines Total:  ₹${medicinesTotal.toFixed(2)}` : ''}
-Subtotal:         ₹${sale.totalAmount.toFixed(2)}
-Discount:         ₹${sale.discount.toFixed(2)}
-Total Amount:     ₹${sale.finalAmount.toFixed(2)}
-
-Payment Method: ${sale.paymentMethod.toUpperCase()}
-
-=====================================
-Thank you for visiting ${settings.clinicName}!
-Get well soon!
-=====================================
-    `;
-  };
-
   const updateMedicineInput = (medicineId: string, field: 'strips' | 'tablets' | 'quantity', value: string) => {
     setMedicineInputs(prev => ({
       ...prev,
@@ -935,15 +801,52 @@ Get well soon!
             className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 w-64 text-sm"
           />
         </div>
-        <button
-          onClick={() => setShowForm(true)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2 text-sm"
-        >
-          <Plus className="h-4 w-4" />
-          <span>New Sale</span>
-        </button>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => exportSalesReport(sales, medicines, undefined, undefined, saleReturns)}
+            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center space-x-2 text-sm"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            <span>Sales Report</span>
+          </button>
+          <button
+            onClick={() => {
+              setReturnSale(null);
+              setShowReturnForm(true);
+            }}
+            className="bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 flex items-center space-x-2 text-sm"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Sales Return</span>
+          </button>
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2 text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Sale</span>
+          </button>
+        </div>
       </div>
 
+      {showReturnForm && (
+        <SalesReturns
+          sales={sales}
+          saleReturns={saleReturns}
+          initialSale={returnSale}
+          clinic={{
+            clinicName: settings.clinicName,
+            clinicAddress: settings.clinicAddress,
+            clinicPhone: settings.clinicPhone,
+          }}
+          onAddSaleReturn={onAddSaleReturn}
+          onClose={() => {
+            setShowReturnForm(false);
+            setReturnSale(null);
+          }}
+        />
+      )}
+
       {showForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg w-full max-w-6xl max-h-[95vh] overflow-hidden flex flex-col">
@@ -979,7 +882,11 @@ Get well soon!
                           </div>
                         </div>
                         <button
-                          onClick={() => setSelectedCustomer(null)}
+                          onClick={() => {
+                            setSelectedCustomer(null);
+                            setVisitId(null);
+                            setPrescriptionId(null);
+                          }}
                           className="text-blue-600 hover:text-blue-800 text-sm"
                         >
                           Change
@@ -1019,6 +926,41 @@ Get well soon!
                   )}
                 </div>
 
+                {selectedCustomer && getOpenPrescriptions(prescriptions, selectedCustomer.id).length > 0 && (
+                  <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Pill className="h-4 w-4 text-green-700" />
+                      <label className="text-sm font-medium text-green-900">Prescriptions to Dispense</label>
+                    </div>
+                    {getOpenPrescriptions(prescriptions, selectedCustomer.id).map(prescription => (
+                      <div key={prescription.id} className="flex items-start justify-between py-2 border-t border-green-100 first:border-t-0">
+                        <div className="text-sm">
+                          <p className="font-medium text-green-900">
+                            {new Date(prescription.createdAt).toLocaleDateString()} • {prescription.doctorName}
+                            {getPrescriptionStatus(prescription) === 'partial' && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800">Partly dispensed</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-green-800">
+                            {prescription.items
+                              .filter(item => item.medicineId && getRemainingQuantity(prescription, item) > 0)
+                              .map(item => `${item.medicineName} (${getRemainingQuantity(prescription, item)})`)
+                              .join(', ')}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => loadPrescription(prescription)}
+                          disabled={prescriptionId === prescription.id}
+                          className="ml-2 px-3 py-1 text-xs font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                        >
+                          {prescriptionId === prescription.id ? 'Loaded' : 'Load into Cart'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {settings.consultationServices && settings.consultationServices.length > 0 && (
                   <div className="mb-6">
                     <div className="flex items-center justify-between mb-3">
@@ -1134,12 +1076,21 @@ Get well soon!
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                     <input
                       type="text"
-                      placeholder="Search medicines..."
+                      placeholder="Search medicines or scan a barcode..."
                       value={medicineSearchTerm}
                       onChange={(e) => setMedicineSearchTerm(e.target.value)}
-                      className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                      className="pl-10 pr-10 py-2 w-full border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
                     />
+                    <ScanLine className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                   </div>
+                  {scanMessage && (
+                    <div className={`mb-2 px-3 py-2 rounded-lg text-sm flex items-center space-x-2 ${
+                      scanMessage.success ? 'bg-green-50 text-green-800 border border-green-200' : 'bg-red-50 text-red-800 border border-red-200'
+                    }`}>
+                      {scanMessage.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+                      <span>{scanMessage.message}</span>
+                    </div>
+                  )}
 
                   <div className="max-h-64 overflow-y-auto border border-gray-300 rounded-lg">
                     {filteredMedicines.filter(m => getAvailableQuantity(m.id) > 0).map(medicine => {
@@ -1426,11 +1377,17 @@ Get well soon!
                                       {(item.tablets || 0) > 0 && `${item.tablets} ${displayItem}s`}
                                     </div>
                                     <div>₹{item.unitPrice.toFixed(2)}/{displayItem}</div>
+                                    {item.batches && item.batches.length > 0 && (
+                                      <div className="text-gray-500">Batch: {formatBatchAllocations(item.batches)}</div>
+                                    )}
                                   </div>
                                 ) : (
                                   <div>
                                     <div>{item.bottles} {displayUnit}{(item.bottles || 0) !== 1 ? 's' : ''}</div>
                                     <div>₹{item.unitPrice.toFixed(2)}/{displayUnit}</div>
+                                    {item.batches && item.batches.length > 0 && (
+                                      <div className="text-gray-500">Batch: {formatBatchAllocations(item.batches)}</div>
+                                    )}
                                   </div>
                                 )}
                               </div>
@@ -1504,6 +1461,25 @@ Get well soon!
                         className="w-20 px-2 py-1 border border-gray-300 rounded text-xs"
                       />
                     </div>
+                    {availableCredit > 0 && (
+                      <div className="flex justify-between items-center">
+                        <label className="flex items-center space-x-1">
+                          <input
+                            type="checkbox"
+                            checked={applyCredit}
+                            onChange={(e) => setApplyCredit(e.target.checked)}
+                          />
+                          <span>Use credit (₹{availableCredit.toFixed(2)})</span>
+                        </label>
+                        <span>{creditApplied > 0 ? `-₹${creditApplied.toFixed(2)}` : '-'}</span>
+                      </div>
+                    )}
+                    {roundOff !== 0 && (
+                      <div className="flex justify-between">
+                        <span>Round Off:</span>
+                        <span>{roundOff > 0 ? '+' : '-'}₹{Math.abs(roundOff).toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between font-bold text-base border-t pt-2">
                       <span>Total:</span>
                       <span>₹{finalAmount.toFixed(2)}</span>
@@ -1575,6 +1551,14 @@ Get well soon!
                     <Printer className="h-4 w-4" />
                     <span>Print</span>
                   </button>
+                  <button
+                    onClick={printReceipt}
+                    className="px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center space-x-2"
+                    title="Print on the receipt printer"
+                  >
+                    <Receipt className="h-4 w-4" />
+                    <span>Receipt</span>
+                  </button>
                   <button
                     onClick={downloadBill}
                     className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
@@ -1582,6 +1566,14 @@ Get well soon!
                     <Download className="h-4 w-4" />
                     <span>Download</span>
                   </button>
+                  <button
+                    onClick={shareBill}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+                    title="Share PDF"
+                  >
+                    <Share2 className="h-4 w-4" />
+                    <span>Share</span>
+                  </button>
                 </div>
               </div>
             </div>
@@ -1659,6 +1651,9 @@ Get well soon!
                                 {medicine && medicine.brand && (
                                   <div className="text-xs text-gray-500">{medicine.brand}</div>
                                 )}
+                                {!isService && item.batches && item.batches.length > 0 && (
+                                  <div className="text-xs text-gray-500">Batch: {formatBatchAllocations(item.batches)}</div>
+                                )}
                                 {!isService && cartItem && (
                                   <div className="text-xs text-blue-600">
                                     {isTablet ? (
@@ -1731,6 +1726,18 @@ Get well soon!
                       <span className="text-sm">Discount:</span>
                       <span className="text-sm">₹{currentBill.discount.toFixed(2)}</span>
                     </div>
+                    {!!currentBill.creditApplied && (
+                      <div className="flex justify-between">
+                        <span className="text-sm">Patient Credit:</span>
+                        <span className="text-sm">-₹{currentBill.creditApplied.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {!!currentBill.roundOff && (
+                      <div className="flex justify-between">
+                        <span className="text-sm">Round Off:</span>
+                        <span className="text-sm">{currentBill.roundOff > 0 ? '+' : '-'}₹{Math.abs(currentBill.roundOff).toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between font-bold text-base border-t pt-2">
                       <span className="text-lg">Total:</span>
                       <span className="text-lg">₹{currentBill.finalAmount.toFixed(2)}</span>
@@ -1901,6 +1908,25 @@ Get well soon!
                           <Edit2 className="h-3 w-3" />
                           <span>Edit</span>
                         </button>
+                        <button
+                          onClick={() => {
+                            setReturnSale(sale);
+                            setShowReturnForm(true);
+                          }}
+                          className="text-orange-600 hover:text-orange-900 flex items-center space-x-1 text-sm"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          <span>Return</span>
+                        </button>
+                        {authService.hasPermission(currentUser, 'delete_bill') && (
+                          <button
+                            onClick={() => handleDeleteSale(sale)}
+                            className="text-red-600 hover:text-red-900 flex items-center space-x-1 text-sm"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                            <span>Delete</span>
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -1917,6 +1943,51 @@ Get well soon!
           </div>
         )}
       </div>
+
+      {saleReturns.length > 0 && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Credit Notes</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Credit Note</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bill No</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Patient</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Items</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Refund</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Method</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {[...saleReturns].reverse().slice(0, 10).map((saleReturn) => (
+                  <tr key={saleReturn.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{saleReturn.creditNoteNumber}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{saleReturn.saleId}</td>
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900">{saleReturn.customerName}</p>
+                      <p className="text-xs text-gray-500">{saleReturn.patientId}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{saleReturn.items.length}</td>
+                    <td className="px-4 py-3 text-sm font-medium text-red-600">₹{saleReturn.refundAmount.toFixed(2)}</td>
+                    <td className="px-4 py-3">
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800 capitalize">
+                        {saleReturn.refundMethod}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {new Date(saleReturn.createdAt).toLocaleDateString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,369 @@
+import React, { useState } from 'react';
+import { Search, X, RotateCcw, Printer, AlertCircle } from 'lucide-react';
+import { Sale, SaleItem, SaleReturn } from '../types';
+import { formatBatchAllocations } from '../utils/batches';
+import {
+  allocateReturnBatches,
+  generateCreditNoteNumber,
+  getReturnableItems,
+  getReturnsForSale,
+  getSaleDiscountRatio,
+} from '../utils/returns';
+
+interface ClinicDetails {
+  clinicName: string;
+  clinicAddress: string;
+  clinicPhone: string;
+}
+
+interface SalesReturnsProps {
+  sales: Sale[];
+  saleReturns: SaleReturn[];
+  initialSale?: Sale | null;
+  clinic: ClinicDetails;
+  onAddSaleReturn: (saleReturn: SaleReturn) => void;
+  onClose: () => void;
+}
+
+const REFUND_METHODS: { value: SaleReturn['refundMethod']; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'credit', label: 'Keep as patient credit' },
+];
+
+const printCreditNote = (saleReturn: SaleReturn, clinic: ClinicDetails) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+
+  const rows = saleReturn.items.map(item => `
+    <tr>
+      <td>${item.medicineName}${item.batches && item.batches.length > 0 ? `<br><small>Batch: ${formatBatchAllocations(item.batches)}</small>` : ''}</td>
+      <td>${item.quantity}</td>
+      <td>₹${item.unitPrice.toFixed(2)}</td>
+      <td>₹${item.totalPrice.toFixed(2)}</td>
+    </tr>
+  `).join('');
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Credit Note ${saleReturn.creditNoteNumber}</title>
+        <style>
+          body { font-family: 'Arial', sans-serif; margin: 0; padding: 20px; font-size: 12px; line-height: 1.4; }
+          .container { max-width: 80mm; margin: 0 auto; }
+          .header { text-align: center; border-bottom: 2px solid #000; padding-bottom: 10px; margin-bottom: 10px; }
+          .title { font-size: 16px; font-weight: bold; }
+          table { width: 100%; border-collapse: collapse; margin: 10px 0; }
+          th, td { border: 1px solid #000; padding: 4px; text-align: left; }
+          th { background-color: #f0f0f0; }
+          .row { display: flex; justify-content: space-between; margin-bottom: 3px; }
+          .total { font-weight: bold; border-top: 1px solid #000; padding-top: 5px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <div class="title">${clinic.clinicName}</div>
+            <div>${clinic.clinicAddress}</div>
+            <div>Phone: ${clinic.clinicPhone}</div>
+            <div class="title" style="margin-top: 8px;">CREDIT NOTE</div>
+          </div>
+          <div class="row"><span>Credit Note No:</span><span>${saleReturn.creditNoteNumber}</span></div>
+          <div class="row"><span>Against Bill No:</span><span>${saleReturn.saleId}</span></div>
+          <div class="row"><span>Date:</span><span>${new Date(saleReturn.createdAt).toLocaleString()}</span></div>
+          <div class="row"><span>Patient:</span><span>${saleReturn.customerName} (${saleReturn.patientId})</span></div>
+          <table>
+            <thead><tr><th>Item</th><th>Qty</th><th>Rate</th><th>Amount</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+          <div class="row"><span>Returned Value:</span><span>₹${saleReturn.totalAmount.toFixed(2)}</span></div>
+          ${saleReturn.discount > 0 ? `<div class="row"><span>Less Bill Discount:</span><span>-₹${saleReturn.discount.toFixed(2)}</span></div>` : ''}
+          <div class="row total"><span>Refund (${saleReturn.refundMethod === 'credit' ? 'Patient Credit' : saleReturn.refundMethod.toUpperCase()}):</span><span>₹${saleReturn.refundAmount.toFixed(2)}</span></div>
+          ${saleReturn.reason ? `<p>Reason: ${saleReturn.reason}</p>` : ''}
+        </div>
+        <script>
+          window.onload = function() {
+            window.print();
+            setTimeout(function() { window.close(); }, 100);
+          }
+        </script>
+      </body>
+    </html>
+  `);
+  printWindow.document.close();
+};
+
+export const SalesReturns: React.FC<SalesReturnsProps> = ({
+  sales,
+  saleReturns,
+  initialSale,
+  clinic,
+  onAddSaleReturn,
+  onClose,
+}) => {
+  const [billNumber, setBillNumber] = useState(initialSale?.id || '');
+  const [sale, setSale] = useState<Sale | null>(initialSale || null);
+  const [lookupError, setLookupError] = useState('');
+  const [returnQuantities, setReturnQuantities] = useState<{ [medicineId: string]: number }>({});
+  const [refundMethod, setRefundMethod] = useState<SaleReturn['refundMethod']>('cash');
+  const [reason, setReason] = useState('');
+  const [issuedNote, setIssuedNote] = useState<SaleReturn | null>(null);
+
+  const returnableItems = sale ? getReturnableItems(sale, saleReturns) : [];
+  const previousReturns = sale ? getReturnsForSale(saleReturns, sale.id) : [];
+
+  const returnLines = returnableItems
+    .filter(({ item }) => (returnQuantities[item.medicineId] || 0) > 0)
+    .map(({ item }) => {
+      const quantity = returnQuantities[item.medicineId];
+      return { item, quantity, amount: quantity * item.unitPrice };
+    });
+  const grossAmount = returnLines.reduce((sum, line) => sum + line.amount, 0);
+  const discountShare = sale ? grossAmount * getSaleDiscountRatio(sale) : 0;
+  const refundAmount = Math.max(0, grossAmount - discountShare);
+
+  const handleLookup = () => {
+    const found = sales.find(s => s.id.toLowerCase() === billNumber.trim().toLowerCase());
+    setReturnQuantities({});
+    if (!found) {
+      setSale(null);
+      setLookupError(`No bill found with number ${billNumber}`);
+      return;
+    }
+    setLookupError('');
+    setSale(found);
+  };
+
+  const handleQuantityChange = (medicineId: string, value: number, max: number) => {
+    setReturnQuantities(prev => ({ ...prev, [medicineId]: Math.min(Math.max(0, value), max) }));
+  };
+
+  const handleSubmit = () => {
+    if (!sale || returnLines.length === 0) return;
+
+    const items: SaleItem[] = returnLines.map(({ item, quantity, amount }) => {
+      const priorItems = previousReturns
+        .flatMap(r => r.items)
+        .filter(returned => returned.medicineId === item.medicineId);
+      return {
+        medicineId: item.medicineId,
+        medicineName: item.medicineName,
+        quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: amount,
+        batches: allocateReturnBatches(item, priorItems, quantity),
+      };
+    });
+
+    const saleReturn: SaleReturn = {
+      id: Date.now().toString(),
+      creditNoteNumber: generateCreditNoteNumber(saleReturns),
+      saleId: sale.id,
+      customerId: sale.customerId,
+      customerName: sale.customerName,
+      patientId: sale.patientId,
+      items,
+      totalAmount: grossAmount,
+      discount: discountShare,
+      refundAmount,
+      refundMethod,
+      reason: reason.trim() || undefined,
+      createdAt: new Date().toISOString(),
+    };
+
+    onAddSaleReturn(saleReturn);
+    setIssuedNote(saleReturn);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold flex items-center space-x-2">
+            <RotateCcw className="h-5 w-5 text-orange-600" />
+            <span>Sales Return</span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {issuedNote ? (
+          <div className="space-y-4">
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="font-medium text-green-800">Credit note {issuedNote.creditNoteNumber} issued</p>
+              <p className="text-sm text-green-700 mt-1">
+                {issuedNote.refundMethod === 'credit'
+                  ? `₹${issuedNote.refundAmount.toFixed(2)} added to ${issuedNote.customerName}'s credit balance.`
+                  : `Refund ₹${issuedNote.refundAmount.toFixed(2)} by ${issuedNote.refundMethod.toUpperCase()}.`}
+              </p>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => printCreditNote(issuedNote, clinic)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+              >
+                <Printer className="h-4 w-4" />
+                <span>Print Credit Note</span>
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bill Number</label>
+              <div className="flex space-x-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                  <input
+                    type="text"
+                    value={billNumber}
+                    onChange={(e) => setBillNumber(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+                    className="pl-10 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    placeholder="Enter bill number"
+                  />
+                </div>
+                <button
+                  onClick={handleLookup}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Find Bill
+                </button>
+              </div>
+              {lookupError && <p className="mt-1 text-sm text-red-600">{lookupError}</p>}
+            </div>
+
+            {sale && (
+              <>
+                <div className="bg-gray-50 rounded-lg p-3 grid grid-cols-2 gap-2 text-sm">
+                  <div><span className="text-gray-600">Patient:</span> <span className="font-medium">{sale.customerName} ({sale.patientId})</span></div>
+                  <div><span className="text-gray-600">Date:</span> <span className="font-medium">{new Date(sale.createdAt).toLocaleDateString()}</span></div>
+                  <div><span className="text-gray-600">Bill Amount:</span> <span className="font-medium">₹{sale.finalAmount.toFixed(2)}</span></div>
+                  <div><span className="text-gray-600">Previous Returns:</span> <span className="font-medium">{previousReturns.length > 0 ? previousReturns.map(r => r.creditNoteNumber).join(', ') : 'None'}</span></div>
+                </div>
+
+                {returnableItems.length === 0 ? (
+                  <div className="flex items-center p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    <AlertCircle className="h-4 w-4 mr-2" />
+                    Nothing left to return on this bill.
+                  </div>
+                ) : (
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Item</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Sold</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Returnable</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Rate</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Return Qty</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {returnableItems.map(({ item, returnable }) => (
+                        <tr key={item.medicineId}>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {item.medicineName}
+                            {item.batches && item.batches.length > 0 && (
+                              <div className="text-xs text-gray-500">Batch: {formatBatchAllocations(item.batches)}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{item.quantity}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{returnable}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600">₹{item.unitPrice.toFixed(2)}</td>
+                          <td className="px-4 py-3 text-sm">
+                            <input
+                              type="number"
+                              min="0"
+                              max={returnable}
+                              value={returnQuantities[item.medicineId] || ''}
+                              onChange={(e) => handleQuantityChange(item.medicineId, parseInt(e.target.value) || 0, returnable)}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Refund Method</label>
+                    <div className="space-y-1">
+                      {REFUND_METHODS.map(method => (
+                        <label key={method.value} className="flex items-center space-x-2 text-sm">
+                          <input
+                            type="radio"
+                            name="refundMethod"
+                            value={method.value}
+                            checked={refundMethod === method.value}
+                            onChange={() => setRefundMethod(method.value)}
+                          />
+                          <span>{method.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                    <textarea
+                      rows={3}
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      placeholder="e.g. Patient allergic, doctor changed prescription..."
+                    />
+                  </div>
+                </div>
+
+                <div className="bg-white p-3 rounded-lg border border-gray-300 text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span>Returned Value:</span>
+                    <span>₹{grossAmount.toFixed(2)}</span>
+                  </div>
+                  {discountShare > 0 && (
+                    <div className="flex justify-between text-gray-600">
+                      <span>Less Bill Discount Share:</span>
+                      <span>-₹{discountShare.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-semibold text-base border-t pt-1">
+                    <span>Refund Amount:</span>
+                    <span className="text-orange-600">₹{refundAmount.toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSubmit}
+                    disabled={returnLines.length === 0}
+                    className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+                  >
+                    Issue Credit Note
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,47 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { Save, Stethoscope, DollarSign, User, Building, Phone, Mail, MapPin, Plus, CreditCard as Edit, Trash2, Package, Settings as SettingsIcon, MessageSquare, RefreshCw, Download, Upload } from 'lucide-react';
-import { smsService, SMSConfig } from '../utils/sms';
-
-interface SettingsData {
-  doctorConsultationCharge: number;
-  consultationServices: ConsultationService[];
-  clinicName: string;
-  doctorName: string;
-  clinicAddress: string;
-  clinicPhone: string;
-  clinicEmail: string;
-  licenseNumber: string;
-  categories: string[];
-  taxRate: number;
-  currency: string;
-  businessHours: {
-    openTime: string;
-    closeTime: string;
-    workingDays: string[];
-  };
-  notifications: {
-    lowStockAlert: boolean;
-    expiryAlert: boolean;
-    emailNotifications: boolean;
-  };
-  backup: {
-    autoBackup: boolean;
-    backupFrequency: string;
-  };
-  specialization?: string;
-  experience?: string;
-  registrationNumber?: string;
-  website?: string;
-}
-
-interface ConsultationService {
-  id: string;
-  name: string;
-  amount: number;
-  isDefault: boolean;
-}
+import { Save, Stethoscope, DollarSign, User, Building, Phone, Mail, MapPin, Plus, CreditCard as Edit, Trash2, Package, Settings as SettingsIcon, MessageSquare, RefreshCw, Download, Upload, History, Lock, Printer, CalendarOff } from 'lucide-react';
+import { DEFAULT_SMS_TEMPLATES, SMS_TEMPLATE_TYPES, SMSConfig, SmsTemplate, TemplatedMessageType, fillTemplate, getSmsLength, smsService } from '../utils/sms';
+import { SMS_PROVIDERS, SmsProviderId } from '../utils/smsProviders';
+import { SmsDeliveryLog } from './SmsDeliveryLog';
+import { ClinicClosure, ConsultationService, PaperSize, PrescriptionLanguage, ReceiptWidth, SettingsData, User as UserType } from '../types';
+import { storage, STORAGE_KEYS } from '../utils/storage';
+import { BackupFile, BackupPreview, createBackup, getBackupFilename, readBackup, restoreBackup } from '../utils/backup';
+import { BackupSnapshot, DEFAULT_BACKUP_RETENTION, backupScheduler } from '../utils/backupScheduler';
+import { DEFAULT_SECURITY_SETTINGS } from '../utils/passwords';
+import { DEFAULT_PRINT_SETTINGS, PAPER_SIZES } from '../utils/pdf';
+import { DEFAULT_APPOINTMENT_SETTINGS, SLOT_LENGTHS, WEEKDAYS } from '../utils/appointments';
+import { DEFAULT_REMINDER_SETTINGS } from '../utils/reminders';
+import { PRESCRIPTION_LANGUAGES } from '../utils/prescriptionPdf';
+import { RECEIPT_COLUMNS } from '../utils/receipt';
+import { thermalPrinter } from '../utils/thermalPrinter';
+import { authService } from '../utils/auth';
+import { INDIAN_STATES } from '../utils/gst';
+import { isValidGstin } from '../utils/suppliers';
 
 interface SettingsProps {
+  currentUser: UserType;
   onSettingsChange: (settings: SettingsData) => void;
   onRefresh?: () => void;
 }
@@ -65,11 +43,15 @@ const DEFAULT_CATEGORIES = [
   'Others'
 ];
 
+// The logo is stored inside the settings record, so keep it small
+const MAX_LOGO_SIZE = 200 * 1024;
+
 const WORKING_DAYS = [
   'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'
 ];
 
-export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh }) => {
+export const Settings: React.FC<SettingsProps> = ({ currentUser, onSettingsChange, onRefresh }) => {
+  const canRestore = authService.hasPermission(currentUser, 'restore_backup');
   const [activeTab, setActiveTab] = useState('clinic');
   const [settings, setSettings] = useState<SettingsData>({
     doctorConsultationCharge: 200,
@@ -84,6 +66,8 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     clinicPhone: '+91 9444855105',
     clinicEmail: 'info@clinicpro.com',
     licenseNumber: 'MED123456789',
+    gstin: '',
+    state: 'Tamil Nadu',
     categories: [...DEFAULT_CATEGORIES],
     taxRate: 0,
     currency: 'INR',
@@ -99,31 +83,33 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     },
     backup: {
       autoBackup: true,
-      backupFrequency: 'daily'
-    }
+      backupFrequency: 'daily',
+      retentionCount: DEFAULT_BACKUP_RETENTION
+    },
+    security: DEFAULT_SECURITY_SETTINGS,
+    printing: DEFAULT_PRINT_SETTINGS,
+    appointments: DEFAULT_APPOINTMENT_SETTINGS,
+    reminders: DEFAULT_REMINDER_SETTINGS
   });
 
   const [isSaved, setIsSaved] = useState(false);
   const [newCategory, setNewCategory] = useState('');
   const [editingCategory, setEditingCategory] = useState<{ index: number; value: string } | null>(null);
   const [newService, setNewService] = useState({ name: '', amount: 0 });
+  const [newClosure, setNewClosure] = useState<Omit<ClinicClosure, 'id'>>({ type: 'holiday', startDate: '', endDate: '', reason: '' });
   const [editingService, setEditingService] = useState<{ id: string; name: string; amount: number } | null>(null);
-  const [smsConfig, setSmsConfig] = useState<SMSConfig>({
-    apiKey: '',
-    senderId: 'CLINIC',
-    templateId: '',
-    enabled: false
-  });
+  const [smsConfig, setSmsConfig] = useState<SMSConfig>(smsService.getConfig());
   const [backupStatus, setBackupStatus] = useState<string>('');
   const [isBackingUp, setIsBackingUp] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ backup: BackupFile; preview: BackupPreview } | null>(null);
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
 
   useEffect(() => {
-    const loadSettings = () => {
-      const savedSettings = localStorage.getItem('clinic_settings');
-      if (savedSettings) {
+    const loadSettings = async () => {
+      const parsedSettings = await storage.getSettings();
+      if (parsedSettings) {
         try {
-          const parsedSettings = JSON.parse(savedSettings);
-          console.log('Loaded settings from localStorage:', parsedSettings);
+          console.log('Loaded settings from storage:', parsedSettings);
 
           const mergedSettings: SettingsData = {
             doctorConsultationCharge: parsedSettings.doctorConsultationCharge || 200,
@@ -138,6 +124,8 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
             clinicPhone: parsedSettings.clinicPhone || '+91 9444855105',
             clinicEmail: parsedSettings.clinicEmail || 'info@clinicpro.com',
             licenseNumber: parsedSettings.licenseNumber || 'MED123456789',
+            gstin: parsedSettings.gstin || '',
+            state: parsedSettings.state || 'Tamil Nadu',
             categories: Array.isArray(parsedSettings.categories) ? parsedSettings.categories : [...DEFAULT_CATEGORIES],
             taxRate: parsedSettings.taxRate || 0,
             currency: parsedSettings.currency || 'INR',
@@ -153,12 +141,18 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
             },
             backup: {
               autoBackup: parsedSettings.backup?.autoBackup ?? true,
-              backupFrequency: parsedSettings.backup?.backupFrequency || 'daily'
+              backupFrequency: parsedSettings.backup?.backupFrequency || 'daily',
+              retentionCount: parsedSettings.backup?.retentionCount || DEFAULT_BACKUP_RETENTION
             },
+            security: { ...DEFAULT_SECURITY_SETTINGS, ...parsedSettings.security },
+            printing: { ...DEFAULT_PRINT_SETTINGS, ...parsedSettings.printing },
+            appointments: { ...DEFAULT_APPOINTMENT_SETTINGS, ...parsedSettings.appointments },
+            reminders: { ...DEFAULT_REMINDER_SETTINGS, ...parsedSettings.reminders },
             specialization: parsedSettings.specialization || '',
             experience: parsedSettings.experience || '',
             registrationNumber: parsedSettings.registrationNumber || '',
-            website: parsedSettings.website || ''
+            website: parsedSettings.website || '',
+            clinicLogo: parsedSettings.clinicLogo
           };
 
           setSettings(mergedSettings);
@@ -179,6 +173,8 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
             clinicPhone: '+91 9444855105',
             clinicEmail: 'info@clinicpro.com',
             licenseNumber: 'MED123456789',
+            gstin: '',
+            state: 'Tamil Nadu',
             categories: [...DEFAULT_CATEGORIES],
             taxRate: 0,
             currency: 'INR',
@@ -194,17 +190,22 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
             },
             backup: {
               autoBackup: true,
-              backupFrequency: 'daily'
-            }
+              backupFrequency: 'daily',
+              retentionCount: DEFAULT_BACKUP_RETENTION
+            },
+            security: DEFAULT_SECURITY_SETTINGS,
+            printing: DEFAULT_PRINT_SETTINGS,
+            appointments: DEFAULT_APPOINTMENT_SETTINGS,
+            reminders: DEFAULT_REMINDER_SETTINGS
           };
-          localStorage.setItem('clinic_settings', JSON.stringify(defaultSettings));
+          storage.saveSettings(defaultSettings);
           setSettings(defaultSettings);
           onSettingsChange(defaultSettings);
           return defaultSettings;
         }
       } else {
         console.log('No saved settings found, using defaults');
-        localStorage.setItem('clinic_settings', JSON.stringify(settings));
+        storage.saveSettings(settings);
         onSettingsChange(settings);
         return settings;
       }
@@ -212,13 +213,20 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
 
     loadSettings();
 
-    const savedSmsConfig = smsService.getConfig();
-    setSmsConfig(savedSmsConfig);
+    smsService.loadConfig().then(setSmsConfig);
   }, []);
 
+  useEffect(() => {
+    if (activeTab === 'backup') {
+      backupScheduler.getSnapshots().then(setSnapshots).catch(error => {
+        console.error('Error loading backup snapshots:', error);
+      });
+    }
+  }, [activeTab]);
+
   const handleSave = () => {
     console.log('Saving settings:', settings);
-    localStorage.setItem('clinic_settings', JSON.stringify(settings));
+    storage.saveSettings(settings);
     smsService.updateConfig(smsConfig);
     onSettingsChange(settings);
     setIsSaved(true);
@@ -252,6 +260,40 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     });
   };
 
+  const updateSmsTemplate = (type: TemplatedMessageType, changes: Partial<SmsTemplate>) => {
+    setSmsConfig({
+      ...smsConfig,
+      templates: smsConfig.templates.map(template => template.type === type ? { ...template, ...changes } : template),
+    });
+  };
+
+  const toggleWorkingDay = (day: string) => {
+    const workingDays = settings.businessHours.workingDays.includes(day)
+      ? settings.businessHours.workingDays.filter(d => d !== day)
+      : WEEKDAYS.filter(d => d === day || settings.businessHours.workingDays.includes(d));
+    handleNestedInputChange('businessHours', 'workingDays', workingDays);
+  };
+
+  const addClosure = () => {
+    if (!newClosure.startDate) {
+      alert('Please choose the first day of the holiday or leave.');
+      return;
+    }
+    const endDate = newClosure.endDate || newClosure.startDate;
+    if (endDate < newClosure.startDate) {
+      alert('The last day cannot be before the first day.');
+      return;
+    }
+    const closures = [...settings.appointments.closures, { ...newClosure, endDate, reason: newClosure.reason.trim(), id: Date.now().toString() }]
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+    handleNestedInputChange('appointments', 'closures', closures);
+    setNewClosure({ type: newClosure.type, startDate: '', endDate: '', reason: '' });
+  };
+
+  const removeClosure = (id: string) => {
+    handleNestedInputChange('appointments', 'closures', settings.appointments.closures.filter(closure => closure.id !== id));
+  };
+
   const addCategory = () => {
     if (newCategory.trim() && !settings.categories.includes(newCategory.trim())) {
       const updatedCategories = [...settings.categories, newCategory.trim()];
@@ -263,7 +305,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
       console.log('Updated categories:', updatedCategories);
       setSettings(updatedSettings);
       setNewCategory('');
-      localStorage.setItem('clinic_settings', JSON.stringify(updatedSettings));
+      storage.saveSettings(updatedSettings);
       onSettingsChange(updatedSettings);
     }
   };
@@ -279,7 +321,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
       console.log('Editing category at index', index, 'to:', newValue.trim());
       setSettings(updatedSettings);
       setEditingCategory(null);
-      localStorage.setItem('clinic_settings', JSON.stringify(updatedSettings));
+      storage.saveSettings(updatedSettings);
       onSettingsChange(updatedSettings);
     }
   };
@@ -293,7 +335,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     console.log('Deleting category at index', index);
     console.log('Remaining categories:', updatedCategories);
     setSettings(updatedSettings);
-    localStorage.setItem('clinic_settings', JSON.stringify(updatedSettings));
+    storage.saveSettings(updatedSettings);
     onSettingsChange(updatedSettings);
   };
 
@@ -304,7 +346,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     };
     console.log('Resetting categories to default');
     setSettings(updatedSettings);
-    localStorage.setItem('clinic_settings', JSON.stringify(updatedSettings));
+    storage.saveSettings(updatedSettings);
     onSettingsChange(updatedSettings);
   };
 
@@ -345,7 +387,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     setSettings(updatedSettings);
     setNewService({ name: '', amount: 0 });
 
-    localStorage.setItem('clinic_settings', JSON.stringify(updatedSettings));
+    storage.saveSettings(updatedSettings);
     onSettingsChange(updatedSettings);
   };
 
@@ -382,7 +424,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     setSettings(updatedSettings);
     setEditingService(null);
 
-    localStorage.setItem('clinic_settings', JSON.stringify(updatedSettings));
+    storage.saveSettings(updatedSettings);
     onSettingsChange(updatedSettings);
   };
 
@@ -409,7 +451,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
       console.log('Remaining services:', remainingServices);
       setSettings(updatedSettings);
 
-      localStorage.setItem('clinic_settings', JSON.stringify(updatedSettings));
+      storage.saveSettings(updatedSettings);
       onSettingsChange(updatedSettings);
     }
   };
@@ -428,36 +470,29 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     console.log('Setting default service to:', id);
     setSettings(updatedSettings);
 
-    localStorage.setItem('clinic_settings', JSON.stringify(updatedSettings));
+    storage.saveSettings(updatedSettings);
     onSettingsChange(updatedSettings);
   };
 
-  const createBackup = async () => {
+  const handleCreateBackup = async () => {
     try {
       setIsBackingUp(true);
       setBackupStatus('Creating backup...');
 
-      const backupData = {
-        settings: settings,
-        medicines: JSON.parse(localStorage.getItem('medicines') || '[]'),
-        patients: JSON.parse(localStorage.getItem('patients') || '[]'),
-        sales: JSON.parse(localStorage.getItem('sales') || '[]'),
-        backupDate: new Date().toISOString(),
-        version: '1.0'
-      };
-
-      const dataStr = JSON.stringify(backupData, null, 2);
+      const backup = await createBackup();
+      const dataStr = JSON.stringify(backup, null, 2);
       const dataBlob = new Blob([dataStr], { type: 'application/json' });
       const url = URL.createObjectURL(dataBlob);
 
       const link = document.createElement('a');
       link.href = url;
-      link.download = `clinic-backup-${new Date().toISOString().split('T')[0]}.json`;
+      link.download = getBackupFilename(backup);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
 
       URL.revokeObjectURL(url);
+      await backupScheduler.recordBackup(backup.createdAt);
 
       setBackupStatus('Backup created successfully!');
       setTimeout(() => setBackupStatus(''), 3000);
@@ -470,76 +505,167 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     }
   };
 
-  const restoreBackup = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleSelectBackup = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
 
     if (!file.name.endsWith('.json')) {
       alert('Please select a valid backup file (.json)');
-      event.target.value = '';
       return;
     }
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
-        const content = e.target?.result as string;
-        const backupData = JSON.parse(content);
-
-        if (!backupData.settings || !backupData.backupDate || !backupData.version) {
-          alert('Invalid backup file format. Please select a valid backup file.');
-          event.target.value = '';
-          return;
-        }
-
-        const confirmMessage = `This will restore all data from the backup created on ${new Date(backupData.backupDate).toLocaleString()}.\n\nCurrent data will be replaced. This action cannot be undone.\n\nDo you want to continue?`;
-
-        if (window.confirm(confirmMessage)) {
-          console.log('Restoring backup data:', backupData);
-
-          if (backupData.settings) {
-            localStorage.setItem('clinic_settings', JSON.stringify(backupData.settings));
-            setSettings(backupData.settings);
-            onSettingsChange(backupData.settings);
-          }
-          if (backupData.medicines) {
-            localStorage.setItem('medicines', JSON.stringify(backupData.medicines));
-          }
-          if (backupData.patients) {
-            localStorage.setItem('patients', JSON.stringify(backupData.patients));
-          }
-          if (backupData.sales) {
-            localStorage.setItem('sales', JSON.stringify(backupData.sales));
-          }
-
-          setBackupStatus('Data restored successfully! Refreshing page...');
-
-          setTimeout(() => {
-            window.location.reload();
-          }, 2000);
-        } else {
-          event.target.value = '';
-        }
+        const result = await readBackup(e.target?.result as string);
+        setPendingRestore(result);
       } catch (error) {
         console.error('Restore failed:', error);
-        alert('Failed to restore backup. The file may be corrupted or in an invalid format.');
-        event.target.value = '';
+        alert(`Failed to read backup. ${error instanceof Error ? error.message : 'The file may be corrupted or in an invalid format.'}`);
       }
     };
 
     reader.onerror = () => {
       alert('Failed to read the backup file. Please try again.');
-      event.target.value = '';
     };
 
     reader.readAsText(file);
   };
 
-  const handleRefresh = () => {
-    const savedSettings = localStorage.getItem('clinic_settings');
-    if (savedSettings) {
+  const handleSelectLogo = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      alert('Please select a PNG or JPEG image for the logo');
+      return;
+    }
+
+    if (file.size > MAX_LOGO_SIZE) {
+      alert('The logo must be smaller than 200 KB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      handleInputChange('clinicLogo', e.target?.result as string);
+    };
+
+    reader.onerror = () => {
+      alert('Failed to read the logo file. Please try again.');
+    };
+
+    reader.readAsDataURL(file);
+  };
+
+  const handlePairUsbPrinter = async () => {
+    try {
+      const name = await thermalPrinter.pairUsbPrinter();
+      alert(`${name} paired successfully!`);
+    } catch (error) {
+      console.error('USB pairing failed:', error);
+      if ((error as Error).name !== 'NotFoundError') {
+        alert(`Failed to pair the printer. ${error instanceof Error ? error.message : ''}`);
+      }
+    }
+  };
+
+  const handlePairSerialPrinter = async () => {
+    try {
+      await thermalPrinter.pairSerialPrinter();
+      alert('Serial printer paired successfully!');
+    } catch (error) {
+      console.error('Serial pairing failed:', error);
+      if ((error as Error).name !== 'NotFoundError') {
+        alert(`Failed to pair the printer. ${error instanceof Error ? error.message : ''}`);
+      }
+    }
+  };
+
+  const handleTestReceipt = async () => {
+    try {
+      await thermalPrinter.printReceipt([
+        { type: 'text', text: settings.clinicName, align: 'center', bold: true, large: true },
+        { type: 'text', text: 'Test receipt', align: 'center' },
+        { type: 'divider' },
+        { type: 'columns', left: 'Paper width', right: settings.printing.receiptWidth },
+        { type: 'columns', left: 'Columns', right: RECEIPT_COLUMNS[settings.printing.receiptWidth].toString() },
+        { type: 'divider' },
+        { type: 'qr', data: settings.clinicName },
+        { type: 'feed', lines: 3 },
+        { type: 'cut' },
+      ], settings.printing);
+    } catch (error) {
+      console.error('Test print failed:', error);
+      alert(`Test print failed. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  const handleSnapshotNow = async () => {
+    try {
+      setIsBackingUp(true);
+      await backupScheduler.takeSnapshot(settings.backup.retentionCount);
+      setSnapshots(await backupScheduler.getSnapshots());
+      setBackupStatus('Snapshot saved successfully!');
+    } catch (error) {
+      console.error('Snapshot failed:', error);
+      setBackupStatus('Snapshot failed. Please try again.');
+    } finally {
+      setIsBackingUp(false);
+      setTimeout(() => setBackupStatus(''), 3000);
+    }
+  };
+
+  const handleSelectSnapshot = async (id: string) => {
+    try {
+      const snapshot = await backupScheduler.getSnapshot(id);
+      if (!snapshot) {
+        alert('This snapshot is no longer available.');
+        return;
+      }
+      setPendingRestore(await readBackup(JSON.stringify(snapshot)));
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert(`Failed to read snapshot. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!pendingRestore || !canRestore) return;
+
+    const { backup } = pendingRestore;
+    if (!window.confirm('Current data in the listed stores will be replaced. This action cannot be undone.\n\nDo you want to continue?')) {
+      return;
+    }
+
+    try {
+      setBackupStatus('Restoring backup...');
+      await restoreBackup(backup);
+      setPendingRestore(null);
+
+      const restoredSettings = backup.stores[STORAGE_KEYS.SETTINGS] as SettingsData | undefined;
+      if (restoredSettings) {
+        setSettings(restoredSettings);
+        onSettingsChange(restoredSettings);
+      }
+
+      setBackupStatus('Data restored successfully! Refreshing page...');
+      setTimeout(() => {
+        window.location.reload();
+      }, 2000);
+    } catch (error) {
+      console.error('Restore failed:', error);
+      setBackupStatus('');
+      alert('Failed to restore backup. Please try again.');
+    }
+  };
+
+  const handleRefresh = async () => {
+    const parsedSettings = await storage.getSettings();
+    if (parsedSettings) {
       try {
-        const parsedSettings = JSON.parse(savedSettings);
         console.log('Refreshing settings:', parsedSettings);
         setSettings(parsedSettings);
         onSettingsChange(parsedSettings);
@@ -553,14 +679,19 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
     }
   };
 
+  const smsProvider = SMS_PROVIDERS.find(provider => provider.id === smsConfig.provider);
+
   const tabs = [
     { id: 'clinic', label: 'Clinic Info', icon: Building },
     { id: 'categories', label: 'Categories', icon: Package },
     { id: 'services', label: 'Services', icon: Stethoscope },
     { id: 'billing', label: 'Billing', icon: DollarSign },
     { id: 'sms', label: 'SMS Settings', icon: MessageSquare },
+    { id: 'smslog', label: 'SMS Log', icon: History },
     { id: 'business', label: 'Business Hours', icon: SettingsIcon },
     { id: 'notifications', label: 'Notifications', icon: Stethoscope },
+    { id: 'security', label: 'Security', icon: Lock },
+    { id: 'printing', label: 'Printing', icon: Printer },
     { id: 'backup', label: 'Backup', icon: Save },
   ];
 
@@ -735,6 +866,44 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
                 <p className="text-xs text-gray-500 mt-1">Official medical practice license number</p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Building className="h-4 w-4 inline mr-1" />
+                  GSTIN
+                </label>
+                <input
+                  type="text"
+                  value={settings.gstin || ''}
+                  onChange={(e) => handleInputChange('gstin', e.target.value.toUpperCase())}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="33ABCDE1234F1Z5"
+                  maxLength={15}
+                />
+                {settings.gstin && !isValidGstin(settings.gstin) ? (
+                  <p className="text-xs text-red-600 mt-1">GSTIN should be 15 characters, e.g. 33ABCDE1234F1Z5</p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">Printed on tax invoices</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <MapPin className="h-4 w-4 inline mr-1" />
+                  State
+                </label>
+                <select
+                  value={settings.state || ''}
+                  onChange={(e) => handleInputChange('state', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select state</option>
+                  {INDIAN_STATES.map(state => (
+                    <option key={state.code} value={state.name}>{state.code} - {state.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Decides CGST/SGST or IGST on bills</p>
+              </div>
+
               <div className="md:col-span-2 mt-6 pt-6 border-t border-gray-200">
                 <h4 className="font-medium text-gray-900 mb-4">Additional Information</h4>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -788,6 +957,41 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
                   </div>
                 </div>
               </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Clinic Logo
+                </label>
+                <div className="flex items-center space-x-4">
+                  {settings.clinicLogo ? (
+                    <img src={settings.clinicLogo} alt="Clinic logo" className="h-16 w-16 object-contain border border-gray-200 rounded-lg" />
+                  ) : (
+                    <div className="h-16 w-16 flex items-center justify-center border border-dashed border-gray-300 rounded-lg text-xs text-gray-400">
+                      No logo
+                    </div>
+                  )}
+                  <label className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 cursor-pointer flex items-center space-x-2 text-sm">
+                    <Upload className="h-4 w-4" />
+                    <span>{settings.clinicLogo ? 'Change Logo' : 'Upload Logo'}</span>
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      onChange={handleSelectLogo}
+                      className="hidden"
+                    />
+                  </label>
+                  {settings.clinicLogo && (
+                    <button
+                      onClick={() => handleInputChange('clinicLogo', undefined)}
+                      className="px-4 py-2 text-sm text-red-600 bg-red-50 rounded-lg hover:bg-red-100"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  PNG or JPEG up to 200 KB. Printed at the top of bills and prescriptions.
+                </p>
+              </div>
             </div>
           </div>
         )}
@@ -1052,25 +1256,64 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
             </h3>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">API Key</label>
-                <input
-                  type="text"
-                  value={smsConfig.apiKey}
-                  onChange={(e) => setSmsConfig({ ...smsConfig, apiKey: e.target.value })}
+                <label className="block text-sm font-medium text-gray-700 mb-2">Provider</label>
+                <select
+                  value={smsConfig.provider}
+                  onChange={(e) => setSmsConfig({ ...smsConfig, provider: e.target.value as SmsProviderId })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                  placeholder="Enter your SMS API key"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Sender ID</label>
-                <input
-                  type="text"
-                  value={smsConfig.senderId}
-                  onChange={(e) => setSmsConfig({ ...smsConfig, senderId: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-                  placeholder="CLINIC"
-                />
+                >
+                  {SMS_PROVIDERS.map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.name}</option>
+                  ))}
+                </select>
               </div>
+              {smsConfig.provider !== 'demo' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {smsConfig.provider === 'twilio' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Account SID</label>
+                      <input
+                        type="text"
+                        value={smsConfig.accountSid}
+                        onChange={(e) => setSmsConfig({ ...smsConfig, accountSid: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        placeholder="ACxxxxxxxxxxxxxxxx"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{smsProvider?.apiKeyLabel}</label>
+                    <input
+                      type="password"
+                      value={smsConfig.apiKey}
+                      onChange={(e) => setSmsConfig({ ...smsConfig, apiKey: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      autoComplete="off"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{smsProvider?.senderLabel}</label>
+                    <input
+                      type="text"
+                      value={smsConfig.senderId}
+                      onChange={(e) => setSmsConfig({ ...smsConfig, senderId: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      placeholder={smsConfig.provider === 'twilio' ? '+15005550006' : 'CLINIC'}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">API Address</label>
+                    <input
+                      type="url"
+                      value={smsConfig.baseUrl}
+                      onChange={(e) => setSmsConfig({ ...smsConfig, baseUrl: e.target.value.trim() })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      placeholder={smsProvider?.defaultBaseUrl}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Leave blank to use the provider's own address. Set it to send through a relay server or a test server.</p>
+                  </div>
+                </div>
+              )}
               <div className="flex items-center space-x-2">
                 <input
                   type="checkbox"
@@ -1082,6 +1325,111 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
                 <label htmlFor="smsEnabled" className="text-sm font-medium text-gray-700">Enable SMS Notifications</label>
               </div>
             </div>
+
+            <div className="mt-8 pt-6 border-t border-gray-200">
+              <h4 className="text-md font-semibold text-gray-900 mb-1">Message Templates</h4>
+              <p className="text-sm text-gray-500 mb-4">
+                Each message must match the template registered on the DLT portal, with placeholders where the registered template has variables.
+              </p>
+              <div className="space-y-6">
+                {SMS_TEMPLATE_TYPES.map(templateType => {
+                  const template = smsConfig.templates.find(t => t.type === templateType.type) || DEFAULT_SMS_TEMPLATES.find(t => t.type === templateType.type)!;
+                  const preview = fillTemplate(template.body, templateType.sample);
+                  const length = getSmsLength(preview);
+                  return (
+                    <div key={templateType.type} className="p-4 border border-gray-200 rounded-lg">
+                      <div className="flex justify-between items-center mb-3">
+                        <h5 className="font-medium text-gray-900">{templateType.label}</h5>
+                        <button
+                          type="button"
+                          onClick={() => updateSmsTemplate(templateType.type, { body: DEFAULT_SMS_TEMPLATES.find(t => t.type === templateType.type)!.body })}
+                          className="text-sm text-gray-500 hover:text-gray-700"
+                        >
+                          Reset to default
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="md:col-span-2">
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+                          <textarea
+                            value={template.body}
+                            onChange={(e) => updateSmsTemplate(templateType.type, { body: e.target.value })}
+                            rows={5}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                          />
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {templateType.placeholders.map(placeholder => (
+                              <button
+                                key={placeholder.key}
+                                type="button"
+                                onClick={() => updateSmsTemplate(templateType.type, { body: `${template.body}${placeholder.key}` })}
+                                className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                                title={`Add ${placeholder.label.toLowerCase()}`}
+                              >
+                                {placeholder.key}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">DLT Template ID</label>
+                          <input
+                            type="text"
+                            value={template.dltTemplateId}
+                            onChange={(e) => updateSmsTemplate(templateType.type, { dltTemplateId: e.target.value.trim() })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                            placeholder="19-digit ID from the DLT portal"
+                          />
+                          <label className="block text-sm font-medium text-gray-700 mt-3 mb-1">Preview</label>
+                          <p className="text-xs text-gray-600 whitespace-pre-line bg-gray-50 rounded p-2">{preview}</p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {length.characters} characters, {length.encoding} • {length.parts} SMS part{length.parts === 1 ? '' : 's'}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="mt-8 pt-6 border-t border-gray-200">
+              <h4 className="text-md font-semibold text-gray-900 mb-4">Reminders</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Follow-up reminders (days before)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="14"
+                    value={settings.reminders.followUpDaysBefore}
+                    onChange={(e) => handleNestedInputChange('reminders', 'followUpDaysBefore', parseInt(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Refill reminders (days before)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="14"
+                    value={settings.reminders.refillDaysBefore}
+                    onChange={(e) => handleNestedInputChange('reminders', 'refillDaysBefore', parseInt(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'smslog' && (
+          <div className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+              <MessageSquare className="h-5 w-5 mr-2 text-blue-600" />
+              SMS Delivery Log
+            </h3>
+            <SmsDeliveryLog />
           </div>
         )}
 
@@ -1111,6 +1459,123 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
                 />
               </div>
             </div>
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Working Days</label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map(day => (
+                  <label key={day} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.businessHours.workingDays.includes(day)}
+                      onChange={() => toggleWorkingDay(day)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-700">{day}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <h4 className="text-md font-semibold text-gray-900 mb-4">Appointments</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Slot Length</label>
+                  <select
+                    value={settings.appointments.slotMinutes}
+                    onChange={(e) => handleNestedInputChange('appointments', 'slotMinutes', parseInt(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    {SLOT_LENGTHS.map(minutes => (
+                      <option key={minutes} value={minutes}>{minutes} minutes</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <h4 className="text-md font-semibold text-gray-900 mb-1 flex items-center">
+                <CalendarOff className="h-4 w-4 mr-2 text-blue-600" />
+                Holidays and Leave
+              </h4>
+              <p className="text-sm text-gray-500 mb-4">No appointments can be booked on these days.</p>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={newClosure.type}
+                    onChange={(e) => setNewClosure({ ...newClosure, type: e.target.value as ClinicClosure['type'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="holiday">Holiday</option>
+                    <option value="leave">Doctor on leave</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={newClosure.startDate}
+                    onChange={(e) => setNewClosure({ ...newClosure, startDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={newClosure.endDate}
+                    min={newClosure.startDate}
+                    onChange={(e) => setNewClosure({ ...newClosure, endDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    value={newClosure.reason}
+                    onChange={(e) => setNewClosure({ ...newClosure, reason: e.target.value })}
+                    placeholder="e.g. Pongal"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <button
+                  onClick={addClosure}
+                  className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add</span>
+                </button>
+              </div>
+              {settings.appointments.closures.length > 0 ? (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {settings.appointments.closures.map(closure => (
+                    <div key={closure.id} className="flex justify-between items-center px-4 py-2">
+                      <div>
+                        <span className="text-sm font-medium text-gray-900">
+                          {closure.startDate === closure.endDate ? closure.startDate : `${closure.startDate} to ${closure.endDate}`}
+                        </span>
+                        <span className={`ml-3 px-2 py-0.5 rounded-full text-xs ${closure.type === 'leave' ? 'bg-purple-100 text-purple-800' : 'bg-orange-100 text-orange-800'}`}>
+                          {closure.type === 'leave' ? 'Leave' : 'Holiday'}
+                        </span>
+                        {closure.reason && <span className="ml-3 text-sm text-gray-600">{closure.reason}</span>}
+                      </div>
+                      <button
+                        onClick={() => removeClosure(closure.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No holidays or leave added.</p>
+              )}
+            </div>
           </div>
         )}
 
@@ -1143,6 +1608,237 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
           </div>
         )}
 
+        {activeTab === 'security' && (
+          <div className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+              <Lock className="h-5 w-5 mr-2 text-blue-600" />
+              Security
+            </h3>
+            <div className="space-y-6">
+              <div>
+                <h4 className="font-medium text-gray-900 mb-3">Password Policy</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Length</label>
+                    <input
+                      type="number"
+                      min="4"
+                      value={settings.security.passwordMinLength}
+                      onChange={(e) => handleNestedInputChange('security', 'passwordMinLength', Math.max(4, parseInt(e.target.value) || 4))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="space-y-3">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={settings.security.requireUppercase}
+                        onChange={(e) => handleNestedInputChange('security', 'requireUppercase', e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm font-medium text-gray-700">Require an uppercase letter</span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={settings.security.requireNumber}
+                        onChange={(e) => handleNestedInputChange('security', 'requireNumber', e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm font-medium text-gray-700">Require a number</span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={settings.security.requireSymbol}
+                        onChange={(e) => handleNestedInputChange('security', 'requireSymbol', e.target.checked)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm font-medium text-gray-700">Require a symbol</span>
+                    </label>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-medium text-gray-900 mb-3">Account Lockout</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Failed Attempts Before Lockout</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={settings.security.maxFailedAttempts}
+                      onChange={(e) => handleNestedInputChange('security', 'maxFailedAttempts', Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Lockout Duration (minutes)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={settings.security.lockoutMinutes}
+                      onChange={(e) => handleNestedInputChange('security', 'lockoutMinutes', Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  An administrator can unlock an account early by resetting its password in User Management.
+                </p>
+              </div>
+
+              <div>
+                <h4 className="font-medium text-gray-900 mb-3">Sessions</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Sign Out After (hours)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={settings.security.sessionTimeoutHours}
+                      onChange={(e) => handleNestedInputChange('security', 'sessionTimeoutHours', Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Lock Screen When Idle For (minutes)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={settings.security.idleLockMinutes}
+                      onChange={(e) => handleNestedInputChange('security', 'idleLockMinutes', Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  Set the idle time to 0 to turn off the automatic lock. Changes apply from the next sign-in.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'printing' && (
+          <div className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+              <Printer className="h-5 w-5 mr-2 text-blue-600" />
+              Printing
+            </h3>
+            <div className="space-y-6">
+              <div>
+                <h4 className="font-medium text-gray-900 mb-3">Prescription</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Paper Size</label>
+                    <select
+                      value={settings.printing.prescriptionPaperSize}
+                      onChange={(e) => handleNestedInputChange('printing', 'prescriptionPaperSize', e.target.value as PaperSize)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {PAPER_SIZES.map(size => (
+                        <option key={size} value={size}>{size}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Dosage Instructions Language</label>
+                    <select
+                      value={settings.printing.prescriptionLanguage}
+                      onChange={(e) => handleNestedInputChange('printing', 'prescriptionLanguage', e.target.value as PrescriptionLanguage)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {PRESCRIPTION_LANGUAGES.map(language => (
+                        <option key={language.id} value={language.id}>{language.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  The letterhead uses the doctor and clinic details from Clinic Info. Dosage lines such as
+                  "1 Morning - 1 Night" are printed in the chosen language so patients can follow them at home.
+                </p>
+              </div>
+              <div>
+                <h4 className="font-medium text-gray-900 mb-3">Bills</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Paper Size</label>
+                    <select
+                      value={settings.printing.billPaperSize}
+                      onChange={(e) => handleNestedInputChange('printing', 'billPaperSize', e.target.value as PaperSize)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {PAPER_SIZES.map(size => (
+                        <option key={size} value={size}>{size}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  Used when a bill is printed, downloaded or shared as a PDF.
+                </p>
+              </div>
+              <div>
+                <h4 className="font-medium text-gray-900 mb-3">Receipt Printer</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Paper Width</label>
+                    <select
+                      value={settings.printing.receiptWidth}
+                      onChange={(e) => handleNestedInputChange('printing', 'receiptWidth', e.target.value as ReceiptWidth)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(RECEIPT_COLUMNS) as ReceiptWidth[]).map(width => (
+                        <option key={width} value={width}>{width} ({RECEIPT_COLUMNS[width]} columns)</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Print Server URL</label>
+                    <input
+                      type="url"
+                      value={settings.printing.printServerUrl}
+                      onChange={(e) => handleNestedInputChange('printing', 'printServerUrl', e.target.value.trim())}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      placeholder="http://localhost:9100/print"
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-3 mt-4">
+                  <button
+                    onClick={handlePairUsbPrinter}
+                    disabled={!thermalPrinter.isUsbSupported()}
+                    className="px-4 py-2 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                  >
+                    Pair USB Printer
+                  </button>
+                  <button
+                    onClick={handlePairSerialPrinter}
+                    disabled={!thermalPrinter.isSerialSupported()}
+                    className="px-4 py-2 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                  >
+                    Pair Serial Printer
+                  </button>
+                  <button
+                    onClick={handleTestReceipt}
+                    className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center space-x-2"
+                  >
+                    <Printer className="h-4 w-4" />
+                    <span>Test Print</span>
+                  </button>
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  Receipts go to a paired USB or serial printer first. Without one they are sent to the print server,
+                  and if no server is set the browser's print dialog is used.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
         {activeTab === 'backup' && (
           <div className="p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
@@ -1154,11 +1850,64 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
               <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                 <h4 className="font-medium text-blue-900 mb-2">About Backup</h4>
                 <p className="text-sm text-blue-800">
-                  Create a complete backup of your clinic data including settings, medicines, patients, and sales records.
+                  Create a complete backup of your clinic data including settings, medicines, patients, sales, returns,
+                  purchases, suppliers, notifications, users and SMS configuration.
                   The backup file can be used to restore your data on this or another device.
                 </p>
               </div>
 
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h4 className="font-medium text-gray-900 mb-3 flex items-center">
+                  <History className="h-4 w-4 mr-2" />
+                  Automatic Backups
+                </h4>
+                <p className="text-sm text-gray-600 mb-4">
+                  While the app is open, a snapshot of all data is saved in this browser on the chosen schedule.
+                  Older snapshots are removed once the retention count is reached.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.backup.autoBackup}
+                      onChange={(e) => handleNestedInputChange('backup', 'autoBackup', e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-sm font-medium text-gray-700">Enable Automatic Backups</span>
+                  </label>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Frequency</label>
+                    <select
+                      value={settings.backup.backupFrequency}
+                      onChange={(e) => handleNestedInputChange('backup', 'backupFrequency', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="monthly">Monthly</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Snapshots to Keep</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={settings.backup.retentionCount}
+                      onChange={(e) => handleNestedInputChange('backup', 'retentionCount', Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <button
+                  onClick={handleSnapshotNow}
+                  disabled={isBackingUp}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                >
+                  <History className="h-4 w-4" />
+                  <span>Take Snapshot Now</span>
+                </button>
+              </div>
+
               <div className="border border-gray-200 rounded-lg p-4">
                 <h4 className="font-medium text-gray-900 mb-3 flex items-center">
                   <Download className="h-4 w-4 mr-2" />
@@ -1168,7 +1917,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
                   Download a backup file containing all your clinic data. Store this file in a safe location.
                 </p>
                 <button
-                  onClick={createBackup}
+                  onClick={handleCreateBackup}
                   disabled={isBackingUp}
                   className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
                 >
@@ -1177,13 +1926,14 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
                 </button>
               </div>
 
+              {canRestore && (
               <div className="border border-gray-200 rounded-lg p-4">
                 <h4 className="font-medium text-gray-900 mb-3 flex items-center">
                   <Upload className="h-4 w-4 mr-2" />
                   Restore Backup
                 </h4>
                 <p className="text-sm text-gray-600 mb-4">
-                  Upload a previously downloaded backup file to restore your data. This will replace all current data.
+                  Upload a previously downloaded backup file. You will see the record counts it contains before anything is replaced.
                 </p>
                 <div className="flex items-center space-x-4">
                   <label className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 cursor-pointer flex items-center space-x-2">
@@ -1192,12 +1942,92 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
                     <input
                       type="file"
                       accept=".json"
-                      onChange={restoreBackup}
+                      onChange={handleSelectBackup}
                       className="hidden"
                     />
                   </label>
                 </div>
+
+                <div className="mt-4">
+                  <h5 className="text-sm font-medium text-gray-900 mb-2">Or restore from a snapshot</h5>
+                  {snapshots.length === 0 ? (
+                    <p className="text-sm text-gray-500">No snapshots have been saved yet.</p>
+                  ) : (
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                      {snapshots.map(snapshot => (
+                        <div key={snapshot.id} className="px-4 py-3 flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">{new Date(snapshot.createdAt).toLocaleString()}</p>
+                            <p className="text-xs text-gray-500">
+                              {snapshot.counts
+                                .filter(count => count.key !== STORAGE_KEYS.SETTINGS && count.key !== STORAGE_KEYS.SMS_CONFIG)
+                                .map(count => `${count.label}: ${count.count}`)
+                                .join(' • ')}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleSelectSnapshot(snapshot.id)}
+                            className="px-3 py-1 text-sm text-green-700 bg-green-50 rounded-lg hover:bg-green-100"
+                          >
+                            Restore
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {pendingRestore && (
+                  <div className="mt-4 border border-gray-200 rounded-lg overflow-hidden">
+                    <div className="px-4 py-3 bg-gray-50 border-b border-gray-200">
+                      <p className="text-sm font-medium text-gray-900">
+                        Backup from {new Date(pendingRestore.preview.createdAt).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        Schema version {pendingRestore.preview.schemaVersion}
+                        {pendingRestore.preview.checksumVerified
+                          ? ' • Checksum verified'
+                          : ' • Older backup format without a checksum'}
+                      </p>
+                    </div>
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Current</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">In Backup</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {pendingRestore.preview.stores.map(store => (
+                          <tr key={store.key}>
+                            <td className="px-4 py-2 text-sm text-gray-900">{store.label}</td>
+                            <td className="px-4 py-2 text-sm text-gray-600 text-right">{store.currentCount}</td>
+                            <td className={`px-4 py-2 text-sm text-right ${store.backupCount === null || store.backupOnly ? 'text-gray-400' : 'font-medium text-gray-900'}`}>
+                              {store.backupCount === null ? 'Not included (kept)' : store.backupOnly ? `${store.backupCount} (not restored)` : store.backupCount}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+                      <button
+                        onClick={() => setPendingRestore(null)}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleConfirmRestore}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
+              )}
 
               <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
                 <h4 className="font-medium text-yellow-900 mb-2">Important Notes</h4>
@@ -1206,6 +2036,7 @@ export const Settings: React.FC<SettingsProps> = ({ onSettingsChange, onRefresh
                   <li>Restoring a backup will replace all current data.</li>
                   <li>Create regular backups to prevent data loss.</li>
                   <li>Backup files are in JSON format and can only be restored to this application.</li>
+                  <li>Files that were truncated or edited fail the checksum and cannot be restored.</li>
                 </ul>
               </div>
             </div>
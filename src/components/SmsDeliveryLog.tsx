@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, RotateCcw, CheckCircle, XCircle } from 'lucide-react';
+import { SmsLogEntry, SmsMessageType, getSmsLength, smsService } from '../utils/sms';
+import { SMS_PROVIDERS } from '../utils/smsProviders';
+
+const TYPE_LABELS: Record<SmsMessageType, string> = {
+  bill: 'Bill',
+  follow_up: 'Follow-up',
+  refill: 'Refill',
+  custom: 'Other',
+};
+
+export const SmsDeliveryLog: React.FC = () => {
+  const [entries, setEntries] = useState<SmsLogEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'all' | 'sent' | 'failed'>('all');
+  const [typeFilter, setTypeFilter] = useState<'all' | SmsMessageType>('all');
+  const [retrying, setRetrying] = useState<string[]>([]);
+
+  const loadLog = () => {
+    smsService.getDeliveryLog().then(setEntries);
+  };
+
+  useEffect(() => {
+    loadLog();
+  }, []);
+
+  const retry = async (ids: string[]) => {
+    setRetrying(ids);
+    const results = [];
+    for (const id of ids) {
+      results.push(await smsService.retry(id));
+    }
+    setRetrying([]);
+    loadLog();
+
+    const failed = results.filter(result => !result.success);
+    if (failed.length > 0) {
+      alert(ids.length === 1 ? failed[0].message : `${ids.length - failed.length} sent, ${failed.length} failed again.`);
+    }
+  };
+
+  const filteredEntries = entries.filter(entry =>
+    (statusFilter === 'all' || entry.status === statusFilter) &&
+    (typeFilter === 'all' || entry.type === typeFilter)
+  );
+  const failedIds = filteredEntries.filter(entry => entry.status === 'failed').map(entry => entry.id);
+  const totalParts = filteredEntries.reduce((sum, entry) => sum + getSmsLength(entry.message).parts * (entry.status === 'sent' ? 1 : 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | 'sent' | 'failed')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            <option value="all">All statuses</option>
+            <option value="sent">Sent</option>
+            <option value="failed">Failed</option>
+          </select>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as 'all' | SmsMessageType)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            <option value="all">All messages</option>
+            {(Object.keys(TYPE_LABELS) as SmsMessageType[]).map(type => (
+              <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-500">{totalParts} SMS parts delivered</span>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={loadLog}
+            className="flex items-center space-x-2 px-3 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 text-sm"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={() => retry(failedIds)}
+            disabled={failedIds.length === 0 || retrying.length > 0}
+            className="flex items-center space-x-2 px-3 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Retry Failed ({failedIds.length})</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Message</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Length</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredEntries.map(entry => {
+              const length = getSmsLength(entry.message);
+              return (
+                <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-4 py-3 text-xs text-gray-500 whitespace-nowrap">
+                    {new Date(entry.lastAttemptAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="text-sm text-gray-900">{entry.recipientName || entry.to}</div>
+                    <div className="text-xs text-gray-500">
+                      {entry.recipientName && `${entry.to} • `}{TYPE_LABELS[entry.type]}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600 max-w-md">
+                    <p className="line-clamp-2" title={entry.message}>{entry.message}</p>
+                    <p className="text-gray-400 mt-1">
+                      {SMS_PROVIDERS.find(provider => provider.id === entry.provider)?.name || entry.provider}
+                      {entry.dltTemplateId && ` • DLT ${entry.dltTemplateId}`}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600 whitespace-nowrap">
+                    <div>{length.characters} chars</div>
+                    <div className="text-gray-400">{length.parts} part{length.parts === 1 ? '' : 's'}, {length.encoding}</div>
+                  </td>
+                  <td className="px-4 py-3 text-xs">
+                    {entry.status === 'sent' ? (
+                      <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-full font-medium bg-green-100 text-green-800">
+                        <CheckCircle className="h-3 w-3" />
+                        <span>Sent</span>
+                      </span>
+                    ) : (
+                      <>
+                        <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-full font-medium bg-red-100 text-red-800">
+                          <XCircle className="h-3 w-3" />
+                          <span>Failed</span>
+                        </span>
+                        <div className="text-red-600 mt-1">{entry.error}</div>
+                      </>
+                    )}
+                    {entry.attempts > 1 && <div className="text-gray-400 mt-1">{entry.attempts} attempts</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    {entry.status === 'failed' && (
+                      <button
+                        onClick={() => retry([entry.id])}
+                        disabled={retrying.length > 0}
+                        className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        <RotateCcw className={`h-4 w-4 ${retrying.includes(entry.id) ? 'animate-spin' : ''}`} />
+                        <span>Retry</span>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {filteredEntries.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-12 text-center text-gray-500">No messages in the log</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,720 @@
+import React, { useState } from 'react';
+import { Plus, Search, CreditCard as Edit2, Trash2, X, Building2, BookOpen, HandCoins, AlertTriangle } from 'lucide-react';
+import { Medicine, Purchase, Supplier, SupplierPayment, SupplierPaymentAllocation } from '../types';
+import { SupplierLedger, allocatePayment, buildSupplierLedger, isValidGstin } from '../utils/suppliers';
+
+interface SupplierManagementProps {
+  suppliers: Supplier[];
+  purchases: Purchase[];
+  supplierPayments: SupplierPayment[];
+  medicines: Medicine[];
+  onAddSupplier: (supplier: Omit<Supplier, 'id' | 'createdAt'>) => void;
+  onEditSupplier: (id: string, supplier: Omit<Supplier, 'id' | 'createdAt'>) => void;
+  onDeleteSupplier: (id: string) => void;
+  onRecordPayment: (payment: Omit<SupplierPayment, 'id' | 'createdAt'>) => void;
+}
+
+const PAYMENT_METHODS: { value: SupplierPayment['paymentMethod']; label: string }[] = [
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'card', label: 'Card' },
+];
+
+const emptySupplierForm = {
+  name: '',
+  gstin: '',
+  contactPerson: '',
+  phone: '',
+  email: '',
+  address: '',
+  creditDays: 30,
+};
+
+export const SupplierManagement: React.FC<SupplierManagementProps> = ({
+  suppliers,
+  purchases,
+  supplierPayments,
+  medicines,
+  onAddSupplier,
+  onEditSupplier,
+  onDeleteSupplier,
+  onRecordPayment,
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState(emptySupplierForm);
+  const [gstinError, setGstinError] = useState(false);
+  const [ledgerSupplierId, setLedgerSupplierId] = useState<string | null>(null);
+  const [paymentSupplierId, setPaymentSupplierId] = useState<string | null>(null);
+  const [paymentForm, setPaymentForm] = useState({
+    amount: 0,
+    paidDate: new Date().toISOString().split('T')[0],
+    paymentMethod: 'bank_transfer' as SupplierPayment['paymentMethod'],
+    reference: '',
+    notes: '',
+  });
+  const [allocations, setAllocations] = useState<SupplierPaymentAllocation[]>([]);
+
+  const ledgers = suppliers.map(supplier => buildSupplierLedger(supplier, purchases, supplierPayments, medicines));
+  const getLedger = (supplierId: string | null): SupplierLedger | undefined =>
+    ledgers.find(ledger => ledger.supplier.id === supplierId);
+
+  const filteredLedgers = ledgers.filter(({ supplier }) =>
+    supplier.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    supplier.phone.includes(searchTerm) ||
+    (supplier.gstin || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (supplier.contactPerson || '').toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const totalOutstanding = ledgers.reduce((sum, ledger) => sum + ledger.outstanding, 0);
+  const totalOverdue = ledgers.reduce((sum, ledger) => sum + ledger.overdue, 0);
+
+  const ledgerView = getLedger(ledgerSupplierId);
+  const paymentLedger = getLedger(paymentSupplierId);
+  const allocatedTotal = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+  const resetForm = () => {
+    setFormData(emptySupplierForm);
+    setEditingSupplier(null);
+    setShowForm(false);
+    setGstinError(false);
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setFormData({
+      name: supplier.name,
+      gstin: supplier.gstin || '',
+      contactPerson: supplier.contactPerson || '',
+      phone: supplier.phone,
+      email: supplier.email || '',
+      address: supplier.address || '',
+      creditDays: supplier.creditDays,
+    });
+    setEditingSupplier(supplier);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const gstin = formData.gstin.trim().toUpperCase();
+    if (gstin && !isValidGstin(gstin)) {
+      setGstinError(true);
+      return;
+    }
+
+    const duplicate = suppliers.find(s =>
+      s.id !== editingSupplier?.id && s.name.trim().toLowerCase() === formData.name.trim().toLowerCase()
+    );
+    if (duplicate) {
+      alert(`A supplier named "${duplicate.name}" already exists.`);
+      return;
+    }
+
+    const supplierData = { ...formData, name: formData.name.trim(), gstin };
+    if (editingSupplier) {
+      onEditSupplier(editingSupplier.id, supplierData);
+    } else {
+      onAddSupplier(supplierData);
+    }
+    resetForm();
+  };
+
+  const handleDelete = (ledger: SupplierLedger) => {
+    if (ledger.invoices.length > 0) {
+      alert(`${ledger.supplier.name} has ${ledger.invoices.length} invoice(s) on record and cannot be deleted.`);
+      return;
+    }
+    if (window.confirm(`Delete supplier ${ledger.supplier.name}?`)) {
+      onDeleteSupplier(ledger.supplier.id);
+    }
+  };
+
+  const openPayment = (ledger: SupplierLedger) => {
+    const amount = Math.max(0, Math.round(ledger.outstanding * 100) / 100);
+    setPaymentForm({
+      amount,
+      paidDate: new Date().toISOString().split('T')[0],
+      paymentMethod: 'bank_transfer',
+      reference: '',
+      notes: '',
+    });
+    setAllocations(allocatePayment(ledger.invoices, amount));
+    setPaymentSupplierId(ledger.supplier.id);
+  };
+
+  const handlePaymentAmountChange = (amount: number) => {
+    setPaymentForm(prev => ({ ...prev, amount }));
+    if (paymentLedger) {
+      setAllocations(allocatePayment(paymentLedger.invoices, amount));
+    }
+  };
+
+  const handleAllocationChange = (invoiceId: string, amount: number) => {
+    const others = allocations.filter(allocation => allocation.invoiceId !== invoiceId);
+    setAllocations(amount > 0 ? [...others, { invoiceId, amount }] : others);
+  };
+
+  const handlePaymentSubmit = () => {
+    if (!paymentLedger || paymentForm.amount <= 0) return;
+
+    const overAllocated = allocations.find(allocation => {
+      const invoice = paymentLedger.invoices.find(i => i.id === allocation.invoiceId);
+      return !invoice || allocation.amount > invoice.outstanding + 0.01;
+    });
+    if (overAllocated) {
+      alert('An allocation is more than the outstanding amount of its invoice.');
+      return;
+    }
+    if (allocatedTotal > paymentForm.amount + 0.01) {
+      alert('Allocated amount cannot be more than the payment amount.');
+      return;
+    }
+
+    onRecordPayment({
+      supplierId: paymentLedger.supplier.id,
+      amount: paymentForm.amount,
+      paidDate: paymentForm.paidDate,
+      paymentMethod: paymentForm.paymentMethod,
+      reference: paymentForm.reference,
+      notes: paymentForm.notes,
+      allocations,
+    });
+    setPaymentSupplierId(null);
+  };
+
+  const renderAgeing = (ledger: SupplierLedger) => (
+    <div className="grid grid-cols-4 gap-3">
+      {[
+        { label: '0-30 days', value: ledger.ageing.days0to30, color: 'bg-green-50 text-green-800' },
+        { label: '31-60 days', value: ledger.ageing.days31to60, color: 'bg-yellow-50 text-yellow-800' },
+        { label: '61-90 days', value: ledger.ageing.days61to90, color: 'bg-orange-50 text-orange-800' },
+        { label: '90+ days', value: ledger.ageing.days90plus, color: 'bg-red-50 text-red-800' },
+      ].map(bucket => (
+        <div key={bucket.label} className={`p-3 rounded-lg ${bucket.color}`}>
+          <p className="text-xs font-medium">{bucket.label}</p>
+          <p className="text-lg font-semibold">₹{bucket.value.toFixed(2)}</p>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <input
+            type="text"
+            placeholder="Search suppliers by name, phone or GSTIN..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent w-80"
+          />
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add Supplier</span>
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600">Suppliers</p>
+          <p className="text-2xl font-semibold text-gray-900">{suppliers.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600">Total Payable</p>
+          <p className="text-2xl font-semibold text-blue-600">₹{totalOutstanding.toFixed(2)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600">Overdue</p>
+          <p className="text-2xl font-semibold text-red-600">₹{totalOverdue.toFixed(2)}</p>
+        </div>
+      </div>
+
+      {/* Supplier Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">
+                {editingSupplier ? 'Edit Supplier' : 'Add New Supplier'}
+              </h3>
+              <button
+                onClick={resetForm}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Supplier Name *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    GSTIN
+                  </label>
+                  <input
+                    type="text"
+                    maxLength={15}
+                    value={formData.gstin}
+                    onChange={(e) => {
+                      setGstinError(false);
+                      setFormData({ ...formData, gstin: e.target.value.toUpperCase() });
+                    }}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 ${
+                      gstinError ? 'border-red-500 bg-red-50 focus:ring-red-500' : 'border-gray-300'
+                    }`}
+                    placeholder="e.g. 33ABCDE1234F1Z5"
+                  />
+                  {gstinError && (
+                    <p className="mt-1 text-sm text-red-600">Enter a valid 15 character GSTIN</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Contact Person
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.contactPerson}
+                    onChange={(e) => setFormData({ ...formData, contactPerson: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone Number *
+                  </label>
+                  <input
+                    type="tel"
+                    required
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value.replace(/[^\d+\s-]/g, '') })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Credit Terms (days) *
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min="0"
+                    value={formData.creditDays}
+                    onChange={(e) => setFormData({ ...formData, creditDays: parseInt(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Address
+                </label>
+                <textarea
+                  rows={3}
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  {editingSupplier ? 'Update' : 'Add'} Supplier
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Ledger Modal */}
+      {ledgerView && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-semibold">{ledgerView.supplier.name} - Ledger</h3>
+                <p className="text-sm text-gray-600">
+                  {ledgerView.supplier.gstin ? `GSTIN ${ledgerView.supplier.gstin} · ` : ''}
+                  Credit terms {ledgerView.supplier.creditDays} days
+                </p>
+              </div>
+              <button
+                onClick={() => setLedgerSupplierId(null)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-4 gap-3 mb-4">
+              <div className="p-3 rounded-lg bg-gray-50">
+                <p className="text-xs text-gray-600">Invoiced</p>
+                <p className="text-lg font-semibold">₹{ledgerView.totalInvoiced.toFixed(2)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-gray-50">
+                <p className="text-xs text-gray-600">Paid</p>
+                <p className="text-lg font-semibold">₹{ledgerView.totalPaid.toFixed(2)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-gray-50">
+                <p className="text-xs text-gray-600">Unallocated Advance</p>
+                <p className="text-lg font-semibold">₹{ledgerView.unallocated.toFixed(2)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-blue-50">
+                <p className="text-xs text-blue-700">Outstanding</p>
+                <p className="text-lg font-semibold text-blue-800">₹{ledgerView.outstanding.toFixed(2)}</p>
+              </div>
+            </div>
+
+            {renderAgeing(ledgerView)}
+
+            <h4 className="font-semibold text-gray-900 mt-6 mb-2">Invoices</h4>
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Invoice</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Reference</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Due</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Amount</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Paid</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Outstanding</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {ledgerView.invoices.map(invoice => {
+                  const isOverdue = invoice.outstanding > 0 && new Date(invoice.dueDate) < new Date();
+                  return (
+                    <tr key={invoice.id}>
+                      <td className="px-4 py-3 text-sm text-gray-600">{new Date(invoice.invoiceDate).toLocaleDateString()}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{invoice.invoiceNumber || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{invoice.reference}</td>
+                      <td className={`px-4 py-3 text-sm ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                        {new Date(invoice.dueDate).toLocaleDateString()}
+                        {isOverdue && <span className="ml-1 text-xs">({invoice.ageDays}d)</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">₹{invoice.amount.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm text-right">₹{invoice.paidAmount.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium">₹{invoice.outstanding.toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <h4 className="font-semibold text-gray-900 mt-6 mb-2">Statement</h4>
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Particulars</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Debit</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Credit</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {ledgerView.entries.map((entry, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-3 text-sm text-gray-600">{new Date(entry.date).toLocaleDateString()}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{entry.description}</td>
+                    <td className="px-4 py-3 text-sm text-right">{entry.debit > 0 ? `₹${entry.debit.toFixed(2)}` : ''}</td>
+                    <td className="px-4 py-3 text-sm text-right text-green-700">{entry.credit > 0 ? `₹${entry.credit.toFixed(2)}` : ''}</td>
+                    <td className="px-4 py-3 text-sm text-right font-medium">₹{entry.balance.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {ledgerView.entries.length === 0 && (
+              <p className="text-gray-500 text-center py-4">No transactions yet</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Payment Modal */}
+      {paymentLedger && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">Record Payment - {paymentLedger.supplier.name}</h3>
+              <button
+                onClick={() => setPaymentSupplierId(null)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Amount (₹) *
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={paymentForm.amount}
+                  onChange={(e) => handlePaymentAmountChange(parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Outstanding: ₹{paymentLedger.outstanding.toFixed(2)}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Payment Date *
+                </label>
+                <input
+                  type="date"
+                  value={paymentForm.paidDate}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, paidDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Payment Method
+                </label>
+                <select
+                  value={paymentForm.paymentMethod}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, paymentMethod: e.target.value as SupplierPayment['paymentMethod'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  {PAYMENT_METHODS.map(method => (
+                    <option key={method.value} value={method.value}>{method.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reference (UTR / Cheque No)
+                </label>
+                <input
+                  type="text"
+                  value={paymentForm.reference}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center mt-6 mb-2">
+              <h4 className="font-semibold text-gray-900">Allocate to Invoices</h4>
+              <button
+                type="button"
+                onClick={() => setAllocations(allocatePayment(paymentLedger.invoices, paymentForm.amount))}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Auto-allocate (oldest first)
+              </button>
+            </div>
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Invoice</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Outstanding</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Allocate (₹)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {paymentLedger.invoices.filter(invoice => invoice.outstanding > 0).map(invoice => (
+                  <tr key={invoice.id}>
+                    <td className="px-4 py-3 text-sm text-gray-600">{new Date(invoice.invoiceDate).toLocaleDateString()}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {invoice.invoiceNumber || '-'}
+                      <div className="text-xs text-gray-500">{invoice.reference}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right">₹{invoice.outstanding.toFixed(2)}</td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={invoice.outstanding}
+                        value={allocations.find(allocation => allocation.invoiceId === invoice.id)?.amount || 0}
+                        onChange={(e) => handleAllocationChange(invoice.id, parseFloat(e.target.value) || 0)}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded text-right focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex justify-between items-center mt-3 text-sm">
+              <span className="text-gray-600">
+                Allocated ₹{allocatedTotal.toFixed(2)} of ₹{paymentForm.amount.toFixed(2)}
+              </span>
+              {paymentForm.amount - allocatedTotal > 0.01 && (
+                <span className="flex items-center text-yellow-700">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  ₹{(paymentForm.amount - allocatedTotal).toFixed(2)} will be kept as advance
+                </span>
+              )}
+            </div>
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                rows={2}
+                value={paymentForm.notes}
+                onChange={(e) => setPaymentForm({ ...paymentForm, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={() => setPaymentSupplierId(null)}
+                className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handlePaymentSubmit}
+                disabled={paymentForm.amount <= 0}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                Record Payment
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Suppliers List */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Supplier</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">GSTIN</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Credit Terms</th>
+              <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">0-30</th>
+              <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">31-60</th>
+              <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">61-90</th>
+              <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">90+</th>
+              <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Outstanding</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {filteredLedgers.map(ledger => (
+              <tr key={ledger.supplier.id} className="hover:bg-gray-50">
+                <td className="px-4 py-3 text-sm">
+                  <p className="font-medium text-gray-900">{ledger.supplier.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {[ledger.supplier.contactPerson, ledger.supplier.phone].filter(Boolean).join(' · ')}
+                  </p>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-600">{ledger.supplier.gstin || '-'}</td>
+                <td className="px-4 py-3 text-sm text-gray-600">{ledger.supplier.creditDays} days</td>
+                <td className="px-4 py-3 text-sm text-right">₹{ledger.ageing.days0to30.toFixed(2)}</td>
+                <td className="px-4 py-3 text-sm text-right">₹{ledger.ageing.days31to60.toFixed(2)}</td>
+                <td className="px-4 py-3 text-sm text-right">₹{ledger.ageing.days61to90.toFixed(2)}</td>
+                <td className="px-4 py-3 text-sm text-right text-red-600">₹{ledger.ageing.days90plus.toFixed(2)}</td>
+                <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">
+                  ₹{ledger.outstanding.toFixed(2)}
+                  {ledger.overdue > 0 && (
+                    <div className="text-xs text-red-600">Overdue ₹{ledger.overdue.toFixed(2)}</div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm">
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setLedgerSupplierId(ledger.supplier.id)}
+                      className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50"
+                      title="View ledger"
+                    >
+                      <BookOpen className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => openPayment(ledger)}
+                      className="text-green-600 hover:text-green-800 p-1 rounded hover:bg-green-50"
+                      title="Record payment"
+                    >
+                      <HandCoins className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleEdit(ledger.supplier)}
+                      className="text-blue-600 hover:text-blue-800 p-1 rounded hover:bg-blue-50"
+                      title="Edit supplier"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(ledger)}
+                      className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50"
+                      title="Delete supplier"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {filteredLedgers.length === 0 && (
+          <div className="text-center py-12">
+            <Building2 className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No suppliers found</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {searchTerm ? 'Try adjusting your search terms.' : 'Get started by adding a supplier.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { Plus, X, Monitor, SkipForward, ChevronsRight, Megaphone, Clock, Ticket } from 'lucide-react';
+import { Customer, QueueToken, TokenStatus, User } from '../types';
+import { toDateKey } from '../utils/appointments';
+import { authService } from '../utils/auth';
+import { generatePatientId } from '../utils/patientId';
+import {
+  WAITING_ROOM_HASH,
+  formatWait,
+  getAverageWaitMinutes,
+  getServingToken,
+  getTokensForDate,
+  getWaitingTokens,
+} from '../utils/tokens';
+
+interface TokenQueueProps {
+  tokens: QueueToken[];
+  customers: Customer[];
+  currentUser: User;
+  onIssueToken: (customer: Customer) => QueueToken;
+  onCallNextToken: (skipCurrent: boolean) => void;
+  onRecallToken: (tokenId: string) => void;
+  onAddCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Customer;
+}
+
+const STATUS_LABELS: Record<TokenStatus, { label: string; color: string }> = {
+  waiting: { label: 'Waiting', color: 'bg-yellow-100 text-yellow-800' },
+  serving: { label: 'With doctor', color: 'bg-green-100 text-green-800' },
+  done: { label: 'Done', color: 'bg-gray-100 text-gray-600' },
+  skipped: { label: 'Skipped', color: 'bg-orange-100 text-orange-800' },
+};
+
+const emptyPatient = { customerId: '', isNewPatient: false, name: '', phone: '' };
+
+const formatClock = (iso?: string): string => {
+  return iso ? new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }) : '-';
+};
+
+export const TokenQueue: React.FC<TokenQueueProps> = ({
+  tokens,
+  customers,
+  currentUser,
+  onIssueToken,
+  onCallNextToken,
+  onRecallToken,
+  onAddCustomer,
+}) => {
+  const today = toDateKey(new Date());
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [showForm, setShowForm] = useState(false);
+  const [patient, setPatient] = useState(emptyPatient);
+  const [patientSearch, setPatientSearch] = useState('');
+  const [issuedToken, setIssuedToken] = useState<QueueToken | null>(null);
+
+  const canCall = authService.hasPermission(currentUser, 'call_tokens');
+  const isToday = selectedDate === today;
+  const dayTokens = getTokensForDate(tokens, selectedDate);
+  const serving = getServingToken(tokens, selectedDate);
+  const waiting = getWaitingTokens(tokens, selectedDate);
+  const averageWait = getAverageWaitMinutes(tokens, selectedDate);
+
+  const openForm = () => {
+    setPatient(emptyPatient);
+    setPatientSearch('');
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let customer = customers.find(c => c.id === patient.customerId);
+    if (patient.isNewPatient) {
+      if (!patient.name.trim()) {
+        alert('Please enter the patient name.');
+        return;
+      }
+      if (!/^\d{10}$/.test(patient.phone)) {
+        alert('Please enter a valid 10-digit phone number.');
+        return;
+      }
+      customer = onAddCustomer({
+        patientId: generatePatientId(customers),
+        name: patient.name.trim(),
+        phone: patient.phone,
+        address: '',
+      });
+    }
+    if (!customer) {
+      alert('Please select a patient.');
+      return;
+    }
+
+    // Someone already in today's queue keeps their number
+    const existing = getTokensForDate(tokens, today).find(token =>
+      token.customerId === customer!.id && (token.status === 'waiting' || token.status === 'serving')
+    );
+    if (existing) {
+      alert(`${customer.name} already has token ${existing.number} today.`);
+      return;
+    }
+
+    setIssuedToken(onIssueToken(customer));
+    setSelectedDate(today);
+    setShowForm(false);
+  };
+
+  const handleRecall = (token: QueueToken) => {
+    if (token.status === 'skipped' && serving && !window.confirm(`Finish token ${serving.number} and call token ${token.number} back?`)) {
+      return;
+    }
+    onRecallToken(token.id);
+  };
+
+  const openWaitingRoom = () => {
+    window.open(`${window.location.pathname}${WAITING_ROOM_HASH}`, '_blank');
+  };
+
+  const filteredCustomers = customers.filter(customer =>
+    customer.name.toLowerCase().includes(patientSearch.toLowerCase()) ||
+    customer.phone.includes(patientSearch) ||
+    customer.patientId.includes(patientSearch)
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <input
+            type="date"
+            value={selectedDate}
+            max={today}
+            onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          {!isToday && (
+            <button
+              onClick={() => setSelectedDate(today)}
+              className="px-3 py-2 text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100"
+            >
+              Today
+            </button>
+          )}
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={openWaitingRoom}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 flex items-center space-x-2"
+          >
+            <Monitor className="h-4 w-4" />
+            <span>Waiting Room Display</span>
+          </button>
+          <button
+            onClick={openForm}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Issue Token</span>
+          </button>
+        </div>
+      </div>
+
+      {issuedToken && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex justify-between items-center">
+          <p className="text-blue-800">
+            Token <span className="text-2xl font-bold mx-1">{issuedToken.number}</span> issued to {issuedToken.customerName}.
+            {' '}{getWaitingTokens(tokens, today).filter(token => token.number < issuedToken.number).length} ahead in the queue.
+          </p>
+          <button onClick={() => setIssuedToken(null)} className="text-blue-400 hover:text-blue-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow p-6 md:col-span-2">
+          <p className="text-sm font-medium text-gray-600">Now Serving</p>
+          {serving ? (
+            <div className="flex items-center justify-between mt-2">
+              <div>
+                <p className="text-4xl font-bold text-green-600">{serving.number}</p>
+                <p className="text-sm text-gray-700">{serving.customerName} <span className="text-gray-500">#{serving.patientId}</span></p>
+                <p className="text-xs text-gray-500">Called at {formatClock(serving.recalledAt || serving.calledAt)}</p>
+              </div>
+              {canCall && isToday && (
+                <button
+                  onClick={() => handleRecall(serving)}
+                  className="px-3 py-2 text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 flex items-center space-x-2"
+                  title="Show this token again on the waiting room display"
+                >
+                  <Megaphone className="h-4 w-4" />
+                  <span>Recall</span>
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className="mt-2 text-gray-500">No token is being served</p>
+          )}
+          {canCall && isToday && (
+            <div className="flex space-x-3 mt-4">
+              <button
+                onClick={() => onCallNextToken(false)}
+                disabled={!serving && waiting.length === 0}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              >
+                <ChevronsRight className="h-4 w-4" />
+                <span>{waiting.length > 0 ? `Next (${waiting[0].number})` : 'Finish'}</span>
+              </button>
+              <button
+                onClick={() => onCallNextToken(true)}
+                disabled={!serving}
+                className="px-4 py-2 text-orange-700 bg-orange-50 rounded-lg hover:bg-orange-100 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                title="Patient did not come in. They can be recalled later."
+              >
+                <SkipForward className="h-4 w-4" />
+                <span>Skip</span>
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Waiting</p>
+              <p className="text-2xl font-bold text-gray-900">{waiting.length}</p>
+            </div>
+            <Ticket className="h-8 w-8 text-yellow-500" />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">{dayTokens.length} tokens issued</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Average Wait</p>
+              <p className="text-2xl font-bold text-gray-900">{formatWait(averageWait)}</p>
+            </div>
+            <Clock className="h-8 w-8 text-blue-500" />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">From token issue to first call</p>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Token</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Patient</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Called</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {dayTokens.map(token => (
+              <tr key={token.id} className={token.status === 'serving' ? 'bg-green-50' : ''}>
+                <td className="px-6 py-4 text-lg font-bold text-gray-900">{token.number}</td>
+                <td className="px-6 py-4">
+                  <div className="text-sm font-medium text-gray-900">{token.customerName}</div>
+                  <div className="text-xs text-gray-500">#{token.patientId}</div>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">{formatClock(token.issuedAt)}</td>
+                <td className="px-6 py-4 text-sm text-gray-500">{formatClock(token.calledAt)}</td>
+                <td className="px-6 py-4">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[token.status].color}`}>
+                    {STATUS_LABELS[token.status].label}
+                  </span>
+                </td>
+                <td className="px-6 py-4">
+                  {canCall && isToday && token.status === 'skipped' && (
+                    <button
+                      onClick={() => handleRecall(token)}
+                      className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      <Megaphone className="h-4 w-4" />
+                      <span>Recall</span>
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {dayTokens.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-gray-500">No tokens issued on this day</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Issue Token Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">Issue Token</h3>
+              <button
+                onClick={() => setShowForm(false)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Patient *</label>
+                  <button
+                    type="button"
+                    onClick={() => setPatient({ ...patient, isNewPatient: !patient.isNewPatient })}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    {patient.isNewPatient ? 'Choose existing patient' : '+ New patient'}
+                  </button>
+                </div>
+                {patient.isNewPatient ? (
+                  <div className="grid grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      placeholder="Full name"
+                      value={patient.name}
+                      onChange={(e) => setPatient({ ...patient, name: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="tel"
+                      placeholder="10-digit phone"
+                      value={patient.phone}
+                      onChange={(e) => setPatient({ ...patient, phone: e.target.value.replace(/\D/g, '').slice(0, 10) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="col-span-2 text-xs text-gray-500">
+                      Registered as patient #{generatePatientId(customers)}. Other details can be added from Patients.
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      placeholder="Search by name, phone or patient ID..."
+                      value={patientSearch}
+                      onChange={(e) => setPatientSearch(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 mb-2"
+                    />
+                    <select
+                      value={patient.customerId}
+                      onChange={(e) => setPatient({ ...patient, customerId: e.target.value })}
+                      size={6}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {filteredCustomers.map(customer => (
+                        <option key={customer.id} value={customer.id}>
+                          {customer.name} (#{customer.patientId}) - {customer.phone}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Issue Token
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Search, User, Shield, Eye, EyeOff, UserCheck, UserX, X, RefreshCw } from 'lucide-react';
-import { User as UserType } from '../types';
+import { Plus, Edit, Trash2, Search, User, Shield, Eye, EyeOff, UserCheck, UserX, X, RefreshCw, KeyRound, Lock, Save } from 'lucide-react';
+import { Permission, RolePermissions, User as UserType, UserRole } from '../types';
 import { authService } from '../utils/auth';
+import { PERMISSIONS, ROLES, getRoleLabel } from '../utils/permissions';
 
 interface UserManagementProps {
   currentUser: UserType;
@@ -14,10 +15,14 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
   const [editingUser, setEditingUser] = useState<UserType | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [resetUser, setResetUser] = useState<UserType | null>(null);
+  const [resetPasswordValue, setResetPasswordValue] = useState('');
+  const [activeTab, setActiveTab] = useState<'users' | 'permissions'>('users');
+  const [permissionMatrix, setPermissionMatrix] = useState<RolePermissions>(authService.getRolePermissions());
   const [formData, setFormData] = useState({
     username: '',
     password: '',
-    role: 'salesman' as 'admin' | 'salesman',
+    role: 'salesman' as UserRole,
     name: '',
     email: '',
     phone: '',
@@ -28,8 +33,8 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
     loadUsers();
   }, []);
 
-  const loadUsers = () => {
-    const allUsers = authService.getUsers();
+  const loadUsers = async () => {
+    const allUsers = await authService.getUsers();
     setUsers(allUsers);
   };
 
@@ -61,15 +66,27 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
     setShowPassword(false);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (editingUser) {
-      // Update user
-      authService.updateUser(editingUser.id, formData);
+      // Update user. Passwords are only changed through a reset.
+      await authService.updateUser(editingUser.id, {
+        username: formData.username,
+        role: formData.role,
+        name: formData.name,
+        email: formData.email,
+        phone: formData.phone,
+        isActive: formData.isActive,
+      });
     } else {
       // Add new user
-      authService.addUser(formData);
+      const policyError = await authService.checkPasswordPolicy(formData.password);
+      if (policyError) {
+        alert(policyError);
+        return;
+      }
+      await authService.addUser(formData);
     }
     
     loadUsers();
@@ -79,7 +96,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
   const handleEdit = (user: UserType) => {
     setFormData({
       username: user.username,
-      password: user.password,
+      password: '',
       role: user.role,
       name: user.name,
       email: user.email || '',
@@ -90,30 +107,67 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
     setShowForm(true);
   };
 
-  const handleDelete = (userId: string) => {
+  const handleDelete = async (userId: string) => {
     if (userId === currentUser.id) {
       alert('You cannot delete your own account');
       return;
     }
     
     if (confirm('Are you sure you want to delete this user?')) {
-      authService.deleteUser(userId);
+      await authService.deleteUser(userId);
       loadUsers();
     }
   };
 
-  const toggleUserStatus = (userId: string, isActive: boolean) => {
+  const toggleUserStatus = async (userId: string, isActive: boolean) => {
     if (userId === currentUser.id) {
       alert('You cannot deactivate your own account');
       return;
     }
     
-    authService.updateUser(userId, { isActive });
+    await authService.updateUser(userId, { isActive });
+    loadUsers();
+  };
+
+  const closeResetPassword = () => {
+    setResetUser(null);
+    setResetPasswordValue('');
+    setShowPassword(false);
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetUser) return;
+
+    const error = await authService.resetPassword(resetUser.id, resetPasswordValue);
+    if (error) {
+      alert(error);
+      return;
+    }
+
+    alert(`Password for ${resetUser.name} has been reset. They will be asked to choose a new one when they next sign in.`);
+    closeResetPassword();
     loadUsers();
   };
 
-  // Check if current user is admin
-  if (currentUser.role !== 'admin') {
+  const isLocked = (user: UserType) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+  const togglePermission = (role: UserRole, permission: Permission) => {
+    const granted = permissionMatrix[role] || [];
+    setPermissionMatrix({
+      ...permissionMatrix,
+      [role]: granted.includes(permission)
+        ? granted.filter(p => p !== permission)
+        : [...granted, permission],
+    });
+  };
+
+  const handleSavePermissions = async () => {
+    await authService.saveRolePermissions(permissionMatrix);
+    alert('Role permissions saved successfully!');
+  };
+
+  if (!authService.hasPermission(currentUser, 'manage_users')) {
     return (
       <div className="text-center py-12">
         <Shield className="mx-auto h-12 w-12 text-gray-400" />
@@ -127,7 +181,34 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
 
   return (
     <div className="space-y-6">
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          <button
+            onClick={() => setActiveTab('users')}
+            className={`${
+              activeTab === 'users'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Users
+          </button>
+          <button
+            onClick={() => setActiveTab('permissions')}
+            className={`${
+              activeTab === 'permissions'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Role Permissions
+          </button>
+        </nav>
+      </div>
+
       {/* Header */}
+      {activeTab === 'users' && (
       <div className="flex justify-between items-center">
         <div className="flex items-center space-x-4">
           <div className="relative">
@@ -156,6 +237,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
           <span>Add User</span>
         </button>
       </div>
+      )}
 
       {/* User Form Modal */}
       {showForm && (
@@ -186,9 +268,10 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                {!editingUser && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Password *
+                    Temporary Password *
                   </label>
                   <div className="relative">
                     <input
@@ -206,7 +289,9 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
                       {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                     </button>
                   </div>
+                  <p className="text-xs text-gray-500 mt-1">The user must change it on first sign-in.</p>
                 </div>
+                )}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Role *
@@ -214,11 +299,12 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
                   <select
                     required
                     value={formData.role}
-                    onChange={(e) => setFormData({ ...formData, role: e.target.value as 'admin' | 'salesman' })}
+                    onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                   >
-                    <option value="salesman">Salesman</option>
-                    <option value="admin">Admin</option>
+                    {ROLES.map(role => (
+                      <option key={role.id} value={role.id}>{role.label}</option>
+                    ))}
                   </select>
                 </div>
                 <div>
@@ -290,7 +376,67 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
         </div>
       )}
 
+      {/* Reset Password Modal */}
+      {resetUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">Reset Password</h3>
+              <button
+                onClick={closeResetPassword}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <form onSubmit={handleResetPassword} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Set a temporary password for <strong>{resetUser.name}</strong> (@{resetUser.username}).
+                This also unlocks the account.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  New Temporary Password *
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    value={resetPasswordValue}
+                    onChange={(e) => setResetPasswordValue(e.target.value)}
+                    className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400"
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeResetPassword}
+                  className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  Reset Password
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Users List */}
+      {activeTab === 'users' && (
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
@@ -337,7 +483,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
                         : 'bg-green-100 text-green-800'
                     }`}>
                       {user.role === 'admin' ? <Shield className="h-3 w-3 mr-1" /> : <User className="h-3 w-3 mr-1" />}
-                      {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+                      {getRoleLabel(user.role)}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -359,6 +505,15 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
                       {user.isActive ? <UserCheck className="h-3 w-3 mr-1" /> : <UserX className="h-3 w-3 mr-1" />}
                       {user.isActive ? 'Active' : 'Inactive'}
                     </button>
+                    {isLocked(user) && (
+                      <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Locked
+                      </span>
+                    )}
+                    {user.mustChangePassword && (
+                      <div className="text-xs text-gray-500 mt-1">Password change pending</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {user.lastLogin 
@@ -373,6 +528,13 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
                     >
                       <Edit className="h-4 w-4" />
                     </button>
+                    <button
+                      onClick={() => setResetUser(user)}
+                      className="text-yellow-600 hover:text-yellow-900"
+                      title="Reset password"
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </button>
                     <button
                       onClick={() => handleDelete(user.id)}
                       disabled={user.id === currentUser.id}
@@ -396,6 +558,69 @@ export const UserManagement: React.FC<UserManagementProps> = ({ currentUser, onR
           </div>
         )}
       </div>
+      )}
+
+      {/* Role Permissions */}
+      {activeTab === 'permissions' && (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Role Permissions</h3>
+              <p className="text-sm text-gray-500">Admins always have every permission.</p>
+            </div>
+            <button
+              onClick={handleSavePermissions}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center space-x-2"
+            >
+              <Save className="h-4 w-4" />
+              <span>Save Permissions</span>
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Permission
+                  </th>
+                  {ROLES.map(role => (
+                    <th key={role.id} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {role.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {(['Sections', 'Actions'] as const).map(group => (
+                  <React.Fragment key={group}>
+                    <tr className="bg-gray-50">
+                      <td colSpan={ROLES.length + 1} className="px-6 py-2 text-xs font-semibold text-gray-700 uppercase">
+                        {group}
+                      </td>
+                    </tr>
+                    {PERMISSIONS.filter(permission => permission.group === group).map(permission => (
+                      <tr key={permission.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{permission.label}</td>
+                        {ROLES.map(role => (
+                          <td key={role.id} className="px-4 py-3 text-center">
+                            <input
+                              type="checkbox"
+                              checked={role.id === 'admin' || (permissionMatrix[role.id] || []).includes(permission.id)}
+                              disabled={role.id === 'admin'}
+                              onChange={() => togglePermission(role.id, permission.id)}
+                              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded disabled:opacity-50"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Maximize, Stethoscope } from 'lucide-react';
+import { QueueToken } from '../types';
+import { storage } from '../utils/storage';
+import { toDateKey } from '../utils/appointments';
+import { formatWait, getAverageWaitMinutes, getServingToken, getWaitingTokens, tokenSync } from '../utils/tokens';
+
+// How long a newly called token flashes on screen
+const FLASH_MS = 8000;
+
+// Full-screen view for the waiting room TV. It shows token numbers only, never patient names.
+export const WaitingRoomDisplay: React.FC = () => {
+  const [tokens, setTokens] = useState<QueueToken[]>([]);
+  const [clinicName, setClinicName] = useState('');
+  const [now, setNow] = useState(new Date());
+  const [flashing, setFlashing] = useState(false);
+
+  useEffect(() => {
+    const loadTokens = () => {
+      storage.getTokens().then(setTokens);
+    };
+    loadTokens();
+    storage.getSettings().then(settings => setClinicName(settings?.clinicName || ''));
+
+    const timer = window.setInterval(() => setNow(new Date()), 30000);
+    const unsubscribe = tokenSync.subscribe(loadTokens);
+    return () => {
+      window.clearInterval(timer);
+      unsubscribe();
+    };
+  }, []);
+
+  const today = toDateKey(now);
+  const serving = getServingToken(tokens, today);
+  const waiting = getWaitingTokens(tokens, today);
+  const averageWait = getAverageWaitMinutes(tokens, today);
+  const announcedAt = serving ? serving.recalledAt || serving.calledAt : undefined;
+
+  // Flash whenever a token is called or recalled
+  useEffect(() => {
+    if (!announcedAt) return;
+    setFlashing(true);
+    const timer = window.setTimeout(() => setFlashing(false), FLASH_MS);
+    return () => window.clearTimeout(timer);
+  }, [serving?.id, announcedAt]);
+
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch(error => {
+      console.error('Error entering full screen:', error);
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <div className="flex justify-between items-center px-10 py-6 border-b border-gray-700">
+        <div className="flex items-center space-x-4">
+          <div className="bg-blue-600 p-3 rounded-lg">
+            <Stethoscope className="h-8 w-8 text-white" />
+          </div>
+          <h1 className="text-4xl font-bold">{clinicName || 'Clinic'}</h1>
+        </div>
+        <div className="flex items-center space-x-6">
+          <span className="text-3xl font-medium text-gray-300">
+            {now.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          {!document.fullscreenElement && (
+            <button
+              onClick={enterFullscreen}
+              className="p-2 text-gray-400 hover:text-white"
+              title="Full screen"
+            >
+              <Maximize className="h-6 w-6" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 grid grid-cols-3">
+        <div className="col-span-2 flex flex-col items-center justify-center border-r border-gray-700">
+          <p className="text-4xl uppercase tracking-widest text-gray-400">Now Serving</p>
+          <p className={`text-[14rem] leading-none font-bold mt-6 ${flashing ? 'text-yellow-300 animate-pulse' : 'text-green-400'}`}>
+            {serving ? serving.number : '-'}
+          </p>
+          {serving && flashing && (
+            <p className="text-3xl text-yellow-200 mt-6">Token {serving.number}, please go to the doctor</p>
+          )}
+        </div>
+
+        <div className="flex flex-col px-10 py-8">
+          <p className="text-3xl uppercase tracking-widest text-gray-400 mb-6">Next</p>
+          <div className="grid grid-cols-2 gap-4">
+            {waiting.slice(0, 10).map(token => (
+              <div key={token.id} className="bg-gray-800 rounded-lg py-4 text-center text-5xl font-bold">
+                {token.number}
+              </div>
+            ))}
+          </div>
+          {waiting.length === 0 && (
+            <p className="text-2xl text-gray-500">No one waiting</p>
+          )}
+          {waiting.length > 10 && (
+            <p className="text-2xl text-gray-400 mt-4">and {waiting.length - 10} more</p>
+          )}
+        </div>
+      </div>
+
+      <div className="px-10 py-5 border-t border-gray-700 flex justify-between text-2xl text-gray-300">
+        <span>Waiting: {waiting.length}</span>
+        <span>Average wait today: {formatWait(averageWait)}</span>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,15 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { WaitingRoomDisplay } from './components/WaitingRoomDisplay';
+import { WAITING_ROOM_HASH } from './utils/tokens';
 import './index.css';
 
+// The waiting room display needs no sign-in and shows nothing but token numbers
+const isWaitingRoom = window.location.hash === WAITING_ROOM_HASH;
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isWaitingRoom ? <WaitingRoomDisplay /> : <App />}
   </StrictMode>
 );
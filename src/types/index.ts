@@ -11,6 +11,24 @@ export interface Medicine {
   unitType?: string;
   itemType?: string;
   tabletsPerStrip?: number;
+  hsnCode?: string;
+  costPriceGst?: number;
+  barcodes?: string[];
+  rack?: string;
+  batches?: MedicineBatch[];
+}
+
+export interface MedicineBatch {
+  id: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+  costPrice: number;
+  supplier: string;
+  purchaseDate?: string;
+  invoiceNumber?: string;
+  barcode?: string;
+  createdAt: string;
 }
 
 export interface Customer {
@@ -24,6 +42,128 @@ export interface Customer {
   area?: string;
   dateOfBirth?: string;
   medicalHistory?: string;
+  creditBalance?: number;
+  gstin?: string;
+  state?: string;
+  createdAt: string;
+}
+
+export interface Vitals {
+  bloodPressure?: string;
+  pulse?: number;
+  temperature?: number;
+  weight?: number;
+  spo2?: number;
+  bloodSugar?: number;
+}
+
+// One consultation with the doctor. Billing links the bill back through saleId.
+export interface Visit {
+  id: string;
+  customerId: string;
+  patientId: string;
+  visitDate: string;
+  doctorName: string;
+  chiefComplaint: string;
+  vitals: Vitals;
+  examinationNotes?: string;
+  diagnosis: string;
+  advice?: string;
+  followUpDate?: string;
+  consultationServiceId?: string;
+  saleId?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type AppointmentStatus = 'booked' | 'arrived' | 'no_show' | 'cancelled';
+
+// A booked slot with the doctor. On arrival it is turned into a visit, linked through visitId.
+export interface Appointment {
+  id: string;
+  customerId: string;
+  patientId: string;
+  customerName: string;
+  date: string;
+  time: string;
+  durationMinutes: number;
+  reason?: string;
+  status: AppointmentStatus;
+  visitId?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type TokenStatus = 'waiting' | 'serving' | 'done' | 'skipped';
+
+// A walk-in's place in the day's queue. Numbers restart at 1 every day.
+export interface QueueToken {
+  id: string;
+  number: number;
+  date: string;
+  customerId: string;
+  patientId: string;
+  customerName: string;
+  status: TokenStatus;
+  issuedAt: string;
+  calledAt?: string;
+  // Set when the doctor calls the token again, so the waiting room display flashes it
+  recalledAt?: string;
+  completedAt?: string;
+  issuedBy: string;
+}
+
+export type ReminderType = 'follow_up' | 'refill';
+
+// One SMS sent, or attempted, from the reminder queue. The key ties it to the
+// follow-up or refill it was for, so the queue can show what was already sent.
+export interface ReminderLog {
+  id: string;
+  key: string;
+  type: ReminderType;
+  customerId: string;
+  customerName: string;
+  phone: string;
+  dueDate: string;
+  message: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  // The SMS delivery log entry, which takes over the status if the message is retried from there
+  smsLogId?: string;
+  sentAt: string;
+  sentBy: string;
+}
+
+export interface PrescriptionItem {
+  id: string;
+  medicineId: string;
+  medicineName: string;
+  dose: number;
+  frequency: string;
+  durationDays: number;
+  route: string;
+  instructions?: string;
+  quantity: number;
+  // Long-term medicines get refill reminders worked out from what was dispensed
+  chronic?: boolean;
+}
+
+export interface PrescriptionDispensing {
+  saleId: string;
+  dispensedAt: string;
+  items: { prescriptionItemId: string; quantity: number }[];
+}
+
+// Written during a visit. Each bill that hands over some of it adds a dispensing,
+// so a patient can collect the rest on a later day.
+export interface Prescription {
+  id: string;
+  visitId: string;
+  customerId: string;
+  patientId: string;
+  doctorName: string;
+  items: PrescriptionItem[];
+  dispensings: PrescriptionDispensing[];
   createdAt: string;
 }
 
@@ -37,6 +177,12 @@ export interface Sale {
   discount: number;
   finalAmount: number;
   paymentMethod: 'cash' | 'card' | 'upi';
+  creditApplied?: number;
+  roundOff?: number;
+  customerGstin?: string;
+  placeOfSupply?: string;
+  visitId?: string;
+  prescriptionId?: string;
   createdAt: string;
 }
 
@@ -46,6 +192,32 @@ export interface SaleItem {
   quantity: number;
   unitPrice: number;
   totalPrice: number;
+  hsnCode?: string;
+  gstRate?: number;
+  batches?: SaleItemBatch[];
+}
+
+export interface SaleItemBatch {
+  batchId: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+}
+
+export interface SaleReturn {
+  id: string;
+  creditNoteNumber: string;
+  saleId: string;
+  customerId: string;
+  customerName: string;
+  patientId: string;
+  items: SaleItem[];
+  totalAmount: number;
+  discount: number;
+  refundAmount: number;
+  refundMethod: 'cash' | 'upi' | 'credit';
+  reason?: string;
+  createdAt: string;
 }
 
 export interface Notification {
@@ -57,6 +229,7 @@ export interface Notification {
   isRead: boolean;
   createdAt: string;
   medicineId?: string;
+  batchId?: string;
 }
 
 export interface Purchase {
@@ -73,13 +246,62 @@ export interface Purchase {
   expiryDate: string;
   purchaseDate: string;
   createdAt: string;
+  grnNumber: string;
+  invoiceNumber: string;
+  supplierId?: string;
+  batchId: string;
+  freeQuantity: number;
+  schemeDiscount: number;
+  taxableAmount: number;
+  gstRate: number;
+  gstAmount: number;
+  hsnCode?: string;
+  mrp?: number;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  gstin?: string;
+  contactPerson?: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  creditDays: number;
+  createdAt: string;
+}
+
+export interface SupplierPaymentAllocation {
+  invoiceId: string;
+  amount: number;
+}
+
+export interface SupplierPayment {
+  id: string;
+  supplierId: string;
+  amount: number;
+  paidDate: string;
+  paymentMethod: 'cash' | 'upi' | 'card' | 'bank_transfer' | 'cheque';
+  reference?: string;
+  notes?: string;
+  allocations: SupplierPaymentAllocation[];
+  createdAt: string;
 }
 
 export interface User {
   id: string;
   username: string;
-  password: string;
-  role: 'admin' | 'salesman';
+  // Plaintext password saved before hashing was introduced. It is replaced by
+  // passwordHash the next time the user signs in.
+  password?: string;
+  passwordHash?: string;
+  mustChangePassword?: boolean;
+  passwordChangedAt?: string;
+  failedLoginAttempts?: number;
+  lockedUntil?: string;
+  // Short numeric PIN for unlocking an idle-locked screen
+  pinHash?: string;
+  role: UserRole;
   name: string;
   email?: string;
   phone?: string;
@@ -88,8 +310,176 @@ export interface User {
   lastLogin?: string;
 }
 
+export type UserRole = 'admin' | 'salesman' | 'pharmacist' | 'doctor' | 'receptionist' | 'accountant';
+
+export type Permission =
+  | 'view_dashboard'
+  | 'view_patients'
+  | 'view_sales'
+  | 'view_medicines'
+  | 'view_purchases'
+  | 'view_suppliers'
+  | 'view_notifications'
+  | 'view_reports'
+  | 'manage_users'
+  | 'manage_settings'
+  | 'delete_bill'
+  | 'give_high_discount'
+  | 'edit_medicine_price'
+  | 'view_profit'
+  | 'restore_backup'
+  | 'view_audit_log'
+  | 'record_visits'
+  | 'view_appointments'
+  | 'view_token_queue'
+  | 'call_tokens'
+  | 'view_reminders';
+
+export type RolePermissions = Record<UserRole, Permission[]>;
+
+export interface SecuritySettings {
+  passwordMinLength: number;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  maxFailedAttempts: number;
+  lockoutMinutes: number;
+  sessionTimeoutHours: number;
+  idleLockMinutes: number;
+}
+
 export interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
   loading: boolean;
 }
+
+export type SessionEventType = 'login' | 'logout' | 'lock' | 'unlock' | 'switch' | 'expired';
+
+export interface SessionEvent {
+  id: string;
+  type: SessionEventType;
+  userId: string;
+  userName: string;
+  previousUserId?: string;
+  previousUserName?: string;
+  createdAt: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  userId: string;
+  userName: string;
+  entity: string;
+  entityId: string;
+  entityLabel: string;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+}
+
+// Reads the audit log a page at a time, newest entries first
+export interface AuditLogQuery {
+  userId?: string;
+  entity?: string;
+  action?: AuditAction;
+  fromDate?: string;
+  toDate?: string;
+  offset: number;
+  limit: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  hasMore: boolean;
+}
+
+export interface ConsultationService {
+  id: string;
+  name: string;
+  amount: number;
+  isDefault: boolean;
+}
+
+export type PaperSize = 'A4' | 'A5';
+
+export type PrescriptionLanguage = 'en' | 'ta' | 'hi';
+
+export type ReceiptWidth = '58mm' | '80mm';
+
+export interface PrintSettings {
+  prescriptionPaperSize: PaperSize;
+  prescriptionLanguage: PrescriptionLanguage;
+  billPaperSize: PaperSize;
+  receiptWidth: ReceiptWidth;
+  printServerUrl: string;
+}
+
+// Days the clinic takes no appointments, inclusive of both dates
+export interface ClinicClosure {
+  id: string;
+  type: 'holiday' | 'leave';
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+export interface AppointmentSettings {
+  slotMinutes: number;
+  closures: ClinicClosure[];
+}
+
+// How many days ahead of a follow-up or refill the patient is reminded.
+// The message text is kept with the other SMS templates.
+export interface ReminderSettings {
+  followUpDaysBefore: number;
+  refillDaysBefore: number;
+}
+
+export interface SettingsData {
+  doctorConsultationCharge: number;
+  consultationServices: ConsultationService[];
+  clinicName: string;
+  doctorName: string;
+  clinicAddress: string;
+  clinicPhone: string;
+  clinicEmail: string;
+  licenseNumber: string;
+  gstin: string;
+  state: string;
+  categories: string[];
+  taxRate: number;
+  currency: string;
+  businessHours: {
+    openTime: string;
+    closeTime: string;
+    workingDays: string[];
+  };
+  notifications: {
+    lowStockAlert: boolean;
+    expiryAlert: boolean;
+    emailNotifications: boolean;
+  };
+  backup: {
+    autoBackup: boolean;
+    backupFrequency: string;
+    retentionCount: number;
+  };
+  security: SecuritySettings;
+  printing: PrintSettings;
+  appointments: AppointmentSettings;
+  reminders: ReminderSettings;
+  specialization?: string;
+  experience?: string;
+  registrationNumber?: string;
+  website?: string;
+  clinicLogo?: string;
+}
@@ -0,0 +1,127 @@
+import { Appointment, AppointmentSettings, AppointmentStatus, ClinicClosure, SettingsData } from '../types';
+
+export const DEFAULT_APPOINTMENT_SETTINGS: AppointmentSettings = {
+  slotMinutes: 15,
+  closures: [],
+};
+
+export const SLOT_LENGTHS = [10, 15, 20, 30, 45, 60];
+
+export const APPOINTMENT_STATUSES: { id: AppointmentStatus; label: string }[] = [
+  { id: 'booked', label: 'Booked' },
+  { id: 'arrived', label: 'Arrived' },
+  { id: 'no_show', label: 'No-show' },
+  { id: 'cancelled', label: 'Cancelled' },
+];
+
+// Matches the names stored in businessHours.workingDays
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Dates are kept as local "YYYY-MM-DD" keys; toISOString would shift them to UTC
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (dateKey: string, days: number): string => {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// Monday to Sunday around the given date
+export const getWeekDates = (dateKey: string): string[] => {
+  const offset = (parseDateKey(dateKey).getDay() + 6) % 7;
+  const monday = addDays(dateKey, -offset);
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+export const getWeekday = (dateKey: string): string => WEEKDAYS[parseDateKey(dateKey).getDay()];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (total: number): string => {
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// "14:30" as "2:30 PM"
+export const formatTime = (time: string): string => {
+  const total = toMinutes(time);
+  const hours = Math.floor(total / 60);
+  return `${hours % 12 || 12}:${String(total % 60).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+};
+
+export const getClosure = (dateKey: string, closures: ClinicClosure[]): ClinicClosure | undefined => {
+  return closures.find(closure => closure.startDate <= dateKey && dateKey <= (closure.endDate || closure.startDate));
+};
+
+export const isWorkingDay = (dateKey: string, settings: SettingsData): boolean => {
+  return settings.businessHours.workingDays.includes(getWeekday(dateKey));
+};
+
+// Every slot start between opening and closing; a slot must end by closing time
+export const getDaySlots = (settings: SettingsData): string[] => {
+  const slotMinutes = settings.appointments?.slotMinutes || DEFAULT_APPOINTMENT_SETTINGS.slotMinutes;
+  const open = toMinutes(settings.businessHours.openTime);
+  const close = toMinutes(settings.businessHours.closeTime);
+  const slots: string[] = [];
+  for (let start = open; start + slotMinutes <= close; start += slotMinutes) {
+    slots.push(fromMinutes(start));
+  }
+  return slots;
+};
+
+// Cancelled and no-show appointments free their slot
+export const isActiveAppointment = (appointment: Appointment): boolean => {
+  return appointment.status === 'booked' || appointment.status === 'arrived';
+};
+
+export const getAppointmentsForDate = (appointments: Appointment[], dateKey: string): Appointment[] => {
+  return appointments
+    .filter(appointment => appointment.date === dateKey)
+    .sort((a, b) => a.time.localeCompare(b.time));
+};
+
+// Why a slot cannot be booked, or null when it can
+export const getBookingError = (
+  booking: Pick<Appointment, 'date' | 'time' | 'durationMinutes'> & { id?: string },
+  appointments: Appointment[],
+  settings: SettingsData
+): string | null => {
+  if (!isWorkingDay(booking.date, settings)) {
+    return `The clinic is closed on ${getWeekday(booking.date)}s.`;
+  }
+
+  const closure = getClosure(booking.date, settings.appointments?.closures || []);
+  if (closure) {
+    return `The clinic is closed on this day (${closure.type === 'leave' ? 'doctor on leave' : 'holiday'}${closure.reason ? `: ${closure.reason}` : ''}).`;
+  }
+
+  const start = toMinutes(booking.time);
+  const end = start + booking.durationMinutes;
+  if (start < toMinutes(settings.businessHours.openTime) || end > toMinutes(settings.businessHours.closeTime)) {
+    return `Appointments must be between ${formatTime(settings.businessHours.openTime)} and ${formatTime(settings.businessHours.closeTime)}.`;
+  }
+
+  const clash = appointments.find(appointment =>
+    appointment.id !== booking.id &&
+    appointment.date === booking.date &&
+    isActiveAppointment(appointment) &&
+    toMinutes(appointment.time) < end &&
+    start < toMinutes(appointment.time) + appointment.durationMinutes
+  );
+  if (clash) {
+    return `${clash.customerName} is already booked at ${formatTime(clash.time)}.`;
+  }
+
+  return null;
+};
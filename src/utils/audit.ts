@@ -0,0 +1,138 @@
+import { AuditAction, AuditEntry, AuditFieldChange, AuditLogPage, AuditLogQuery, User } from '../types';
+import { STORAGE_KEYS } from './storageKeys';
+
+type AuditRecord = Record<string, unknown>;
+
+// Stores whose changes are written to the audit log, with the entity name shown in the viewer
+export const AUDITED_STORES: Record<string, string> = {
+  [STORAGE_KEYS.MEDICINES]: 'Medicine',
+  [STORAGE_KEYS.CUSTOMERS]: 'Patient',
+  [STORAGE_KEYS.VISITS]: 'Visit',
+  [STORAGE_KEYS.PRESCRIPTIONS]: 'Prescription',
+  [STORAGE_KEYS.APPOINTMENTS]: 'Appointment',
+  [STORAGE_KEYS.SALES]: 'Sale',
+  [STORAGE_KEYS.SALE_RETURNS]: 'Sales Return',
+  [STORAGE_KEYS.PURCHASES]: 'Purchase',
+  [STORAGE_KEYS.SUPPLIERS]: 'Supplier',
+  [STORAGE_KEYS.SUPPLIER_PAYMENTS]: 'Supplier Payment',
+  [STORAGE_KEYS.SETTINGS]: 'Settings',
+  [STORAGE_KEYS.SMS_CONFIG]: 'SMS Configuration',
+  [STORAGE_KEYS.USERS]: 'User',
+  [STORAGE_KEYS.ROLE_PERMISSIONS]: 'Role Permissions',
+};
+
+// Entries older than this are dropped, which also bounds the log kept in backups and snapshots
+export const AUDIT_RETENTION_DAYS = 365;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Secrets are recorded as changed without keeping either value
+const REDACTED_FIELDS = ['password', 'passwordHash', 'pinHash', 'apiKey'];
+const REDACTED = '[hidden]';
+
+// Bookkeeping that changes on every sign-in and would bury real edits
+const IGNORED_FIELDS = ['lastLogin'];
+
+let actor: Pick<User, 'id' | 'name'> | null = null;
+
+// Changes saved while nobody is signed in (first run, sign-in bookkeeping) are logged as System
+export const setAuditActor = (user: Pick<User, 'id' | 'name'> | null) => {
+  actor = user ? { id: user.id, name: user.name } : null;
+};
+
+const toRecords = (value: unknown, singleId: string): Map<string, AuditRecord> => {
+  if (Array.isArray(value)) {
+    return new Map(value.map((record: AuditRecord) => [String(record.id), record]));
+  }
+  if (value && typeof value === 'object') {
+    return new Map([[singleId, value as AuditRecord]]);
+  }
+  return new Map();
+};
+
+const getLabel = (record: AuditRecord, fallback: string): string => {
+  const label = record.creditNoteNumber || record.grnNumber || record.name || record.customerName || record.patientId || record.reference;
+  return typeof label === 'string' && label ? label : fallback;
+};
+
+const auditValue = (field: string, value: unknown) => {
+  if (value === undefined) return undefined;
+  return REDACTED_FIELDS.includes(field) ? REDACTED : value;
+};
+
+const diffFields = (before: AuditRecord = {}, after: AuditRecord = {}): AuditFieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: AuditFieldChange[] = [];
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) return;
+    changes.push({
+      field,
+      before: auditValue(field, before[field]),
+      after: auditValue(field, after[field]),
+    });
+  });
+  return changes;
+};
+
+// Compares a store before and after a save. List stores are matched by record
+// id; single-object stores such as settings are treated as one record.
+export const buildAuditEntries = (entity: string, previous: unknown, next: unknown): AuditEntry[] => {
+  const singleId = entity.toLowerCase();
+  const before = toRecords(previous, singleId);
+  const after = toRecords(next, singleId);
+  const timestamp = new Date().toISOString();
+  const entries: AuditEntry[] = [];
+
+  const addEntry = (entityId: string, action: AuditAction, record: AuditRecord, changes: AuditFieldChange[]) => {
+    if (changes.length === 0) return;
+    entries.push({
+      id: `${Date.now()}-${entries.length}-${Math.random().toString(36).slice(2, 7)}`,
+      timestamp,
+      userId: actor?.id || 'system',
+      userName: actor?.name || 'System',
+      entity,
+      entityId,
+      entityLabel: getLabel(record, entityId),
+      action,
+      changes,
+    });
+  };
+
+  after.forEach((record, id) => {
+    const original = before.get(id);
+    addEntry(id, original ? 'update' : 'create', record, diffFields(original, record));
+  });
+  before.forEach((record, id) => {
+    if (!after.has(id)) addEntry(id, 'delete', record, diffFields(record, undefined));
+  });
+
+  return entries;
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const isAuditEntryRetained = (entry: AuditEntry, now = Date.now()): boolean =>
+  now - new Date(entry.timestamp).getTime() < AUDIT_RETENTION_DAYS * DAY;
+
+const matchesAuditQuery = (entry: AuditEntry, query: AuditLogQuery): boolean => {
+  const date = entry.timestamp.split('T')[0];
+  if (query.userId && entry.userId !== query.userId) return false;
+  if (query.entity && entry.entity !== query.entity) return false;
+  if (query.action && entry.action !== query.action) return false;
+  if (query.fromDate && date < query.fromDate) return false;
+  if (query.toDate && date > query.toDate) return false;
+  return true;
+};
+
+// Pages a log kept as one list, oldest first, the way the storage server pages its rows
+export const pageAuditEntries = (log: AuditEntry[], query: AuditLogQuery): AuditLogPage => {
+  const matching = log.filter(entry => matchesAuditQuery(entry, query)).reverse();
+  return {
+    entries: matching.slice(query.offset, query.offset + query.limit),
+    hasMore: matching.length > query.offset + query.limit,
+  };
+};
@@ -1,13 +1,43 @@
-import { User } from '../types';
+import { Permission, RolePermissions, SecuritySettings, SessionEvent, SessionEventType, User } from '../types';
+import { storage } from './storage';
+import { DEFAULT_SECURITY_SETTINGS, hashPassword, needsRehash, validatePassword, verifyPassword } from './passwords';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS } from './permissions';
 
-const STORAGE_KEY = 'clinic_users';
+// The signed-in session belongs to this browser, so it stays in localStorage
+// while the user list goes through the shared storage backend
 const AUTH_KEY = 'clinic_auth';
 
-// Default admin user
+export interface AuthResult {
+  user: User | null;
+  error?: string;
+}
+
+// Stored under AUTH_KEY. Timeouts are copied from the security settings when
+// the session starts so they can be checked without waiting on storage.
+export interface AuthSession {
+  isAuthenticated: boolean;
+  user: User | null;
+  issuedAt?: string;
+  expiresAt?: string;
+  lastActivityAt?: string;
+  idleLockMinutes?: number;
+  locked?: boolean;
+  failedUnlockAttempts?: number;
+  expired?: boolean;
+}
+
+const SESSION_LOG_LIMIT = 1000;
+
+// Permission checks run during render, so the matrix is cached here once loaded
+let rolePermissions: RolePermissions = DEFAULT_ROLE_PERMISSIONS;
+
+// The default accounts are seeded with well-known passwords. They are hashed on
+// first sign-in like any older account and must be changed straight away.
 const DEFAULT_ADMIN: User = {
   id: 'admin-001',
   username: 'admin',
-  password: 'admin123', // In production, this should be hashed
+  password: 'admin123',
+  mustChangePassword: true,
   role: 'admin',
   name: 'System Administrator',
   email: 'admin@clinic.com',
@@ -16,11 +46,11 @@ const DEFAULT_ADMIN: User = {
   createdAt: new Date().toISOString(),
 };
 
-// Default salesman user
 const DEFAULT_SALESMAN: User = {
   id: 'sales-001',
   username: 'salesman',
-  password: 'sales123', // In production, this should be hashed
+  password: 'sales123',
+  mustChangePassword: true,
   role: 'salesman',
   name: 'Sales Person',
   email: 'sales@clinic.com',
@@ -29,93 +59,333 @@ const DEFAULT_SALESMAN: User = {
   createdAt: new Date().toISOString(),
 };
 
+const DEFAULT_USERS = [DEFAULT_ADMIN, DEFAULT_SALESMAN];
+
+// Password material never leaves the user store
+const toSessionUser = (user: User): User => {
+  const sessionUser = { ...user };
+  delete sessionUser.password;
+  delete sessionUser.passwordHash;
+  delete sessionUser.pinHash;
+  return sessionUser;
+};
+
+const readSession = (): AuthSession | null => {
+  const authData = localStorage.getItem(AUTH_KEY);
+  return authData ? JSON.parse(authData) : null;
+};
+
+const writeSession = (session: AuthSession) => {
+  localStorage.setItem(AUTH_KEY, JSON.stringify(session));
+};
+
+const saveSession = (user: User, policy: SecuritySettings) => {
+  const now = new Date();
+  writeSession({
+    isAuthenticated: true,
+    user: toSessionUser(user),
+    issuedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + policy.sessionTimeoutHours * 60 * 60 * 1000).toISOString(),
+    lastActivityAt: now.toISOString(),
+    idleLockMinutes: policy.idleLockMinutes,
+  });
+};
+
+const recordSessionEvent = async (type: SessionEventType, user: User, previousUser?: User) => {
+  const event: SessionEvent = {
+    id: Date.now().toString(),
+    type,
+    userId: user.id,
+    userName: user.name,
+    previousUserId: previousUser?.id,
+    previousUserName: previousUser?.name,
+    createdAt: new Date().toISOString(),
+  };
+  const events = await storage.getSessionEvents();
+  await storage.saveSessionEvents([event, ...events].slice(0, SESSION_LOG_LIMIT));
+};
+
+const checkPassword = (user: User, password: string): Promise<boolean> => {
+  if (user.passwordHash) return verifyPassword(password, user.passwordHash);
+  return Promise.resolve(user.password === password);
+};
+
+// A storage server only hands password hashes to user managers, so it checks the password itself
+const checkCredentials = async (user: User, password: string): Promise<boolean> => {
+  if (storage.checksCredentials()) return await storage.signIn(user.username, password) === null;
+  return checkPassword(user, password);
+};
+
 export const authService = {
   // Initialize default users if not exists
-  initializeUsers: () => {
-    const existingUsers = localStorage.getItem(STORAGE_KEY);
+  initializeUsers: async () => {
+    const existingUsers = await storage.getUsers();
     if (!existingUsers) {
-      const defaultUsers = [DEFAULT_ADMIN, DEFAULT_SALESMAN];
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultUsers));
+      await storage.saveUsers(DEFAULT_USERS);
     }
   },
 
   // Get all users
-  getUsers: (): User[] => {
-    const users = localStorage.getItem(STORAGE_KEY);
-    return users ? JSON.parse(users) : [];
+  getUsers: async (): Promise<User[]> => {
+    return (await storage.getUsers()) || [];
   },
 
   // Save users
-  saveUsers: (users: User[]) => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(users));
-  },
-
-  // Login user
-  login: (username: string, password: string): User | null => {
-    const users = authService.getUsers();
-    const user = users.find(u => 
-      u.username === username && 
-      u.password === password && 
-      u.isActive
-    );
-    
-    if (user) {
-      // Update last login
-      user.lastLogin = new Date().toISOString();
-      const updatedUsers = users.map(u => u.id === user.id ? user : u);
-      authService.saveUsers(updatedUsers);
-      
-      // Save auth state
-      localStorage.setItem(AUTH_KEY, JSON.stringify({
-        isAuthenticated: true,
-        user: user
-      }));
-      
-      return user;
+  saveUsers: (users: User[]) => storage.saveUsers(users),
+
+  getSecuritySettings: async (): Promise<SecuritySettings> => {
+    const settings = await storage.getSettings();
+    return { ...DEFAULT_SECURITY_SETTINGS, ...settings?.security };
+  },
+
+  // Lists the policy requirements the password misses, or null when it is acceptable
+  checkPasswordPolicy: async (password: string): Promise<string | null> => {
+    const problems = validatePassword(password, await authService.getSecuritySettings());
+    return problems.length > 0 ? `Password must contain ${problems.join(', ')}.` : null;
+  },
+
+  // Login user. Accounts that must change their password are returned without
+  // starting a session; the session begins once changePassword succeeds.
+  login: async (username: string, password: string): Promise<AuthResult> => {
+    // A storage server checks the password itself before it lets the user list be read
+    const signInError = await storage.signIn(username, password);
+    if (signInError) {
+      return { user: null, error: signInError };
     }
-    
+    await authService.initializeUsers();
+
+    const users = await authService.getUsers();
+    const user = users.find(u => u.username === username && u.isActive);
+    if (!user) {
+      return { user: null, error: 'Invalid username or password' };
+    }
+
+    if (user.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+      return { user: null, error: `Account locked after too many failed attempts. Try again after ${new Date(user.lockedUntil).toLocaleTimeString()}.` };
+    }
+
+    const policy = await authService.getSecuritySettings();
+    // A storage server has already checked the password, counted any failure and rehashed it
+    const checkedByServer = storage.checksCredentials();
+    if (!checkedByServer && !await checkPassword(user, password)) {
+      const failedLoginAttempts = (user.failedLoginAttempts || 0) + 1;
+      if (failedLoginAttempts >= policy.maxFailedAttempts) {
+        const lockedUntil = new Date(Date.now() + policy.lockoutMinutes * 60 * 1000).toISOString();
+        await authService.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil });
+        return { user: null, error: `Too many failed attempts. The account is locked for ${policy.lockoutMinutes} minutes.` };
+      }
+      await authService.updateUser(user.id, { failedLoginAttempts });
+      return { user: null, error: 'Invalid username or password' };
+    }
+
+    const updatedUser: User = {
+      ...user,
+      failedLoginAttempts: 0,
+      lockedUntil: undefined,
+      lastLogin: new Date().toISOString(),
+    };
+
+    // Older accounts still hold a plaintext password; hash it now that we have it
+    if (!checkedByServer && (!user.passwordHash || needsRehash(user.passwordHash))) {
+      updatedUser.passwordHash = await hashPassword(password);
+      delete updatedUser.password;
+    }
+    if (DEFAULT_USERS.some(d => d.id === user.id && d.password === password)) {
+      updatedUser.mustChangePassword = true;
+    }
+
+    await authService.saveUsers(users.map(u => u.id === user.id ? updatedUser : u));
+
+    if (!updatedUser.mustChangePassword) {
+      saveSession(updatedUser, policy);
+      await recordSessionEvent('login', updatedUser);
+    }
+    return { user: toSessionUser(updatedUser) };
+  },
+
+  // Change the signed-in user's own password and start their session
+  changePassword: async (userId: string, currentPassword: string, newPassword: string): Promise<AuthResult> => {
+    const users = await authService.getUsers();
+    const user = users.find(u => u.id === userId);
+    if (!user || !await checkCredentials(user, currentPassword)) {
+      return { user: null, error: 'Current password is incorrect' };
+    }
+    if (newPassword === currentPassword) {
+      return { user: null, error: 'The new password must be different from the current one' };
+    }
+
+    const policyError = await authService.checkPasswordPolicy(newPassword);
+    if (policyError) {
+      return { user: null, error: policyError };
+    }
+
+    const updatedUser: User = {
+      ...user,
+      passwordHash: await hashPassword(newPassword),
+      mustChangePassword: false,
+      passwordChangedAt: new Date().toISOString(),
+    };
+    delete updatedUser.password;
+
+    await authService.saveUsers(users.map(u => u.id === userId ? updatedUser : u));
+    saveSession(updatedUser, await authService.getSecuritySettings());
+    await recordSessionEvent('login', updatedUser);
+    return { user: toSessionUser(updatedUser) };
+  },
+
+  // Admin reset. The user has to choose a new password when they next sign in.
+  resetPassword: async (userId: string, newPassword: string): Promise<string | null> => {
+    const policyError = await authService.checkPasswordPolicy(newPassword);
+    if (policyError) return policyError;
+
+    const users = await authService.getUsers();
+    const user = users.find(u => u.id === userId);
+    if (!user) return 'User not found';
+
+    const updatedUser: User = {
+      ...user,
+      passwordHash: await hashPassword(newPassword),
+      mustChangePassword: true,
+      passwordChangedAt: new Date().toISOString(),
+      failedLoginAttempts: 0,
+      lockedUntil: undefined,
+    };
+    delete updatedUser.password;
+
+    await authService.saveUsers(users.map(u => u.id === userId ? updatedUser : u));
     return null;
   },
 
-  // Logout user
-  logout: () => {
+  // Logout user. Pass expired when the session timed out rather than being ended by the user.
+  logout: (expired = false) => {
+    const session = readSession();
     localStorage.removeItem(AUTH_KEY);
+    if (session?.user) {
+      recordSessionEvent(expired ? 'expired' : 'logout', session.user).finally(storage.signOut);
+    } else {
+      storage.signOut();
+    }
   },
 
-  // Get current auth state
-  getAuthState: () => {
-    const authData = localStorage.getItem(AUTH_KEY);
-    if (authData) {
-      return JSON.parse(authData);
+  // Get current auth state. Sessions past their absolute timeout are ended
+  // here; sessions idle for too long come back locked.
+  getAuthState: (): AuthSession => {
+    const session = readSession();
+    if (!session?.isAuthenticated || !session.user) {
+      return { isAuthenticated: false, user: null };
     }
-    return {
-      isAuthenticated: false,
-      user: null
-    };
+
+    const now = Date.now();
+    if (!session.expiresAt || new Date(session.expiresAt).getTime() <= now) {
+      authService.logout(true);
+      return { isAuthenticated: false, user: null, expired: true };
+    }
+
+    const idleFor = now - new Date(session.lastActivityAt || session.issuedAt || 0).getTime();
+    const idleLimit = (session.idleLockMinutes || 0) * 60 * 1000;
+    return { ...session, locked: session.locked || (idleLimit > 0 && idleFor >= idleLimit) };
+  },
+
+  touchSession: (lastActivityAt: Date) => {
+    const session = readSession();
+    if (!session?.isAuthenticated || session.locked) return;
+    writeSession({ ...session, lastActivityAt: lastActivityAt.toISOString() });
+  },
+
+  lockSession: () => {
+    const session = readSession();
+    if (!session?.isAuthenticated || !session.user || session.locked) return;
+    writeSession({ ...session, locked: true });
+    recordSessionEvent('lock', session.user);
+  },
+
+  // Unlock with either the account password or the user's PIN
+  unlockSession: async (secret: string): Promise<AuthResult> => {
+    const session = readSession();
+    if (!session?.isAuthenticated || !session.user) {
+      return { user: null, error: 'Your session has ended. Please sign in again.' };
+    }
+
+    const user = (await authService.getUsers()).find(u => u.id === session.user?.id);
+    if (!user || !user.isActive) {
+      return { user: null, error: 'This account is no longer active.' };
+    }
+
+    const pinMatches = /^\d+$/.test(secret) && (storage.checksCredentials()
+      ? await storage.signIn(user.username, secret, 'pin') === null
+      : !!user.pinHash && await verifyPassword(secret, user.pinHash));
+    if (!pinMatches && !await checkCredentials(user, secret)) {
+      // A short PIN is easy to guess, so repeated failures end the session
+      const failedUnlockAttempts = (session.failedUnlockAttempts || 0) + 1;
+      if (failedUnlockAttempts >= (await authService.getSecuritySettings()).maxFailedAttempts) {
+        authService.logout();
+        return { user: null, error: 'Too many failed attempts. Please sign in again.' };
+      }
+      writeSession({ ...session, failedUnlockAttempts });
+      return { user: null, error: 'Incorrect PIN or password' };
+    }
+
+    writeSession({ ...session, locked: false, failedUnlockAttempts: 0, lastActivityAt: new Date().toISOString() });
+    await recordSessionEvent('unlock', user);
+    return { user: toSessionUser(user) };
+  },
+
+  // Hand the counter to another cashier without reloading, so open work such as a cart is kept
+  switchUser: async (username: string, password: string): Promise<AuthResult> => {
+    const previousUser = readSession()?.user || undefined;
+    const result = await authService.login(username, password);
+    if (!result.user) return result;
+
+    if (result.user.mustChangePassword) {
+      return { user: null, error: 'This account needs a new password. Sign out and sign in from the login screen.' };
+    }
+
+    if (previousUser && previousUser.id !== result.user.id) {
+      await recordSessionEvent('switch', result.user, previousUser);
+    }
+    return result;
   },
 
-  // Add new user (admin only)
-  addUser: (userData: Omit<User, 'id' | 'createdAt'>): User => {
-    const users = authService.getUsers();
+  setPin: async (userId: string, currentPassword: string, pin: string): Promise<string | null> => {
+    if (!/^\d{4,6}$/.test(pin)) return 'PIN must be 4 to 6 digits';
+
+    const users = await authService.getUsers();
+    const user = users.find(u => u.id === userId);
+    if (!user || !await checkCredentials(user, currentPassword)) return 'Current password is incorrect';
+
+    const pinHash = await hashPassword(pin);
+    await authService.saveUsers(users.map(u => u.id === userId ? { ...u, pinHash } : u));
+    return null;
+  },
+
+  getSessionEvents: (): Promise<SessionEvent[]> => storage.getSessionEvents(),
+
+  // Add new user (admin only). The admin sets a temporary password that the
+  // new user replaces on first sign-in.
+  addUser: async (userData: Omit<User, 'id' | 'createdAt' | 'passwordHash'> & { password: string }): Promise<User> => {
+    const users = await authService.getUsers();
+    const { password, ...details } = userData;
     const newUser: User = {
-      ...userData,
+      ...details,
+      passwordHash: await hashPassword(password),
+      mustChangePassword: true,
       id: `user-${Date.now()}`,
       createdAt: new Date().toISOString(),
     };
     
     users.push(newUser);
-    authService.saveUsers(users);
+    await authService.saveUsers(users);
     return newUser;
   },
 
   // Update user
-  updateUser: (id: string, userData: Partial<User>): boolean => {
-    const users = authService.getUsers();
+  updateUser: async (id: string, userData: Partial<User>): Promise<boolean> => {
+    const users = await authService.getUsers();
     const userIndex = users.findIndex(u => u.id === id);
     
     if (userIndex !== -1) {
       users[userIndex] = { ...users[userIndex], ...userData };
-      authService.saveUsers(users);
+      await authService.saveUsers(users);
       return true;
     }
     
@@ -123,22 +393,35 @@ export const authService = {
   },
 
   // Delete user
-  deleteUser: (id: string): boolean => {
-    const users = authService.getUsers();
+  deleteUser: async (id: string): Promise<boolean> => {
+    const users = await authService.getUsers();
     const filteredUsers = users.filter(u => u.id !== id);
     
     if (filteredUsers.length < users.length) {
-      authService.saveUsers(filteredUsers);
+      await authService.saveUsers(filteredUsers);
       return true;
     }
     
     return false;
   },
 
+  loadRolePermissions: async (): Promise<RolePermissions> => {
+    const saved = await storage.getRolePermissions();
+    rolePermissions = { ...DEFAULT_ROLE_PERMISSIONS, ...saved, admin: DEFAULT_ROLE_PERMISSIONS.admin };
+    return rolePermissions;
+  },
+
+  getRolePermissions: (): RolePermissions => rolePermissions,
+
+  saveRolePermissions: async (updated: RolePermissions) => {
+    rolePermissions = { ...updated, admin: PERMISSIONS.map(p => p.id) };
+    await storage.saveRolePermissions(rolePermissions);
+  },
+
   // Check if user has permission
-  hasPermission: (user: User | null, requiredRole: 'admin' | 'salesman'): boolean => {
+  hasPermission: (user: User | null, permission: Permission): boolean => {
     if (!user) return false;
     if (user.role === 'admin') return true; // Admin has all permissions
-    return user.role === requiredRole;
+    return (rolePermissions[user.role] || []).includes(permission);
   }
 };
\ No newline at end of file
@@ -0,0 +1,192 @@
+import { storage, STORAGE_KEYS } from './storage';
+
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export interface BackupFile {
+  app: 'clinic';
+  schemaVersion: number;
+  createdAt: string;
+  checksum: string;
+  stores: Record<string, unknown>;
+}
+
+export interface BackupStoreCount {
+  key: string;
+  label: string;
+  backupCount: number | null;
+  currentCount: number;
+  backupOnly?: boolean;
+}
+
+export interface BackupPreview {
+  createdAt: string;
+  schemaVersion: number;
+  checksumVerified: boolean;
+  stores: BackupStoreCount[];
+}
+
+// Backup-only stores are saved for the record but never restored over the current data
+export const BACKUP_STORES: { key: string; label: string; backupOnly?: boolean }[] = [
+  { key: STORAGE_KEYS.SETTINGS, label: 'Settings' },
+  { key: STORAGE_KEYS.MEDICINES, label: 'Medicines' },
+  { key: STORAGE_KEYS.CUSTOMERS, label: 'Patients' },
+  { key: STORAGE_KEYS.VISITS, label: 'Visits' },
+  { key: STORAGE_KEYS.PRESCRIPTIONS, label: 'Prescriptions' },
+  { key: STORAGE_KEYS.APPOINTMENTS, label: 'Appointments' },
+  { key: STORAGE_KEYS.TOKENS, label: 'Tokens' },
+  { key: STORAGE_KEYS.REMINDERS, label: 'Reminders' },
+  { key: STORAGE_KEYS.SALES, label: 'Sales' },
+  { key: STORAGE_KEYS.SALE_RETURNS, label: 'Sales Returns' },
+  { key: STORAGE_KEYS.PURCHASES, label: 'Purchases' },
+  { key: STORAGE_KEYS.SUPPLIERS, label: 'Suppliers' },
+  { key: STORAGE_KEYS.SUPPLIER_PAYMENTS, label: 'Supplier Payments' },
+  { key: STORAGE_KEYS.NOTIFICATIONS, label: 'Notifications' },
+  { key: STORAGE_KEYS.USERS, label: 'Users' },
+  { key: STORAGE_KEYS.ROLE_PERMISSIONS, label: 'Role Permissions' },
+  { key: STORAGE_KEYS.SESSION_LOG, label: 'Session Log' },
+  { key: STORAGE_KEYS.SMS_CONFIG, label: 'SMS Configuration' },
+  { key: STORAGE_KEYS.SMS_LOG, label: 'SMS Delivery Log' },
+  { key: STORAGE_KEYS.AUDIT_LOG, label: 'Audit Log', backupOnly: true },
+];
+
+type LegacyBackup = Record<string, unknown>;
+
+// Each entry upgrades a backup from the version it is keyed by to the next one
+const MIGRATIONS: Record<number, (data: LegacyBackup) => LegacyBackup> = {
+  // Version 1 files kept settings, medicines, patients and sales at the top
+  // level. They were read from the wrong keys, so their empty lists are not
+  // real data and are dropped instead of wiping the current records.
+  1: data => {
+    const stores: Record<string, unknown> = {};
+    const legacyStores: [string, string][] = [
+      ['settings', STORAGE_KEYS.SETTINGS],
+      ['medicines', STORAGE_KEYS.MEDICINES],
+      ['patients', STORAGE_KEYS.CUSTOMERS],
+      ['sales', STORAGE_KEYS.SALES],
+    ];
+    legacyStores.forEach(([legacyKey, key]) => {
+      const value = data[legacyKey];
+      if (value === undefined || value === null) return;
+      if (Array.isArray(value) && value.length === 0) return;
+      stores[key] = value;
+    });
+
+    return {
+      app: 'clinic',
+      schemaVersion: 2,
+      createdAt: data.backupDate,
+      checksum: '',
+      stores,
+    };
+  },
+};
+
+const computeChecksum = async (stores: Record<string, unknown>): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(stores));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const countRecords = (value: unknown): number => {
+  if (value === undefined || value === null) return 0;
+  return Array.isArray(value) ? value.length : 1;
+};
+
+export const createBackup = async (): Promise<BackupFile> => {
+  const stores: Record<string, unknown> = {};
+  for (const { key } of BACKUP_STORES) {
+    // The audit log is read through its own pages, since a storage server does not keep it as one value
+    const value = key === STORAGE_KEYS.AUDIT_LOG
+      ? (await storage.getAllAuditEntries()).reverse()
+      : await storage.getByKey(key);
+    if (value !== null) stores[key] = value;
+  }
+
+  return {
+    app: 'clinic',
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await computeChecksum(stores),
+    stores,
+  };
+};
+
+export const getBackupCounts = (backup: BackupFile): { key: string; label: string; count: number }[] => {
+  return BACKUP_STORES
+    .filter(({ key }) => key in backup.stores)
+    .map(({ key, label }) => ({ key, label, count: countRecords(backup.stores[key]) }));
+};
+
+export const getBackupFilename = (backup: BackupFile): string => {
+  return `clinic-backup-${backup.createdAt.split('T')[0]}.json`;
+};
+
+// Validates a backup file, upgrades it to the current schema and reports what
+// a restore would change. Nothing is written here.
+export const readBackup = async (content: string): Promise<{ backup: BackupFile; preview: BackupPreview }> => {
+  let data: LegacyBackup;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The backup file is incomplete or not valid JSON.');
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid backup file format.');
+  }
+
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : data.version === '1.0' ? 1 : 0;
+  if (version < 1) {
+    throw new Error('Invalid backup file format.');
+  }
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new Error('This backup was created by a newer version of the application.');
+  }
+
+  // Version 1 files carry no checksum
+  let checksumVerified = false;
+  if (version > 1) {
+    const stores = (data.stores || {}) as Record<string, unknown>;
+    if (!data.checksum || data.checksum !== await computeChecksum(stores)) {
+      throw new Error('Checksum mismatch. The backup file is truncated or has been modified.');
+    }
+    checksumVerified = true;
+  }
+
+  const originalVersion = version;
+  while (version < BACKUP_SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version += 1;
+  }
+  const backup = data as unknown as BackupFile;
+
+  const stores: BackupStoreCount[] = [];
+  for (const { key, label, backupOnly } of BACKUP_STORES) {
+    stores.push({
+      key,
+      label,
+      backupCount: key in backup.stores ? countRecords(backup.stores[key]) : null,
+      currentCount: countRecords(await storage.getByKey(key)),
+      backupOnly,
+    });
+  }
+
+  return {
+    backup,
+    preview: {
+      createdAt: backup.createdAt,
+      schemaVersion: originalVersion,
+      checksumVerified,
+      stores,
+    },
+  };
+};
+
+// Stores missing from the backup are left untouched, as is the append-only audit log
+export const restoreBackup = async (backup: BackupFile): Promise<void> => {
+  const writes = BACKUP_STORES
+    .filter(({ key, backupOnly }) => !backupOnly && key in backup.stores)
+    .map(({ key }) => storage.saveByKey(key, backup.stores[key]));
+  await Promise.all(writes);
+};
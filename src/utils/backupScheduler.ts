@@ -0,0 +1,89 @@
+import { SettingsData } from '../types';
+import { BackupFile, createBackup, getBackupCounts } from './backup';
+import { createIndexedDbAdapter } from './storageAdapters';
+
+export interface BackupSnapshot {
+  id: string;
+  createdAt: string;
+  counts: { key: string; label: string; count: number }[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL = 60 * 60 * 1000;
+const INDEX_KEY = 'snapshot_index';
+const LAST_BACKUP_KEY = 'last_backup';
+
+export const BACKUP_FREQUENCIES: Record<string, number> = {
+  daily: DAY,
+  weekly: 7 * DAY,
+  monthly: 30 * DAY,
+};
+
+export const DEFAULT_BACKUP_RETENTION = 7;
+
+// Snapshots live in their own database so they survive a restore of the main stores
+const snapshotStore = createIndexedDbAdapter('clinic_backups', 'snapshots');
+
+const snapshotKey = (id: string) => `snapshot_${id}`;
+
+export const isBackupStale = (lastBackupAt: string | null, frequency: string): boolean => {
+  if (!lastBackupAt) return true;
+  const interval = BACKUP_FREQUENCIES[frequency] || DAY;
+  return Date.now() - new Date(lastBackupAt).getTime() >= interval;
+};
+
+export const backupScheduler = {
+  getSnapshots: async (): Promise<BackupSnapshot[]> => {
+    return (await snapshotStore.get<BackupSnapshot[]>(INDEX_KEY)) || [];
+  },
+
+  getSnapshot: (id: string): Promise<BackupFile | null> => snapshotStore.get<BackupFile>(snapshotKey(id)),
+
+  getLastBackupAt: (): Promise<string | null> => snapshotStore.get<string>(LAST_BACKUP_KEY),
+
+  // Downloaded backups count too, so the stale warning clears after either kind
+  recordBackup: (createdAt: string) => snapshotStore.save(LAST_BACKUP_KEY, createdAt),
+
+  takeSnapshot: async (retentionCount = DEFAULT_BACKUP_RETENTION): Promise<BackupSnapshot> => {
+    const backup = await createBackup();
+    const snapshot: BackupSnapshot = {
+      id: Date.now().toString(),
+      createdAt: backup.createdAt,
+      counts: getBackupCounts(backup),
+    };
+
+    await snapshotStore.save(snapshotKey(snapshot.id), backup);
+
+    const snapshots = [snapshot, ...await backupScheduler.getSnapshots()];
+    const kept = snapshots.slice(0, Math.max(1, retentionCount));
+    for (const expired of snapshots.slice(kept.length)) {
+      await snapshotStore.remove(snapshotKey(expired.id));
+    }
+    await snapshotStore.save(INDEX_KEY, kept);
+    await backupScheduler.recordBackup(snapshot.createdAt);
+
+    return snapshot;
+  },
+
+  runIfDue: async (backupSettings: SettingsData['backup']): Promise<void> => {
+    if (!backupSettings.autoBackup) return;
+
+    const [latest] = await backupScheduler.getSnapshots();
+    if (latest && !isBackupStale(latest.createdAt, backupSettings.backupFrequency)) return;
+
+    await backupScheduler.takeSnapshot(backupSettings.retentionCount);
+  },
+
+  // Checks on start and then hourly while the app is open. Returns a function that stops the timer.
+  start: (backupSettings: SettingsData['backup']): (() => void) => {
+    const check = () => {
+      backupScheduler.runIfDue(backupSettings).catch(error => {
+        console.error('Automatic backup failed:', error);
+      });
+    };
+
+    check();
+    const timer = window.setInterval(check, CHECK_INTERVAL);
+    return () => window.clearInterval(timer);
+  },
+};
@@ -0,0 +1,89 @@
+import { MedicineBatch } from '../types';
+
+// Any medicine shape that can carry barcodes
+export interface BarcodedMedicine {
+  id: string;
+  name: string;
+  barcodes?: string[];
+  batches?: MedicineBatch[];
+}
+
+export interface BarcodeMatch<T extends BarcodedMedicine> {
+  medicine: T;
+  batch?: MedicineBatch;
+}
+
+export const normalizeBarcode = (code: string): string => code.trim().toUpperCase();
+
+// Codes typed or pasted as "8901234567890, 8901234567891"
+export const parseBarcodes = (text: string): string[] => {
+  return Array.from(new Set(text.split(/[\s,]+/).map(normalizeBarcode).filter(Boolean)));
+};
+
+// Batch codes are checked first so a scanned batch is dispensed from that batch
+export const findByBarcode = <T extends BarcodedMedicine>(medicines: T[], code: string): BarcodeMatch<T> | null => {
+  const barcode = normalizeBarcode(code);
+  if (!barcode) return null;
+
+  for (const medicine of medicines) {
+    const batch = medicine.batches?.find(b => b.barcode && normalizeBarcode(b.barcode) === barcode);
+    if (batch) return { medicine, batch };
+  }
+
+  const medicine = medicines.find(m => m.barcodes?.some(existing => normalizeBarcode(existing) === barcode));
+  return medicine ? { medicine } : null;
+};
+
+// The medicine that already uses one of the codes, other than the one being edited
+export const findBarcodeOwner = <T extends BarcodedMedicine>(medicines: T[], codes: string[], excludeId?: string): { medicine: T; barcode: string } | null => {
+  for (const barcode of codes) {
+    const match = findByBarcode(medicines.filter(m => m.id !== excludeId), barcode);
+    if (match) return { medicine: match.medicine, barcode };
+  }
+  return null;
+};
+
+// Codes for loose strips and re-packed items that came without a manufacturer
+// barcode: "IN" and a base-36 timestamp, skipping any already in use
+export const createInternalBarcodes = <T extends BarcodedMedicine>(medicines: T[], count: number): string[] => {
+  const codes: string[] = [];
+  for (let stamp = Date.now(); codes.length < count; stamp++) {
+    const code = `IN${stamp.toString(36).toUpperCase()}`;
+    if (!findByBarcode(medicines, code)) {
+      codes.push(code);
+    }
+  }
+  return codes;
+};
+
+// Keyboard-wedge scanners type the code much faster than a person and finish
+// with Enter. Slow keystrokes reset the buffer, so normal typing is ignored.
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_BARCODE_LENGTH = 4;
+
+export const createScanListener = (onScan: (code: string) => void) => {
+  let buffer = '';
+  let lastKeyTime = 0;
+
+  return (event: KeyboardEvent) => {
+    const now = Date.now();
+    if (now - lastKeyTime > MAX_KEY_INTERVAL_MS) {
+      buffer = '';
+    }
+    lastKeyTime = now;
+
+    if (event.key === 'Enter') {
+      if (buffer.length >= MIN_BARCODE_LENGTH) {
+        // Stop the Enter from submitting whatever form has focus
+        event.preventDefault();
+        onScan(buffer);
+      }
+      buffer = '';
+      return;
+    }
+
+    if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      buffer += event.key;
+    }
+  };
+};
@@ -0,0 +1,174 @@
+import { MedicineBatch, SaleItem, SaleItemBatch } from '../types';
+
+// Any medicine shape that can carry a batch sub-ledger. Older records only have
+// the single batchNumber/expiryDate/quantity fields on the medicine itself.
+export interface BatchedMedicine {
+  id: string;
+  quantity: number;
+  batches?: MedicineBatch[];
+  batchNumber?: string;
+  expiryDate?: string;
+  costPrice?: number;
+  supplier?: string;
+  purchaseDate?: string;
+  invoiceNumber?: string;
+  createdAt?: string;
+}
+
+export const createBatchId = (): string => {
+  return `batch-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+};
+
+const compareExpiry = (a: { expiryDate: string }, b: { expiryDate: string }): number => {
+  const aTime = a.expiryDate ? new Date(a.expiryDate).getTime() : Number.MAX_SAFE_INTEGER;
+  const bTime = b.expiryDate ? new Date(b.expiryDate).getTime() : Number.MAX_SAFE_INTEGER;
+  return aTime - bTime;
+};
+
+// Get the batch ledger for a medicine, building a single legacy batch from the
+// medicine's own fields when it was saved before batches existed
+export const getMedicineBatches = (medicine: BatchedMedicine): MedicineBatch[] => {
+  if (medicine.batches && medicine.batches.length > 0) {
+    return medicine.batches;
+  }
+
+  if (!medicine.batchNumber && !medicine.expiryDate && medicine.quantity <= 0) {
+    return [];
+  }
+
+  return [{
+    id: `legacy-${medicine.id}`,
+    batchNumber: medicine.batchNumber || '',
+    expiryDate: medicine.expiryDate || '',
+    quantity: medicine.quantity,
+    costPrice: medicine.costPrice || 0,
+    supplier: medicine.supplier || '',
+    purchaseDate: medicine.purchaseDate,
+    invoiceNumber: medicine.invoiceNumber,
+    createdAt: medicine.createdAt || new Date().toISOString(),
+  }];
+};
+
+// Batches ordered first-expiry-first-out
+export const sortBatchesFefo = (batches: MedicineBatch[]): MedicineBatch[] => {
+  return [...batches].sort(compareExpiry);
+};
+
+// A batch is expired from the day after its expiry date
+export const isBatchExpired = (batch: { expiryDate: string }, today: Date = new Date()): boolean => {
+  if (!batch.expiryDate) return false;
+  const todayKey = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+  return batch.expiryDate.slice(0, 10) < todayKey;
+};
+
+export const getSellableBatches = (batches: MedicineBatch[]): MedicineBatch[] => {
+  return batches.filter(batch => !isBatchExpired(batch));
+};
+
+// Everything on the shelf, expired or not, until it is returned or written off
+export const getBatchStock = (batches: MedicineBatch[]): number => {
+  return batches.reduce((sum, batch) => sum + Math.max(0, batch.quantity), 0);
+};
+
+// Stock that can still be sold
+export const getSellableStock = (batches: MedicineBatch[]): number => {
+  return getBatchStock(getSellableBatches(batches));
+};
+
+// Plan which batches a quantity is taken from, earliest expiry first. A batch
+// scanned at the counter is taken first, since that is the pack in hand.
+// Expired batches are never dispensed. Returns null when the remaining
+// batches cannot cover the requested quantity.
+export const allocateFefo = (batches: MedicineBatch[], quantity: number, preferredBatchId?: string): SaleItemBatch[] | null => {
+  const allocations: SaleItemBatch[] = [];
+  let remaining = quantity;
+  const ordered = sortBatchesFefo(getSellableBatches(batches)).sort((a, b) => Number(b.id === preferredBatchId) - Number(a.id === preferredBatchId));
+
+  for (const batch of ordered) {
+    if (remaining <= 0) break;
+    if (batch.quantity <= 0) continue;
+
+    const taken = Math.min(batch.quantity, remaining);
+    allocations.push({
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      expiryDate: batch.expiryDate,
+      quantity: taken,
+    });
+    remaining -= taken;
+  }
+
+  return remaining > 0 ? null : allocations;
+};
+
+export const deductBatches = (batches: MedicineBatch[], allocations: SaleItemBatch[]): MedicineBatch[] => {
+  return batches.map(batch => {
+    const taken = allocations
+      .filter(allocation => allocation.batchId === batch.id)
+      .reduce((sum, allocation) => sum + allocation.quantity, 0);
+    return taken > 0 ? { ...batch, quantity: Math.max(0, batch.quantity - taken) } : batch;
+  });
+};
+
+export const restoreBatches = (batches: MedicineBatch[], allocations: SaleItemBatch[]): MedicineBatch[] => {
+  const restored = batches.map(batch => {
+    const returned = allocations
+      .filter(allocation => allocation.batchId === batch.id)
+      .reduce((sum, allocation) => sum + allocation.quantity, 0);
+    return returned > 0 ? { ...batch, quantity: batch.quantity + returned } : batch;
+  });
+
+  // A batch that was removed since the sale is recreated so the stock is not lost
+  allocations
+    .filter(allocation => !batches.some(batch => batch.id === allocation.batchId))
+    .forEach(allocation => {
+      restored.push({
+        id: allocation.batchId,
+        batchNumber: allocation.batchNumber,
+        expiryDate: allocation.expiryDate,
+        quantity: allocation.quantity,
+        costPrice: 0,
+        supplier: '',
+        createdAt: new Date().toISOString(),
+      });
+    });
+
+  return restored;
+};
+
+// Takes every medicine line of a sale off stock (direction -1), or puts it back
+// when the sale is deleted (direction 1). All lines are applied to the same list,
+// so a medicine on two lines has both taken from its latest ledger.
+export const applySaleToStock = <T extends BatchedMedicine>(medicines: T[], items: SaleItem[], direction: 1 | -1): T[] => {
+  return medicines.map(medicine => items
+    .filter(item => item.medicineId === medicine.id)
+    .reduce((current, item) => {
+      // Lines saved from the cart carry the count in single tablets or units
+      const quantity = (item as SaleItem & { totalItems?: number }).totalItems || item.quantity;
+      if (!item.batches || item.batches.length === 0) {
+        return { ...current, quantity: Math.max(0, current.quantity + direction * quantity) };
+      }
+      const ledger = getMedicineBatches(current);
+      return applyBatches(current, direction < 0 ? deductBatches(ledger, item.batches) : restoreBatches(ledger, item.batches));
+    }, medicine));
+};
+
+// Keep the medicine-level stock and batch fields in line with its ledger.
+// The medicine shows the batch that will be dispensed next.
+export const applyBatches = <T extends { quantity: number; batches?: MedicineBatch[] }>(medicine: T, batches: MedicineBatch[]): T => {
+  const nextBatch = sortBatchesFefo(getSellableBatches(batches)).find(batch => batch.quantity > 0) || sortBatchesFefo(batches)[0];
+
+  return {
+    ...medicine,
+    batches,
+    quantity: getBatchStock(batches),
+    ...(nextBatch ? { batchNumber: nextBatch.batchNumber, expiryDate: nextBatch.expiryDate } : {}),
+  };
+};
+
+export const formatBatchAllocations = (allocations?: SaleItemBatch[]): string => {
+  if (!allocations || allocations.length === 0) return '';
+  return allocations
+    .map(allocation => `${allocation.batchNumber || '-'} (${allocation.quantity})`)
+    .join(', ');
+};
@@ -0,0 +1,198 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Customer, Medicine, PaperSize, Sale, SettingsData } from '../types';
+import { DEFAULT_PRINT_SETTINGS, createPdf, drawLetterhead, getMargin, getTableEndY, printPdf, sharePdf } from './pdf';
+import { BillItem, formatBillQuantity, getRateUnit } from './bills';
+import { amountInWords, calculateTaxInvoice } from './gst';
+import { isServiceItem } from './returns';
+import { formatBatchAllocations } from './batches';
+
+interface BillDocument {
+  sale: Sale;
+  settings: SettingsData;
+  medicines: Medicine[];
+  customer?: Customer;
+  paperSize?: PaperSize;
+}
+
+// The built-in PDF fonts have no rupee sign
+const formatAmount = (amount: number): string => `Rs. ${amount.toFixed(2)}`;
+
+export const createBillPdf = ({
+  sale,
+  settings,
+  medicines,
+  customer,
+  paperSize = settings.printing?.billPaperSize || DEFAULT_PRINT_SETTINGS.billPaperSize,
+}: BillDocument): jsPDF => {
+  const doc = createPdf(paperSize);
+  const margin = getMargin(doc);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const compact = paperSize === 'A5';
+  const bodySize = compact ? 8 : 9;
+  const lineHeight = compact ? 4 : 4.5;
+  const tax = calculateTaxInvoice(sale, medicines, settings.state);
+  const taxLine = (medicineId: string) => tax.lines.find(line => line.medicineId === medicineId);
+
+  let y = drawLetterhead(doc, settings);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(compact ? 11 : 13);
+  doc.text(sale.customerGstin ? 'TAX INVOICE' : 'TAX INVOICE (B2C)', pageWidth / 2, y, { align: 'center' });
+  y += lineHeight + 1;
+
+  doc.setFontSize(bodySize);
+  doc.setFont('helvetica', 'normal');
+  const leftLines = [
+    `Bill No: ${sale.id}`,
+    `Patient: ${sale.customerName} (${sale.patientId})`,
+    `Phone: ${customer?.phone || 'N/A'}`,
+    sale.customerGstin ? `GSTIN: ${sale.customerGstin}` : '',
+  ].filter(Boolean);
+  const rightLines = [
+    `Date: ${new Date(sale.createdAt).toLocaleDateString()} ${new Date(sale.createdAt).toLocaleTimeString()}`,
+    settings.gstin ? `Clinic GSTIN: ${settings.gstin}` : '',
+    `Place of Supply: ${tax.placeOfSupply || 'N/A'}`,
+  ].filter(Boolean);
+  leftLines.forEach((line, index) => doc.text(line, margin, y + index * lineHeight));
+  rightLines.forEach((line, index) => doc.text(line, pageWidth - margin, y + index * lineHeight, { align: 'right' }));
+  y += Math.max(leftLines.length, rightLines.length) * lineHeight + 1;
+
+  // Services first, then medicines, as on the screen
+  const items = [
+    ...sale.items.filter(isServiceItem),
+    ...sale.items.filter(item => !isServiceItem(item)),
+  ] as BillItem[];
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: margin, right: margin },
+    head: [['#', 'Item', 'HSN/SAC', 'Qty', 'Rate', 'GST%', 'Amount']],
+    body: items.map((item, index) => {
+      const line = taxLine(item.medicineId);
+      if (isServiceItem(item)) {
+        return [
+          (index + 1).toString(),
+          item.medicineName,
+          line?.hsnCode || '',
+          item.quantity.toString(),
+          formatAmount(item.unitPrice),
+          `${line?.gstRate ?? 0}%`,
+          formatAmount(item.totalPrice),
+        ];
+      }
+      const medicine = medicines.find(m => m.id === item.medicineId);
+      const batchDisplay = formatBatchAllocations(item.batches);
+      return [
+        (index + 1).toString(),
+        batchDisplay ? `${item.medicineName}\nBatch: ${batchDisplay}` : item.medicineName,
+        line?.hsnCode || '',
+        formatBillQuantity(item, medicine),
+        `${formatAmount(item.unitPrice)}/${getRateUnit(item, medicine)}`,
+        `${line?.gstRate ?? 0}%`,
+        formatAmount(item.totalPrice),
+      ];
+    }),
+    theme: 'grid',
+    styles: { fontSize: compact ? 7 : 8, cellPadding: 1.5 },
+    headStyles: { fillColor: [30, 64, 175], textColor: 255 },
+    columnStyles: {
+      0: { cellWidth: 6 },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+    },
+  });
+  y = getTableEndY(doc) + 3;
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: margin, right: margin },
+    head: [[
+      'HSN/SAC',
+      'GST%',
+      'Taxable',
+      ...(tax.interstate ? ['IGST'] : ['CGST', 'SGST']),
+      'Total Tax',
+    ]],
+    body: tax.hsnSummary.map(row => [
+      row.hsnCode || '-',
+      `${row.gstRate}%`,
+      formatAmount(row.taxableValue),
+      ...(tax.interstate ? [formatAmount(row.igst)] : [formatAmount(row.cgst), formatAmount(row.sgst)]),
+      formatAmount(row.totalTax),
+    ]),
+    theme: 'grid',
+    styles: { fontSize: compact ? 6.5 : 7.5, cellPadding: 1 },
+    headStyles: { fillColor: [229, 231, 235], textColor: 30 },
+  });
+  y = getTableEndY(doc) + 4;
+
+  const summary: [string, string][] = [
+    ['Subtotal', formatAmount(sale.totalAmount)],
+    ['Discount', formatAmount(sale.discount)],
+    ['Taxable Value', formatAmount(tax.taxableValue)],
+    ...(tax.interstate
+      ? [['IGST', formatAmount(tax.igst)] as [string, string]]
+      : [['CGST', formatAmount(tax.cgst)], ['SGST', formatAmount(tax.sgst)]] as [string, string][]),
+    ['Invoice Value', formatAmount(tax.invoiceValue)],
+    ...(tax.creditApplied ? [['Patient Credit', `-${formatAmount(tax.creditApplied)}`] as [string, string]] : []),
+    ['Round Off', `${tax.roundOff < 0 ? '-' : '+'}${formatAmount(Math.abs(tax.roundOff))}`],
+  ];
+
+  const summaryHeight = (summary.length + 4) * lineHeight + 12;
+  if (y + summaryHeight > pageHeight - margin) {
+    doc.addPage();
+    y = margin;
+  }
+
+  const labelX = pageWidth - margin - (compact ? 60 : 75);
+  doc.setFontSize(bodySize);
+  doc.setFont('helvetica', 'normal');
+  summary.forEach(([label, value]) => {
+    doc.text(label, labelX, y);
+    doc.text(value, pageWidth - margin, y, { align: 'right' });
+    y += lineHeight;
+  });
+
+  doc.setDrawColor(30, 30, 30);
+  doc.setLineWidth(0.3);
+  doc.line(labelX, y - lineHeight + 1.5, pageWidth - margin, y - lineHeight + 1.5);
+  y += 1;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(bodySize + 2);
+  doc.text('Total Amount', labelX, y);
+  doc.text(formatAmount(tax.amountPayable), pageWidth - margin, y, { align: 'right' });
+  y += lineHeight + 1;
+
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(bodySize);
+  const words = doc.splitTextToSize(amountInWords(tax.amountPayable), pageWidth - margin * 2);
+  doc.text(words, margin, y);
+  y += words.length * lineHeight;
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Payment Method: ${sale.paymentMethod.toUpperCase()}`, margin, y);
+
+  doc.setFontSize(compact ? 7 : 8);
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Thank you for visiting ${settings.clinicName}! Get well soon!`, pageWidth / 2, pageHeight - margin, { align: 'center' });
+  doc.setTextColor(0, 0, 0);
+
+  return doc;
+};
+
+export const getBillFilename = (sale: Sale): string => {
+  return `Bill_${sale.id}_${sale.patientId}_${new Date(sale.createdAt).toLocaleDateString().replace(/\//g, '-')}.pdf`;
+};
+
+export const printBillPdf = (document: BillDocument) => {
+  printPdf(createBillPdf(document));
+};
+
+export const downloadBillPdf = (document: BillDocument) => {
+  createBillPdf(document).save(getBillFilename(document.sale));
+};
+
+export const shareBillPdf = (document: BillDocument): Promise<boolean> => {
+  return sharePdf(createBillPdf(document), getBillFilename(document.sale), `Bill ${document.sale.id} - ${document.settings.clinicName}`);
+};
@@ -0,0 +1,101 @@
+import { Medicine, SaleItem } from '../types';
+
+// Sale items are saved straight from the billing cart, so medicine lines keep
+// the strip/tablet split they were entered with
+export interface BillItem extends SaleItem {
+  strips?: number;
+  tablets?: number;
+  bottles?: number;
+  itemsPerStrip?: number;
+  totalItems?: number;
+  isTabletType?: boolean;
+  displayUnit?: string;
+}
+
+export const UNIT_TYPES = [
+  { value: 'tablets', label: 'Tablets' },
+  { value: 'strips', label: 'Strips' },
+  { value: 'capsules', label: 'Capsules' },
+  { value: 'bottles', label: 'Bottles' },
+  { value: 'tubes', label: 'Tubes' },
+  { value: 'Pieces', label: 'Pieces' },
+  { value: 'vials', label: 'Vials' },
+  { value: 'ampoules', label: 'Ampoules' },
+  { value: 'sachets', label: 'Sachets' },
+  { value: 'syrups', label: 'Syrups' },
+  { value: 'drops', label: 'Drops' },
+  { value: 'inhalers', label: 'Inhalers' },
+  { value: 'creams', label: 'Creams' },
+  { value: 'ointments', label: 'Ointments' },
+  { value: 'powders', label: 'Powders' },
+  { value: 'other', label: 'Other' }
+];
+
+export const isTabletType = (medicine: Medicine): boolean => {
+  const unitType = medicine.unitType?.toLowerCase() || '';
+
+  return unitType === 'tablets' || unitType === 'capsules' || unitType === 'strips';
+};
+
+export const getDisplayUnit = (medicine: Medicine): string => {
+  const unitType = medicine.unitType?.toLowerCase() || '';
+
+  if (isTabletType(medicine)) {
+    return 'strip';
+  }
+
+  switch(unitType) {
+    case 'bottles': return 'bottle';
+    case 'tubes': return 'tube';
+    case 'vials': return 'vial';
+    case 'ampoules': return 'ampoule';
+    case 'sachets': return 'sachet';
+    case 'syrups': return 'bottle';
+    case 'drops': return 'bottle';
+    case 'inhalers': return 'inhaler';
+    case 'creams': return 'tube';
+    case 'ointments': return 'tube';
+    case 'powders': return 'packet';
+    case 'pieces': return 'piece';
+    default: return unitType.replace(/s$/, '') || 'unit';
+  }
+};
+
+export const getDisplayItem = (medicine: Medicine): string => {
+  const unitType = medicine.unitType?.toLowerCase() || '';
+
+  if (isTabletType(medicine)) {
+    if (unitType === 'capsules') return 'capsule';
+    return 'tablet';
+  }
+
+  return getDisplayUnit(medicine);
+};
+
+const isTabletItem = (item: BillItem, medicine?: Medicine): boolean => {
+  return item.isTabletType !== undefined ? item.isTabletType : (medicine ? isTabletType(medicine) : false);
+};
+
+// "2 strips + 3 tablets" or "1 bottle"
+export const formatBillQuantity = (item: BillItem, medicine?: Medicine): string => {
+  if (isTabletItem(item, medicine)) {
+    const displayItem = medicine ? getDisplayItem(medicine) : 'tablet';
+    const strips = item.strips || 0;
+    const tablets = item.strips === undefined && item.tablets === undefined ? item.quantity : item.tablets || 0;
+    if (strips > 0 && tablets > 0) return `${strips} strips + ${tablets} ${displayItem}s`;
+    if (strips > 0) return `${strips} strips`;
+    return `${tablets} ${displayItem}s`;
+  }
+
+  const displayUnit = item.displayUnit || (medicine ? getDisplayUnit(medicine) : 'unit');
+  const bottles = item.bottles || item.quantity;
+  return `${bottles} ${displayUnit}${bottles !== 1 ? 's' : ''}`;
+};
+
+// The unit the rate is quoted per, e.g. "tablet" or "bottle"
+export const getRateUnit = (item: BillItem, medicine?: Medicine): string => {
+  if (isTabletItem(item, medicine)) {
+    return medicine ? getDisplayItem(medicine) : 'tablet';
+  }
+  return item.displayUnit || (medicine ? getDisplayUnit(medicine) : 'unit');
+};
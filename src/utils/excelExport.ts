@@ -1,5 +1,8 @@
 import * as XLSX from 'xlsx';
-import { Medicine, Sale, Purchase } from '../types';
+import { Medicine, Sale, Purchase, SaleReturn, AuditEntry } from '../types';
+import { getPurchasedQuantity } from './purchases';
+import { GstReturn, TaxAmounts, buildGstr1Json } from './gst';
+import { formatAuditValue } from './audit';
 
 export interface StockReportData {
   medicineName: string;
@@ -24,7 +27,7 @@ export interface DateFilterOptions {
   toDate?: string;
 }
 
-export const generateStockReport = (medicines: Medicine[], sales: Sale[]): StockReportData[] => {
+export const generateStockReport = (medicines: Medicine[], sales: Sale[], purchases: Purchase[] = []): StockReportData[] => {
   return medicines.map(medicine => {
     // Calculate total sold quantity for this medicine
     const soldQuantity = sales.reduce((total, sale) => {
@@ -32,10 +35,9 @@ export const generateStockReport = (medicines: Medicine[], sales: Sale[]): Stock
       return total + (medicineItem ? medicineItem.quantity : 0);
     }, 0);
 
-    // For this example, we'll assume current stock + sold = opening stock
-    // In a real system, you'd track purchases separately
-    const openingStock = medicine.quantity + soldQuantity;
-    const purchased = 0; // This would come from purchase records in a real system
+    // Opening stock is worked back from the current stock and the recorded movements
+    const purchased = getPurchasedQuantity(purchases, medicine.id);
+    const openingStock = Math.max(0, medicine.quantity + soldQuantity - purchased);
     const closingStock = medicine.quantity;
     const stockValue = closingStock * medicine.costPrice;
 
@@ -196,7 +198,8 @@ export const exportSalesReport = (
   sales: Sale[], 
   medicines: Medicine[], 
   filename?: string, 
-  dateFilter?: DateFilterOptions
+  dateFilter?: DateFilterOptions,
+  saleReturns: SaleReturn[] = []
 ) => {
   const salesData = sales.map(sale => ({
     saleId: sale.id.substring(0, 8),
@@ -211,6 +214,20 @@ export const exportSalesReport = (
     items: sale.items.map(item => `${item.medicineName} (${item.quantity})`).join(', ')
   }));
 
+  // Credit notes go in as negative rows so the sheet totals are net of returns
+  const returnsData = saleReturns.map(saleReturn => ({
+    saleId: saleReturn.creditNoteNumber,
+    date: new Date(saleReturn.createdAt).toLocaleDateString(),
+    time: new Date(saleReturn.createdAt).toLocaleTimeString(),
+    customerName: saleReturn.customerName,
+    itemCount: saleReturn.items.length,
+    totalAmount: -saleReturn.totalAmount,
+    discount: -saleReturn.discount,
+    finalAmount: -saleReturn.refundAmount,
+    paymentMethod: `refund-${saleReturn.refundMethod}`,
+    items: `Return of ${saleReturn.saleId}: ` + saleReturn.items.map(item => `${item.medicineName} (${item.quantity})`).join(', ')
+  }));
+
   const workbook = XLSX.utils.book_new();
 
   const excelData = [
@@ -226,7 +243,7 @@ export const exportSalesReport = (
       'Payment Method',
       'Items Sold'
     ],
-    ...salesData.map(sale => [
+    ...[...salesData, ...returnsData].map(sale => [
       sale.saleId,
       sale.date,
       sale.time,
@@ -269,7 +286,9 @@ export const exportSalesReport = (
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Sales Report');
 
   // Create sales summary worksheet
-  const totalRevenue = salesData.reduce((sum, sale) => sum + sale.finalAmount, 0);
+  const grossRevenue = salesData.reduce((sum, sale) => sum + sale.finalAmount, 0);
+  const totalRefunds = saleReturns.reduce((sum, saleReturn) => sum + saleReturn.refundAmount, 0);
+  const totalRevenue = grossRevenue - totalRefunds;
   const totalDiscount = salesData.reduce((sum, sale) => sum + sale.discount, 0);
   const totalSales = salesData.length;
 
@@ -288,6 +307,8 @@ export const exportSalesReport = (
     dateFilter ? ['Report Period:', dateFilterInfo] : [],
     [''],
     ['Total Sales:', totalSales],
+    ['Gross Revenue:', `₹${grossRevenue.toFixed(2)}`],
+    ['Returns / Credit Notes:', `${saleReturns.length} (₹${totalRefunds.toFixed(2)})`],
     ['Total Revenue:', `₹${totalRevenue.toFixed(2)}`],
     ['Total Discount Given:', `₹${totalDiscount.toFixed(2)}`],
     ['Average Sale Value:', `₹${totalSales > 0 ? (totalRevenue / totalSales).toFixed(2) : '0.00'}`],
@@ -333,7 +354,8 @@ export const exportPurchaseReport = (
   dateFilter?: DateFilterOptions
 ) => {
   const purchaseData = purchases.map(purchase => ({
-    purchaseId: purchase.id.substring(0, 8),
+    grnNumber: purchase.grnNumber || purchase.id.substring(0, 8),
+    invoiceNumber: purchase.invoiceNumber || '',
     date: new Date(purchase.purchaseDate).toLocaleDateString(),
     medicineName: purchase.medicineName,
     brand: purchase.brand,
@@ -342,7 +364,12 @@ export const exportPurchaseReport = (
     batchNumber: purchase.batchNumber,
     expiryDate: purchase.expiryDate,
     quantity: purchase.quantity,
+    freeQuantity: purchase.freeQuantity || 0,
     costPrice: purchase.costPrice,
+    schemeDiscount: purchase.schemeDiscount || 0,
+    taxableAmount: purchase.taxableAmount || 0,
+    gstRate: purchase.gstRate || 0,
+    gstAmount: purchase.gstAmount || 0,
     totalCost: purchase.totalCost
   }));
 
@@ -350,7 +377,8 @@ export const exportPurchaseReport = (
 
   const excelData = [
     [
-      'Purchase ID',
+      'GRN No',
+      'Invoice No',
       'Purchase Date',
       'Medicine Name',
       'Brand',
@@ -359,11 +387,17 @@ export const exportPurchaseReport = (
       'Batch Number',
       'Expiry Date',
       'Quantity',
+      'Free Qty',
       'Cost Price (₹)',
+      'Scheme Disc (%)',
+      'Taxable (₹)',
+      'GST (%)',
+      'GST (₹)',
       'Total Cost (₹)'
     ],
     ...purchaseData.map(purchase => [
-      purchase.purchaseId,
+      purchase.grnNumber,
+      purchase.invoiceNumber,
       purchase.date,
       purchase.medicineName,
       purchase.brand,
@@ -372,14 +406,20 @@ export const exportPurchaseReport = (
       purchase.batchNumber,
       purchase.expiryDate,
       purchase.quantity,
+      purchase.freeQuantity,
       purchase.costPrice.toFixed(2),
+      purchase.schemeDiscount,
+      purchase.taxableAmount.toFixed(2),
+      purchase.gstRate,
+      purchase.gstAmount.toFixed(2),
       purchase.totalCost.toFixed(2)
     ])
   ];
 
   const worksheet = XLSX.utils.aoa_to_sheet(excelData);
   worksheet['!cols'] = [
-    { wch: 12 }, // Purchase ID
+    { wch: 14 }, // GRN No
+    { wch: 15 }, // Invoice No
     { wch: 12 }, // Purchase Date
     { wch: 25 }, // Medicine Name
     { wch: 15 }, // Brand
@@ -388,7 +428,12 @@ export const exportPurchaseReport = (
     { wch: 15 }, // Batch Number
     { wch: 12 }, // Expiry Date
     { wch: 10 }, // Quantity
+    { wch: 10 }, // Free Qty
     { wch: 12 }, // Cost Price
+    { wch: 14 }, // Scheme Disc
+    { wch: 12 }, // Taxable
+    { wch: 8 },  // GST %
+    { wch: 12 }, // GST
     { wch: 12 }, // Total Cost
   ];
 
@@ -407,7 +452,8 @@ export const exportPurchaseReport = (
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Purchase Report');
 
   // Create purchase summary worksheet
-  const totalPurchases = purchaseData.length;
+  const totalPurchases = new Set(purchaseData.map(p => p.grnNumber)).size;
+  const totalTax = purchaseData.reduce((sum, purchase) => sum + purchase.gstAmount, 0);
   const totalAmount = purchaseData.reduce((sum, purchase) => sum + purchase.totalCost, 0);
   const totalQuantity = purchaseData.reduce((sum, purchase) => sum + purchase.quantity, 0);
   const uniqueSuppliers = new Set(purchaseData.map(p => p.supplier)).size;
@@ -428,6 +474,7 @@ export const exportPurchaseReport = (
     [''],
     ['Total Purchases:', totalPurchases],
     ['Total Amount:', `₹${totalAmount.toFixed(2)}`],
+    ['Total GST (Input):', `₹${totalTax.toFixed(2)}`],
     ['Total Quantity:', totalQuantity],
     ['Unique Suppliers:', uniqueSuppliers],
     ['Average Purchase Value:', `₹${totalPurchases > 0 ? (totalAmount / totalPurchases).toFixed(2) : '0.00'}`],
@@ -465,4 +512,179 @@ export const exportPurchaseReport = (
   const finalFilename = filename || defaultFilename;
 
   XLSX.writeFile(workbook, finalFilename);
-};
\ No newline at end of file
+};
+
+export const exportGstReturn = (gstReturn: GstReturn) => {
+  const workbook = XLSX.utils.book_new();
+  const [year, month] = gstReturn.month.split('-');
+  const period = `${month}-${year}`;
+  const amounts = (row: TaxAmounts) => [
+    row.taxableValue.toFixed(2),
+    row.igst.toFixed(2),
+    row.cgst.toFixed(2),
+    row.sgst.toFixed(2),
+  ];
+  const taxHeaders = ['Taxable Value (₹)', 'IGST (₹)', 'CGST (₹)', 'SGST (₹)'];
+
+  const totalNilRated = gstReturn.nilRated.reduce((sum, row) => sum + row.exempt + row.nilRated, 0);
+
+  const summaryData = [
+    ['GSTR-3B SUMMARY'],
+    ['GSTIN:', gstReturn.gstin || 'Not set'],
+    ['State:', gstReturn.state || 'Not set'],
+    ['Tax Period:', period],
+    ['Generated on:', new Date().toLocaleDateString()],
+    [''],
+    ['Section', ...taxHeaders],
+    ['3.1(a) Outward taxable supplies', ...amounts(gstReturn.outputTax)],
+    ['3.1(c) Nil rated and exempted supplies', totalNilRated.toFixed(2), '', '', ''],
+    ['4(A)(5) All other ITC', ...amounts(gstReturn.eligibleItc)],
+    ['ITC not claimable (unregistered suppliers)', ...amounts(gstReturn.ineligibleItc)],
+    [''],
+    ['Net tax (output - ITC)', '', gstReturn.netTax.igst.toFixed(2), gstReturn.netTax.cgst.toFixed(2), gstReturn.netTax.sgst.toFixed(2)],
+  ];
+  const summaryWorksheet = XLSX.utils.aoa_to_sheet(summaryData);
+  summaryWorksheet['!cols'] = [{ wch: 42 }, { wch: 18 }, { wch: 14 }, { wch: 14 }, { wch: 14 }];
+  XLSX.utils.book_append_sheet(workbook, summaryWorksheet, 'GSTR-3B Summary');
+
+  const b2bWorksheet = XLSX.utils.aoa_to_sheet([
+    ['GSTIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice Date', 'Invoice Value (₹)', 'Place of Supply', 'Rate (%)', ...taxHeaders],
+    ...gstReturn.b2b.map(row => [
+      row.gstin,
+      row.customerName,
+      row.invoiceNumber,
+      new Date(row.invoiceDate).toLocaleDateString(),
+      row.invoiceValue.toFixed(2),
+      row.placeOfSupply,
+      row.gstRate,
+      ...amounts(row),
+    ]),
+  ]);
+  b2bWorksheet['!cols'] = [{ wch: 18 }, { wch: 20 }, { wch: 14 }, { wch: 12 }, { wch: 15 }, { wch: 16 }, { wch: 8 }, { wch: 16 }, { wch: 12 }, { wch: 12 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(workbook, b2bWorksheet, 'B2B');
+
+  const b2csWorksheet = XLSX.utils.aoa_to_sheet([
+    ['Type', 'Place of Supply', 'Rate (%)', ...taxHeaders],
+    ...gstReturn.b2cs.map(row => [
+      row.interstate ? 'Inter-State' : 'Intra-State',
+      row.placeOfSupply,
+      row.gstRate,
+      ...amounts(row),
+    ]),
+  ]);
+  b2csWorksheet['!cols'] = [{ wch: 12 }, { wch: 18 }, { wch: 8 }, { wch: 16 }, { wch: 12 }, { wch: 12 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(workbook, b2csWorksheet, 'B2CS');
+
+  const creditNoteWorksheet = XLSX.utils.aoa_to_sheet([
+    ['GSTIN of Recipient', 'Receiver Name', 'Credit Note No', 'Note Date', 'Against Bill', 'Note Value (₹)', 'Place of Supply', 'Rate (%)', ...taxHeaders],
+    ...gstReturn.creditNotes.map(row => [
+      row.gstin,
+      row.customerName,
+      row.creditNoteNumber,
+      new Date(row.creditNoteDate).toLocaleDateString(),
+      row.saleId,
+      row.noteValue.toFixed(2),
+      row.placeOfSupply,
+      row.gstRate,
+      ...amounts(row),
+    ]),
+  ]);
+  creditNoteWorksheet['!cols'] = [{ wch: 18 }, { wch: 20 }, { wch: 14 }, { wch: 12 }, { wch: 14 }, { wch: 14 }, { wch: 16 }, { wch: 8 }, { wch: 16 }, { wch: 12 }, { wch: 12 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(workbook, creditNoteWorksheet, 'CDNR');
+
+  const nilWorksheet = XLSX.utils.aoa_to_sheet([
+    ['Supply Type', 'Nil Rated (₹)', 'Exempted (₹)', 'Non-GST (₹)'],
+    ...gstReturn.nilRated.map(row => [row.supplyType, row.nilRated.toFixed(2), row.exempt.toFixed(2), '0.00']),
+  ]);
+  nilWorksheet['!cols'] = [{ wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }];
+  XLSX.utils.book_append_sheet(workbook, nilWorksheet, 'Nil Rated');
+
+  const hsnWorksheet = XLSX.utils.aoa_to_sheet([
+    ['HSN/SAC', 'Description', 'UQC', 'Total Quantity', 'Rate (%)', 'Total Value (₹)', ...taxHeaders],
+    ...gstReturn.hsnSummary.map(row => [
+      row.hsnCode || '-',
+      row.description,
+      'NOS',
+      row.quantity,
+      row.gstRate,
+      row.totalValue.toFixed(2),
+      ...amounts(row),
+    ]),
+  ]);
+  hsnWorksheet['!cols'] = [{ wch: 10 }, { wch: 25 }, { wch: 6 }, { wch: 14 }, { wch: 8 }, { wch: 15 }, { wch: 16 }, { wch: 12 }, { wch: 12 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(workbook, hsnWorksheet, 'HSN Summary');
+
+  const rateWorksheet = XLSX.utils.aoa_to_sheet([
+    ['Rate (%)', ...taxHeaders, 'Total Tax (₹)'],
+    ...gstReturn.rateSummary.map(row => [
+      row.gstRate,
+      ...amounts(row),
+      (row.igst + row.cgst + row.sgst).toFixed(2),
+    ]),
+    ['Total', ...amounts(gstReturn.outputTax), (gstReturn.outputTax.igst + gstReturn.outputTax.cgst + gstReturn.outputTax.sgst).toFixed(2)],
+  ]);
+  rateWorksheet['!cols'] = [{ wch: 10 }, { wch: 16 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 14 }];
+  XLSX.utils.book_append_sheet(workbook, rateWorksheet, 'Rate Summary');
+
+  [summaryWorksheet, b2bWorksheet, b2csWorksheet, creditNoteWorksheet, nilWorksheet, hsnWorksheet, rateWorksheet].forEach(worksheet => {
+    const headerRow = worksheet === summaryWorksheet ? 6 : 0;
+    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cellAddress = XLSX.utils.encode_cell({ r: headerRow, c: col });
+      if (!worksheet[cellAddress]) continue;
+      worksheet[cellAddress].s = {
+        font: { bold: true, color: { rgb: "FFFFFF" } },
+        fill: { fgColor: { rgb: "2563EB" } },
+        alignment: { horizontal: "center" }
+      };
+    }
+  });
+
+  XLSX.writeFile(workbook, `GST_Return_${period}.xlsx`);
+
+  const json = JSON.stringify(buildGstr1Json(gstReturn), null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `GSTR1_${gstReturn.gstin || 'NOGSTIN'}_${month}${year}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// One row per changed field so the sheet can be filtered by field as well as by record
+export const exportAuditLog = (entries: AuditEntry[]) => {
+  const workbook = XLSX.utils.book_new();
+  const worksheet = XLSX.utils.aoa_to_sheet([
+    ['Date', 'Time', 'User', 'Entity', 'Record', 'Record ID', 'Action', 'Field', 'Before', 'After'],
+    ...entries.flatMap(entry => entry.changes.map(change => [
+      new Date(entry.timestamp).toLocaleDateString(),
+      new Date(entry.timestamp).toLocaleTimeString(),
+      entry.userName,
+      entry.entity,
+      entry.entityLabel,
+      entry.entityId,
+      entry.action,
+      change.field,
+      formatAuditValue(change.before),
+      formatAuditValue(change.after),
+    ])),
+  ]);
+  worksheet['!cols'] = [{ wch: 12 }, { wch: 12 }, { wch: 18 }, { wch: 18 }, { wch: 24 }, { wch: 16 }, { wch: 8 }, { wch: 18 }, { wch: 30 }, { wch: 30 }];
+
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const cellAddress = XLSX.utils.encode_cell({ r: 0, c: col });
+    if (!worksheet[cellAddress]) continue;
+    worksheet[cellAddress].s = {
+      font: { bold: true, color: { rgb: "FFFFFF" } },
+      fill: { fgColor: { rgb: "2563EB" } },
+      alignment: { horizontal: "center" }
+    };
+  }
+
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Audit Log');
+  XLSX.writeFile(workbook, `Audit_Log_${new Date().toISOString().split('T')[0]}.xlsx`);
+};
@@ -0,0 +1,596 @@
+import { Purchase, Sale, SaleItem, SaleReturn, Supplier } from '../types';
+import { getSaleDiscountRatio, isServiceItem } from './returns';
+import { findSupplierByName, isValidGstin } from './suppliers';
+
+// GST state codes, as used in the first two digits of a GSTIN
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+];
+
+// SAC for human health services, which are exempt from GST
+export const HEALTHCARE_SAC = '9993';
+
+export interface TaxLine {
+  medicineId: string;
+  name: string;
+  hsnCode: string;
+  quantity: number;
+  gstRate: number;
+  value: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface HsnSummaryRow {
+  hsnCode: string;
+  gstRate: number;
+  quantity: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+export interface TaxInvoice {
+  interstate: boolean;
+  placeOfSupply: string;
+  lines: TaxLine[];
+  hsnSummary: HsnSummaryRow[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  invoiceValue: number;
+  creditApplied: number;
+  roundOff: number;
+  amountPayable: number;
+}
+
+// Only the medicine fields needed to tax a line
+export interface TaxSource {
+  id: string;
+  hsnCode?: string;
+  sellingPriceGst?: number;
+}
+
+const round2 = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getStateName = (code: string): string => {
+  return INDIAN_STATES.find(state => state.code === code)?.name || '';
+};
+
+export const getStateCode = (name: string): string => {
+  return INDIAN_STATES.find(state => state.name.toLowerCase() === name.trim().toLowerCase())?.code || '';
+};
+
+export const getStateFromGstin = (gstin?: string): string => {
+  return gstin && gstin.length >= 2 ? getStateName(gstin.slice(0, 2)) : '';
+};
+
+// Tax details for a sold line. Sales saved before the rate was kept on the
+// item fall back to the medicine's current HSN and GST rate.
+export const getItemTaxDetails = (item: SaleItem, medicines: TaxSource[]): { hsnCode: string; gstRate: number } => {
+  if (isServiceItem(item)) {
+    return { hsnCode: item.hsnCode || HEALTHCARE_SAC, gstRate: item.gstRate || 0 };
+  }
+  const medicine = medicines.find(m => m.id === item.medicineId);
+  return {
+    hsnCode: item.hsnCode || medicine?.hsnCode || '',
+    gstRate: item.gstRate ?? medicine?.sellingPriceGst ?? 0,
+  };
+};
+
+// Selling prices include GST, so tax is backed out of each line after its
+// share of the bill discount. Intra-state supplies split the tax equally
+// into CGST and SGST; inter-state supplies carry IGST.
+export const calculateTaxInvoice = (sale: Sale, medicines: TaxSource[], clinicState: string): TaxInvoice => {
+  const placeOfSupply = sale.placeOfSupply || getStateFromGstin(sale.customerGstin) || clinicState;
+  const interstate = !!clinicState && !!placeOfSupply && placeOfSupply !== clinicState;
+  const discountRatio = getSaleDiscountRatio(sale);
+
+  const lines: TaxLine[] = sale.items.map(item => {
+    const { hsnCode, gstRate } = getItemTaxDetails(item, medicines);
+    const value = round2(item.totalPrice * (1 - discountRatio));
+    const taxableValue = round2(value / (1 + gstRate / 100));
+    const tax = round2(value - taxableValue);
+    const cgst = interstate ? 0 : round2(tax / 2);
+
+    return {
+      medicineId: item.medicineId,
+      name: item.medicineName,
+      hsnCode,
+      quantity: item.quantity,
+      gstRate,
+      value,
+      taxableValue,
+      cgst,
+      sgst: interstate ? 0 : round2(tax - cgst),
+      igst: interstate ? tax : 0,
+    };
+  });
+
+  const summary = new Map<string, HsnSummaryRow>();
+  lines.forEach(line => {
+    const key = `${line.hsnCode}|${line.gstRate}`;
+    const row = summary.get(key) || {
+      hsnCode: line.hsnCode,
+      gstRate: line.gstRate,
+      quantity: 0,
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      totalTax: 0,
+    };
+    row.quantity += line.quantity;
+    row.taxableValue = round2(row.taxableValue + line.taxableValue);
+    row.cgst = round2(row.cgst + line.cgst);
+    row.sgst = round2(row.sgst + line.sgst);
+    row.igst = round2(row.igst + line.igst);
+    row.totalTax = round2(row.cgst + row.sgst + row.igst);
+    summary.set(key, row);
+  });
+
+  const sum = (pick: (line: TaxLine) => number) => round2(lines.reduce((total, line) => total + pick(line), 0));
+  const invoiceValue = sum(line => line.value);
+  const creditApplied = sale.creditApplied || 0;
+  const amountPayable = Math.max(0, Math.round(invoiceValue - creditApplied));
+
+  return {
+    interstate,
+    placeOfSupply,
+    lines,
+    hsnSummary: Array.from(summary.values()).sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.gstRate - b.gstRate),
+    taxableValue: sum(line => line.taxableValue),
+    cgst: sum(line => line.cgst),
+    sgst: sum(line => line.sgst),
+    igst: sum(line => line.igst),
+    invoiceValue,
+    creditApplied,
+    roundOff: round2(amountPayable - (invoiceValue - creditApplied)),
+    amountPayable,
+  };
+};
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitWords = (n: number): string => {
+  if (n < 20) return ONES[n];
+  return `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ''}`;
+};
+
+const threeDigitWords = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? twoDigitWords(rest) : ''].filter(Boolean).join(' ');
+};
+
+// Indian numbering: crore, lakh, thousand
+const integerToWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+
+  if (crore) parts.push(`${integerToWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigitWords(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigitWords(thousand)} Thousand`);
+  if (rest) parts.push(threeDigitWords(rest));
+
+  return parts.join(' ');
+};
+
+export const amountInWords = (amount: number): string => {
+  const rupees = Math.floor(Math.abs(amount));
+  const paise = Math.round((Math.abs(amount) - rupees) * 100);
+  return `Rupees ${integerToWords(rupees)}${paise ? ` and ${twoDigitWords(paise)} Paise` : ''} Only`;
+};
+
+export interface TaxAmounts {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface B2bInvoiceRow extends TaxAmounts {
+  gstin: string;
+  customerName: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  invoiceValue: number;
+  placeOfSupply: string;
+  gstRate: number;
+}
+
+export interface B2csRow extends TaxAmounts {
+  placeOfSupply: string;
+  interstate: boolean;
+  gstRate: number;
+}
+
+export interface CreditNoteRow extends TaxAmounts {
+  gstin: string;
+  customerName: string;
+  creditNoteNumber: string;
+  creditNoteDate: string;
+  saleId: string;
+  noteValue: number;
+  placeOfSupply: string;
+  gstRate: number;
+}
+
+export interface GstHsnRow extends HsnSummaryRow {
+  description: string;
+  totalValue: number;
+}
+
+export interface GstRateRow extends TaxAmounts {
+  gstRate: number;
+}
+
+export interface NilRatedRow {
+  supplyType: 'INTRB2B' | 'INTRAB2B' | 'INTRB2C' | 'INTRAB2C';
+  exempt: number;
+  nilRated: number;
+}
+
+export interface GstReturn {
+  month: string;
+  gstin: string;
+  state: string;
+  b2b: B2bInvoiceRow[];
+  b2cs: B2csRow[];
+  creditNotes: CreditNoteRow[];
+  nilRated: NilRatedRow[];
+  hsnSummary: GstHsnRow[];
+  rateSummary: GstRateRow[];
+  outputTax: TaxAmounts;
+  eligibleItc: TaxAmounts;
+  ineligibleItc: TaxAmounts;
+  netTax: { cgst: number; sgst: number; igst: number };
+}
+
+const emptyAmounts = (): TaxAmounts => ({ taxableValue: 0, cgst: 0, sgst: 0, igst: 0 });
+
+const addAmounts = (target: TaxAmounts, source: TaxAmounts, sign = 1) => {
+  target.taxableValue = round2(target.taxableValue + sign * source.taxableValue);
+  target.cgst = round2(target.cgst + sign * source.cgst);
+  target.sgst = round2(target.sgst + sign * source.sgst);
+  target.igst = round2(target.igst + sign * source.igst);
+};
+
+const formatGstDate = (date: string): string => {
+  const d = new Date(date);
+  return `${d.getDate().toString().padStart(2, '0')}-${(d.getMonth() + 1).toString().padStart(2, '0')}-${d.getFullYear()}`;
+};
+
+// A credit note is taxed like the sale it reverses, at the same place of supply
+const returnAsSale = (saleReturn: SaleReturn, sale?: Sale): Sale => ({
+  id: saleReturn.saleId,
+  customerId: saleReturn.customerId,
+  customerName: saleReturn.customerName,
+  patientId: saleReturn.patientId,
+  items: saleReturn.items,
+  totalAmount: saleReturn.totalAmount,
+  discount: saleReturn.discount,
+  finalAmount: saleReturn.refundAmount,
+  paymentMethod: sale?.paymentMethod || 'cash',
+  customerGstin: sale?.customerGstin,
+  placeOfSupply: sale?.placeOfSupply,
+  createdAt: saleReturn.createdAt,
+});
+
+// Lines of one rate on one invoice, as GSTR-1 reports them
+const groupLinesByRate = (lines: TaxLine[]): GstRateRow[] => {
+  const rates = new Map<number, GstRateRow>();
+  lines.filter(line => line.gstRate > 0).forEach(line => {
+    const row = rates.get(line.gstRate) || { gstRate: line.gstRate, ...emptyAmounts() };
+    addAmounts(row, line);
+    rates.set(line.gstRate, row);
+  });
+  return Array.from(rates.values()).sort((a, b) => a.gstRate - b.gstRate);
+};
+
+// Monthly outward supplies for GSTR-1 and the GSTR-3B summary, with input
+// tax credit from purchase invoices of registered suppliers. Month is YYYY-MM.
+export const buildGstReturn = (
+  month: string,
+  sales: Sale[],
+  saleReturns: SaleReturn[],
+  medicines: (TaxSource & { name: string })[],
+  purchases: Purchase[],
+  suppliers: Supplier[],
+  clinic: { gstin: string; state: string }
+): GstReturn => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const inMonth = (date: string) => {
+    const d = new Date(date);
+    return d.getFullYear() === year && d.getMonth() + 1 === monthNumber;
+  };
+
+  const b2b: B2bInvoiceRow[] = [];
+  const b2cs = new Map<string, B2csRow>();
+  const creditNotes: CreditNoteRow[] = [];
+  const nilRated = new Map<string, NilRatedRow>();
+  const hsn = new Map<string, GstHsnRow>();
+  const rates = new Map<number, GstRateRow>();
+
+  const addNilRated = (tax: TaxInvoice, isB2b: boolean, sign: number) => {
+    tax.lines.filter(line => line.gstRate === 0).forEach(line => {
+      const supplyType = `${tax.interstate ? 'INTR' : 'INTRA'}${isB2b ? 'B2B' : 'B2C'}` as NilRatedRow['supplyType'];
+      const row = nilRated.get(supplyType) || { supplyType, exempt: 0, nilRated: 0 };
+      if (line.hsnCode === HEALTHCARE_SAC) row.exempt = round2(row.exempt + sign * line.value);
+      else row.nilRated = round2(row.nilRated + sign * line.value);
+      nilRated.set(supplyType, row);
+    });
+  };
+
+  const addSummaries = (tax: TaxInvoice, sign: number) => {
+    tax.lines.forEach(line => {
+      const key = `${line.hsnCode}|${line.gstRate}`;
+      const row = hsn.get(key) || {
+        hsnCode: line.hsnCode,
+        description: medicines.find(m => m.id === line.medicineId)?.name || line.name,
+        gstRate: line.gstRate,
+        quantity: 0,
+        totalValue: 0,
+        taxableValue: 0,
+        cgst: 0,
+        sgst: 0,
+        igst: 0,
+        totalTax: 0,
+      };
+      row.quantity += sign * line.quantity;
+      row.totalValue = round2(row.totalValue + sign * line.value);
+      addAmounts(row, line, sign);
+      row.totalTax = round2(row.cgst + row.sgst + row.igst);
+      hsn.set(key, row);
+    });
+
+    groupLinesByRate(tax.lines).forEach(rateRow => {
+      const row = rates.get(rateRow.gstRate) || { gstRate: rateRow.gstRate, ...emptyAmounts() };
+      addAmounts(row, rateRow, sign);
+      rates.set(rateRow.gstRate, row);
+    });
+  };
+
+  const addB2cs = (tax: TaxInvoice, sign: number) => {
+    groupLinesByRate(tax.lines).forEach(rateRow => {
+      const key = `${tax.placeOfSupply}|${rateRow.gstRate}`;
+      const row = b2cs.get(key) || {
+        placeOfSupply: tax.placeOfSupply,
+        interstate: tax.interstate,
+        gstRate: rateRow.gstRate,
+        ...emptyAmounts(),
+      };
+      addAmounts(row, rateRow, sign);
+      b2cs.set(key, row);
+    });
+  };
+
+  sales.filter(sale => inMonth(sale.createdAt)).forEach(sale => {
+    const tax = calculateTaxInvoice(sale, medicines, clinic.state);
+    addSummaries(tax, 1);
+    addNilRated(tax, !!sale.customerGstin, 1);
+
+    if (sale.customerGstin) {
+      groupLinesByRate(tax.lines).forEach(rateRow => {
+        b2b.push({
+          gstin: sale.customerGstin!,
+          customerName: sale.customerName,
+          invoiceNumber: sale.id,
+          invoiceDate: sale.createdAt,
+          invoiceValue: tax.invoiceValue,
+          placeOfSupply: tax.placeOfSupply,
+          ...rateRow,
+        });
+      });
+    } else {
+      addB2cs(tax, 1);
+    }
+  });
+
+  // B2C returns are netted off B2CS; returns against B2B invoices are reported as credit notes
+  saleReturns.filter(saleReturn => inMonth(saleReturn.createdAt)).forEach(saleReturn => {
+    const sale = sales.find(s => s.id === saleReturn.saleId);
+    const tax = calculateTaxInvoice(returnAsSale(saleReturn, sale), medicines, clinic.state);
+    addSummaries(tax, -1);
+    addNilRated(tax, !!sale?.customerGstin, -1);
+
+    if (sale?.customerGstin) {
+      groupLinesByRate(tax.lines).forEach(rateRow => {
+        creditNotes.push({
+          gstin: sale.customerGstin!,
+          customerName: saleReturn.customerName,
+          creditNoteNumber: saleReturn.creditNoteNumber,
+          creditNoteDate: saleReturn.createdAt,
+          saleId: saleReturn.saleId,
+          noteValue: tax.invoiceValue,
+          placeOfSupply: tax.placeOfSupply,
+          ...rateRow,
+        });
+      });
+    } else {
+      addB2cs(tax, -1);
+    }
+  });
+
+  const rateSummary = Array.from(rates.values()).sort((a, b) => a.gstRate - b.gstRate);
+  const outputTax = emptyAmounts();
+  rateSummary.forEach(row => addAmounts(outputTax, row));
+
+  const clinicStateCode = clinic.gstin ? clinic.gstin.slice(0, 2) : getStateCode(clinic.state);
+  const eligibleItc = emptyAmounts();
+  const ineligibleItc = emptyAmounts();
+  purchases.filter(purchase => (purchase.purchaseDate || purchase.createdAt).startsWith(month)).forEach(purchase => {
+    const supplier = suppliers.find(s => s.id === purchase.supplierId) || findSupplierByName(suppliers, purchase.supplier);
+    const gstAmount = purchase.gstAmount || 0;
+    const interstate = !!supplier?.gstin && supplier.gstin.slice(0, 2) !== clinicStateCode;
+    const amounts: TaxAmounts = {
+      taxableValue: purchase.taxableAmount ?? purchase.totalCost,
+      cgst: interstate ? 0 : gstAmount / 2,
+      sgst: interstate ? 0 : gstAmount / 2,
+      igst: interstate ? gstAmount : 0,
+    };
+    addAmounts(supplier?.gstin && isValidGstin(supplier.gstin) ? eligibleItc : ineligibleItc, amounts);
+  });
+
+  return {
+    month,
+    gstin: clinic.gstin,
+    state: clinic.state,
+    b2b,
+    b2cs: Array.from(b2cs.values()).filter(row => row.taxableValue !== 0),
+    creditNotes,
+    nilRated: Array.from(nilRated.values()),
+    hsnSummary: Array.from(hsn.values()).filter(row => row.totalValue !== 0),
+    rateSummary,
+    outputTax,
+    eligibleItc,
+    ineligibleItc,
+    netTax: {
+      cgst: round2(outputTax.cgst - eligibleItc.cgst),
+      sgst: round2(outputTax.sgst - eligibleItc.sgst),
+      igst: round2(outputTax.igst - eligibleItc.igst),
+    },
+  };
+};
+
+const toJsonItems = (rows: GstRateRow[]) => rows.map((row, index) => ({
+  num: index + 1,
+  itm_det: {
+    txval: row.taxableValue,
+    rt: row.gstRate,
+    iamt: row.igst,
+    camt: row.cgst,
+    samt: row.sgst,
+    csamt: 0,
+  },
+}));
+
+// GSTR-1 in the layout the GST offline tool imports
+export const buildGstr1Json = (gstReturn: GstReturn) => {
+  const [year, month] = gstReturn.month.split('-');
+  const posCode = (state: string) => getStateCode(state) || getStateCode(gstReturn.state);
+
+  const groupByGstin = <T extends { gstin: string }>(rows: T[]) => rows.reduce((acc, row) => {
+    (acc[row.gstin] = acc[row.gstin] || []).push(row);
+    return acc;
+  }, {} as Record<string, T[]>);
+
+  const groupBy = <T>(rows: T[], key: (row: T) => string) => rows.reduce((acc, row) => {
+    (acc[key(row)] = acc[key(row)] || []).push(row);
+    return acc;
+  }, {} as Record<string, T[]>);
+
+  return {
+    gstin: gstReturn.gstin,
+    fp: `${month}${year}`,
+    b2b: Object.entries(groupByGstin(gstReturn.b2b)).map(([ctin, rows]) => ({
+      ctin,
+      inv: Object.values(groupBy(rows, row => row.invoiceNumber)).map(invoiceRows => ({
+        inum: invoiceRows[0].invoiceNumber,
+        idt: formatGstDate(invoiceRows[0].invoiceDate),
+        val: invoiceRows[0].invoiceValue,
+        pos: posCode(invoiceRows[0].placeOfSupply),
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: toJsonItems(invoiceRows),
+      })),
+    })),
+    b2cs: gstReturn.b2cs.map(row => ({
+      sply_ty: row.interstate ? 'INTER' : 'INTRA',
+      pos: posCode(row.placeOfSupply),
+      typ: 'OE',
+      txval: row.taxableValue,
+      rt: row.gstRate,
+      iamt: row.igst,
+      camt: row.cgst,
+      samt: row.sgst,
+      csamt: 0,
+    })),
+    cdnr: Object.entries(groupByGstin(gstReturn.creditNotes)).map(([ctin, rows]) => ({
+      ctin,
+      nt: Object.values(groupBy(rows, row => row.creditNoteNumber)).map(noteRows => ({
+        ntty: 'C',
+        nt_num: noteRows[0].creditNoteNumber,
+        nt_dt: formatGstDate(noteRows[0].creditNoteDate),
+        val: noteRows[0].noteValue,
+        pos: posCode(noteRows[0].placeOfSupply),
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: toJsonItems(noteRows),
+      })),
+    })),
+    nil: {
+      inv: gstReturn.nilRated.map(row => ({
+        sply_ty: row.supplyType,
+        expt_amt: row.exempt,
+        nil_amt: row.nilRated,
+        ngsup_amt: 0,
+      })),
+    },
+    hsn: {
+      data: gstReturn.hsnSummary.map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsnCode,
+        desc: row.description,
+        uqc: 'NOS',
+        qty: row.quantity,
+        val: row.totalValue,
+        txval: row.taxableValue,
+        iamt: row.igst,
+        camt: row.cgst,
+        samt: row.sgst,
+        csamt: 0,
+        rt: row.gstRate,
+      })),
+    },
+  };
+};
@@ -0,0 +1,190 @@
+import { jsPDF } from 'jspdf';
+import { encodeCode128 } from './code128';
+import { encodeQrCode } from './qrcode';
+import { printPdf } from './pdf';
+
+export type LabelSymbology = 'code128' | 'qr';
+
+export interface LabelLayout {
+  id: string;
+  name: string;
+  // Roll labels are printed one per page at the label size
+  sheet: 'a4' | 'roll';
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+// Sizes in mm, matching the common stationery label sheets and roll sizes
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: 'a4-65', name: 'A4 sheet, 65 labels (38.1 x 21.2 mm)', sheet: 'a4', columns: 5, rows: 13, width: 38.1, height: 21.2, marginTop: 10.7, marginLeft: 4.7, gapX: 2.5, gapY: 0 },
+  { id: 'a4-40', name: 'A4 sheet, 40 labels (52.5 x 29.7 mm)', sheet: 'a4', columns: 4, rows: 10, width: 52.5, height: 29.7, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+  { id: 'a4-24', name: 'A4 sheet, 24 labels (70 x 37 mm)', sheet: 'a4', columns: 3, rows: 8, width: 70, height: 37, marginTop: 0.5, marginLeft: 0, gapX: 0, gapY: 0 },
+  { id: 'roll-50x25', name: 'Roll, 50 x 25 mm', sheet: 'roll', columns: 1, rows: 1, width: 50, height: 25, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+  { id: 'roll-38x25', name: 'Roll, 38 x 25 mm', sheet: 'roll', columns: 1, rows: 1, width: 38, height: 25, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+];
+
+export interface LabelItem {
+  code: string;
+  name: string;
+  batchNumber?: string;
+  expiryDate?: string;
+  mrp?: number;
+  mrpUnit?: string;
+  rack?: string;
+  copies: number;
+}
+
+const PADDING = 1.5;
+const QUIET_ZONE_MODULES = 10;
+
+// "2027-01-31" is printed as "01/2027", the way packs show it
+const formatExpiry = (expiryDate: string): string => {
+  const [year, month] = expiryDate.split('-');
+  return year && month ? `${month}/${year}` : expiryDate;
+};
+
+const fitText = (doc: jsPDF, text: string, maxWidth: number): string => {
+  if (doc.getTextWidth(text) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && doc.getTextWidth(`${fitted}...`) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+// The built-in PDF fonts have no rupee sign
+const formatMrp = (item: LabelItem): string => {
+  return item.mrp ? `MRP Rs. ${item.mrp.toFixed(2)}${item.mrpUnit ? `/${item.mrpUnit}` : ''}` : '';
+};
+
+const drawCode128 = (doc: jsPDF, code: string, x: number, y: number, width: number, height: number) => {
+  const widths = encodeCode128(code);
+  const moduleCount = widths.reduce((sum, w) => sum + w, 0) + QUIET_ZONE_MODULES * 2;
+  const moduleWidth = width / moduleCount;
+  let cursor = x + QUIET_ZONE_MODULES * moduleWidth;
+  widths.forEach((w, index) => {
+    // Even positions are bars, odd positions are spaces
+    if (index % 2 === 0) {
+      doc.rect(cursor, y, w * moduleWidth, height, 'F');
+    }
+    cursor += w * moduleWidth;
+  });
+};
+
+const drawQrCode = (doc: jsPDF, code: string, x: number, y: number, size: number) => {
+  const modules = encodeQrCode(code);
+  // Four modules of quiet zone on each side
+  const moduleSize = size / (modules.length + 8);
+  modules.forEach((row, rowIndex) => {
+    row.forEach((dark, columnIndex) => {
+      if (dark) {
+        doc.rect(x + (columnIndex + 4) * moduleSize, y + (rowIndex + 4) * moduleSize, moduleSize, moduleSize, 'F');
+      }
+    });
+  });
+};
+
+const drawLabel = (doc: jsPDF, item: LabelItem, symbology: LabelSymbology, x: number, y: number, layout: LabelLayout) => {
+  const { width, height } = layout;
+  const small = height < 25;
+  const nameSize = small ? 7 : 8;
+  const detailSize = small ? 5.5 : 6.5;
+  const lineHeight = detailSize * 0.45;
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFillColor(0, 0, 0);
+
+  if (symbology === 'qr') {
+    const qrSize = height - PADDING * 2;
+    drawQrCode(doc, item.code, x + PADDING, y + PADDING, qrSize);
+
+    const textX = x + PADDING + qrSize + 1;
+    const textWidth = width - (textX - x) - PADDING;
+    let textY = y + PADDING + nameSize * 0.4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(nameSize);
+    doc.splitTextToSize(item.name, textWidth).slice(0, 2).forEach((line: string) => {
+      doc.text(line, textX, textY);
+      textY += nameSize * 0.42;
+    });
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(detailSize);
+    [
+      item.batchNumber ? `B: ${item.batchNumber}` : '',
+      item.expiryDate ? `Exp: ${formatExpiry(item.expiryDate)}` : '',
+      formatMrp(item),
+      item.rack ? `Rack: ${item.rack}` : '',
+      item.code,
+    ].filter(Boolean).forEach(line => {
+      if (textY > y + height - PADDING) return;
+      doc.text(fitText(doc, line, textWidth), textX, textY);
+      textY += lineHeight;
+    });
+    return;
+  }
+
+  const innerWidth = width - PADDING * 2;
+  let textY = y + PADDING + nameSize * 0.35;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(nameSize);
+  const rackWidth = item.rack ? doc.getTextWidth(item.rack) + 1 : 0;
+  doc.text(fitText(doc, item.name, innerWidth - rackWidth), x + PADDING, textY);
+  if (item.rack) {
+    doc.text(item.rack, x + width - PADDING, textY, { align: 'right' });
+  }
+  textY += lineHeight + 0.6;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(detailSize);
+  [
+    [
+      item.batchNumber ? `B: ${item.batchNumber}` : '',
+      item.expiryDate ? `Exp: ${formatExpiry(item.expiryDate)}` : '',
+    ].filter(Boolean).join('  '),
+    formatMrp(item),
+  ].filter(Boolean).forEach(line => {
+    doc.text(fitText(doc, line, innerWidth), x + PADDING, textY);
+    textY += lineHeight;
+  });
+
+  // The bars take whatever height is left above the printed code
+  const codeTextHeight = detailSize * 0.4;
+  const barsTop = textY - lineHeight * 0.4;
+  const barsHeight = Math.max(3, y + height - PADDING - codeTextHeight - barsTop);
+  drawCode128(doc, item.code, x + PADDING, barsTop, innerWidth, barsHeight);
+  doc.text(item.code, x + width / 2, barsTop + barsHeight + codeTextHeight, { align: 'center' });
+};
+
+export const createLabelPdf = (items: LabelItem[], layout: LabelLayout, symbology: LabelSymbology): jsPDF => {
+  const doc = layout.sheet === 'a4'
+    ? new jsPDF({ unit: 'mm', format: 'a4' })
+    : new jsPDF({ unit: 'mm', format: [layout.width, layout.height], orientation: layout.width > layout.height ? 'landscape' : 'portrait' });
+  const perPage = layout.columns * layout.rows;
+
+  const labels = items.flatMap(item => Array.from({ length: Math.max(0, item.copies) }, () => item));
+  labels.forEach((item, index) => {
+    const position = index % perPage;
+    if (index > 0 && position === 0) {
+      doc.addPage();
+    }
+    const column = position % layout.columns;
+    const row = Math.floor(position / layout.columns);
+    const x = layout.marginLeft + column * (layout.width + layout.gapX);
+    const y = layout.marginTop + row * (layout.height + layout.gapY);
+    drawLabel(doc, item, symbology, x, y, layout);
+  });
+
+  return doc;
+};
+
+export const printLabels = (items: LabelItem[], layout: LabelLayout, symbology: LabelSymbology) => {
+  printPdf(createLabelPdf(items, layout, symbology));
+};
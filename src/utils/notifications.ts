@@ -1,9 +1,10 @@
 import { Medicine, Notification } from '../types';
 import { storage } from './storage';
+import { getMedicineBatches } from './batches';
 
 // Helper function to create a unique notification ID based on medicine and type
-const createNotificationId = (medicineId: string, type: string, severity: string): string => {
-  return `${type}-${severity}-${medicineId}`;
+const createNotificationId = (medicineId: string, type: string, severity: string, batchId?: string): string => {
+  return batchId ? `${type}-${severity}-${medicineId}-${batchId}` : `${type}-${severity}-${medicineId}`;
 };
 
 export const generateNotifications = (medicines: Medicine[]): Notification[] => {
@@ -13,32 +14,39 @@ export const generateNotifications = (medicines: Medicine[]): Notification[] =>
   oneMonthFromNow.setMonth(today.getMonth() + 1);
 
   medicines.forEach(medicine => {
-    const expiryDate = new Date(medicine.expiryDate);
-    
-    // Check for expiry notifications
-    if (expiryDate <= today) {
-      notifications.push({
-        id: createNotificationId(medicine.id, 'expiry', 'high'),
-        type: 'expiry',
-        title: 'Medicine Expired',
-        message: `${medicine.name} (${medicine.brand}) has expired on ${medicine.expiryDate}`,
-        severity: 'high',
-        isRead: false,
-        createdAt: new Date().toISOString(),
-        medicineId: medicine.id,
-      });
-    } else if (expiryDate <= oneMonthFromNow) {
-      notifications.push({
-        id: createNotificationId(medicine.id, 'expiry', 'medium'),
-        type: 'expiry',
-        title: 'Medicine Expiring Soon',
-        message: `${medicine.name} (${medicine.brand}) will expire on ${medicine.expiryDate}`,
-        severity: 'medium',
-        isRead: false,
-        createdAt: new Date().toISOString(),
-        medicineId: medicine.id,
+    // Check for expiry notifications on every batch that still has stock
+    getMedicineBatches(medicine)
+      .filter(batch => batch.quantity > 0 && batch.expiryDate)
+      .forEach(batch => {
+        const expiryDate = new Date(batch.expiryDate);
+        const batchLabel = batch.batchNumber ? ` batch ${batch.batchNumber}` : '';
+
+        if (expiryDate <= today) {
+          notifications.push({
+            id: createNotificationId(medicine.id, 'expiry', 'high', batch.id),
+            type: 'expiry',
+            title: 'Medicine Expired',
+            message: `${medicine.name} (${medicine.brand})${batchLabel} has expired on ${batch.expiryDate}. Quantity: ${batch.quantity}`,
+            severity: 'high',
+            isRead: false,
+            createdAt: new Date().toISOString(),
+            medicineId: medicine.id,
+            batchId: batch.id,
+          });
+        } else if (expiryDate <= oneMonthFromNow) {
+          notifications.push({
+            id: createNotificationId(medicine.id, 'expiry', 'medium', batch.id),
+            type: 'expiry',
+            title: 'Medicine Expiring Soon',
+            message: `${medicine.name} (${medicine.brand})${batchLabel} will expire on ${batch.expiryDate}. Quantity: ${batch.quantity}`,
+            severity: 'medium',
+            isRead: false,
+            createdAt: new Date().toISOString(),
+            medicineId: medicine.id,
+            batchId: batch.id,
+          });
+        }
       });
-    }
 
     // Check for low stock notifications
     if (medicine.quantity <= medicine.minStockLevel) {
@@ -59,12 +67,11 @@ export const generateNotifications = (medicines: Medicine[]): Notification[] =>
   return notifications;
 };
 
-export const updateNotifications = () => {
-  const medicines = storage.getMedicines();
+export const updateNotifications = async (medicines: Medicine[]): Promise<Notification[]> => {
   const newNotifications = generateNotifications(medicines);
   
   // Get existing notifications to preserve read status
-  const existingNotifications = storage.getNotifications();
+  const existingNotifications = await storage.getNotifications();
   
   // Create a map of existing notifications by ID to preserve read status
   const existingNotificationMap = new Map(
@@ -95,7 +102,10 @@ export const updateNotifications = () => {
     
     // Check if the notification is still valid
     if (notification.type === 'expiry') {
-      const expiryDate = new Date(medicine.expiryDate);
+      const batch = getMedicineBatches(medicine).find(b => b.id === notification.batchId);
+      if (!batch || batch.quantity <= 0) return false; // Remove notifications for sold-out or deleted batches
+
+      const expiryDate = new Date(batch.expiryDate);
       const oneMonthFromNow = new Date();
       oneMonthFromNow.setMonth(oneMonthFromNow.getMonth() + 1);
       
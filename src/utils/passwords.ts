@@ -0,0 +1,78 @@
+import { SecuritySettings } from '../types';
+
+// Stored as pbkdf2-sha256$<iterations>$<salt>$<hash>, salt and hash in base64.
+// Raising ITERATIONS upgrades existing hashes the next time each user signs in.
+const ALGORITHM = 'pbkdf2-sha256';
+const ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  passwordMinLength: 8,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  maxFailedAttempts: 5,
+  lockoutMinutes: 15,
+  sessionTimeoutHours: 12,
+  idleLockMinutes: 5,
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const derive = async (password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return `${ALGORITHM}$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [algorithm, iterations, salt, hash] = storedHash.split('$');
+  if (algorithm !== ALGORITHM || !iterations || !salt || !hash) return false;
+
+  const expected = fromBase64(hash);
+  const actual = await derive(password, fromBase64(salt), parseInt(iterations));
+  if (actual.length !== expected.length) return false;
+
+  // Compare every byte so the time taken does not reveal where they differ
+  let difference = 0;
+  actual.forEach((byte, index) => {
+    difference |= byte ^ expected[index];
+  });
+  return difference === 0;
+};
+
+export const needsRehash = (storedHash: string): boolean => {
+  const [algorithm, iterations] = storedHash.split('$');
+  return algorithm !== ALGORITHM || parseInt(iterations) < ITERATIONS;
+};
+
+// Returns the requirements the password does not meet; an empty list means it is acceptable
+export const validatePassword = (password: string, policy: SecuritySettings): string[] => {
+  const problems: string[] = [];
+  if (password.length < policy.passwordMinLength) {
+    problems.push(`at least ${policy.passwordMinLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push('an uppercase letter');
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    problems.push('a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push('a symbol');
+  }
+  return problems;
+};
+
+export const describePasswordPolicy = (policy: SecuritySettings): string => {
+  return `Password must contain ${validatePassword('', { ...policy, passwordMinLength: Math.max(policy.passwordMinLength, 1) }).join(', ')}.`;
+};
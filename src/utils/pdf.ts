@@ -0,0 +1,143 @@
+import { jsPDF } from 'jspdf';
+import { PaperSize, PrintSettings, SettingsData } from '../types';
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  prescriptionPaperSize: 'A5',
+  prescriptionLanguage: 'en',
+  billPaperSize: 'A5',
+  receiptWidth: '80mm',
+  printServerUrl: '',
+};
+
+export const PAPER_SIZES: PaperSize[] = ['A4', 'A5'];
+
+const PT_TO_MM = 0.3528;
+
+export const createPdf = (paperSize: PaperSize): jsPDF => {
+  return new jsPDF({ unit: 'mm', format: paperSize.toLowerCase() });
+};
+
+// Page margin in mm. A5 gets a narrower one so the tables keep their width.
+export const getMargin = (doc: jsPDF): number => (doc.internal.pageSize.getWidth() < 200 ? 10 : 15);
+
+// jspdf-autotable records where the last table ended on the document
+export const getTableEndY = (doc: jsPDF): number => {
+  return (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY || 0;
+};
+
+const getImageFormat = (dataUrl: string): string => (dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG');
+
+// Draws the doctor and clinic details across the top of the page and returns the y position below them
+export const drawLetterhead = (doc: jsPDF, settings: SettingsData): number => {
+  const margin = getMargin(doc);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const compact = pageWidth < 200;
+  let leftY = margin + 4;
+  let rightY = margin + 4;
+  let leftX = margin;
+  let logoBottom = 0;
+
+  if (settings.clinicLogo) {
+    const logoSize = compact ? 16 : 20;
+    try {
+      doc.addImage(settings.clinicLogo, getImageFormat(settings.clinicLogo), margin, margin, logoSize, logoSize);
+      leftX = margin + logoSize + 4;
+      logoBottom = margin + logoSize + 2;
+    } catch (error) {
+      console.error('Error drawing clinic logo:', error);
+    }
+  }
+
+  doc.setTextColor(30, 64, 175);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(compact ? 14 : 18);
+  doc.text(settings.doctorName, leftX, leftY);
+  leftY += compact ? 5 : 6;
+
+  doc.setTextColor(60, 60, 60);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(compact ? 8 : 9);
+  [
+    settings.specialization,
+    settings.registrationNumber ? `Reg. No: ${settings.registrationNumber}` : '',
+  ].filter(Boolean).forEach(line => {
+    doc.text(line as string, leftX, leftY);
+    leftY += 4;
+  });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(compact ? 11 : 13);
+  doc.setTextColor(30, 30, 30);
+  doc.text(settings.clinicName, pageWidth - margin, rightY, { align: 'right' });
+  rightY += compact ? 5 : 6;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(compact ? 8 : 9);
+  doc.setTextColor(60, 60, 60);
+  const addressLines = doc.splitTextToSize(settings.clinicAddress, pageWidth / 2 - margin);
+  [
+    ...addressLines,
+    settings.clinicPhone ? `Ph: ${settings.clinicPhone}` : '',
+    settings.clinicEmail,
+    settings.website,
+  ].filter(Boolean).forEach(line => {
+    doc.text(line, pageWidth - margin, rightY, { align: 'right' });
+    rightY += 4;
+  });
+
+  const bottom = Math.max(leftY, rightY, logoBottom);
+  doc.setDrawColor(30, 64, 175);
+  doc.setLineWidth(0.6);
+  doc.line(margin, bottom, pageWidth - margin, bottom);
+  doc.setTextColor(0, 0, 0);
+  return bottom + 6;
+};
+
+// The built-in PDF fonts only cover Latin text. Tamil and Hindi are drawn by
+// the browser onto a canvas and placed as an image so they render correctly.
+export const drawTextImage = (doc: jsPDF, text: string, x: number, y: number, fontSize: number, maxWidth: number) => {
+  const scale = 4;
+  const fontPx = fontSize * scale;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  context.font = `${fontPx}px sans-serif`;
+  canvas.width = Math.ceil(context.measureText(text).width) + 4;
+  canvas.height = Math.ceil(fontPx * 1.5);
+
+  // Resizing the canvas resets the context
+  context.font = `${fontPx}px sans-serif`;
+  context.fillStyle = '#000000';
+  context.textBaseline = 'middle';
+  context.fillText(text, 2, canvas.height / 2);
+
+  let width = (canvas.width / scale) * PT_TO_MM;
+  let height = (canvas.height / scale) * PT_TO_MM;
+  if (width > maxWidth) {
+    height = height * (maxWidth / width);
+    width = maxWidth;
+  }
+  doc.addImage(canvas.toDataURL('image/png'), 'PNG', x, y, width, height);
+};
+
+export const printPdf = (doc: jsPDF) => {
+  doc.autoPrint();
+  const url = doc.output('bloburl');
+  const printWindow = window.open(url.toString(), '_blank');
+  if (!printWindow) {
+    alert('Please allow pop-ups for this site to print.');
+  }
+};
+
+// Hands the PDF to the phone's share sheet (WhatsApp, email...). Browsers that
+// cannot share files get a download instead so it can be attached by hand.
+export const sharePdf = async (doc: jsPDF, filename: string, title: string): Promise<boolean> => {
+  const file = new File([doc.output('blob')], filename, { type: 'application/pdf' });
+  if (navigator.canShare && navigator.canShare({ files: [file] })) {
+    await navigator.share({ files: [file], title });
+    return true;
+  }
+  doc.save(filename);
+  return false;
+};
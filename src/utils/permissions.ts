@@ -0,0 +1,69 @@
+import { Permission, RolePermissions, UserRole } from '../types';
+
+// Discounts up to this share of the bill need no special permission
+export const DISCOUNT_LIMIT_PERCENT = 10;
+
+export const ROLES: { id: UserRole; label: string }[] = [
+  { id: 'admin', label: 'Admin' },
+  { id: 'salesman', label: 'Salesman' },
+  { id: 'pharmacist', label: 'Pharmacist' },
+  { id: 'doctor', label: 'Doctor' },
+  { id: 'receptionist', label: 'Receptionist' },
+  { id: 'accountant', label: 'Accountant' },
+];
+
+export const PERMISSIONS: { id: Permission; label: string; group: 'Sections' | 'Actions' }[] = [
+  { id: 'view_dashboard', label: 'Dashboard', group: 'Sections' },
+  { id: 'view_patients', label: 'Patients', group: 'Sections' },
+  { id: 'view_appointments', label: 'Appointments', group: 'Sections' },
+  { id: 'view_token_queue', label: 'Token Queue', group: 'Sections' },
+  { id: 'view_reminders', label: 'Reminders', group: 'Sections' },
+  { id: 'view_sales', label: 'Sales', group: 'Sections' },
+  { id: 'view_medicines', label: 'Medicines', group: 'Sections' },
+  { id: 'view_purchases', label: 'Purchases', group: 'Sections' },
+  { id: 'view_suppliers', label: 'Suppliers', group: 'Sections' },
+  { id: 'view_notifications', label: 'Notifications', group: 'Sections' },
+  { id: 'view_reports', label: 'Reports', group: 'Sections' },
+  { id: 'manage_users', label: 'User Management', group: 'Sections' },
+  { id: 'manage_settings', label: 'Settings', group: 'Sections' },
+  { id: 'view_audit_log', label: 'Audit Log', group: 'Sections' },
+  { id: 'delete_bill', label: 'Delete bill', group: 'Actions' },
+  { id: 'give_high_discount', label: `Give discount above ${DISCOUNT_LIMIT_PERCENT}%`, group: 'Actions' },
+  { id: 'edit_medicine_price', label: 'Edit medicine price', group: 'Actions' },
+  { id: 'view_profit', label: 'View profit and cost', group: 'Actions' },
+  { id: 'restore_backup', label: 'Restore backup', group: 'Actions' },
+  { id: 'record_visits', label: 'Record patient visits', group: 'Actions' },
+  { id: 'call_tokens', label: 'Call patient tokens', group: 'Actions' },
+];
+
+// Admins always hold every permission so the matrix cannot lock everyone out
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  admin: PERMISSIONS.map(p => p.id),
+  salesman: ['view_dashboard', 'view_patients', 'view_sales', 'view_medicines', 'view_purchases'],
+  pharmacist: ['view_dashboard', 'view_patients', 'view_sales', 'view_medicines', 'view_purchases', 'view_notifications', 'edit_medicine_price'],
+  doctor: ['view_dashboard', 'view_patients', 'view_appointments', 'view_token_queue', 'view_reminders', 'view_sales', 'give_high_discount', 'record_visits', 'call_tokens'],
+  receptionist: ['view_dashboard', 'view_patients', 'view_appointments', 'view_token_queue', 'view_reminders', 'view_sales'],
+  accountant: ['view_dashboard', 'view_sales', 'view_purchases', 'view_suppliers', 'view_reports', 'view_profit'],
+};
+
+// Which permission opens each section of the app
+export const SECTION_PERMISSIONS: Record<string, Permission> = {
+  dashboard: 'view_dashboard',
+  customers: 'view_patients',
+  appointments: 'view_appointments',
+  tokens: 'view_token_queue',
+  reminders: 'view_reminders',
+  sales: 'view_sales',
+  medicines: 'view_medicines',
+  purchases: 'view_purchases',
+  suppliers: 'view_suppliers',
+  notifications: 'view_notifications',
+  reports: 'view_reports',
+  users: 'manage_users',
+  settings: 'manage_settings',
+  audit: 'view_audit_log',
+};
+
+export const getRoleLabel = (role: UserRole): string => {
+  return ROLES.find(r => r.id === role)?.label || role;
+};
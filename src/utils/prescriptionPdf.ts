@@ -0,0 +1,211 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Customer, PaperSize, Prescription, PrescriptionItem, PrescriptionLanguage, SettingsData, Visit } from '../types';
+import { DEFAULT_PRINT_SETTINGS, createPdf, drawLetterhead, drawTextImage, getMargin, getTableEndY, printPdf } from './pdf';
+import { getDosesPerDay } from './prescriptions';
+import { formatVitals } from './visits';
+
+export const PRESCRIPTION_LANGUAGES: { id: PrescriptionLanguage; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'ta', label: 'Tamil' },
+  { id: 'hi', label: 'Hindi' },
+];
+
+const DOSAGE_WORDS: Record<PrescriptionLanguage, { slots: string[]; fourSlots: string[]; asNeeded: string; days: (count: number) => string }> = {
+  en: {
+    slots: ['Morning', 'Afternoon', 'Night'],
+    fourSlots: ['Morning', 'Afternoon', 'Evening', 'Night'],
+    asNeeded: 'When required',
+    days: count => `for ${count} day${count === 1 ? '' : 's'}`,
+  },
+  ta: {
+    slots: ['காலை', 'மதியம்', 'இரவு'],
+    fourSlots: ['காலை', 'மதியம்', 'மாலை', 'இரவு'],
+    asNeeded: 'தேவைப்படும்போது',
+    days: count => `${count} நாட்கள்`,
+  },
+  hi: {
+    slots: ['सुबह', 'दोपहर', 'रात'],
+    fourSlots: ['सुबह', 'दोपहर', 'शाम', 'रात'],
+    asNeeded: 'ज़रूरत होने पर',
+    days: count => `${count} दिन`,
+  },
+};
+
+// Anything outside Latin-1 cannot be drawn with the built-in PDF fonts
+const NON_LATIN = /[^\n -\u00ff]/;
+
+const formatDose = (dose: number): string => (dose === 0.5 ? '1/2' : dose.toString());
+
+// "1 Morning - 1 Night, for 5 days" from a 1-0-1 frequency, in the chosen language
+export const describeDosage = (item: PrescriptionItem, language: PrescriptionLanguage): string => {
+  const words = DOSAGE_WORDS[language];
+  const parts = item.frequency.split('-');
+  const slots = parts.length === 4 ? words.fourSlots : parts.length === 3 ? words.slots : null;
+
+  let schedule: string;
+  if (getDosesPerDay(item.frequency) === 0) {
+    schedule = words.asNeeded;
+  } else if (slots) {
+    schedule = parts
+      .map((part, index) => (parseFloat(part) > 0 ? `${formatDose(parseFloat(part) * item.dose)} ${slots[index]}` : ''))
+      .filter(Boolean)
+      .join(' - ');
+  } else {
+    schedule = `${formatDose(item.dose)} ${item.frequency}`;
+  }
+
+  return item.durationDays > 0 ? `${schedule}, ${words.days(item.durationDays)}` : schedule;
+};
+
+export const formatAge = (dateOfBirth?: string, on = new Date()): string => {
+  if (!dateOfBirth) return '';
+  const birthDate = new Date(dateOfBirth);
+  let months = (on.getFullYear() - birthDate.getFullYear()) * 12 + on.getMonth() - birthDate.getMonth();
+  if (on.getDate() < birthDate.getDate()) months--;
+  if (months < 0) return '';
+  return months < 12 ? `${months} months` : `${Math.floor(months / 12)} years`;
+};
+
+interface PrescriptionDocument {
+  settings: SettingsData;
+  customer: Customer;
+  visit: Visit;
+  prescription?: Prescription | null;
+  paperSize?: PaperSize;
+  language?: PrescriptionLanguage;
+}
+
+export const createPrescriptionPdf = ({
+  settings,
+  customer,
+  visit,
+  prescription,
+  paperSize = settings.printing?.prescriptionPaperSize || DEFAULT_PRINT_SETTINGS.prescriptionPaperSize,
+  language = settings.printing?.prescriptionLanguage || DEFAULT_PRINT_SETTINGS.prescriptionLanguage,
+}: PrescriptionDocument): jsPDF => {
+  const doc = createPdf(paperSize);
+  const margin = getMargin(doc);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margin * 2;
+  const compact = paperSize === 'A5';
+  const bodySize = compact ? 9 : 10;
+  const lineHeight = compact ? 4.5 : 5;
+
+  let y = drawLetterhead(doc, settings);
+
+  // Patient details
+  const age = formatAge(customer.dateOfBirth, new Date(visit.visitDate));
+  doc.setFontSize(bodySize);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`${customer.name}${age ? `, ${age}` : ''}`, margin, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Date: ${new Date(visit.visitDate).toLocaleDateString()}`, pageWidth - margin, y, { align: 'right' });
+  y += lineHeight;
+  doc.text(`Patient ID: ${customer.patientId}   Ph: ${customer.phone}`, margin, y);
+  y += lineHeight + 2;
+
+  const addSection = (label: string, text?: string) => {
+    if (!text) return;
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, margin, y);
+    const labelWidth = doc.getTextWidth(`${label}: `);
+    doc.setFont('helvetica', 'normal');
+    const lines = doc.splitTextToSize(text, contentWidth - labelWidth);
+    doc.text(lines, margin + labelWidth, y);
+    y += lines.length * lineHeight;
+  };
+
+  addSection('Vitals', formatVitals(visit.vitals).join(', '));
+  addSection('Complaint', visit.chiefComplaint);
+  addSection('Examination', visit.examinationNotes);
+  addSection('Diagnosis', visit.diagnosis);
+  y += 2;
+
+  // Rx table
+  const items = prescription?.items || [];
+  if (items.length > 0) {
+    doc.setFont('times', 'bolditalic');
+    doc.setFontSize(compact ? 16 : 20);
+    doc.text('Rx', margin, y + 4);
+    y += compact ? 7 : 9;
+
+    const body = items.map((item, index) => [
+      (index + 1).toString(),
+      item.medicineName,
+      item.route,
+      describeDosage(item, language),
+      item.instructions || '',
+    ]);
+
+    autoTable(doc, {
+      startY: y,
+      margin: { left: margin, right: margin },
+      head: [['#', 'Medicine', 'Route', 'Dosage', 'Instructions']],
+      body,
+      theme: 'grid',
+      styles: { fontSize: compact ? 8 : 9, cellPadding: 1.5, minCellHeight: compact ? 6 : 7, valign: 'middle' },
+      headStyles: { fillColor: [30, 64, 175], textColor: 255 },
+      columnStyles: {
+        0: { cellWidth: 7 },
+        1: { cellWidth: contentWidth * 0.28 },
+        2: { cellWidth: contentWidth * 0.13 },
+      },
+      // Non-Latin text is left out of the cell and drawn as an image instead
+      willDrawCell: data => {
+        if (data.section === 'body' && NON_LATIN.test(String(data.cell.raw))) {
+          data.cell.text = [];
+        }
+      },
+      didDrawCell: data => {
+        const text = String(data.cell.raw);
+        if (data.section !== 'body' || !NON_LATIN.test(text)) return;
+        const padding = data.cell.padding('left');
+        drawTextImage(doc, text, data.cell.x + padding, data.cell.y + 1, compact ? 8 : 9, data.cell.width - padding * 2);
+      },
+    });
+    y = getTableEndY(doc) + lineHeight + 1;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(bodySize);
+  addSection('Advice', visit.advice);
+  if (visit.followUpDate) {
+    y += 1;
+    addSection('Follow-up on', new Date(visit.followUpDate).toLocaleDateString());
+  }
+
+  // Signature block at the foot of the page, on a new page if the content reaches it
+  const signatureHeight = 18;
+  if (y + signatureHeight > pageHeight - margin) {
+    doc.addPage();
+    y = margin;
+  }
+  const signatureY = pageHeight - margin - signatureHeight;
+  const signatureX = pageWidth - margin;
+  doc.setDrawColor(120, 120, 120);
+  doc.setLineWidth(0.3);
+  doc.line(signatureX - 50, signatureY + 8, signatureX, signatureY + 8);
+  doc.setFont('helvetica', 'bold');
+  doc.text(visit.doctorName || settings.doctorName, signatureX, signatureY + 13, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(compact ? 7 : 8);
+  if (settings.registrationNumber) {
+    doc.text(`Reg. No: ${settings.registrationNumber}`, signatureX, signatureY + 17, { align: 'right' });
+  }
+
+  return doc;
+};
+
+export const getPrescriptionFilename = (customer: Customer, visit: Visit): string => {
+  return `Prescription_${customer.patientId}_${visit.visitDate}.pdf`;
+};
+
+export const printPrescription = (document: PrescriptionDocument) => {
+  printPdf(createPrescriptionPdf(document));
+};
+
+export const downloadPrescription = (document: PrescriptionDocument) => {
+  createPrescriptionPdf(document).save(getPrescriptionFilename(document.customer, document.visit));
+};
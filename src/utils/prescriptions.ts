@@ -0,0 +1,101 @@
+import { Prescription, PrescriptionItem, SaleItem } from '../types';
+
+export type PrescriptionStatus = 'pending' | 'partial' | 'dispensed';
+
+export const FREQUENCIES = ['1-0-0', '0-1-0', '0-0-1', '1-0-1', '1-1-0', '0-1-1', '1-1-1', '1-1-1-1', 'SOS'];
+
+export const ROUTES = ['Oral', 'Topical', 'Inhalation', 'Eye drops', 'Ear drops', 'Nasal', 'Sublingual', 'IM injection', 'IV injection', 'SC injection', 'Rectal'];
+
+// Latin shorthand some doctors still write instead of the 1-0-1 pattern
+const FREQUENCY_CODES: Record<string, number> = {
+  OD: 1,
+  HS: 1,
+  BD: 2,
+  TDS: 3,
+  QID: 4,
+  SOS: 0,
+  STAT: 0,
+};
+
+export const getDosesPerDay = (frequency: string): number => {
+  const code = FREQUENCY_CODES[frequency.trim().toUpperCase()];
+  if (code !== undefined) return code;
+  return frequency.split('-').reduce((sum, part) => sum + (parseFloat(part) || 0), 0);
+};
+
+// Tablet-type stock is counted in single tablets, so dose x frequency x days
+// gives the quantity directly. Syrups, creams and SOS doses are entered by hand.
+export const isTabletUnit = (unitType?: string): boolean => {
+  return ['tablets', 'capsules', 'strips'].includes(unitType?.toLowerCase() || '');
+};
+
+export const calculatePrescribedQuantity = (dose: number, frequency: string, durationDays: number): number => {
+  return Math.ceil(dose * getDosesPerDay(frequency) * durationDays);
+};
+
+export const formatStripQuantity = (quantity: number, tabletsPerStrip = 1): string => {
+  if (tabletsPerStrip <= 1) return `${quantity} tablets`;
+  const strips = Math.floor(quantity / tabletsPerStrip);
+  const tablets = quantity % tabletsPerStrip;
+  return [
+    strips > 0 ? `${strips} strip${strips === 1 ? '' : 's'}` : '',
+    tablets > 0 ? `${tablets} tablet${tablets === 1 ? '' : 's'}` : '',
+  ].filter(Boolean).join(' + ') || '0 tablets';
+};
+
+export const getDispensedQuantity = (prescription: Prescription, itemId: string): number => {
+  return prescription.dispensings.reduce((total, dispensing) =>
+    total + dispensing.items
+      .filter(item => item.prescriptionItemId === itemId)
+      .reduce((sum, item) => sum + item.quantity, 0),
+    0
+  );
+};
+
+export const getRemainingQuantity = (prescription: Prescription, item: PrescriptionItem): number => {
+  return Math.max(0, item.quantity - getDispensedQuantity(prescription, item.id));
+};
+
+// Items not stocked in the pharmacy cannot be dispensed here and do not hold the prescription open
+export const getPrescriptionStatus = (prescription: Prescription): PrescriptionStatus => {
+  const dispensable = prescription.items.filter(item => item.medicineId);
+  const dispensed = dispensable.reduce((sum, item) => sum + getDispensedQuantity(prescription, item.id), 0);
+  if (dispensed === 0) return 'pending';
+  return dispensable.every(item => getRemainingQuantity(prescription, item) === 0) ? 'dispensed' : 'partial';
+};
+
+// Oldest first, so the counter completes earlier prescriptions before newer ones
+export const getOpenPrescriptions = (prescriptions: Prescription[], customerId: string): Prescription[] => {
+  return prescriptions
+    .filter(prescription => prescription.customerId === customerId && getPrescriptionStatus(prescription) !== 'dispensed')
+    .filter(prescription => prescription.items.some(item => item.medicineId))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Counts what a bill handed over against the prescription, up to the quantity still owed on each item
+export const recordDispensing = (prescription: Prescription, saleId: string, saleItems: SaleItem[]): Prescription => {
+  const sold = new Map<string, number>();
+  saleItems.forEach(item => sold.set(item.medicineId, (sold.get(item.medicineId) || 0) + item.quantity));
+
+  const items = prescription.items
+    .filter(item => item.medicineId)
+    .map(item => {
+      const available = sold.get(item.medicineId) || 0;
+      const quantity = Math.min(available, getRemainingQuantity(prescription, item));
+      sold.set(item.medicineId, available - quantity);
+      return { prescriptionItemId: item.id, quantity };
+    })
+    .filter(item => item.quantity > 0);
+
+  if (items.length === 0) return prescription;
+
+  return {
+    ...prescription,
+    dispensings: [...prescription.dispensings, { saleId, dispensedAt: new Date().toISOString(), items }],
+  };
+};
+
+export const removeDispensing = (prescription: Prescription, saleId: string): Prescription => ({
+  ...prescription,
+  dispensings: prescription.dispensings.filter(dispensing => dispensing.saleId !== saleId),
+});
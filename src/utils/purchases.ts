@@ -0,0 +1,207 @@
+import { Medicine, MedicineBatch, Purchase } from '../types';
+import { applyBatches, createBatchId, getMedicineBatches } from './batches';
+
+export interface PurchaseLineInput {
+  medicineId: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+  freeQuantity: number;
+  rate: number;
+  schemeDiscount: number;
+  gstRate: number;
+  mrp?: number;
+}
+
+export interface PurchaseInvoiceInput {
+  supplier: string;
+  supplierId?: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  lines: PurchaseLineInput[];
+}
+
+export interface PurchaseLineTotals {
+  grossAmount: number;
+  discountAmount: number;
+  taxableAmount: number;
+  gstAmount: number;
+  totalAmount: number;
+}
+
+// One posted supplier invoice, rebuilt from its Purchase line records
+export interface GoodsReceipt {
+  grnNumber: string;
+  invoiceNumber: string;
+  supplier: string;
+  purchaseDate: string;
+  createdAt: string;
+  lines: Purchase[];
+  taxableAmount: number;
+  gstAmount: number;
+  totalAmount: number;
+}
+
+// Scheme discount is taken on the billed quantity; free quantity carries no value
+export const calculatePurchaseLine = (line: Pick<PurchaseLineInput, 'quantity' | 'rate' | 'schemeDiscount' | 'gstRate'>): PurchaseLineTotals => {
+  const grossAmount = line.quantity * line.rate;
+  const discountAmount = (grossAmount * line.schemeDiscount) / 100;
+  const taxableAmount = grossAmount - discountAmount;
+  const gstAmount = (taxableAmount * line.gstRate) / 100;
+
+  return {
+    grossAmount,
+    discountAmount,
+    taxableAmount,
+    gstAmount,
+    totalAmount: taxableAmount + gstAmount,
+  };
+};
+
+export const generateGrnNumber = (purchases: Purchase[]): string => {
+  const today = new Date();
+  const year = today.getFullYear().toString().slice(-2);
+  const month = (today.getMonth() + 1).toString().padStart(2, '0');
+  const prefix = `GRN${year}${month}`;
+
+  const existingNumbers = purchases
+    .filter(p => p.grnNumber && p.grnNumber.startsWith(prefix))
+    .map(p => parseInt(p.grnNumber.slice(prefix.length)) || 0);
+
+  const maxNumber = existingNumbers.length > 0 ? Math.max(...existingNumbers) : 0;
+  return `${prefix}${(maxNumber + 1).toString().padStart(4, '0')}`;
+};
+
+export const isDuplicateSupplierInvoice = (purchases: Purchase[], supplier: string, invoiceNumber: string): boolean => {
+  return purchases.some(p =>
+    p.supplier.trim().toLowerCase() === supplier.trim().toLowerCase() &&
+    p.invoiceNumber.trim().toLowerCase() === invoiceNumber.trim().toLowerCase()
+  );
+};
+
+// Stock units received for a medicine, billed plus free
+export const getPurchasedQuantity = (purchases: Purchase[], medicineId: string): number => {
+  return purchases
+    .filter(p => p.medicineId === medicineId)
+    .reduce((sum, p) => sum + p.quantity + (p.freeQuantity || 0), 0);
+};
+
+export const groupPurchasesByGrn = (purchases: Purchase[]): GoodsReceipt[] => {
+  const receipts: Record<string, GoodsReceipt> = {};
+
+  purchases.forEach(purchase => {
+    const key = purchase.grnNumber || purchase.id;
+    if (!receipts[key]) {
+      receipts[key] = {
+        grnNumber: key,
+        invoiceNumber: purchase.invoiceNumber || '',
+        supplier: purchase.supplier,
+        purchaseDate: purchase.purchaseDate,
+        createdAt: purchase.createdAt,
+        lines: [],
+        taxableAmount: 0,
+        gstAmount: 0,
+        totalAmount: 0,
+      };
+    }
+    const receipt = receipts[key];
+    receipt.lines.push(purchase);
+    receipt.taxableAmount += purchase.taxableAmount || 0;
+    receipt.gstAmount += purchase.gstAmount || 0;
+    receipt.totalAmount += purchase.totalCost;
+  });
+
+  return Object.values(receipts).sort((a, b) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+};
+
+// Turn a supplier invoice into Purchase records and add the received stock to
+// each medicine's batch ledger. A line for a batch number the medicine already
+// holds tops up that batch instead of opening a new one.
+export const postPurchaseInvoice = (
+  invoice: PurchaseInvoiceInput,
+  medicines: Medicine[],
+  purchases: Purchase[]
+): { purchases: Purchase[]; medicines: Medicine[] } => {
+  const grnNumber = generateGrnNumber(purchases);
+  const createdAt = new Date().toISOString();
+  const ledgers: Record<string, MedicineBatch[]> = {};
+  const newPurchases: Purchase[] = [];
+
+  invoice.lines.forEach((line, index) => {
+    const medicine = medicines.find(m => m.id === line.medicineId);
+    if (!medicine) return;
+
+    const totals = calculatePurchaseLine(line);
+    const receivedQuantity = line.quantity + line.freeQuantity;
+    const unitCost = receivedQuantity > 0 ? totals.taxableAmount / receivedQuantity : 0;
+    const batches = ledgers[medicine.id] || getMedicineBatches(medicine);
+    const existingBatch = batches.find(batch => batch.batchNumber === line.batchNumber);
+
+    let batchId: string;
+    if (existingBatch) {
+      batchId = existingBatch.id;
+      ledgers[medicine.id] = batches.map(batch =>
+        batch.id === existingBatch.id
+          ? {
+              ...batch,
+              quantity: batch.quantity + receivedQuantity,
+              expiryDate: line.expiryDate || batch.expiryDate,
+              costPrice: unitCost,
+              supplier: invoice.supplier,
+              purchaseDate: invoice.invoiceDate,
+              invoiceNumber: invoice.invoiceNumber,
+            }
+          : batch
+      );
+    } else {
+      batchId = createBatchId();
+      ledgers[medicine.id] = [...batches, {
+        id: batchId,
+        batchNumber: line.batchNumber,
+        expiryDate: line.expiryDate,
+        quantity: receivedQuantity,
+        costPrice: unitCost,
+        supplier: invoice.supplier,
+        purchaseDate: invoice.invoiceDate,
+        invoiceNumber: invoice.invoiceNumber,
+        createdAt,
+      }];
+    }
+
+    newPurchases.push({
+      id: `purchase-${Date.now()}-${index}`,
+      medicineId: medicine.id,
+      medicineName: medicine.name,
+      brand: medicine.brand,
+      category: medicine.category,
+      supplier: invoice.supplier,
+      supplierId: invoice.supplierId,
+      quantity: line.quantity,
+      costPrice: line.rate,
+      totalCost: totals.totalAmount,
+      batchNumber: line.batchNumber,
+      expiryDate: line.expiryDate,
+      purchaseDate: invoice.invoiceDate,
+      createdAt,
+      grnNumber,
+      invoiceNumber: invoice.invoiceNumber,
+      batchId,
+      freeQuantity: line.freeQuantity,
+      schemeDiscount: line.schemeDiscount,
+      taxableAmount: totals.taxableAmount,
+      gstRate: line.gstRate,
+      gstAmount: totals.gstAmount,
+      hsnCode: medicine.hsnCode,
+      mrp: line.mrp,
+    });
+  });
+
+  return {
+    purchases: [...purchases, ...newPurchases],
+    medicines: medicines.map(medicine =>
+      ledgers[medicine.id] ? applyBatches(medicine, ledgers[medicine.id]) : medicine
+    ),
+  };
+};
@@ -0,0 +1,269 @@
+import { Customer, Medicine, ReceiptWidth, Sale, SettingsData } from '../types';
+import { BillItem, formatBillQuantity, getRateUnit } from './bills';
+import { formatBatchAllocations } from './batches';
+import { amountInWords, calculateTaxInvoice } from './gst';
+import { isServiceItem } from './returns';
+
+export const RECEIPT_COLUMNS: Record<ReceiptWidth, number> = {
+  '58mm': 32,
+  '80mm': 48,
+};
+
+export type ReceiptAlign = 'left' | 'center' | 'right';
+
+export type ReceiptLine =
+  | { type: 'text'; text: string; align?: ReceiptAlign; bold?: boolean; large?: boolean }
+  | { type: 'columns'; left: string; right: string; bold?: boolean }
+  | { type: 'divider'; char?: string }
+  | { type: 'qr'; data: string }
+  | { type: 'feed'; lines: number }
+  | { type: 'cut' };
+
+// Thermal printers only have an ASCII code page we can rely on
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  '₹': 'Rs.',
+  '×': 'x',
+  '–': '-',
+  '—': '-',
+  '°': 'o',
+};
+
+export const toAscii = (text: string): string => {
+  return Array.from(text)
+    .map(char => ASCII_REPLACEMENTS[char] ?? (char.charCodeAt(0) < 128 ? char : '?'))
+    .join('');
+};
+
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    // Indented lines stay indented when they wrap
+    const indent = paragraph.match(/^ */)?.[0] || '';
+    const available = Math.max(1, width - indent.length);
+    let current = '';
+    paragraph.trim().split(/ +/).forEach(word => {
+      while (word.length > available) {
+        if (current) {
+          lines.push(indent + current);
+          current = '';
+        }
+        lines.push(indent + word.slice(0, available));
+        word = word.slice(available);
+      }
+      if (!current) {
+        current = word;
+      } else if (current.length + 1 + word.length <= available) {
+        current += ` ${word}`;
+      } else {
+        lines.push(indent + current);
+        current = word;
+      }
+    });
+    lines.push(indent + current);
+  });
+  return lines;
+};
+
+const alignText = (text: string, width: number, align: ReceiptAlign = 'left'): string => {
+  if (align === 'center') {
+    return ' '.repeat(Math.max(0, Math.floor((width - text.length) / 2))) + text;
+  }
+  if (align === 'right') {
+    return text.padStart(width);
+  }
+  return text;
+};
+
+// The label wraps and the amount sits on the last line, right aligned
+const layoutColumns = (left: string, right: string, width: number): string[] => {
+  const lines = wrapText(left, width);
+  const last = lines[lines.length - 1];
+  if (last.length + 1 + right.length <= width) {
+    lines[lines.length - 1] = last + right.padStart(width - last.length);
+  } else {
+    lines.push(right.padStart(width));
+  }
+  return lines;
+};
+
+export const renderReceiptText = (lines: ReceiptLine[], columns: number): string => {
+  const output: string[] = [];
+  lines.forEach(line => {
+    switch (line.type) {
+      case 'text':
+        wrapText(toAscii(line.text), columns).forEach(text => output.push(alignText(text, columns, line.align)));
+        break;
+      case 'columns':
+        output.push(...layoutColumns(toAscii(line.left), toAscii(line.right), columns));
+        break;
+      case 'divider':
+        output.push((line.char || '-').repeat(columns));
+        break;
+      case 'qr':
+        output.push(alignText(`[QR] ${toAscii(line.data)}`.slice(0, columns), columns, 'center'));
+        break;
+      case 'feed':
+        for (let i = 0; i < line.lines; i++) output.push('');
+        break;
+      case 'cut':
+        break;
+    }
+  });
+  return output.join('\n');
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<ReceiptAlign, number> = { left: 0, center: 1, right: 2 };
+
+const qrCommands = (data: string): number[] => {
+  const bytes = Array.from(toAscii(data)).map(char => char.charCodeAt(0));
+  const length = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6b, 4, 0, 49, 65, 50, 0, // model 2
+    GS, 0x28, 0x6b, 3, 0, 49, 67, 6, // module size
+    GS, 0x28, 0x6b, 3, 0, 49, 69, 48, // error correction L
+    GS, 0x28, 0x6b, length % 256, Math.floor(length / 256), 49, 80, 48, ...bytes,
+    GS, 0x28, 0x6b, 3, 0, 49, 81, 48, // print the stored symbol
+  ];
+};
+
+export const encodeEscPos = (lines: ReceiptLine[], columns: number): Uint8Array => {
+  const bytes: number[] = [ESC, 0x40];
+  const writeText = (text: string) => {
+    bytes.push(...Array.from(text).map(char => char.charCodeAt(0)), LF);
+  };
+  const setAlign = (align: ReceiptAlign) => bytes.push(ESC, 0x61, ALIGN_CODES[align]);
+  const setBold = (bold: boolean) => bytes.push(ESC, 0x45, bold ? 1 : 0);
+
+  lines.forEach(line => {
+    switch (line.type) {
+      case 'text':
+        setAlign(line.align || 'left');
+        setBold(!!line.bold);
+        // Double height only, so the column count stays the same
+        if (line.large) bytes.push(GS, 0x21, 0x01);
+        wrapText(toAscii(line.text), columns).forEach(writeText);
+        if (line.large) bytes.push(GS, 0x21, 0x00);
+        setBold(false);
+        break;
+      case 'columns':
+        setAlign('left');
+        setBold(!!line.bold);
+        layoutColumns(toAscii(line.left), toAscii(line.right), columns).forEach(writeText);
+        setBold(false);
+        break;
+      case 'divider':
+        setAlign('left');
+        writeText((line.char || '-').repeat(columns));
+        break;
+      case 'qr':
+        setAlign('center');
+        bytes.push(...qrCommands(line.data), LF);
+        break;
+      case 'feed':
+        bytes.push(ESC, 0x64, line.lines);
+        break;
+      case 'cut':
+        bytes.push(GS, 0x56, 66, 0);
+        break;
+    }
+  });
+
+  return new Uint8Array(bytes);
+};
+
+const formatAmount = (amount: number): string => `Rs.${amount.toFixed(2)}`;
+
+export const buildBillReceipt = (sale: Sale, settings: SettingsData, medicines: Medicine[], customer?: Customer): ReceiptLine[] => {
+  const tax = calculateTaxInvoice(sale, medicines, settings.state);
+  const items = [
+    ...sale.items.filter(isServiceItem),
+    ...sale.items.filter(item => !isServiceItem(item)),
+  ] as BillItem[];
+
+  const lines: ReceiptLine[] = [
+    { type: 'text', text: settings.clinicName, align: 'center', bold: true, large: true },
+    { type: 'text', text: settings.doctorName, align: 'center' },
+    { type: 'text', text: settings.clinicAddress, align: 'center' },
+    { type: 'text', text: `Ph: ${settings.clinicPhone}`, align: 'center' },
+  ];
+  if (settings.gstin) {
+    lines.push({ type: 'text', text: `GSTIN: ${settings.gstin}`, align: 'center' });
+  }
+
+  lines.push(
+    { type: 'divider', char: '=' },
+    { type: 'text', text: sale.customerGstin ? 'TAX INVOICE' : 'TAX INVOICE (B2C)', align: 'center', bold: true },
+    { type: 'columns', left: `Bill: ${sale.id}`, right: new Date(sale.createdAt).toLocaleDateString() },
+    { type: 'columns', left: `ID: ${sale.patientId}`, right: new Date(sale.createdAt).toLocaleTimeString() },
+    { type: 'text', text: `Patient: ${sale.customerName}` },
+  );
+  if (customer?.phone) {
+    lines.push({ type: 'text', text: `Phone: ${customer.phone}` });
+  }
+  if (sale.customerGstin) {
+    lines.push({ type: 'text', text: `GSTIN: ${sale.customerGstin}` });
+  }
+
+  lines.push(
+    { type: 'divider' },
+    { type: 'columns', left: 'Item', right: 'Amount', bold: true },
+    { type: 'divider' },
+  );
+
+  items.forEach(item => {
+    lines.push({ type: 'text', text: item.medicineName });
+    if (isServiceItem(item)) {
+      lines.push({ type: 'columns', left: `  ${item.quantity} x ${formatAmount(item.unitPrice)}`, right: formatAmount(item.totalPrice) });
+      return;
+    }
+    const medicine = medicines.find(m => m.id === item.medicineId);
+    lines.push({
+      type: 'columns',
+      left: `  ${formatBillQuantity(item, medicine)} @ ${formatAmount(item.unitPrice)}/${getRateUnit(item, medicine)}`,
+      right: formatAmount(item.totalPrice),
+    });
+    const batchDisplay = formatBatchAllocations(item.batches);
+    if (batchDisplay) {
+      lines.push({ type: 'text', text: `  Batch: ${batchDisplay}` });
+    }
+  });
+
+  lines.push(
+    { type: 'divider' },
+    { type: 'columns', left: 'Subtotal', right: formatAmount(sale.totalAmount) },
+  );
+  if (sale.discount > 0) {
+    lines.push({ type: 'columns', left: 'Discount', right: `-${formatAmount(sale.discount)}` });
+  }
+  lines.push({ type: 'columns', left: 'Taxable Value', right: formatAmount(tax.taxableValue) });
+  if (tax.interstate) {
+    lines.push({ type: 'columns', left: 'IGST', right: formatAmount(tax.igst) });
+  } else {
+    lines.push(
+      { type: 'columns', left: 'CGST', right: formatAmount(tax.cgst) },
+      { type: 'columns', left: 'SGST', right: formatAmount(tax.sgst) },
+    );
+  }
+  if (tax.creditApplied) {
+    lines.push({ type: 'columns', left: 'Patient Credit', right: `-${formatAmount(tax.creditApplied)}` });
+  }
+  lines.push(
+    { type: 'columns', left: 'Round Off', right: `${tax.roundOff < 0 ? '-' : '+'}${formatAmount(Math.abs(tax.roundOff))}` },
+    { type: 'divider' },
+    { type: 'columns', left: 'TOTAL', right: formatAmount(tax.amountPayable), bold: true },
+    { type: 'text', text: amountInWords(tax.amountPayable) },
+    { type: 'text', text: `Paid by ${sale.paymentMethod.toUpperCase()}` },
+    { type: 'divider', char: '=' },
+    { type: 'text', text: `Thank you for visiting ${settings.clinicName}!`, align: 'center' },
+    { type: 'text', text: 'Get well soon!', align: 'center' },
+    { type: 'qr', data: `${settings.clinicName} | Bill ${sale.id} | ${sale.patientId} | ${formatAmount(tax.amountPayable)}` },
+    { type: 'feed', lines: 3 },
+    { type: 'cut' },
+  );
+
+  return lines;
+};
@@ -0,0 +1,146 @@
+import { Customer, Prescription, ReminderLog, ReminderSettings, ReminderType, SettingsData, Visit } from '../types';
+import { addDays, parseDateKey, toDateKey } from './appointments';
+import { getDosesPerDay } from './prescriptions';
+import { smsService } from './sms';
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  followUpDaysBefore: 1,
+  refillDaysBefore: 3,
+};
+
+export interface RefillDue {
+  customerId: string;
+  medicineId: string;
+  medicineName: string;
+  dueDate: string;
+}
+
+export interface ReminderQueueItem {
+  key: string;
+  type: ReminderType;
+  customer: Customer;
+  dueDate: string;
+  details: string;
+  medicines: string[];
+  lastReminder?: ReminderLog;
+}
+
+// When the patient runs out of each long-term medicine. Every dispensing adds
+// quantity / daily dose days of supply, starting from when the previous supply
+// ends if they refilled early. Medicines bought without a prescription are not counted.
+export const getRefillDueDates = (prescriptions: Prescription[]): RefillDue[] => {
+  const supplies = new Map<string, { medicineName: string; chronic: boolean; latest: string; events: { date: string; days: number }[] }>();
+
+  prescriptions.forEach(prescription => {
+    prescription.items.filter(item => item.medicineId).forEach(item => {
+      const key = `${prescription.customerId}:${item.medicineId}`;
+      const supply = supplies.get(key) || { medicineName: item.medicineName, chronic: false, latest: '', events: [] };
+
+      // The most recent prescription decides whether the medicine is still long-term
+      if (prescription.createdAt >= supply.latest) {
+        supply.latest = prescription.createdAt;
+        supply.chronic = !!item.chronic;
+        supply.medicineName = item.medicineName;
+      }
+
+      const dailyUse = item.dose * getDosesPerDay(item.frequency);
+      if (dailyUse > 0) {
+        prescription.dispensings.forEach(dispensing => {
+          const quantity = dispensing.items
+            .filter(dispensed => dispensed.prescriptionItemId === item.id)
+            .reduce((sum, dispensed) => sum + dispensed.quantity, 0);
+          if (quantity > 0) {
+            supply.events.push({ date: toDateKey(new Date(dispensing.dispensedAt)), days: Math.floor(quantity / dailyUse) });
+          }
+        });
+      }
+      supplies.set(key, supply);
+    });
+  });
+
+  const dues: RefillDue[] = [];
+  supplies.forEach((supply, key) => {
+    if (!supply.chronic || supply.events.length === 0) return;
+    let runsOut = '';
+    [...supply.events].sort((a, b) => a.date.localeCompare(b.date)).forEach(event => {
+      const start = runsOut > event.date ? runsOut : event.date;
+      runsOut = addDays(start, event.days);
+    });
+    const [customerId, medicineId] = key.split(':');
+    dues.push({ customerId, medicineId, medicineName: supply.medicineName, dueDate: runsOut });
+  });
+  return dues;
+};
+
+// Follow-ups and refills falling due from the given day up to the configured number of days ahead
+export const buildReminderQueue = (
+  dateKey: string,
+  customers: Customer[],
+  visits: Visit[],
+  prescriptions: Prescription[],
+  reminderLogs: ReminderLog[],
+  settings: ReminderSettings
+): ReminderQueueItem[] => {
+  const findLastReminder = (key: string) => {
+    return reminderLogs.filter(log => log.key === key).sort((a, b) => b.sentAt.localeCompare(a.sentAt))[0];
+  };
+  const queue: ReminderQueueItem[] = [];
+
+  const followUpUntil = addDays(dateKey, settings.followUpDaysBefore);
+  visits.forEach(visit => {
+    if (!visit.followUpDate || visit.followUpDate < dateKey || visit.followUpDate > followUpUntil) return;
+    const customer = customers.find(c => c.id === visit.customerId);
+    // A later visit means the patient has already come back
+    const revisited = visits.some(other => other.customerId === visit.customerId && other.visitDate > visit.visitDate);
+    if (!customer || revisited) return;
+
+    const key = `follow_up:${visit.id}`;
+    queue.push({
+      key,
+      type: 'follow_up',
+      customer,
+      dueDate: visit.followUpDate,
+      details: visit.diagnosis ? `Seen on ${parseDateKey(visit.visitDate).toLocaleDateString()} for ${visit.diagnosis}` : `Seen on ${parseDateKey(visit.visitDate).toLocaleDateString()}`,
+      medicines: [],
+      lastReminder: findLastReminder(key),
+    });
+  });
+
+  // A patient running out of several medicines gets one message listing them all
+  const refillUntil = addDays(dateKey, settings.refillDaysBefore);
+  const refillsByCustomer = new Map<string, RefillDue[]>();
+  getRefillDueDates(prescriptions)
+    .filter(refill => refill.dueDate >= dateKey && refill.dueDate <= refillUntil)
+    .forEach(refill => refillsByCustomer.set(refill.customerId, [...(refillsByCustomer.get(refill.customerId) || []), refill]));
+
+  refillsByCustomer.forEach((refills, customerId) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) return;
+    const dueDate = refills.map(refill => refill.dueDate).sort()[0];
+    const medicines = refills.map(refill => refill.medicineName);
+    const key = `refill:${customerId}:${dueDate}`;
+    queue.push({
+      key,
+      type: 'refill',
+      customer,
+      dueDate,
+      details: medicines.join(', '),
+      medicines,
+      lastReminder: findLastReminder(key),
+    });
+  });
+
+  return queue.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.customer.name.localeCompare(b.customer.name));
+};
+
+export const formatReminderMessage = (item: ReminderQueueItem, settings: SettingsData): string => {
+  return smsService.formatMessage(item.type, {
+    patientName: item.customer.name,
+    patientId: item.customer.patientId,
+    dueDate: parseDateKey(item.dueDate).toLocaleDateString(),
+    medicines: item.medicines.join(', '),
+    doctorName: settings.doctorName,
+    clinicName: settings.clinicName,
+    clinicPhone: settings.clinicPhone,
+  });
+};
@@ -0,0 +1,254 @@
+import { MedicineBatch, Purchase, Sale, SaleItem, SaleReturn } from '../types';
+import { getSaleDiscountRatio, isServiceItem } from './returns';
+
+export type ReportGranularity = 'daily' | 'weekly' | 'monthly';
+
+// Cost fields saved by the medicine form. Only the fields the reports need are listed.
+export interface CostSource {
+  id: string;
+  name: string;
+  unitType?: string;
+  costPrice?: number;
+  purchaseRatePerTablet?: number;
+  purchaseRatePerCapsule?: number;
+  batches?: MedicineBatch[];
+}
+
+export interface ReportPeriod {
+  key: string;
+  label: string;
+  revenue: number;
+  cost: number;
+  profit: number;
+  orders: number;
+}
+
+export interface ProductPerformance {
+  medicineId: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+  margin: number;
+}
+
+export interface ReportSummary {
+  revenue: number;
+  cost: number;
+  profit: number;
+  orders: number;
+  uniquePatients: number;
+  returnsCount: number;
+  returnsAmount: number;
+  purchasesAmount: number;
+  periods: ReportPeriod[];
+  products: ProductPerformance[];
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const toDateKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Weeks start on Monday
+const startOfPeriod = (date: Date, granularity: ReportGranularity): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (granularity === 'weekly') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (granularity === 'monthly') {
+    start.setDate(1);
+  }
+  return start;
+};
+
+const getPeriodLabel = (start: Date, granularity: ReportGranularity): string => {
+  if (granularity === 'monthly') {
+    return `${MONTHS[start.getMonth()]} ${start.getFullYear()}`;
+  }
+  const label = `${start.getDate()} ${MONTHS[start.getMonth()]}`;
+  return granularity === 'weekly' ? `Wk of ${label}` : label;
+};
+
+export const getDateRange = (range: string, customFrom?: string, customTo?: string): { from: Date; to: Date } => {
+  const to = new Date();
+  to.setHours(23, 59, 59, 999);
+
+  if (range === 'custom' && customFrom && customTo) {
+    const customStart = new Date(`${customFrom}T00:00:00`);
+    const customEnd = new Date(`${customTo}T23:59:59.999`);
+    return customStart <= customEnd ? { from: customStart, to: customEnd } : { from: customEnd, to: customStart };
+  }
+
+  const days = range === '30days' ? 30 : range === '90days' ? 90 : 7;
+  const from = new Date();
+  from.setHours(0, 0, 0, 0);
+  from.setDate(from.getDate() - (days - 1));
+  return { from, to };
+};
+
+// Cost of one base unit (tablet, capsule, bottle...) before purchase GST, which is
+// claimed back as input credit. Batch cost prices are kept the same way.
+export const getMedicineUnitCost = (medicine: CostSource): number => {
+  const unitType = medicine.unitType?.toLowerCase() || '';
+  let rate = medicine.costPrice || 0;
+
+  if (unitType === 'tablets' || unitType === 'strips') {
+    rate = medicine.purchaseRatePerTablet || 0;
+  } else if (unitType === 'capsules') {
+    rate = medicine.purchaseRatePerCapsule || 0;
+  }
+
+  return rate;
+};
+
+// Cost of a sold line. Batches received on a purchase invoice use that invoice's
+// taxable rate, anything else falls back to the medicine's cost price.
+// Both leave out GST, as the GST return does.
+export const getSaleItemCost = (item: SaleItem, medicines: CostSource[], purchases: Purchase[]): number => {
+  if (isServiceItem(item)) return 0;
+
+  const medicine = medicines.find(m => m.id === item.medicineId);
+  const medicineCost = medicine ? getMedicineUnitCost(medicine) : 0;
+
+  if (!item.batches || item.batches.length === 0) {
+    return item.quantity * medicineCost;
+  }
+
+  return item.batches.reduce((sum, allocation) => {
+    const purchase = purchases.find(p => p.batchId === allocation.batchId);
+    const receivedQuantity = purchase ? purchase.quantity + (purchase.freeQuantity || 0) : 0;
+    // Entries saved before taxable amounts were recorded hold only the GST-inclusive total
+    const taxableAmount = purchase ? purchase.taxableAmount ?? purchase.totalCost - (purchase.gstAmount || 0) : 0;
+    const unitCost = purchase && receivedQuantity > 0 ? taxableAmount / receivedQuantity : medicineCost;
+    return sum + allocation.quantity * unitCost;
+  }, 0);
+};
+
+export const buildReport = (
+  sales: Sale[],
+  saleReturns: SaleReturn[],
+  medicines: CostSource[],
+  purchases: Purchase[],
+  from: Date,
+  to: Date,
+  granularity: ReportGranularity
+): ReportSummary => {
+  const inRange = (date: string) => {
+    const time = new Date(date).getTime();
+    return time >= from.getTime() && time <= to.getTime();
+  };
+
+  const periods = new Map<string, ReportPeriod>();
+  for (let cursor = startOfPeriod(from, granularity); cursor <= to; ) {
+    const key = toDateKey(cursor);
+    periods.set(key, { key, label: getPeriodLabel(cursor, granularity), revenue: 0, cost: 0, profit: 0, orders: 0 });
+
+    if (granularity === 'monthly') cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+    else cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + (granularity === 'weekly' ? 7 : 1));
+  }
+  const periodFor = (date: string) => periods.get(toDateKey(startOfPeriod(new Date(date), granularity)));
+
+  const products = new Map<string, ProductPerformance>();
+  const addToProduct = (item: SaleItem, sign: number, revenue: number, cost: number) => {
+    if (isServiceItem(item)) return;
+    const product = products.get(item.medicineId) || {
+      medicineId: item.medicineId,
+      name: medicines.find(m => m.id === item.medicineId)?.name || item.medicineName,
+      quantity: 0,
+      revenue: 0,
+      cost: 0,
+      profit: 0,
+      margin: 0,
+    };
+    product.quantity += sign * item.quantity;
+    product.revenue += sign * revenue;
+    product.cost += sign * cost;
+    products.set(item.medicineId, product);
+  };
+
+  const rangeSales = sales.filter(sale => inRange(sale.createdAt));
+  const rangeReturns = saleReturns.filter(saleReturn => inRange(saleReturn.createdAt));
+
+  rangeSales.forEach(sale => {
+    const discountRatio = getSaleDiscountRatio(sale);
+    const period = periodFor(sale.createdAt);
+
+    sale.items.forEach(item => {
+      const revenue = item.totalPrice * (1 - discountRatio);
+      const cost = getSaleItemCost(item, medicines, purchases);
+      addToProduct(item, 1, revenue, cost);
+      if (period) {
+        period.revenue += revenue;
+        period.cost += cost;
+      }
+    });
+    if (period) period.orders += 1;
+  });
+
+  // Credit notes reduce revenue and cost on the day the goods came back
+  rangeReturns.forEach(saleReturn => {
+    const discountRatio = saleReturn.totalAmount > 0 ? saleReturn.discount / saleReturn.totalAmount : 0;
+    const period = periodFor(saleReturn.createdAt);
+
+    saleReturn.items.forEach(item => {
+      const revenue = item.totalPrice * (1 - discountRatio);
+      const cost = getSaleItemCost(item, medicines, purchases);
+      addToProduct(item, -1, revenue, cost);
+      if (period) {
+        period.revenue -= revenue;
+        period.cost -= cost;
+      }
+    });
+  });
+
+  const periodList = Array.from(periods.values()).map(period => ({
+    ...period,
+    revenue: Math.round(period.revenue * 100) / 100,
+    cost: Math.round(period.cost * 100) / 100,
+    profit: Math.round((period.revenue - period.cost) * 100) / 100,
+  }));
+
+  const productList = Array.from(products.values())
+    .filter(product => product.quantity > 0)
+    .map(product => {
+      const profit = product.revenue - product.cost;
+      return { ...product, profit, margin: product.revenue > 0 ? (profit / product.revenue) * 100 : 0 };
+    });
+
+  const revenue = periodList.reduce((sum, period) => sum + period.revenue, 0);
+  const cost = periodList.reduce((sum, period) => sum + period.cost, 0);
+
+  return {
+    revenue,
+    cost,
+    profit: revenue - cost,
+    orders: rangeSales.length,
+    uniquePatients: new Set(rangeSales.map(sale => sale.customerId)).size,
+    returnsCount: rangeReturns.length,
+    returnsAmount: rangeReturns.reduce((sum, saleReturn) => sum + saleReturn.refundAmount, 0),
+    purchasesAmount: purchases
+      .filter(purchase => inRange(purchase.purchaseDate || purchase.createdAt))
+      .reduce((sum, purchase) => sum + purchase.totalCost, 0),
+    periods: periodList,
+    products: productList,
+  };
+};
+
+export const getTopProductsByQuantity = (products: ProductPerformance[], limit = 5): ProductPerformance[] => {
+  return [...products].sort((a, b) => b.quantity - a.quantity).slice(0, limit);
+};
+
+// Products with less revenue than this are left out of the margin ranking, so a
+// single cheap sale at a high margin does not top the list
+export const MARGIN_MIN_REVENUE = 100;
+
+export const getTopProductsByMargin = (products: ProductPerformance[], limit = 5): ProductPerformance[] => {
+  return products
+    .filter(product => product.revenue >= MARGIN_MIN_REVENUE)
+    .sort((a, b) => b.margin - a.margin || b.profit - a.profit)
+    .slice(0, limit);
+};
@@ -0,0 +1,77 @@
+import { Sale, SaleItem, SaleItemBatch, SaleReturn } from '../types';
+
+export const isServiceItem = (item: SaleItem): boolean => {
+  return item.medicineId.startsWith('service-') || item.medicineId === 'consultation';
+};
+
+export const generateCreditNoteNumber = (saleReturns: SaleReturn[]): string => {
+  const today = new Date();
+  const year = today.getFullYear().toString().slice(-2);
+  const month = (today.getMonth() + 1).toString().padStart(2, '0');
+  const prefix = `CN${year}${month}`;
+
+  const existingNumbers = saleReturns
+    .filter(r => r.creditNoteNumber && r.creditNoteNumber.startsWith(prefix))
+    .map(r => parseInt(r.creditNoteNumber.slice(prefix.length)) || 0);
+
+  const maxNumber = existingNumbers.length > 0 ? Math.max(...existingNumbers) : 0;
+  return `${prefix}${(maxNumber + 1).toString().padStart(4, '0')}`;
+};
+
+export const getReturnsForSale = (saleReturns: SaleReturn[], saleId: string): SaleReturn[] => {
+  return saleReturns.filter(r => r.saleId === saleId);
+};
+
+export const getReturnedQuantity = (saleReturns: SaleReturn[], saleId: string, medicineId: string): number => {
+  return getReturnsForSale(saleReturns, saleId)
+    .flatMap(r => r.items)
+    .filter(item => item.medicineId === medicineId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+};
+
+// Medicine lines of a bill that still have quantity left to take back
+export const getReturnableItems = (sale: Sale, saleReturns: SaleReturn[]): { item: SaleItem; returnable: number }[] => {
+  return sale.items
+    .filter(item => !isServiceItem(item))
+    .map(item => ({
+      item,
+      returnable: Math.max(0, item.quantity - getReturnedQuantity(saleReturns, sale.id, item.medicineId)),
+    }))
+    .filter(({ returnable }) => returnable > 0);
+};
+
+// Send returned quantity back to the batches it was dispensed from, skipping
+// what earlier returns already put back
+export const allocateReturnBatches = (
+  item: SaleItem,
+  previousReturns: SaleItem[],
+  quantity: number
+): SaleItemBatch[] | undefined => {
+  if (!item.batches || item.batches.length === 0) return undefined;
+
+  const allocations: SaleItemBatch[] = [];
+  let remaining = quantity;
+
+  for (const batch of item.batches) {
+    if (remaining <= 0) break;
+
+    const alreadyReturned = previousReturns
+      .flatMap(returned => returned.batches || [])
+      .filter(returned => returned.batchId === batch.batchId)
+      .reduce((sum, returned) => sum + returned.quantity, 0);
+    const available = batch.quantity - alreadyReturned;
+    if (available <= 0) continue;
+
+    const taken = Math.min(available, remaining);
+    allocations.push({ ...batch, quantity: taken });
+    remaining -= taken;
+  }
+
+  return allocations;
+};
+
+// The bill discount is shared across lines in proportion to their value
+export const getSaleDiscountRatio = (sale: Sale): number => {
+  if (sale.totalAmount <= 0) return 0;
+  return Math.min(1, (sale.discount || 0) / sale.totalAmount);
+};
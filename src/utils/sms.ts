@@ -1,11 +1,45 @@
-// SMS Service for sending bills to customers
-export interface SMSConfig {
-  apiKey: string;
-  senderId: string;
-  templateId: string;
+import { storage } from './storage';
+import { SmsProviderSettings, SmsSendResult, getSmsProvider } from './smsProviders';
+
+export type SmsMessageType = 'bill' | 'follow_up' | 'refill' | 'custom';
+
+export type TemplatedMessageType = Exclude<SmsMessageType, 'custom'>;
+
+// Indian gateways only deliver text matching a template registered on the DLT
+// portal, so each message type keeps the ID it was registered under
+export interface SmsTemplate {
+  type: TemplatedMessageType;
+  body: string;
+  dltTemplateId: string;
+}
+
+export interface SMSConfig extends SmsProviderSettings {
+  templates: SmsTemplate[];
   enabled: boolean;
 }
 
+export interface SmsLogEntry {
+  id: string;
+  type: SmsMessageType;
+  provider: SMSConfig['provider'];
+  to: string;
+  recipientName?: string;
+  message: string;
+  dltTemplateId?: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  providerMessageId?: string;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt: string;
+}
+
+export interface SmsLength {
+  characters: number;
+  parts: number;
+  encoding: 'GSM' | 'Unicode';
+}
+
 export interface BillSMSData {
   customerName: string;
   customerPhone: string;
@@ -15,161 +49,280 @@ export interface BillSMSData {
   clinicPhone: string;
 }
 
-// Mock SMS service - Replace with actual SMS provider (Twilio, TextLocal, etc.)
+export const SMS_TEMPLATE_TYPES: {
+  type: TemplatedMessageType;
+  label: string;
+  placeholders: { key: string; label: string }[];
+  sample: Record<string, string>;
+}[] = [
+  {
+    type: 'bill',
+    label: 'Bill',
+    placeholders: [
+      { key: '{patientName}', label: 'Patient name' },
+      { key: '{billNumber}', label: 'Bill number' },
+      { key: '{amount}', label: 'Bill amount' },
+      { key: '{clinicName}', label: 'Clinic name' },
+      { key: '{clinicPhone}', label: 'Clinic phone' },
+    ],
+    sample: { patientName: 'Ramesh Kumar', billNumber: '1718000000000', amount: '450.00', clinicName: 'City Clinic', clinicPhone: '9876543210' },
+  },
+  {
+    type: 'follow_up',
+    label: 'Follow-up Reminder',
+    placeholders: [
+      { key: '{patientName}', label: 'Patient name' },
+      { key: '{patientId}', label: 'Patient ID' },
+      { key: '{dueDate}', label: 'Follow-up date' },
+      { key: '{doctorName}', label: 'Doctor name' },
+      { key: '{clinicName}', label: 'Clinic name' },
+      { key: '{clinicPhone}', label: 'Clinic phone' },
+    ],
+    sample: { patientName: 'Ramesh Kumar', patientId: '1042', dueDate: '20/10/2026', doctorName: 'Dr. Sharma', clinicName: 'City Clinic', clinicPhone: '9876543210' },
+  },
+  {
+    type: 'refill',
+    label: 'Refill Reminder',
+    placeholders: [
+      { key: '{patientName}', label: 'Patient name' },
+      { key: '{patientId}', label: 'Patient ID' },
+      { key: '{dueDate}', label: 'Refill date' },
+      { key: '{medicines}', label: 'Medicines due for refill' },
+      { key: '{doctorName}', label: 'Doctor name' },
+      { key: '{clinicName}', label: 'Clinic name' },
+      { key: '{clinicPhone}', label: 'Clinic phone' },
+    ],
+    sample: { patientName: 'Ramesh Kumar', patientId: '1042', dueDate: '20/10/2026', medicines: 'Metformin 500, Amlodipine 5', doctorName: 'Dr. Sharma', clinicName: 'City Clinic', clinicPhone: '9876543210' },
+  },
+];
+
+export const DEFAULT_SMS_TEMPLATES: SmsTemplate[] = [
+  {
+    type: 'bill',
+    body: `Dear {patientName},
+Thank you for visiting {clinicName}!
+
+Bill No: {billNumber}
+Amount: ₹{amount}
+
+For queries, call: {clinicPhone}
+
+Get well soon!
+- {clinicName}`,
+    dltTemplateId: '',
+  },
+  {
+    type: 'follow_up',
+    body: 'Dear {patientName}, this is a reminder of your follow-up visit at {clinicName} on {dueDate}. To reschedule, call {clinicPhone}.',
+    dltTemplateId: '',
+  },
+  {
+    type: 'refill',
+    body: 'Dear {patientName}, your {medicines} will run out around {dueDate}. Please visit {clinicName} for a refill. Call {clinicPhone} for queries.',
+    dltTemplateId: '',
+  },
+];
+
+const DEFAULT_SMS_CONFIG: SMSConfig = {
+  provider: 'demo',
+  apiKey: '',
+  accountSid: '',
+  senderId: 'CLINIC',
+  baseUrl: '',
+  templates: DEFAULT_SMS_TEMPLATES,
+  enabled: false,
+};
+
+const SMS_LOG_LIMIT = 2000;
+
+// Characters of the GSM 03.38 alphabet. The extended ones take two slots.
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+// Any character outside the GSM alphabet, such as ₹ or Hindi text, makes the
+// whole message Unicode, which fits 70 characters per SMS instead of 160
+export const getSmsLength = (text: string): SmsLength => {
+  const characters = Array.from(text);
+  const isGsm = characters.every(c => GSM_BASIC.includes(c) || GSM_EXTENDED.includes(c));
+  if (isGsm) {
+    const units = characters.reduce((sum, c) => sum + (GSM_EXTENDED.includes(c) ? 2 : 1), 0);
+    return { characters: characters.length, parts: units <= 160 ? 1 : Math.ceil(units / 153), encoding: 'GSM' };
+  }
+  return { characters: characters.length, parts: text.length <= 70 ? 1 : Math.ceil(text.length / 67), encoding: 'Unicode' };
+};
+
+export const fillTemplate = (template: string, values: Record<string, string>): string => {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+};
+
+// Configurations saved before providers and templates existed had a single templateId
+const normalizeConfig = (saved: Partial<SMSConfig> & { templateId?: string }): SMSConfig => {
+  const { templateId, ...config } = saved;
+  return {
+    ...DEFAULT_SMS_CONFIG,
+    ...config,
+    templates: DEFAULT_SMS_TEMPLATES.map(template => {
+      const savedTemplate = saved.templates?.find(t => t.type === template.type);
+      const merged = { ...template, ...savedTemplate };
+      if (template.type === 'bill' && !merged.dltTemplateId && templateId) {
+        merged.dltTemplateId = templateId;
+      }
+      return merged;
+    }),
+  };
+};
+
 class SMSService {
   private config: SMSConfig;
+  private logQueue: Promise<void> = Promise.resolve();
 
   constructor() {
-    // Load SMS configuration from localStorage or use defaults
-    const savedConfig = localStorage.getItem('sms_config');
-    this.config = savedConfig ? JSON.parse(savedConfig) : {
-      apiKey: '',
-      senderId: 'CLINIC',
-      templateId: '',
-      enabled: false
-    };
+    // Defaults until the saved configuration is loaded from storage
+    this.config = DEFAULT_SMS_CONFIG;
+  }
+
+  async loadConfig(): Promise<SMSConfig> {
+    const savedConfig = await storage.getSmsConfig();
+    if (savedConfig) {
+      this.config = normalizeConfig(savedConfig);
+    }
+    return this.getConfig();
   }
 
   updateConfig(config: SMSConfig) {
     this.config = config;
-    localStorage.setItem('sms_config', JSON.stringify(config));
+    storage.saveSmsConfig(config);
   }
 
   getConfig(): SMSConfig {
-    return { ...this.config };
+    return { ...this.config, templates: this.config.templates.map(template => ({ ...template })) };
   }
 
-  async sendBillSMS(data: BillSMSData): Promise<{ success: boolean; message: string }> {
-    if (!this.config.enabled) {
-      return { success: false, message: 'SMS service is disabled' };
-    }
+  getTemplate(type: TemplatedMessageType): SmsTemplate {
+    return this.config.templates.find(template => template.type === type)
+      || DEFAULT_SMS_TEMPLATES.find(template => template.type === type)!;
+  }
 
-    if (!this.config.apiKey) {
-      return { success: false, message: 'SMS API key not configured' };
-    }
+  formatMessage(type: TemplatedMessageType, values: Record<string, string>): string {
+    return fillTemplate(this.getTemplate(type).body, values);
+  }
 
-    // Validate phone number (Indian format)
-    const phoneRegex = /^[6-9]\d{9}$/;
-    if (!phoneRegex.test(data.customerPhone.replace(/\D/g, '').slice(-10))) {
-      return { success: false, message: 'Invalid phone number format' };
-    }
+  // Newest first
+  getDeliveryLog(): Promise<SmsLogEntry[]> {
+    return storage.getSmsLog();
+  }
 
-    try {
-      // Format the SMS message
-      const message = this.formatBillMessage(data);
-      
-      // For demo purposes, we'll simulate SMS sending
-      // In production, replace this with actual SMS API call
-      console.log('Sending SMS:', {
-        to: data.customerPhone,
-        message: message,
-        senderId: this.config.senderId
-      });
-
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // For demo, we'll always return success
-      // In production, handle actual API response
-      return {
-        success: true,
-        message: `SMS sent successfully to ${data.customerPhone}`
-      };
+  async sendBillSMS(data: BillSMSData): Promise<SmsSendResult> {
+    const message = this.formatMessage('bill', {
+      patientName: data.customerName,
+      billNumber: data.billNumber,
+      amount: data.totalAmount.toFixed(2),
+      clinicName: data.clinicName,
+      clinicPhone: data.clinicPhone,
+    });
+    return this.send({ type: 'bill', to: data.customerPhone, recipientName: data.customerName, message });
+  }
 
-    } catch (error) {
-      console.error('SMS sending failed:', error);
-      return {
-        success: false,
-        message: 'Failed to send SMS. Please try again.'
-      };
-    }
+  // Method to send custom SMS
+  async sendCustomSMS(phone: string, message: string): Promise<SmsSendResult> {
+    return this.send({ type: 'custom', to: phone, message });
   }
 
-  private formatBillMessage(data: BillSMSData): string {
-    return `Dear ${data.customerName},
-Thank you for visiting ${data.clinicName}!
+  // Messages that reach the provider are written to the delivery log, whether accepted or not
+  async send(request: { type: SmsMessageType; to: string; recipientName?: string; message: string }): Promise<SmsSendResult & { logId?: string }> {
+    const configError = this.getConfigError(request.to);
+    if (configError) {
+      return { success: false, message: configError };
+    }
 
-Bill No: ${data.billNumber}
-Amount: ₹${data.totalAmount.toFixed(2)}
+    const now = new Date().toISOString();
+    const dltTemplateId = request.type === 'custom' ? undefined : this.getTemplate(request.type).dltTemplateId || undefined;
+    const result = await this.deliver(request.to, request.message, dltTemplateId);
+    const entry: SmsLogEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      type: request.type,
+      provider: this.config.provider,
+      to: request.to,
+      recipientName: request.recipientName,
+      message: request.message,
+      dltTemplateId,
+      status: result.success ? 'sent' : 'failed',
+      error: result.success ? undefined : result.message,
+      providerMessageId: result.providerMessageId,
+      attempts: 1,
+      createdAt: now,
+      lastAttemptAt: now,
+    };
+    await this.updateLog(log => [entry, ...log].slice(0, SMS_LOG_LIMIT));
+    return { ...result, logId: entry.id };
+  }
 
-For queries, call: ${data.clinicPhone}
+  // Sends a failed message again, exactly as it was first composed
+  async retry(entryId: string): Promise<SmsSendResult> {
+    const entry = (await this.getDeliveryLog()).find(e => e.id === entryId);
+    if (!entry) {
+      return { success: false, message: 'Message not found in the delivery log' };
+    }
 
-Get well soon!
-- ${data.clinicName}`;
+    const configError = this.getConfigError(entry.to);
+    if (configError) {
+      return { success: false, message: configError };
+    }
+
+    const result = await this.deliver(entry.to, entry.message, entry.dltTemplateId);
+    await this.updateLog(log => log.map(e => e.id !== entryId ? e : {
+      ...e,
+      provider: this.config.provider,
+      status: result.success ? 'sent' : 'failed',
+      error: result.success ? undefined : result.message,
+      providerMessageId: result.providerMessageId || e.providerMessageId,
+      attempts: e.attempts + 1,
+      lastAttemptAt: new Date().toISOString(),
+    }));
+    return result;
   }
 
-  // Method to send custom SMS
-  async sendCustomSMS(phone: string, message: string): Promise<{ success: boolean; message: string }> {
+  private getConfigError(phone: string): string | null {
     if (!this.config.enabled) {
-      return { success: false, message: 'SMS service is disabled' };
+      return 'SMS service is disabled';
+    }
+
+    if (this.config.provider !== 'demo' && !this.config.apiKey) {
+      return 'SMS API key not configured';
     }
 
+    if (this.config.provider === 'twilio' && !this.config.accountSid) {
+      return 'Twilio account SID not configured';
+    }
+
+    // Validate phone number (Indian format)
+    if (!/^[6-9]\d{9}$/.test(phone.replace(/\D/g, '').slice(-10))) {
+      return 'Invalid phone number format';
+    }
+
+    return null;
+  }
+
+  private async deliver(to: string, body: string, dltTemplateId?: string): Promise<SmsSendResult> {
     try {
-      console.log('Sending custom SMS:', { to: phone, message });
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      return {
-        success: true,
-        message: `SMS sent successfully to ${phone}`
-      };
+      return await getSmsProvider(this.config.provider).send({ to, body, dltTemplateId }, this.config);
     } catch (error) {
+      console.error('SMS sending failed:', error);
       return {
         success: false,
-        message: 'Failed to send SMS'
+        message: 'Could not reach the SMS provider. Please check the connection and try again.',
       };
     }
   }
-}
-
-export const smsService = new SMSService();
-
-// Integration instructions for popular SMS providers:
 
-/*
-TWILIO INTEGRATION:
-1. Install: npm install twilio
-2. Replace the mock sendBillSMS with:
-
-import twilio from 'twilio';
-const client = twilio(accountSid, authToken);
-
-async sendBillSMS(data: BillSMSData) {
-  try {
-    const message = await client.messages.create({
-      body: this.formatBillMessage(data),
-      from: this.config.senderId,
-      to: `+91${data.customerPhone}`
-    });
-    return { success: true, message: `SMS sent: ${message.sid}` };
-  } catch (error) {
-    return { success: false, message: error.message };
+  // Log updates are chained so two sends finishing together do not drop an entry
+  private updateLog(change: (log: SmsLogEntry[]) => SmsLogEntry[]): Promise<void> {
+    this.logQueue = this.logQueue.then(async () => {
+      const log = await storage.getSmsLog();
+      await storage.saveSmsLog(change(log));
+    }).catch(error => console.error('Error updating SMS log:', error));
+    return this.logQueue;
   }
 }
 
-TEXTLOCAL INTEGRATION:
-const response = await fetch('https://api.textlocal.in/send/', {
-  method: 'POST',
-  headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-  body: new URLSearchParams({
-    apikey: this.config.apiKey,
-    numbers: data.customerPhone,
-    message: this.formatBillMessage(data),
-    sender: this.config.senderId
-  })
-});
-
-MSG91 INTEGRATION:
-const response = await fetch(`https://api.msg91.com/api/sendhttp.php`, {
-  method: 'POST',
-  headers: { 'Content-Type': 'application/json' },
-  body: JSON.stringify({
-    sender: this.config.senderId,
-    route: 4,
-    country: 91,
-    sms: [{
-      message: this.formatBillMessage(data),
-      to: [data.customerPhone]
-    }]
-  })
-});
-*/
\ No newline at end of file
+export const smsService = new SMSService();
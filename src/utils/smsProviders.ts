@@ -0,0 +1,170 @@
+// Gateways the SMS service can send through. Each adapter turns one message
+// into the provider's HTTP call and reads back whether it was accepted.
+export type SmsProviderId = 'demo' | 'twilio' | 'textlocal' | 'msg91';
+
+export interface SmsProviderSettings {
+  provider: SmsProviderId;
+  // Twilio auth token, TextLocal API key or MSG91 auth key
+  apiKey: string;
+  // Twilio only
+  accountSid: string;
+  // DLT header for Indian gateways, the sending number for Twilio
+  senderId: string;
+  // Replaces the provider's API address, for a relay server or a local mock when testing
+  baseUrl: string;
+}
+
+export interface OutgoingSms {
+  to: string;
+  body: string;
+  dltTemplateId?: string;
+}
+
+export interface SmsSendResult {
+  success: boolean;
+  message: string;
+  providerMessageId?: string;
+}
+
+export interface SmsProvider {
+  id: SmsProviderId;
+  send: (sms: OutgoingSms, settings: SmsProviderSettings) => Promise<SmsSendResult>;
+}
+
+export const SMS_PROVIDERS: { id: SmsProviderId; name: string; apiKeyLabel: string; senderLabel: string; defaultBaseUrl: string }[] = [
+  { id: 'demo', name: 'Demo (messages are only logged)', apiKeyLabel: 'API Key', senderLabel: 'Sender ID', defaultBaseUrl: '' },
+  { id: 'twilio', name: 'Twilio', apiKeyLabel: 'Auth Token', senderLabel: 'From Number', defaultBaseUrl: 'https://api.twilio.com' },
+  { id: 'textlocal', name: 'TextLocal', apiKeyLabel: 'API Key', senderLabel: 'Sender ID (DLT header)', defaultBaseUrl: 'https://api.textlocal.in' },
+  { id: 'msg91', name: 'MSG91', apiKeyLabel: 'Auth Key', senderLabel: 'Sender ID (DLT header)', defaultBaseUrl: 'https://api.msg91.com' },
+];
+
+const baseUrlFor = (settings: SmsProviderSettings): string => {
+  const url = settings.baseUrl || SMS_PROVIDERS.find(p => p.id === settings.provider)?.defaultBaseUrl || '';
+  return url.replace(/\/$/, '');
+};
+
+// Numbers are stored as 10 digits; gateways want the country code in front
+const withCountryCode = (phone: string): string => `91${phone.replace(/\D/g, '').slice(-10)}`;
+
+// The parts of each gateway's response body that are read. Any field may be
+// missing, for instance when an error page comes back instead of JSON.
+interface TwilioResponse {
+  sid: string;
+  message: string;
+}
+
+interface TextLocalResponse {
+  status: string;
+  errors: { code?: number; message?: string }[];
+  messages: { id?: number | string }[];
+}
+
+interface Msg91Response {
+  type: string;
+  message: string;
+}
+
+const readJson = async <T>(response: Response): Promise<Partial<T>> => {
+  try {
+    return await response.json();
+  } catch {
+    return {};
+  }
+};
+
+export const createDemoProvider = (): SmsProvider => ({
+  id: 'demo',
+
+  send: async (sms, settings) => {
+    console.log('Sending SMS:', { to: sms.to, message: sms.body, senderId: settings.senderId });
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    return { success: true, message: `SMS sent successfully to ${sms.to}` };
+  },
+});
+
+export const createTwilioProvider = (): SmsProvider => ({
+  id: 'twilio',
+
+  send: async (sms, settings) => {
+    const response = await fetch(`${baseUrlFor(settings)}/2010-04-01/Accounts/${encodeURIComponent(settings.accountSid)}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${btoa(`${settings.accountSid}:${settings.apiKey}`)}`,
+      },
+      body: new URLSearchParams({
+        To: `+${withCountryCode(sms.to)}`,
+        From: settings.senderId,
+        Body: sms.body,
+      }),
+    });
+    const body = await readJson<TwilioResponse>(response);
+    if (!response.ok) {
+      return { success: false, message: body.message || `Twilio returned ${response.status}` };
+    }
+    return { success: true, message: `SMS sent successfully to ${sms.to}`, providerMessageId: body.sid };
+  },
+});
+
+// TextLocal matches the text against the DLT templates registered on the account,
+// so no template ID is sent
+export const createTextLocalProvider = (): SmsProvider => ({
+  id: 'textlocal',
+
+  send: async (sms, settings) => {
+    const response = await fetch(`${baseUrlFor(settings)}/send/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        apikey: settings.apiKey,
+        numbers: withCountryCode(sms.to),
+        sender: settings.senderId,
+        message: sms.body,
+      }),
+    });
+    const body = await readJson<TextLocalResponse>(response);
+    if (!response.ok || body.status !== 'success') {
+      return { success: false, message: body.errors?.[0]?.message || `TextLocal returned ${response.status}` };
+    }
+    return { success: true, message: `SMS sent successfully to ${sms.to}`, providerMessageId: body.messages?.[0]?.id?.toString() };
+  },
+});
+
+export const createMsg91Provider = (): SmsProvider => ({
+  id: 'msg91',
+
+  send: async (sms, settings) => {
+    const response = await fetch(`${baseUrlFor(settings)}/api/v2/sendsms`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        authkey: settings.apiKey,
+      },
+      body: JSON.stringify({
+        sender: settings.senderId,
+        route: '4',
+        country: '91',
+        ...(sms.dltTemplateId ? { DLT_TE_ID: sms.dltTemplateId } : {}),
+        sms: [{ message: sms.body, to: [sms.to.replace(/\D/g, '').slice(-10)] }],
+      }),
+    });
+    const body = await readJson<Msg91Response>(response);
+    if (!response.ok || body.type !== 'success') {
+      return { success: false, message: body.message || `MSG91 returned ${response.status}` };
+    }
+    return { success: true, message: `SMS sent successfully to ${sms.to}`, providerMessageId: body.message };
+  },
+});
+
+export const getSmsProvider = (id: SmsProviderId): SmsProvider => {
+  switch (id) {
+    case 'twilio':
+      return createTwilioProvider();
+    case 'textlocal':
+      return createTextLocalProvider();
+    case 'msg91':
+      return createMsg91Provider();
+    default:
+      return createDemoProvider();
+  }
+};
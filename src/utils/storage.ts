@@ -1,61 +1,255 @@
-import { Medicine, Customer, Sale, Notification } from '../types';
-
-const STORAGE_KEYS = {
-  MEDICINES: 'clinic_medicines',
-  CUSTOMERS: 'clinic_customers',
-  SALES: 'clinic_sales',
-  NOTIFICATIONS: 'clinic_notifications',
-  PURCHASES: 'clinic_purchases',
+import { Medicine, Customer, Visit, Prescription, Appointment, QueueToken, ReminderLog, Sale, SaleReturn, Notification, Purchase, Supplier, SupplierPayment, SettingsData, User, SessionEvent, RolePermissions, AuditEntry, AuditLogPage, AuditLogQuery } from '../types';
+import { AUDITED_STORES, buildAuditEntries, isAuditEntryRetained, pageAuditEntries } from './audit';
+import { SMSConfig, SmsLogEntry } from './sms';
+import { StorageAdapter, createDefaultAdapter } from './storageAdapters';
+import { MIGRATION_KEY, STORAGE_KEYS } from './storageKeys';
+
+export { STORAGE_KEYS };
+
+// Largest page read when the whole audit log is needed
+const AUDIT_READ_BATCH = 1000;
+
+let adapter: StorageAdapter | null = null;
+let readyPromise: Promise<StorageAdapter> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Data saved before the storage backend was configurable lives in
+// localStorage. Copy it across once and free the space it used.
+const migrateFromLocalStorage = async (target: StorageAdapter) => {
+  if (target.name === 'localStorage' || await target.get(MIGRATION_KEY)) return;
+
+  // A storage server keeps its own audit log, which only takes entries as changes are made
+  const keys = Object.values(STORAGE_KEYS).filter(key => !(key === STORAGE_KEYS.AUDIT_LOG && target.appendAudit));
+  for (const key of keys) {
+    const data = localStorage.getItem(key);
+    if (data === null || await target.get(key) !== null) continue;
+    await target.save(key, JSON.parse(data));
+  }
+  await target.save(MIGRATION_KEY, new Date().toISOString());
+
+  keys.forEach(key => localStorage.removeItem(key));
+};
+
+const ready = (): Promise<StorageAdapter> => {
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      const selected = adapter || createDefaultAdapter();
+      try {
+        await migrateFromLocalStorage(selected);
+      } catch (error) {
+        console.error(`Error migrating data to ${selected.name}:`, error);
+      }
+      adapter = selected;
+      return selected;
+    })();
+  }
+  return readyPromise;
+};
+
+// Reads wait for queued writes so they never see data a save is about to replace.
+// The fallback is only for a key that was never saved; a failed read throws, so
+// callers do not save an empty list over data they could not load.
+const read = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const store = await ready();
+    await writeQueue;
+    const value = await store.get<T>(key);
+    return value ?? fallback;
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    throw error;
+  }
+};
+
+// Writes are queued so a slower backend cannot apply them out of order
+const write = <T>(key: string, value: T): Promise<void> => {
+  writeQueue = writeQueue.then(async () => {
+    try {
+      const store = await ready();
+      const entity = AUDITED_STORES[key];
+      const previous = entity ? await store.get(key) : null;
+      await store.save(key, value);
+      if (entity) await appendAuditEntries(store, buildAuditEntries(entity, previous, value));
+    } catch (error) {
+      console.error(`Error saving ${key}:`, error);
+      alert('Your changes could not be saved. Please check the storage connection and try again.');
+    }
+  });
+  return writeQueue;
+};
+
+// The audit log is only ever appended to. A storage server keeps one row per
+// entry and refuses to replace the log; the browser stores keep a single list,
+// which only this browser writes, trimmed to the retention period.
+const appendAuditEntries = async (store: StorageAdapter, entries: AuditEntry[]) => {
+  if (entries.length === 0) return;
+  try {
+    if (store.appendAudit) {
+      await store.appendAudit(entries);
+      return;
+    }
+    const log = (await store.get<AuditEntry[]>(STORAGE_KEYS.AUDIT_LOG)) || [];
+    const now = Date.now();
+    await store.save(STORAGE_KEYS.AUDIT_LOG, [...log.filter(entry => isAuditEntryRetained(entry, now)), ...entries]);
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
 };
 
 export const storage = {
-  // Medicines
-  getMedicines: (): Medicine[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.MEDICINES);
-    return data ? JSON.parse(data) : [];
+  // Use a specific backend instead of the default. Must be called before the first read or write.
+  useAdapter: (storageAdapter: StorageAdapter) => {
+    adapter = storageAdapter;
+    readyPromise = null;
   },
 
-  saveMedicines: (medicines: Medicine[]) => {
-    localStorage.setItem(STORAGE_KEYS.MEDICINES, JSON.stringify(medicines));
-  },
+  // Signs in to backends that check who is asking; a no-op for the browser stores.
+  // Returns an error message, or null once signed in.
+  signIn: async (username: string, secret: string, kind?: 'password' | 'pin'): Promise<string | null> => {
+    adapter = adapter || createDefaultAdapter();
+    if (!adapter.signIn) return null;
 
-  // Customers
-  getCustomers: (): Customer[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.CUSTOMERS);
-    return data ? JSON.parse(data) : [];
+    const error = await adapter.signIn(username, secret, kind);
+    // The move from localStorage needs a signed-in user, so it is tried again now
+    if (!error) readyPromise = null;
+    return error;
   },
 
-  saveCustomers: (customers: Customer[]) => {
-    localStorage.setItem(STORAGE_KEYS.CUSTOMERS, JSON.stringify(customers));
+  signOut: () => {
+    adapter?.signOut?.();
   },
 
-  // Sales
-  getSales: (): Sale[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.SALES);
-    return data ? JSON.parse(data) : [];
+  // Backends with sign-in check passwords and PINs themselves and do not hand
+  // the hashes to every user, so the app asks them instead of comparing locally
+  checksCredentials: (): boolean => {
+    adapter = adapter || createDefaultAdapter();
+    return !!adapter.signIn;
   },
 
-  saveSales: (sales: Sale[]) => {
-    localStorage.setItem(STORAGE_KEYS.SALES, JSON.stringify(sales));
+  getAdapterName: async (): Promise<StorageAdapter['name']> => {
+    return (await ready()).name;
   },
 
+  // Raw access by key, used by backup and restore
+  getByKey: <T>(key: string): Promise<T | null> => read<T | null>(key, null),
+
+  saveByKey: <T>(key: string, value: T) => write(key, value),
+
+  // Medicines
+  getMedicines: (): Promise<Medicine[]> => read(STORAGE_KEYS.MEDICINES, []),
+
+  saveMedicines: (medicines: Medicine[]) => write(STORAGE_KEYS.MEDICINES, medicines),
+
+  // Customers
+  getCustomers: (): Promise<Customer[]> => read(STORAGE_KEYS.CUSTOMERS, []),
+
+  saveCustomers: (customers: Customer[]) => write(STORAGE_KEYS.CUSTOMERS, customers),
+
+  // Patient visits
+  getVisits: (): Promise<Visit[]> => read(STORAGE_KEYS.VISITS, []),
+
+  saveVisits: (visits: Visit[]) => write(STORAGE_KEYS.VISITS, visits),
+
+  // Prescriptions
+  getPrescriptions: (): Promise<Prescription[]> => read(STORAGE_KEYS.PRESCRIPTIONS, []),
+
+  savePrescriptions: (prescriptions: Prescription[]) => write(STORAGE_KEYS.PRESCRIPTIONS, prescriptions),
+
+  // Appointments
+  getAppointments: (): Promise<Appointment[]> => read(STORAGE_KEYS.APPOINTMENTS, []),
+
+  saveAppointments: (appointments: Appointment[]) => write(STORAGE_KEYS.APPOINTMENTS, appointments),
+
+  // Walk-in token queue
+  getTokens: (): Promise<QueueToken[]> => read(STORAGE_KEYS.TOKENS, []),
+
+  saveTokens: (tokens: QueueToken[]) => write(STORAGE_KEYS.TOKENS, tokens),
+
+  // Follow-up and refill reminders sent by SMS
+  getReminders: (): Promise<ReminderLog[]> => read(STORAGE_KEYS.REMINDERS, []),
+
+  saveReminders: (reminders: ReminderLog[]) => write(STORAGE_KEYS.REMINDERS, reminders),
+
+  // Sales
+  getSales: (): Promise<Sale[]> => read(STORAGE_KEYS.SALES, []),
+
+  saveSales: (sales: Sale[]) => write(STORAGE_KEYS.SALES, sales),
+
+  // Sales returns
+  getSaleReturns: (): Promise<SaleReturn[]> => read(STORAGE_KEYS.SALE_RETURNS, []),
+
+  saveSaleReturns: (saleReturns: SaleReturn[]) => write(STORAGE_KEYS.SALE_RETURNS, saleReturns),
+
   // Notifications
-  getNotifications: (): Notification[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.NOTIFICATIONS);
-    return data ? JSON.parse(data) : [];
-  },
+  getNotifications: (): Promise<Notification[]> => read(STORAGE_KEYS.NOTIFICATIONS, []),
 
-  saveNotifications: (notifications: Notification[]) => {
-    localStorage.setItem(STORAGE_KEYS.NOTIFICATIONS, JSON.stringify(notifications));
-  },
+  saveNotifications: (notifications: Notification[]) => write(STORAGE_KEYS.NOTIFICATIONS, notifications),
 
   // Purchases
-  getPurchases: (): Purchase[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.PURCHASES);
-    return data ? JSON.parse(data) : [];
+  getPurchases: (): Promise<Purchase[]> => read(STORAGE_KEYS.PURCHASES, []),
+
+  savePurchases: (purchases: Purchase[]) => write(STORAGE_KEYS.PURCHASES, purchases),
+
+  // Suppliers
+  getSuppliers: (): Promise<Supplier[]> => read(STORAGE_KEYS.SUPPLIERS, []),
+
+  saveSuppliers: (suppliers: Supplier[]) => write(STORAGE_KEYS.SUPPLIERS, suppliers),
+
+  // Supplier payments
+  getSupplierPayments: (): Promise<SupplierPayment[]> => read(STORAGE_KEYS.SUPPLIER_PAYMENTS, []),
+
+  saveSupplierPayments: (payments: SupplierPayment[]) => write(STORAGE_KEYS.SUPPLIER_PAYMENTS, payments),
+
+  // Settings
+  getSettings: (): Promise<SettingsData | null> => read<SettingsData | null>(STORAGE_KEYS.SETTINGS, null),
+
+  saveSettings: (settings: SettingsData) => write(STORAGE_KEYS.SETTINGS, settings),
+
+  // SMS configuration
+  getSmsConfig: (): Promise<SMSConfig | null> => read<SMSConfig | null>(STORAGE_KEYS.SMS_CONFIG, null),
+
+  saveSmsConfig: (config: SMSConfig) => write(STORAGE_KEYS.SMS_CONFIG, config),
+
+  // Every SMS handed to the provider, newest first
+  getSmsLog: (): Promise<SmsLogEntry[]> => read(STORAGE_KEYS.SMS_LOG, []),
+
+  saveSmsLog: (entries: SmsLogEntry[]) => write(STORAGE_KEYS.SMS_LOG, entries),
+
+  // Users
+  getUsers: (): Promise<User[] | null> => read<User[] | null>(STORAGE_KEYS.USERS, null),
+
+  saveUsers: (users: User[]) => write(STORAGE_KEYS.USERS, users),
+
+  // Permission matrix edited in User Management
+  getRolePermissions: (): Promise<Partial<RolePermissions> | null> => read<Partial<RolePermissions> | null>(STORAGE_KEYS.ROLE_PERMISSIONS, null),
+
+  saveRolePermissions: (rolePermissions: RolePermissions) => write(STORAGE_KEYS.ROLE_PERMISSIONS, rolePermissions),
+
+  // Sign-in, lock and cashier switch history
+  getSessionEvents: (): Promise<SessionEvent[]> => read(STORAGE_KEYS.SESSION_LOG, []),
+
+  saveSessionEvents: (events: SessionEvent[]) => write(STORAGE_KEYS.SESSION_LOG, events),
+
+  // Audit trail of every create, update and delete in the audited stores, a page at a time
+  getAuditLog: async (query: AuditLogQuery): Promise<AuditLogPage> => {
+    try {
+      const store = await ready();
+      await writeQueue;
+      if (store.getAuditPage) return await store.getAuditPage(query);
+      return pageAuditEntries((await store.get<AuditEntry[]>(STORAGE_KEYS.AUDIT_LOG)) || [], query);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      throw error;
+    }
   },
 
-  savePurchases: (purchases: Purchase[]) => {
-    localStorage.setItem(STORAGE_KEYS.PURCHASES, JSON.stringify(purchases));
+  // Every entry matching the filters, newest first, for exports and backups
+  getAllAuditEntries: async (filters: Omit<AuditLogQuery, 'offset' | 'limit'> = {}): Promise<AuditEntry[]> => {
+    const entries: AuditEntry[] = [];
+    for (let offset = 0; ; offset += AUDIT_READ_BATCH) {
+      const page = await storage.getAuditLog({ ...filters, offset, limit: AUDIT_READ_BATCH });
+      entries.push(...page.entries);
+      if (!page.hasMore) return entries;
+    }
   },
-};
\ No newline at end of file
+};
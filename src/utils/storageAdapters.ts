@@ -0,0 +1,181 @@
+import { AuditEntry, AuditLogPage, AuditLogQuery } from '../types';
+import { STORAGE_KEYS } from './storageKeys';
+
+// Backends the storage service can keep clinic data in. Every adapter stores
+// JSON values by key, so switching backends does not change the data layout.
+export interface StorageAdapter {
+  name: 'localStorage' | 'indexedDB' | 'http';
+  get: <T>(key: string) => Promise<T | null>;
+  save: <T>(key: string, value: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  // Backends that check who is asking. signIn returns an error message, or null once signed in.
+  // A PIN only unlocks the session of the user already signed in.
+  signIn?: (username: string, secret: string, kind?: 'password' | 'pin') => Promise<string | null>;
+  signOut?: () => void;
+  // Backends that keep the audit log as separate entries rather than one stored list
+  appendAudit?: (entries: AuditEntry[]) => Promise<void>;
+  getAuditPage?: (query: AuditLogQuery) => Promise<AuditLogPage>;
+}
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  name: 'localStorage',
+
+  get: async <T>(key: string): Promise<T | null> => {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : null;
+  },
+
+  save: async <T>(key: string, value: T): Promise<void> => {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+
+  remove: async (key: string): Promise<void> => {
+    localStorage.removeItem(key);
+  },
+});
+
+// IndexedDB is limited by free disk space rather than the ~5 MB localStorage cap
+export const createIndexedDbAdapter = (dbName = 'clinic_db', storeName = 'clinic_data'): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    name: 'indexedDB',
+
+    get: async <T>(key: string): Promise<T | null> => {
+      const value = await run<T | undefined>('readonly', store => store.get(key));
+      return value === undefined ? null : value;
+    },
+
+    save: async <T>(key: string, value: T): Promise<void> => {
+      await run('readwrite', store => store.put(value, key));
+    },
+
+    remove: async (key: string): Promise<void> => {
+      await run('readwrite', store => store.delete(key));
+    },
+  };
+};
+
+// Talks to the storage endpoint in netlify/functions/storage.ts, which keeps
+// each key as a JSONB row in Postgres. Requests carry the token the server
+// issued when the user signed in (netlify/functions/storage-session.ts).
+export const createHttpAdapter = (baseUrl: string, tokenKey = 'clinic_storage_token'): StorageAdapter => {
+  const root = baseUrl.replace(/\/$/, '');
+  const url = (key: string) => `${root}/${encodeURIComponent(key)}`;
+  const headers = (): Record<string, string> => {
+    const token = localStorage.getItem(tokenKey);
+    return {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+  };
+
+  return {
+    name: 'http',
+
+    get: async <T>(key: string): Promise<T | null> => {
+      const response = await fetch(url(key), { headers: headers() });
+      // Stores the user's role may not read count as empty; the server refuses writes to them too
+      if (response.status === 404 || response.status === 403) return null;
+      if (!response.ok) throw new Error(`Storage server returned ${response.status} for ${key}`);
+      const body = await response.json();
+      return body.value ?? null;
+    },
+
+    save: async <T>(key: string, value: T): Promise<void> => {
+      const response = await fetch(url(key), {
+        method: 'PUT',
+        headers: headers(),
+        body: JSON.stringify({ value }),
+      });
+      if (!response.ok) throw new Error(`Storage server returned ${response.status} for ${key}`);
+    },
+
+    remove: async (key: string): Promise<void> => {
+      const response = await fetch(url(key), { method: 'DELETE', headers: headers() });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Storage server returned ${response.status} for ${key}`);
+      }
+    },
+
+    signIn: async (username: string, secret: string, kind: 'password' | 'pin' = 'password'): Promise<string | null> => {
+      const response = await fetch(root, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ username, [kind]: secret }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok || !body.token) {
+        return body.error || `Storage server returned ${response.status}`;
+      }
+      localStorage.setItem(tokenKey, body.token);
+      return null;
+    },
+
+    signOut: () => {
+      localStorage.removeItem(tokenKey);
+    },
+
+    // The audit log key takes new entries by POST and is read in pages; it cannot be replaced
+    appendAudit: async (entries: AuditEntry[]): Promise<void> => {
+      const response = await fetch(url(STORAGE_KEYS.AUDIT_LOG), {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ entries }),
+      });
+      if (!response.ok) throw new Error(`Storage server returned ${response.status} for the audit log`);
+    },
+
+    getAuditPage: async (query: AuditLogQuery): Promise<AuditLogPage> => {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([name, value]) => {
+        if (value !== undefined && value !== '') params.set(name, String(value));
+      });
+      const response = await fetch(`${url(STORAGE_KEYS.AUDIT_LOG)}?${params}`, { headers: headers() });
+      // Like the other stores, a log the user's role may not read counts as empty
+      if (response.status === 403) return { entries: [], hasMore: false };
+      if (!response.ok) throw new Error(`Storage server returned ${response.status} for the audit log`);
+      return response.json();
+    },
+  };
+};
+
+// VITE_STORAGE_API_URL points the app at the server; otherwise data stays in
+// the browser, in IndexedDB where it is available
+export const createDefaultAdapter = (): StorageAdapter => {
+  const apiUrl = import.meta.env.VITE_STORAGE_API_URL as string | undefined;
+  if (apiUrl) {
+    return createHttpAdapter(apiUrl);
+  }
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDbAdapter();
+  }
+  return createLocalStorageAdapter();
+};
@@ -0,0 +1,26 @@
+// Kept apart from storage.ts so the storage server can share them without the browser adapters
+export const STORAGE_KEYS = {
+  MEDICINES: 'clinic_medicines',
+  CUSTOMERS: 'clinic_customers',
+  VISITS: 'clinic_visits',
+  PRESCRIPTIONS: 'clinic_prescriptions',
+  APPOINTMENTS: 'clinic_appointments',
+  TOKENS: 'clinic_tokens',
+  REMINDERS: 'clinic_reminders',
+  SALES: 'clinic_sales',
+  SALE_RETURNS: 'clinic_sale_returns',
+  NOTIFICATIONS: 'clinic_notifications',
+  PURCHASES: 'clinic_purchases',
+  SUPPLIERS: 'clinic_suppliers',
+  SUPPLIER_PAYMENTS: 'clinic_supplier_payments',
+  SETTINGS: 'clinic_settings',
+  SMS_CONFIG: 'sms_config',
+  SMS_LOG: 'clinic_sms_log',
+  USERS: 'clinic_users',
+  SESSION_LOG: 'clinic_session_log',
+  ROLE_PERMISSIONS: 'clinic_role_permissions',
+  AUDIT_LOG: 'clinic_audit_log',
+};
+
+// Marks a backend that has already taken over the data saved in localStorage
+export const MIGRATION_KEY = 'clinic_storage_migrated';
@@ -0,0 +1,279 @@
+import { Purchase, Supplier, SupplierPayment, SupplierPaymentAllocation } from '../types';
+import { groupPurchasesByGrn } from './purchases';
+
+export interface LegacyPaymentRecord {
+  id: string;
+  paidAmount: number;
+  paidDate: string;
+  paymentMethod: string;
+  notes?: string;
+}
+
+// Credit purchases entered through the medicine form, before invoices were
+// posted as purchases. Only the fields the ledger needs are listed.
+export interface CreditPurchaseSource {
+  id: string;
+  name: string;
+  brand: string;
+  quantity: number;
+  supplier?: string;
+  invoiceNumber?: string;
+  purchaseDate?: string;
+  createdAt?: string;
+  unitType?: string;
+  costPrice?: number;
+  costPriceGst?: number;
+  purchaseRatePerTablet?: number;
+  purchaseRatePerCapsule?: number;
+  paymentMethod?: string;
+  paidAmount?: number;
+  paymentRecords?: LegacyPaymentRecord[];
+}
+
+export interface LedgerInvoice {
+  id: string;
+  source: 'purchase' | 'medicine';
+  reference: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string;
+  amount: number;
+  paidAmount: number;
+  outstanding: number;
+  ageDays: number;
+  medicineId?: string;
+}
+
+export interface LedgerEntry {
+  date: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface AgeingBuckets {
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+}
+
+export interface SupplierLedger {
+  supplier: Supplier;
+  invoices: LedgerInvoice[];
+  entries: LedgerEntry[];
+  totalInvoiced: number;
+  totalPaid: number;
+  unallocated: number;
+  outstanding: number;
+  overdue: number;
+  ageing: AgeingBuckets;
+}
+
+export const SUPPLIER_PAYMENT_PREFIX = 'supplier-payment-';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string): boolean => {
+  return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+};
+
+export const calculateMedicineTotalPurchase = (medicine: CreditPurchaseSource): number => {
+  let baseAmount = 0;
+
+  if (medicine.unitType === 'tablets' || medicine.unitType === 'capsules') {
+    const ratePerUnit = medicine.unitType === 'tablets'
+      ? (medicine.purchaseRatePerTablet || 0)
+      : (medicine.purchaseRatePerCapsule || 0);
+    baseAmount = medicine.quantity * ratePerUnit;
+  } else if (medicine.unitType === 'strips') {
+    baseAmount = medicine.quantity * (medicine.purchaseRatePerTablet || 0);
+  } else {
+    baseAmount = medicine.quantity * (medicine.costPrice || 0);
+  }
+
+  const gstAmount = (baseAmount * (medicine.costPriceGst || 0)) / 100;
+  return baseAmount + gstAmount;
+};
+
+const sameName = (a?: string, b?: string): boolean => {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+};
+
+export const findSupplierByName = (suppliers: Supplier[], name: string): Supplier | undefined => {
+  return suppliers.find(supplier => sameName(supplier.name, name));
+};
+
+const belongsToSupplier = (supplier: Supplier, supplierId?: string, supplierName?: string): boolean => {
+  return supplierId ? supplierId === supplier.id : sameName(supplier.name, supplierName);
+};
+
+const getAgeDays = (date: string, today: Date): number => {
+  return Math.max(0, Math.floor((today.getTime() - new Date(date).getTime()) / DAY_MS));
+};
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+// Everything a supplier has billed us: posted purchase invoices plus the older
+// per-medicine credit purchases
+export const getSupplierInvoices = (
+  supplier: Supplier,
+  purchases: Purchase[],
+  payments: SupplierPayment[],
+  medicines: CreditPurchaseSource[],
+  today: Date = new Date()
+): LedgerInvoice[] => {
+  const allocated = (invoiceId: string) => payments
+    .filter(payment => payment.supplierId === supplier.id)
+    .reduce((sum, payment) => sum + payment.allocations
+      .filter(allocation => allocation.invoiceId === invoiceId)
+      .reduce((total, allocation) => total + allocation.amount, 0), 0);
+
+  const purchaseInvoices = groupPurchasesByGrn(
+    purchases.filter(purchase => belongsToSupplier(supplier, purchase.supplierId, purchase.supplier))
+  ).map(receipt => {
+    const id = `grn:${receipt.grnNumber}`;
+    const paidAmount = allocated(id);
+    return {
+      id,
+      source: 'purchase' as const,
+      reference: receipt.grnNumber,
+      invoiceNumber: receipt.invoiceNumber,
+      invoiceDate: receipt.purchaseDate,
+      dueDate: addDays(receipt.purchaseDate, supplier.creditDays),
+      amount: receipt.totalAmount,
+      paidAmount,
+      outstanding: Math.max(0, receipt.totalAmount - paidAmount),
+      ageDays: getAgeDays(receipt.purchaseDate, today),
+    };
+  });
+
+  const medicineInvoices = medicines
+    .filter(medicine => medicine.paymentMethod === 'credit' && sameName(supplier.name, medicine.supplier))
+    .map(medicine => {
+      const amount = calculateMedicineTotalPurchase(medicine);
+      const paidAmount = Math.min(medicine.paidAmount || 0, amount);
+      const invoiceDate = medicine.purchaseDate || (medicine.createdAt || today.toISOString()).split('T')[0];
+      return {
+        id: `medicine:${medicine.id}`,
+        source: 'medicine' as const,
+        reference: `${medicine.name} (${medicine.brand})`,
+        invoiceNumber: medicine.invoiceNumber || '',
+        invoiceDate,
+        dueDate: addDays(invoiceDate, supplier.creditDays),
+        amount,
+        paidAmount,
+        outstanding: Math.max(0, amount - paidAmount),
+        ageDays: getAgeDays(invoiceDate, today),
+        medicineId: medicine.id,
+      };
+    });
+
+  return [...purchaseInvoices, ...medicineInvoices].sort((a, b) =>
+    new Date(a.invoiceDate).getTime() - new Date(b.invoiceDate).getTime()
+  );
+};
+
+export const buildSupplierLedger = (
+  supplier: Supplier,
+  purchases: Purchase[],
+  payments: SupplierPayment[],
+  medicines: CreditPurchaseSource[],
+  today: Date = new Date()
+): SupplierLedger => {
+  const invoices = getSupplierInvoices(supplier, purchases, payments, medicines, today);
+  const supplierPayments = payments.filter(payment => payment.supplierId === supplier.id);
+
+  // Payments made one medicine at a time from the inventory screen. Records
+  // written by a supplier payment are already counted through that payment.
+  const medicinePayments = medicines
+    .filter(medicine => medicine.paymentMethod === 'credit' && sameName(supplier.name, medicine.supplier))
+    .flatMap(medicine => (medicine.paymentRecords || [])
+      .filter(record => !record.id.startsWith(SUPPLIER_PAYMENT_PREFIX))
+      .map(record => ({ medicine, record })));
+
+  const unallocated = supplierPayments.reduce((sum, payment) =>
+    sum + Math.max(0, payment.amount - payment.allocations.reduce((total, allocation) => total + allocation.amount, 0)), 0);
+
+  const ageing: AgeingBuckets = { days0to30: 0, days31to60: 0, days61to90: 0, days90plus: 0 };
+  let overdue = 0;
+  invoices.forEach(invoice => {
+    if (invoice.outstanding <= 0) return;
+    if (invoice.ageDays <= 30) ageing.days0to30 += invoice.outstanding;
+    else if (invoice.ageDays <= 60) ageing.days31to60 += invoice.outstanding;
+    else if (invoice.ageDays <= 90) ageing.days61to90 += invoice.outstanding;
+    else ageing.days90plus += invoice.outstanding;
+
+    if (new Date(invoice.dueDate).getTime() < today.getTime()) {
+      overdue += invoice.outstanding;
+    }
+  });
+
+  const rows = [
+    ...invoices.map(invoice => ({
+      date: invoice.invoiceDate,
+      description: invoice.source === 'purchase'
+        ? `Invoice ${invoice.invoiceNumber} (${invoice.reference})`
+        : `Credit purchase${invoice.invoiceNumber ? ` ${invoice.invoiceNumber}` : ''} - ${invoice.reference}`,
+      debit: invoice.amount,
+      credit: 0,
+    })),
+    ...supplierPayments.map(payment => ({
+      date: payment.paidDate,
+      description: `Payment (${payment.paymentMethod.replace('_', ' ')})${payment.reference ? ` - ${payment.reference}` : ''}`,
+      debit: 0,
+      credit: payment.amount,
+    })),
+    ...medicinePayments.map(({ medicine, record }) => ({
+      date: record.paidDate,
+      description: `Payment for ${medicine.name}${record.notes ? ` - ${record.notes}` : ''}`,
+      debit: 0,
+      credit: record.paidAmount,
+    })),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || b.debit - a.debit);
+
+  let balance = 0;
+  const entries: LedgerEntry[] = rows.map(row => {
+    balance += row.debit - row.credit;
+    return { ...row, balance };
+  });
+
+  const totalInvoiced = invoices.reduce((sum, invoice) => sum + invoice.amount, 0);
+  const invoiceOutstanding = invoices.reduce((sum, invoice) => sum + invoice.outstanding, 0);
+
+  return {
+    supplier,
+    invoices,
+    entries,
+    totalInvoiced,
+    totalPaid: rows.reduce((sum, row) => sum + row.credit, 0),
+    unallocated,
+    outstanding: invoiceOutstanding - unallocated,
+    overdue,
+    ageing,
+  };
+};
+
+// Spread a payment over open invoices, oldest first
+export const allocatePayment = (invoices: LedgerInvoice[], amount: number): SupplierPaymentAllocation[] => {
+  const allocations: SupplierPaymentAllocation[] = [];
+  let remaining = amount;
+
+  for (const invoice of invoices) {
+    if (remaining <= 0) break;
+    if (invoice.outstanding <= 0) continue;
+
+    const applied = Math.min(invoice.outstanding, remaining);
+    allocations.push({ invoiceId: invoice.id, amount: Math.round(applied * 100) / 100 });
+    remaining -= applied;
+  }
+
+  return allocations;
+};
@@ -0,0 +1,186 @@
+import { PrintSettings } from '../types';
+import { RECEIPT_COLUMNS, ReceiptLine, encodeEscPos, renderReceiptText } from './receipt';
+
+// WebUSB and Web Serial are not in the TypeScript DOM library yet, so only
+// the parts used here are declared
+interface USBEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+  type: 'bulk' | 'interrupt' | 'isochronous';
+}
+
+interface USBInterface {
+  interfaceNumber: number;
+  alternate: { endpoints: USBEndpoint[] };
+}
+
+interface USBDevice {
+  productName?: string;
+  configuration: { interfaces: USBInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface PrinterNavigator {
+  usb?: {
+    getDevices(): Promise<USBDevice[]>;
+    requestDevice(options: { filters: { classCode?: number }[] }): Promise<USBDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPort[]>;
+    requestPort(): Promise<SerialPort>;
+  };
+}
+
+export type PrinterTransport = 'usb' | 'serial' | 'server' | 'browser';
+
+// USB class 7 is the printer class most receipt printers report
+const USB_PRINTER_CLASS = 7;
+const SERIAL_BAUD_RATE = 9600;
+
+const printerNavigator = (): PrinterNavigator => navigator as unknown as PrinterNavigator;
+
+class ThermalPrinterService {
+  isUsbSupported(): boolean {
+    return !!printerNavigator().usb;
+  }
+
+  isSerialSupported(): boolean {
+    return !!printerNavigator().serial;
+  }
+
+  // Must be called from a click so the browser can show its device picker
+  async pairUsbPrinter(): Promise<string> {
+    const usb = printerNavigator().usb;
+    if (!usb) throw new Error('USB printing is not supported in this browser');
+    const device = await usb.requestDevice({ filters: [{ classCode: USB_PRINTER_CLASS }] });
+    return device.productName || 'USB printer';
+  }
+
+  async pairSerialPrinter(): Promise<void> {
+    const serial = printerNavigator().serial;
+    if (!serial) throw new Error('Serial printing is not supported in this browser');
+    await serial.requestPort();
+  }
+
+  // Prints on a paired USB or serial printer, then the print server, then the
+  // browser's own print dialog. Returns the route that was used.
+  async printReceipt(lines: ReceiptLine[], settings: PrintSettings): Promise<PrinterTransport> {
+    const columns = RECEIPT_COLUMNS[settings.receiptWidth];
+    const data = encodeEscPos(lines, columns);
+
+    const usbDevice = (await printerNavigator().usb?.getDevices())?.[0];
+    if (usbDevice) {
+      await this.writeUsb(usbDevice, data);
+      return 'usb';
+    }
+
+    const serialPort = (await printerNavigator().serial?.getPorts())?.[0];
+    if (serialPort) {
+      await this.writeSerial(serialPort, data);
+      return 'serial';
+    }
+
+    if (settings.printServerUrl) {
+      await this.sendToPrintServer(settings.printServerUrl, data);
+      return 'server';
+    }
+
+    this.printInBrowser(renderReceiptText(lines, columns), settings.receiptWidth);
+    return 'browser';
+  }
+
+  private async writeUsb(device: USBDevice, data: Uint8Array) {
+    await device.open();
+    try {
+      if (!device.configuration) {
+        await device.selectConfiguration(1);
+      }
+      const printerInterface = device.configuration?.interfaces.find(usbInterface =>
+        usbInterface.alternate.endpoints.some(endpoint => endpoint.direction === 'out' && endpoint.type === 'bulk')
+      );
+      const endpoint = printerInterface?.alternate.endpoints.find(e => e.direction === 'out' && e.type === 'bulk');
+      if (!printerInterface || !endpoint) {
+        throw new Error('The USB device does not accept print data');
+      }
+      await device.claimInterface(printerInterface.interfaceNumber);
+      await device.transferOut(endpoint.endpointNumber, data);
+      await device.releaseInterface(printerInterface.interfaceNumber);
+    } finally {
+      await device.close();
+    }
+  }
+
+  private async writeSerial(port: SerialPort, data: Uint8Array) {
+    await port.open({ baudRate: SERIAL_BAUD_RATE });
+    try {
+      const writer = port.writable?.getWriter();
+      if (!writer) throw new Error('The serial printer is not writable');
+      await writer.write(data);
+      writer.releaseLock();
+    } finally {
+      await port.close();
+    }
+  }
+
+  // A small local service that forwards raw ESC/POS bytes to the printer,
+  // for browsers without WebUSB or printers shared over the network
+  private async sendToPrintServer(url: string, data: Uint8Array) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      // A copy is backed by a plain ArrayBuffer, which is what fetch accepts
+      body: data.slice(),
+    });
+    if (!response.ok) {
+      throw new Error(`Print server returned ${response.status}`);
+    }
+  }
+
+  private printInBrowser(text: string, width: PrintSettings['receiptWidth']) {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      alert('Please allow pop-ups for this site to print.');
+      return;
+    }
+
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Receipt</title>
+          <style>
+            @page { size: ${width} auto; margin: 0; }
+            body { margin: 0; padding: 2mm; }
+            pre { font-family: 'Courier New', monospace; font-size: ${width === '58mm' ? '9px' : '10px'}; margin: 0; }
+          </style>
+        </head>
+        <body>
+          <pre>${escaped}</pre>
+          <script>
+            window.onload = function() {
+              window.print();
+              setTimeout(function() {
+                window.close();
+              }, 100);
+            }
+          </script>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+  }
+}
+
+export const thermalPrinter = new ThermalPrinterService();
@@ -0,0 +1,102 @@
+import { Customer, QueueToken } from '../types';
+
+// Opened in a separate tab, usually full screen on the waiting room TV
+export const WAITING_ROOM_HASH = '#/waiting-room';
+
+const TOKEN_CHANNEL = 'clinic_tokens';
+
+export const getTokensForDate = (tokens: QueueToken[], dateKey: string): QueueToken[] => {
+  return tokens
+    .filter(token => token.date === dateKey)
+    .sort((a, b) => a.number - b.number);
+};
+
+export const getServingToken = (tokens: QueueToken[], dateKey: string): QueueToken | undefined => {
+  return getTokensForDate(tokens, dateKey).find(token => token.status === 'serving');
+};
+
+export const getWaitingTokens = (tokens: QueueToken[], dateKey: string): QueueToken[] => {
+  return getTokensForDate(tokens, dateKey).filter(token => token.status === 'waiting');
+};
+
+export const issueToken = (tokens: QueueToken[], customer: Customer, dateKey: string, issuedBy: string): QueueToken => {
+  const lastNumber = getTokensForDate(tokens, dateKey).reduce((max, token) => Math.max(max, token.number), 0);
+  return {
+    id: Date.now().toString(),
+    number: lastNumber + 1,
+    date: dateKey,
+    customerId: customer.id,
+    patientId: customer.patientId,
+    customerName: customer.name,
+    status: 'waiting',
+    issuedAt: new Date().toISOString(),
+    issuedBy,
+  };
+};
+
+// Finishes the token being seen and calls the lowest waiting number
+export const callNextToken = (tokens: QueueToken[], dateKey: string, finishedStatus: 'done' | 'skipped' = 'done'): QueueToken[] => {
+  const now = new Date().toISOString();
+  const serving = getServingToken(tokens, dateKey);
+  const next = getWaitingTokens(tokens, dateKey)[0];
+
+  return tokens.map(token => {
+    if (token.id === serving?.id) {
+      return finishedStatus === 'done' ? { ...token, status: 'done', completedAt: now } : { ...token, status: 'skipped' };
+    }
+    if (token.id === next?.id) {
+      return { ...token, status: 'serving', calledAt: now };
+    }
+    return token;
+  });
+};
+
+// Announces the current token again, or brings back a skipped patient who has turned up
+export const recallToken = (tokens: QueueToken[], tokenId: string): QueueToken[] => {
+  const now = new Date().toISOString();
+  const recalled = tokens.find(token => token.id === tokenId);
+  if (!recalled) return tokens;
+
+  return tokens.map(token => {
+    if (token.id === tokenId) {
+      return { ...token, status: 'serving', recalledAt: now };
+    }
+    if (token.status === 'serving' && token.date === recalled.date) {
+      return { ...token, status: 'done', completedAt: now };
+    }
+    return token;
+  });
+};
+
+// Minutes from issue to first call, over the tokens called that day
+export const getAverageWaitMinutes = (tokens: QueueToken[], dateKey: string): number | null => {
+  const waits = getTokensForDate(tokens, dateKey)
+    .filter(token => token.calledAt)
+    .map(token => (new Date(token.calledAt!).getTime() - new Date(token.issuedAt).getTime()) / 60000);
+  if (waits.length === 0) return null;
+  return Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length);
+};
+
+export const formatWait = (minutes: number | null): string => {
+  if (minutes === null) return '-';
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Tabs on the same machine tell each other to reload the queue after a change.
+// Browsers without BroadcastChannel simply do not sync.
+export const tokenSync = {
+  notify: () => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(TOKEN_CHANNEL);
+    channel.postMessage('updated');
+    channel.close();
+  },
+
+  subscribe: (onChange: () => void): (() => void) => {
+    if (typeof BroadcastChannel === 'undefined') return () => {};
+    const channel = new BroadcastChannel(TOKEN_CHANNEL);
+    channel.onmessage = () => onChange();
+    return () => channel.close();
+  },
+};
@@ -0,0 +1,24 @@
+import { Visit, Vitals } from '../types';
+
+export const VITAL_FIELDS: { key: keyof Vitals; label: string; unit: string }[] = [
+  { key: 'bloodPressure', label: 'BP', unit: 'mmHg' },
+  { key: 'pulse', label: 'Pulse', unit: 'bpm' },
+  { key: 'temperature', label: 'Temp', unit: '°F' },
+  { key: 'weight', label: 'Weight', unit: 'kg' },
+  { key: 'spo2', label: 'SpO2', unit: '%' },
+  { key: 'bloodSugar', label: 'Sugar', unit: 'mg/dL' },
+];
+
+// Only the vitals that were taken, e.g. "BP 120/80 mmHg, Pulse 72 bpm"
+export const formatVitals = (vitals: Vitals): string[] => {
+  return VITAL_FIELDS
+    .filter(({ key }) => vitals[key] !== undefined && vitals[key] !== '')
+    .map(({ key, label, unit }) => `${label} ${vitals[key]} ${unit}`);
+};
+
+// Newest first
+export const getVisitsForPatient = (visits: Visit[], customerId: string): Visit[] => {
+  return visits
+    .filter(visit => visit.customerId === customerId)
+    .sort((a, b) => b.visitDate.localeCompare(a.visitDate) || b.createdAt.localeCompare(a.createdAt));
+};